@@ -6,13 +6,20 @@ import ProgramManagerDashboard from './components/ProgramManagerDashboard';
 import AdminDashboard from './components/AdminDashboard';
 import AccountSettingsPage from './components/AccountSettingsPage';
 import ResetPasswordPage from './components/ResetPasswordPage';
+import ReceiptViewerPage from './components/ReceiptViewerPage';
+import NotificationCenter from './components/NotificationCenter';
 import { User, UserRole } from './types';
 import { getUser, getUserProfileSecure, signOut, onAuthStateChange } from './src/lib/auth';
+import { NotificationTarget } from './src/lib/notifications';
+import { parseReceiptViewerPath } from './src/lib/receiptOcr';
 
 const App: React.FC = () => {
   const [user, setUser] = useState<User | null>(null);
   const [isCheckingSession, setIsCheckingSession] = useState(true);
   const [isAccountSettingsOpen, setIsAccountSettingsOpen] = useState(false);
+  const [isNotificationCenterOpen, setIsNotificationCenterOpen] = useState(false);
+  const [notificationTarget, setNotificationTarget] = useState<NotificationTarget | null>(null);
+  const [receiptViewerUrl, setReceiptViewerUrl] = useState(() => parseReceiptViewerPath(window.location.pathname));
   const isResetPasswordRoute = window.location.pathname === '/auth/reset-password';
 
   // Check for existing Supabase session on mount
@@ -82,6 +89,7 @@ const App: React.FC = () => {
   const handleLogin = (loggedInUser: User) => {
     setUser(loggedInUser);
     setIsAccountSettingsOpen(false);
+    setIsNotificationCenterOpen(false);
   };
 
   const handleLogout = async () => {
@@ -89,19 +97,41 @@ const App: React.FC = () => {
       await signOut();
       setUser(null);
       setIsAccountSettingsOpen(false);
+      setIsNotificationCenterOpen(false);
+      setNotificationTarget(null);
     } catch (error) {
       console.error('Error signing out:', error);
     }
   };
 
   const handleOpenAccountSettings = () => {
+    setIsNotificationCenterOpen(false);
     setIsAccountSettingsOpen(true);
   };
 
+  const handleOpenNotificationCenter = () => {
+    setIsAccountSettingsOpen(false);
+    setIsNotificationCenterOpen(true);
+  };
+
+  const handleOpenNotificationTarget = (target: NotificationTarget) => {
+    setNotificationTarget(target);
+    setIsNotificationCenterOpen(false);
+  };
+
+  const handleNavigationHandled = () => {
+    setNotificationTarget(null);
+  };
+
   const handleCloseAccountSettings = () => {
     setIsAccountSettingsOpen(false);
   };
 
+  const handleCloseReceiptViewer = () => {
+    window.history.replaceState(null, '', '/');
+    setReceiptViewerUrl(null);
+  };
+
   const handleProfileUpdated = (updates: Partial<User>) => {
     setUser((currentUser) => currentUser ? { ...currentUser, ...updates } : currentUser);
   };
@@ -111,6 +141,11 @@ const App: React.FC = () => {
     return <ResetPasswordPage />;
   }
 
+  // Receipt links from exports land here; signed-out users see the login first.
+  if (user && receiptViewerUrl) {
+    return <ReceiptViewerPage receiptUrl={receiptViewerUrl} onBack={handleCloseReceiptViewer} />;
+  }
+
   if (user && isAccountSettingsOpen) {
     return (
       <AccountSettingsPage
@@ -122,6 +157,16 @@ const App: React.FC = () => {
     );
   }
 
+  if (user && isNotificationCenterOpen) {
+    return (
+      <NotificationCenter
+        user={user}
+        onBack={() => setIsNotificationCenterOpen(false)}
+        onOpenTarget={handleOpenNotificationTarget}
+      />
+    );
+  }
+
   if (isCheckingSession) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -137,18 +182,39 @@ const App: React.FC = () => {
     switch (user.role) {
       case UserRole.ADMIN:
         // Admins get dedicated admin dashboard with user management
-        return <AdminDashboard user={user} onLogout={handleLogout} onAccountSettings={handleOpenAccountSettings} />;
+        return (
+          <AdminDashboard
+            user={user}
+            onLogout={handleLogout}
+            onAccountSettings={handleOpenAccountSettings}
+            onNotifications={handleOpenNotificationCenter}
+            navigationTarget={notificationTarget}
+            onNavigationHandled={handleNavigationHandled}
+          />
+        );
       case UserRole.PROGRAM_MANAGER:
         return (
           <ProgramManagerDashboard
             user={user}
             onLogout={handleLogout}
             onAccountSettings={handleOpenAccountSettings}
+            onNotifications={handleOpenNotificationCenter}
+            navigationTarget={notificationTarget}
+            onNavigationHandled={handleNavigationHandled}
           />
         );
       case UserRole.PARTICIPANT:
       default:
-        return <Dashboard user={user} onLogout={handleLogout} onAccountSettings={handleOpenAccountSettings} />;
+        return (
+          <Dashboard
+            user={user}
+            onLogout={handleLogout}
+            onAccountSettings={handleOpenAccountSettings}
+            onNotifications={handleOpenNotificationCenter}
+            navigationTarget={notificationTarget}
+            onNavigationHandled={handleNavigationHandled}
+          />
+        );
     }
   };
 
@@ -0,0 +1,329 @@
+import { randomUUID } from 'node:crypto'
+import { mkdir, writeFile } from 'node:fs/promises'
+import net from 'node:net'
+import path from 'node:path'
+import tls from 'node:tls'
+import { getEnvValue } from './supabaseServer'
+
+/**
+ * Outgoing email for NODE-runtime functions (SMTP needs raw sockets, which the
+ * edge runtime does not have).
+ *
+ * EMAIL_TRANSPORT picks the adapter:
+ *
+ *   smtp  - SMTP_HOST, SMTP_PORT (default 587, or 465 with SMTP_SECURE=true),
+ *           optional SMTP_USER / SMTP_PASSWORD. Upgrades with STARTTLS when the
+ *           server offers it; SMTP_SECURE=true connects over TLS from the start.
+ *           Credentials are only sent over TLS.
+ *   sink  - writes each message as an .eml file to EMAIL_SINK_DIR (default
+ *           .email-sink) instead of sending it, for local development and
+ *           testing. Open the files in any mail client.
+ *
+ * When EMAIL_TRANSPORT is unset, SMTP is used if SMTP_HOST is present.
+ * Messages are sent from EMAIL_FROM (falling back to SENDGRID_FROM_EMAIL).
+ */
+
+export interface EmailAttachment {
+  filename: string
+  contentType: string
+  content: Uint8Array
+}
+
+export interface EmailMessage {
+  to: string[]
+  subject: string
+  text: string
+  html?: string
+  attachments?: EmailAttachment[]
+}
+
+export interface EmailTransport {
+  name: string
+  send(message: EmailMessage): Promise<{ messageId: string }>
+}
+
+export type EmailTransportName = 'smtp' | 'sink'
+
+export interface SmtpOptions {
+  host: string
+  port: number
+  secure: boolean
+  user?: string
+  password?: string
+  from: string
+}
+
+const DEFAULT_FROM = 'noreply@goldenbridge.org'
+const DEFAULT_SINK_DIR = '.email-sink'
+const SMTP_TIMEOUT_MS = 30_000
+
+function encodeHeader(value: string) {
+  // RFC 2047 encoded-word for anything outside printable ASCII
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`
+}
+
+function wrapBase64(content: Uint8Array | string) {
+  const encoded = Buffer.from(content).toString('base64')
+  return encoded.match(/.{1,76}/g)?.join('\r\n') ?? ''
+}
+
+export function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function messageDomain(from: string) {
+  return from.split('@')[1]?.replace(/[^a-zA-Z0-9.-]/g, '') || 'localhost'
+}
+
+/**
+ * Build an RFC 5322 message: text (and HTML when given) alternatives plus
+ * base64 attachments.
+ */
+export function buildMimeMessage(from: string, message: EmailMessage, messageId: string) {
+  const mixedBoundary = `mixed_${randomUUID()}`
+  const alternativeBoundary = `alt_${randomUUID()}`
+  const lines = [
+    `From: ${from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/mixed; boundary="${mixedBoundary}"`,
+    '',
+    `--${mixedBoundary}`,
+    `Content-Type: multipart/alternative; boundary="${alternativeBoundary}"`,
+    '',
+    `--${alternativeBoundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrapBase64(message.text),
+  ]
+
+  if (message.html) {
+    lines.push(
+      `--${alternativeBoundary}`,
+      'Content-Type: text/html; charset=UTF-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      wrapBase64(message.html)
+    )
+  }
+  lines.push(`--${alternativeBoundary}--`)
+
+  for (const attachment of message.attachments ?? []) {
+    const filename = attachment.filename.replace(/["\\\r\n]/g, '_')
+    lines.push(
+      `--${mixedBoundary}`,
+      `Content-Type: ${attachment.contentType}; name="${filename}"`,
+      'Content-Transfer-Encoding: base64',
+      `Content-Disposition: attachment; filename="${filename}"`,
+      '',
+      wrapBase64(attachment.content)
+    )
+  }
+
+  lines.push(`--${mixedBoundary}--`, '')
+  return lines.join('\r\n')
+}
+
+// Reads SMTP replies, joining multi-line ones ("250-..." up to "250 ...").
+function createReplyReader(socket: net.Socket) {
+  let buffer = ''
+  let lines: string[] = []
+  const replies: { code: number; text: string }[] = []
+  const waiting: ((reply: { code: number; text: string }) => void)[] = []
+  let failure: Error | null = null
+  const failed: ((error: Error) => void)[] = []
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8')
+    let newline = buffer.indexOf('\r\n')
+    while (newline >= 0) {
+      const line = buffer.slice(0, newline)
+      buffer = buffer.slice(newline + 2)
+      lines.push(line)
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: Number(line.slice(0, 3)), text: lines.map((entry) => entry.slice(4)).join('\n') }
+        lines = []
+        const next = waiting.shift()
+        if (next) {
+          next(reply)
+        } else {
+          replies.push(reply)
+        }
+      }
+      newline = buffer.indexOf('\r\n')
+    }
+  }
+
+  const onError = (error: Error) => {
+    failure = error
+    failed.splice(0).forEach((reject) => reject(error))
+  }
+
+  socket.on('data', onData)
+  socket.on('error', onError)
+  socket.on('close', () => onError(new Error('SMTP connection closed unexpectedly.')))
+
+  return {
+    next() {
+      const queued = replies.shift()
+      if (queued) {
+        return Promise.resolve(queued)
+      }
+      if (failure) {
+        return Promise.reject(failure)
+      }
+      return new Promise<{ code: number; text: string }>((resolve, reject) => {
+        waiting.push(resolve)
+        failed.push(reject)
+      })
+    },
+    detach() {
+      socket.off('data', onData)
+      socket.removeAllListeners('error')
+      socket.removeAllListeners('close')
+    },
+  }
+}
+
+function connectSocket(options: SmtpOptions) {
+  return new Promise<net.Socket>((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host }, () => resolve(socket))
+      : net.connect({ host: options.host, port: options.port }, () => resolve(socket))
+    socket.once('error', reject)
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('SMTP connection timed out.')))
+  })
+}
+
+function upgradeToTls(socket: net.Socket, host: string) {
+  return new Promise<tls.TLSSocket>((resolve, reject) => {
+    const secureSocket = tls.connect({ socket, servername: host }, () => resolve(secureSocket))
+    secureSocket.once('error', reject)
+    secureSocket.setTimeout(SMTP_TIMEOUT_MS, () => secureSocket.destroy(new Error('SMTP connection timed out.')))
+  })
+}
+
+export function createSmtpTransport(options: SmtpOptions): EmailTransport {
+  return {
+    name: 'smtp',
+    async send(message) {
+      const messageId = `<${randomUUID()}@${messageDomain(options.from)}>`
+      let socket = await connectSocket(options)
+      let reader = createReplyReader(socket)
+
+      // `label` names the step in errors, so credentials and the message body
+      // never end up in logs.
+      const command = async (line: string | null, expected: number[], label = line ?? 'greeting') => {
+        if (line !== null) {
+          socket.write(`${line}\r\n`)
+        }
+        const reply = await reader.next()
+        if (!expected.includes(reply.code)) {
+          throw new Error(`SMTP ${label} failed: ${reply.code} ${reply.text}`)
+        }
+        return reply
+      }
+
+      try {
+        await command(null, [220])
+        const capabilities = await command(`EHLO ${messageDomain(options.from)}`, [250])
+
+        if (!options.secure && /^STARTTLS$/im.test(capabilities.text)) {
+          await command('STARTTLS', [220])
+          reader.detach()
+          socket = await upgradeToTls(socket, options.host)
+          reader = createReplyReader(socket)
+          await command(`EHLO ${messageDomain(options.from)}`, [250])
+        }
+
+        if (options.user) {
+          // AUTH PLAIN is only base64; never send it over a cleartext connection.
+          if (!(socket instanceof tls.TLSSocket)) {
+            throw new Error('SMTP server did not offer STARTTLS. Set SMTP_SECURE=true or enable STARTTLS on the server to send credentials.')
+          }
+          const credentials = Buffer.from(`\u0000${options.user}\u0000${options.password ?? ''}`, 'utf8').toString('base64')
+          await command(`AUTH PLAIN ${credentials}`, [235], 'AUTH')
+        }
+
+        await command(`MAIL FROM:<${options.from}>`, [250])
+        for (const recipient of message.to) {
+          await command(`RCPT TO:<${recipient}>`, [250, 251])
+        }
+        await command('DATA', [354])
+
+        // Dot-stuff lines that start with "." (RFC 5321 4.5.2)
+        const body = buildMimeMessage(options.from, message, messageId).replace(/\r\n\./g, '\r\n..')
+        await command(`${body}\r\n.`, [250], 'message')
+        await command('QUIT', [221]).catch(() => undefined)
+      } finally {
+        reader.detach()
+        socket.destroy()
+      }
+
+      return { messageId }
+    },
+  }
+}
+
+export function createSinkTransport(directory: string, from: string): EmailTransport {
+  return {
+    name: 'sink',
+    async send(message) {
+      const id = randomUUID()
+      const messageId = `<${id}@${messageDomain(from)}>`
+      const filePath = path.resolve(directory, `${new Date().toISOString().replace(/[:.]/g, '-')}_${id}.eml`)
+
+      await mkdir(path.dirname(filePath), { recursive: true })
+      await writeFile(filePath, buildMimeMessage(from, message, messageId))
+      console.info(`Email to ${message.to.join(', ')} written to ${filePath}`)
+
+      return { messageId }
+    },
+  }
+}
+
+export function getEmailFrom() {
+  return getEnvValue('EMAIL_FROM', 'SENDGRID_FROM_EMAIL') || DEFAULT_FROM
+}
+
+export function getEmailTransport(): EmailTransport | null {
+  const requested = getEnvValue('EMAIL_TRANSPORT')?.trim().toLowerCase()
+  const host = getEnvValue('SMTP_HOST')
+
+  const smtp = (smtpHost: string) => {
+    const secure = getEnvValue('SMTP_SECURE')?.trim().toLowerCase() === 'true'
+    const port = Number.parseInt(getEnvValue('SMTP_PORT') ?? '', 10)
+    return createSmtpTransport({
+      host: smtpHost,
+      port: Number.isFinite(port) ? port : secure ? 465 : 587,
+      secure,
+      user: getEnvValue('SMTP_USER'),
+      password: getEnvValue('SMTP_PASSWORD'),
+      from: getEmailFrom(),
+    })
+  }
+
+  if (!requested) {
+    return host ? smtp(host) : null
+  }
+
+  switch (requested as EmailTransportName) {
+    case 'smtp':
+      if (!host) {
+        throw new Error('EMAIL_TRANSPORT is smtp but SMTP_HOST is not set.')
+      }
+      return smtp(host)
+    case 'sink':
+      return createSinkTransport(getEnvValue('EMAIL_SINK_DIR') || DEFAULT_SINK_DIR, getEmailFrom())
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${requested}". Use smtp or sink.`)
+  }
+}
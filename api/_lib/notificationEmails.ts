@@ -0,0 +1,209 @@
+import { normalizeNotificationType, type NotificationType } from '../../src/lib/notificationShared'
+import { escapeHtml } from './email'
+import { getEnvValue } from './supabaseServer'
+
+export interface NotificationEmailItem {
+  type: string
+  title: string
+  message: string
+  created_at: string | null
+}
+
+export interface RenderedNotificationEmail {
+  subject: string
+  text: string
+  html: string
+}
+
+interface NotificationTemplate {
+  // Subject prefix, and the heading for this type's section of a digest
+  label: string
+  intro: string
+  action: string
+}
+
+const TEMPLATES: Record<NotificationType, NotificationTemplate> = {
+  assignment: {
+    label: 'New milestone',
+    intro: 'A milestone has been assigned to you.',
+    action: 'View your milestones',
+  },
+  feedback: {
+    label: 'Feedback',
+    intro: 'Your program manager left feedback on your progress.',
+    action: 'Read the feedback',
+  },
+  deadline: {
+    label: 'Deadline',
+    intro: 'A deadline in your program is coming up.',
+    action: 'Review your deadlines',
+  },
+  decline: {
+    label: 'Milestone declined',
+    intro: 'A participant declined a milestone you assigned.',
+    action: 'Review the assignment',
+  },
+  progress_report: {
+    label: 'Progress report',
+    intro: 'A participant in your program submitted a progress report.',
+    action: 'Read the report',
+  },
+  milestone_completed: {
+    label: 'Milestone completed',
+    intro: 'A participant in your program completed a milestone.',
+    action: 'Review the milestone',
+  },
+  milestone_review: {
+    label: 'Milestone review',
+    intro: 'Your program manager reviewed a milestone you completed.',
+    action: 'View the milestone',
+  },
+  budget_exceeded: {
+    label: 'Budget exceeded',
+    intro: 'A participant in your program has spent more than their cycle budget.',
+    action: 'Review their expenses',
+  },
+  comment: {
+    label: 'New comment',
+    intro: 'There is a new comment on a milestone you are following.',
+    action: 'Read the discussion',
+  },
+  mention: {
+    label: 'Mention',
+    intro: 'Someone mentioned you in a comment.',
+    action: 'Read the comment',
+  },
+  general: {
+    label: 'Notification',
+    intro: 'You have a new notification.',
+    action: 'Open Golden Bridge',
+  },
+}
+
+// Digest sections are listed in this order.
+const TYPE_ORDER: NotificationType[] = [
+  'deadline',
+  'mention',
+  'budget_exceeded',
+  'milestone_review',
+  'assignment',
+  'milestone_completed',
+  'progress_report',
+  'feedback',
+  'comment',
+  'decline',
+  'general',
+]
+
+const FOOTER = 'You are receiving this because email notifications are turned on for your account. You can change this under Account settings.'
+
+function getAppUrl() {
+  return getEnvValue('APP_URL', 'NEXT_PUBLIC_APP_URL')?.replace(/\/+$/, '')
+}
+
+function greeting(recipientName: string | null) {
+  return recipientName ? `Hi ${recipientName},` : 'Hi,'
+}
+
+function formatDate(value: string | null) {
+  if (!value) {
+    return ''
+  }
+
+  const date = new Date(value)
+  return Number.isNaN(date.getTime())
+    ? ''
+    : date.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZone: 'UTC' }) + ' UTC'
+}
+
+function actionLines(action: string, appUrl: string | undefined) {
+  return {
+    text: appUrl ? [`${action}: ${appUrl}`, ''] : [],
+    html: appUrl ? `<p><a href="${escapeHtml(appUrl)}">${escapeHtml(action)}</a></p>` : '',
+  }
+}
+
+/** One notification as its own email, worded for its type. */
+export function renderNotificationEmail(notification: NotificationEmailItem, recipientName: string | null): RenderedNotificationEmail {
+  const template = TEMPLATES[normalizeNotificationType(notification.type)]
+  const action = actionLines(template.action, getAppUrl())
+
+  return {
+    subject: `${template.label}: ${notification.title}`,
+    text: [
+      greeting(recipientName),
+      '',
+      template.intro,
+      '',
+      notification.title,
+      notification.message,
+      '',
+      ...action.text,
+      'Golden Bridge',
+      '',
+      FOOTER,
+    ].join('\n'),
+    html: [
+      `<p>${escapeHtml(greeting(recipientName))}</p>`,
+      `<p>${escapeHtml(template.intro)}</p>`,
+      `<p><strong>${escapeHtml(notification.title)}</strong><br>${escapeHtml(notification.message)}</p>`,
+      action.html,
+      '<p>Golden Bridge</p>',
+      `<p style="color:#6b7280;font-size:12px">${escapeHtml(FOOTER)}</p>`,
+    ].join(''),
+  }
+}
+
+/** A day's notifications in one email, grouped by type. */
+export function renderNotificationDigest(notifications: NotificationEmailItem[], recipientName: string | null): RenderedNotificationEmail {
+  const groups = TYPE_ORDER.map((type) => ({
+    template: TEMPLATES[type],
+    items: notifications.filter((notification) => normalizeNotificationType(notification.type) === type),
+  })).filter((group) => group.items.length > 0)
+
+  const count = notifications.length
+  const summary = `You have ${count} new notification${count === 1 ? '' : 's'} since your last digest.`
+  const action = actionLines('Open Golden Bridge', getAppUrl())
+
+  const textSections = groups.flatMap((group) => [
+    `${group.template.label} (${group.items.length})`,
+    ...group.items.map((item) => {
+      const date = formatDate(item.created_at)
+      return `- ${item.title}: ${item.message}${date ? ` (${date})` : ''}`
+    }),
+    '',
+  ])
+
+  const htmlSections = groups.map((group) => [
+    `<h3 style="margin-bottom:4px">${escapeHtml(group.template.label)} (${group.items.length})</h3>`,
+    '<ul>',
+    ...group.items.map((item) => {
+      const date = formatDate(item.created_at)
+      return `<li><strong>${escapeHtml(item.title)}</strong>: ${escapeHtml(item.message)}${date ? ` <span style="color:#6b7280">(${escapeHtml(date)})</span>` : ''}</li>`
+    }),
+    '</ul>',
+  ].join(''))
+
+  return {
+    subject: `Your Golden Bridge daily digest: ${count} new notification${count === 1 ? '' : 's'}`,
+    text: [
+      greeting(recipientName),
+      '',
+      summary,
+      '',
+      ...textSections,
+      ...action.text,
+      'Golden Bridge',
+      '',
+      FOOTER,
+    ].join('\n'),
+    html: [
+      `<p>${escapeHtml(greeting(recipientName))}</p>`,
+      `<p>${escapeHtml(summary)}</p>`,
+      ...htmlSections,
+      action.html,
+      '<p>Golden Bridge</p>',
+      `<p style="color:#6b7280;font-size:12px">${escapeHtml(FOOTER)}</p>`,
+    ].join(''),
+  }
+}
@@ -0,0 +1,212 @@
+import { isPdfReceipt, parseReceiptOcrAnalysis, type ReceiptOcrAnalysis } from '../../src/lib/receiptOcrShared'
+import { getEnvValue } from './supabaseServer'
+
+/**
+ * Receipt OCR providers for the edge-runtime receipt handler.
+ *
+ * Every provider turns a receipt image plus the shared prompt into raw model
+ * text and runs it through parseReceiptOcrAnalysis, so vendors can be swapped
+ * with RECEIPT_OCR_PROVIDER without touching the handler:
+ *
+ *   gemini  - Google Gemini (GEMINI_API_KEY, optional GEMINI_MODEL)
+ *   openai  - any OpenAI-compatible chat completions endpoint
+ *             (OPENAI_API_KEY, optional OPENAI_BASE_URL and OPENAI_OCR_MODEL)
+ *   stub    - no network; returns OCR_STUB_RESPONSE (or a fixed sample) for
+ *             offline development and testing of the full upload path
+ *
+ * Images and PDFs are both sent as-is. The receipt handler refuses PDFs with
+ * more than MAX_RECEIPT_PDF_PAGES pages before they get here; a PDF whose
+ * pages cannot be counted (compressed object streams) is sent whole, and the
+ * prompt's "first pages" instruction is then the only limit.
+ *
+ * When RECEIPT_OCR_PROVIDER is unset, Gemini is used if its key is present.
+ */
+
+export interface ReceiptImage {
+  data: ArrayBuffer
+  mimeType: string
+}
+
+export interface OcrProvider {
+  name: string
+  analyze(image: ReceiptImage, prompt: string): Promise<ReceiptOcrAnalysis>
+}
+
+export type OcrProviderName = 'gemini' | 'openai' | 'stub'
+
+const DEFAULT_GEMINI_MODEL = 'gemini-1.5-flash'
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1'
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini'
+
+const DEFAULT_STUB_RESPONSE = JSON.stringify([
+  { item: 'Sample receipt item', amount: 12.5, date: new Date().toISOString().split('T')[0] },
+])
+
+function arrayBufferToBase64(buffer: ArrayBuffer) {
+  const bytes = new Uint8Array(buffer)
+  let binary = ''
+
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
+  }
+
+  return btoa(binary)
+}
+
+export function createGeminiProvider(apiKey: string, model = DEFAULT_GEMINI_MODEL): OcrProvider {
+  return {
+    name: 'gemini',
+    async analyze(image, prompt) {
+      const response = await fetch(
+        `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            contents: [
+              {
+                role: 'user',
+                parts: [
+                  { text: prompt },
+                  {
+                    inlineData: {
+                      mimeType: image.mimeType,
+                      data: arrayBufferToBase64(image.data),
+                    },
+                  },
+                ],
+              },
+            ],
+            generationConfig: {
+              temperature: 0.2,
+              responseMimeType: 'application/json',
+            },
+          }),
+        }
+      )
+
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null)
+        throw new Error(payload?.error?.message || `Gemini request failed with status ${response.status}`)
+      }
+
+      const payload = await response.json()
+      const text = payload?.candidates?.[0]?.content?.parts
+        ?.map((part: { text?: string }) => part.text || '')
+        .join('') || ''
+
+      return parseReceiptOcrAnalysis(text)
+    },
+  }
+}
+
+// Chat completions take images as image_url parts and documents as file parts.
+function attachmentPart(image: ReceiptImage) {
+  const dataUrl = `data:${image.mimeType};base64,${arrayBufferToBase64(image.data)}`
+
+  return isPdfReceipt(image.mimeType)
+    ? { type: 'file', file: { filename: 'receipt.pdf', file_data: dataUrl } }
+    : { type: 'image_url', image_url: { url: dataUrl } }
+}
+
+export function createOpenAICompatibleProvider(options: {
+  apiKey: string
+  baseUrl?: string
+  model?: string
+}): OcrProvider {
+  const baseUrl = (options.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '')
+  const model = options.model || DEFAULT_OPENAI_MODEL
+
+  return {
+    name: 'openai',
+    async analyze(image, prompt) {
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${options.apiKey}`,
+        },
+        body: JSON.stringify({
+          model,
+          temperature: 0.2,
+          messages: [
+            {
+              role: 'user',
+              content: [
+                { type: 'text', text: prompt },
+                attachmentPart(image),
+              ],
+            },
+          ],
+        }),
+      })
+
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null)
+        throw new Error(payload?.error?.message || `OCR request to ${baseUrl} failed with status ${response.status}`)
+      }
+
+      const payload = await response.json()
+      const content = payload?.choices?.[0]?.message?.content
+      // Some compatible servers return content as an array of text parts.
+      const text = Array.isArray(content)
+        ? content.map((part: { text?: string }) => part.text || '').join('')
+        : typeof content === 'string' ? content : ''
+
+      return parseReceiptOcrAnalysis(text)
+    },
+  }
+}
+
+/**
+ * Offline provider: ignores the image and parses a canned model response, so
+ * the parser and the upload path behave exactly as they do with a real vendor.
+ */
+export function createStubProvider(responseText = DEFAULT_STUB_RESPONSE): OcrProvider {
+  return {
+    name: 'stub',
+    async analyze() {
+      return parseReceiptOcrAnalysis(responseText)
+    },
+  }
+}
+
+/**
+ * Resolve the configured OCR provider. Returns null when OCR is not
+ * configured; throws when RECEIPT_OCR_PROVIDER names an unknown provider or
+ * one whose credentials are missing, so misconfiguration is logged instead of
+ * silently disabling OCR.
+ */
+export function getOcrProvider(): OcrProvider | null {
+  const requested = getEnvValue('RECEIPT_OCR_PROVIDER')?.trim().toLowerCase()
+  const geminiApiKey = getEnvValue('GEMINI_API_KEY')
+
+  if (!requested) {
+    return geminiApiKey ? createGeminiProvider(geminiApiKey, getEnvValue('GEMINI_MODEL')) : null
+  }
+
+  switch (requested as OcrProviderName) {
+    case 'gemini':
+      if (!geminiApiKey) {
+        throw new Error('RECEIPT_OCR_PROVIDER is gemini but GEMINI_API_KEY is not set.')
+      }
+      return createGeminiProvider(geminiApiKey, getEnvValue('GEMINI_MODEL'))
+    case 'openai': {
+      const apiKey = getEnvValue('OPENAI_API_KEY')
+      if (!apiKey) {
+        throw new Error('RECEIPT_OCR_PROVIDER is openai but OPENAI_API_KEY is not set.')
+      }
+      return createOpenAICompatibleProvider({
+        apiKey,
+        baseUrl: getEnvValue('OPENAI_BASE_URL'),
+        model: getEnvValue('OPENAI_OCR_MODEL'),
+      })
+    }
+    case 'stub':
+      return createStubProvider(getEnvValue('OCR_STUB_RESPONSE'))
+    default:
+      throw new Error(`Unknown RECEIPT_OCR_PROVIDER "${requested}". Use gemini, openai, or stub.`)
+  }
+}
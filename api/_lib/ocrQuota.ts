@@ -0,0 +1,209 @@
+import type { OcrLimitType, OcrQuotaStatus } from '../../src/lib/receiptOcrShared'
+import { getEnvValue, type ServiceClient } from './supabaseServer'
+
+/**
+ * Rate limits and daily quotas for receipt OCR.
+ *
+ * Three limits apply to every analysis request, checked in this order:
+ *
+ *   burst          - OCR_RATE_LIMIT_MAX_REQUESTS per OCR_RATE_LIMIT_WINDOW_SECONDS
+ *                    per user (default 6 per 60s)
+ *   user_daily     - OCR_DAILY_USER_QUOTA per user per UTC day (default 50;
+ *                    0 or less disables it)
+ *   program_daily  - program_ocr_quotas.daily_limit, set by admins per program
+ *
+ * OCR_RATE_LIMIT_STORE picks where counts live: "postgres" (default, shared by
+ * every edge instance and survives cold starts) or "memory" (per instance, for
+ * local development without the migration; program quotas are not enforced).
+ */
+
+export interface OcrQuotaLimits {
+  windowSeconds: number
+  windowLimit: number
+  userDailyLimit: number | null
+}
+
+export interface OcrQuotaDecision {
+  allowed: boolean
+  limitType?: OcrLimitType
+  retryAfterSeconds: number
+}
+
+export interface OcrQuotaStore {
+  name: string
+  consume(userId: string, programId: string | null, limits: OcrQuotaLimits): Promise<OcrQuotaDecision>
+  status(userId: string, programId: string | null, limits: OcrQuotaLimits): Promise<OcrQuotaStatus>
+}
+
+const DEFAULT_WINDOW_SECONDS = 60
+const DEFAULT_WINDOW_LIMIT = 6
+const DEFAULT_USER_DAILY_LIMIT = 50
+
+const QUOTA_MESSAGES: Record<OcrLimitType, string> = {
+  burst: 'Too many receipt OCR requests. Please try again later.',
+  user_daily: 'You have reached your daily receipt scan limit. Please enter details manually or try again tomorrow.',
+  program_daily: "Your program has reached today's receipt scan limit. Please enter details manually or try again tomorrow.",
+}
+
+function readIntEnv(key: string, fallback: number) {
+  const value = Number.parseInt(getEnvValue(key) ?? '', 10)
+  return Number.isFinite(value) ? value : fallback
+}
+
+function nextUtcMidnight(now = new Date()) {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+}
+
+export function getOcrQuotaLimits(): OcrQuotaLimits {
+  const userDailyLimit = readIntEnv('OCR_DAILY_USER_QUOTA', DEFAULT_USER_DAILY_LIMIT)
+
+  return {
+    windowSeconds: Math.max(1, readIntEnv('OCR_RATE_LIMIT_WINDOW_SECONDS', DEFAULT_WINDOW_SECONDS)),
+    windowLimit: Math.max(1, readIntEnv('OCR_RATE_LIMIT_MAX_REQUESTS', DEFAULT_WINDOW_LIMIT)),
+    userDailyLimit: userDailyLimit > 0 ? userDailyLimit : null,
+  }
+}
+
+export function createPostgresQuotaStore(serviceClient: ServiceClient): OcrQuotaStore {
+  return {
+    name: 'postgres',
+    async consume(userId, programId, limits) {
+      const { data, error } = await serviceClient.rpc('consume_ocr_quota', {
+        p_user_id: userId,
+        p_window_seconds: limits.windowSeconds,
+        p_window_limit: limits.windowLimit,
+        p_program_id: programId ?? undefined,
+        p_user_daily_limit: limits.userDailyLimit ?? undefined,
+      })
+
+      if (error) {
+        throw error
+      }
+
+      const decision = data?.[0]
+      if (!decision) {
+        throw new Error('consume_ocr_quota returned no decision.')
+      }
+
+      return {
+        allowed: decision.allowed,
+        limitType: (decision.limit_type as OcrLimitType | null) ?? undefined,
+        retryAfterSeconds: decision.retry_after_seconds,
+      }
+    },
+    async status(userId, programId, limits) {
+      const { data, error } = await serviceClient.rpc('get_ocr_quota_usage', {
+        p_user_id: userId,
+        p_program_id: programId ?? undefined,
+      })
+
+      if (error) {
+        throw error
+      }
+
+      const usage = data?.[0]
+      return {
+        userDailyLimit: limits.userDailyLimit,
+        userUsedToday: usage?.user_used_today ?? 0,
+        programDailyLimit: usage?.program_daily_limit ?? null,
+        programUsedToday: usage?.program_used_today ?? 0,
+        resetsAt: usage?.resets_at ?? nextUtcMidnight().toISOString(),
+      }
+    },
+  }
+}
+
+type MemoryUsage = {
+  recent: number[]
+  day: string
+  dayCount: number
+}
+
+const memoryUsage = new Map<string, MemoryUsage>()
+
+export function createMemoryQuotaStore(): OcrQuotaStore {
+  const usageFor = (userId: string, now: number) => {
+    const day = new Date(now).toISOString().split('T')[0]
+    const existing = memoryUsage.get(userId)
+
+    if (!existing || existing.day !== day) {
+      const fresh = { recent: existing?.recent ?? [], day, dayCount: 0 }
+      memoryUsage.set(userId, fresh)
+      return fresh
+    }
+
+    return existing
+  }
+
+  return {
+    name: 'memory',
+    async consume(userId, _programId, limits) {
+      const now = Date.now()
+      const usage = usageFor(userId, now)
+      usage.recent = usage.recent.filter((timestamp) => timestamp > now - limits.windowSeconds * 1000)
+
+      if (usage.recent.length >= limits.windowLimit) {
+        return {
+          allowed: false,
+          limitType: 'burst',
+          retryAfterSeconds: Math.max(1, Math.ceil((usage.recent[0] + limits.windowSeconds * 1000 - now) / 1000)),
+        }
+      }
+
+      if (limits.userDailyLimit !== null && usage.dayCount >= limits.userDailyLimit) {
+        return {
+          allowed: false,
+          limitType: 'user_daily',
+          retryAfterSeconds: Math.max(1, Math.ceil((nextUtcMidnight().getTime() - now) / 1000)),
+        }
+      }
+
+      usage.recent.push(now)
+      usage.dayCount += 1
+      return { allowed: true, retryAfterSeconds: 0 }
+    },
+    async status(userId, _programId, limits) {
+      return {
+        userDailyLimit: limits.userDailyLimit,
+        userUsedToday: usageFor(userId, Date.now()).dayCount,
+        programDailyLimit: null,
+        programUsedToday: 0,
+        resetsAt: nextUtcMidnight().toISOString(),
+      }
+    },
+  }
+}
+
+/**
+ * Resolve the configured quota store. Throws on an unknown
+ * OCR_RATE_LIMIT_STORE rather than silently disabling rate limiting.
+ */
+export function getOcrQuotaStore(serviceClient: ServiceClient): OcrQuotaStore {
+  const requested = getEnvValue('OCR_RATE_LIMIT_STORE')?.trim().toLowerCase() || 'postgres'
+
+  switch (requested) {
+    case 'postgres':
+      return createPostgresQuotaStore(serviceClient)
+    case 'memory':
+      return createMemoryQuotaStore()
+    default:
+      throw new Error(`Unknown OCR_RATE_LIMIT_STORE "${requested}". Use postgres or memory.`)
+  }
+}
+
+/**
+ * Build the 429 response for a refused request.
+ */
+export function quotaExceededResponse(decision: OcrQuotaDecision) {
+  const limitType = decision.limitType ?? 'burst'
+
+  return Response.json(
+    { error: QUOTA_MESSAGES[limitType], limitType },
+    {
+      status: 429,
+      headers: {
+        'Retry-After': String(Math.max(1, decision.retryAfterSeconds)),
+      },
+    }
+  )
+}
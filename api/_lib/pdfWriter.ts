@@ -0,0 +1,241 @@
+/**
+ * Minimal PDF writer for server-generated reports.
+ *
+ * Produces PDF 1.4 with the standard Helvetica and Helvetica-Bold fonts
+ * (WinAnsi encoding, so no fonts are embedded), filled rectangles, lines and
+ * single-line text. That covers tables and bar charts without pulling a PDF
+ * library into the edge bundle.
+ *
+ * Coordinates are in points on an A4 page measured from the TOP-left corner;
+ * text is positioned by its baseline. Characters outside WinAnsi print as "?".
+ */
+
+export type PdfColor = [number, number, number]
+
+export interface PdfTextOptions {
+  size?: number
+  bold?: boolean
+  color?: PdfColor
+  align?: 'left' | 'center' | 'right'
+  // Longer text is cut and ends with "..."
+  maxWidth?: number
+}
+
+export interface PdfPage {
+  text(x: number, y: number, value: string, options?: PdfTextOptions): void
+  rect(x: number, y: number, width: number, height: number, fill: PdfColor): void
+  line(x1: number, y1: number, x2: number, y2: number, color: PdfColor, width?: number): void
+}
+
+export interface PdfDocumentInfo {
+  title: string
+  author?: string
+  subject?: string
+}
+
+export interface PdfDocument {
+  readonly width: number
+  readonly height: number
+  readonly pages: PdfPage[]
+  addPage(): PdfPage
+  measureText(value: string, size: number, bold?: boolean): number
+  save(info: PdfDocumentInfo): Uint8Array
+}
+
+const A4_WIDTH = 595
+const A4_HEIGHT = 842
+
+// Advance widths (1/1000 em) for characters 32-126 from the standard AFM files.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+]
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+]
+
+// Latin-1 passes through unchanged; these are the WinAnsi extras worth keeping.
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80,
+  '…': 0x85,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+}
+
+function toWinAnsi(value: string) {
+  let encoded = ''
+  for (const char of value) {
+    const code = char.codePointAt(0) ?? 63
+    if (code === 9 || code === 10 || code === 13) {
+      encoded += ' '
+    } else if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) {
+      encoded += char
+    } else {
+      encoded += String.fromCharCode(WIN_ANSI_EXTRAS[char] ?? 63)
+    }
+  }
+  return encoded
+}
+
+function encodedWidth(encoded: string, size: number, bold: boolean) {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS
+  let total = 0
+  for (let i = 0; i < encoded.length; i++) {
+    const code = encoded.charCodeAt(i)
+    total += code >= 32 && code <= 126 ? widths[code - 32] : 556
+  }
+  return (total * size) / 1000
+}
+
+function escapePdfString(encoded: string) {
+  return encoded.replace(/[\\()]/g, (char) => `\\${char}`)
+}
+
+function formatNumber(value: number) {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2).replace(/0+$/, '').replace(/\.$/, '')
+}
+
+function formatColor(color: PdfColor) {
+  return color.map((channel) => formatNumber(Math.min(1, Math.max(0, channel)))).join(' ')
+}
+
+function fitText(encoded: string, size: number, bold: boolean, maxWidth?: number) {
+  if (maxWidth === undefined || encodedWidth(encoded, size, bold) <= maxWidth) {
+    return encoded
+  }
+
+  let cut = encoded
+  while (cut.length > 0 && encodedWidth(`${cut}...`, size, bold) > maxWidth) {
+    cut = cut.slice(0, -1)
+  }
+  return `${cut.trimEnd()}...`
+}
+
+function pdfDate(date: Date) {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+}
+
+function createPage(height: number): PdfPage & { operations: string[] } {
+  const operations: string[] = []
+  const flipY = (y: number) => formatNumber(height - y)
+
+  return {
+    operations,
+    text(x, y, value, options = {}) {
+      const size = options.size ?? 10
+      const bold = options.bold ?? false
+      const encoded = fitText(toWinAnsi(value), size, bold, options.maxWidth)
+      if (!encoded) {
+        return
+      }
+
+      const width = encodedWidth(encoded, size, bold)
+      const left = options.align === 'right' ? x - width : options.align === 'center' ? x - width / 2 : x
+      operations.push(
+        `BT /${bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf ${formatColor(options.color ?? [0, 0, 0])} rg ` +
+          `${formatNumber(left)} ${flipY(y)} Td (${escapePdfString(encoded)}) Tj ET`
+      )
+    },
+    rect(x, y, width, rectHeight, fill) {
+      if (width <= 0 || rectHeight <= 0) {
+        return
+      }
+      operations.push(
+        `${formatColor(fill)} rg ${formatNumber(x)} ${flipY(y + rectHeight)} ${formatNumber(width)} ${formatNumber(rectHeight)} re f`
+      )
+    },
+    line(x1, y1, x2, y2, color, width = 0.5) {
+      operations.push(
+        `${formatColor(color)} RG ${formatNumber(width)} w ${formatNumber(x1)} ${flipY(y1)} m ${formatNumber(x2)} ${flipY(y2)} l S`
+      )
+    },
+  }
+}
+
+export function createPdfDocument(): PdfDocument {
+  const pages: (PdfPage & { operations: string[] })[] = []
+
+  return {
+    width: A4_WIDTH,
+    height: A4_HEIGHT,
+    pages,
+    addPage() {
+      const page = createPage(A4_HEIGHT)
+      pages.push(page)
+      return page
+    },
+    measureText(value, size, bold = false) {
+      return encodedWidth(toWinAnsi(value), size, bold)
+    },
+    save(info) {
+      if (pages.length === 0) {
+        pages.push(createPage(A4_HEIGHT))
+      }
+
+      // Object numbers: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a
+      // page and content stream pair per page.
+      const objects: string[] = []
+      const pageObjectNumbers = pages.map((_, index) => 6 + index * 2)
+
+      objects[1] = '<< /Type /Catalog /Pages 2 0 R >>'
+      objects[2] = `<< /Type /Pages /Kids [${pageObjectNumbers.map((number) => `${number} 0 R`).join(' ')}] /Count ${pages.length} >>`
+      objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'
+      objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+
+      const infoEntries = [
+        `/Title (${escapePdfString(toWinAnsi(info.title))})`,
+        info.author ? `/Author (${escapePdfString(toWinAnsi(info.author))})` : '',
+        info.subject ? `/Subject (${escapePdfString(toWinAnsi(info.subject))})` : '',
+        '/Producer (Golden Bridge)',
+        `/CreationDate (${pdfDate(new Date())})`,
+      ].filter(Boolean)
+      objects[5] = `<< ${infoEntries.join(' ')} >>`
+
+      pages.forEach((page, index) => {
+        const pageNumber = pageObjectNumbers[index]
+        const content = page.operations.join('\n')
+        objects[pageNumber] =
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4_WIDTH} ${A4_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageNumber + 1} 0 R >>`
+        objects[pageNumber + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+      })
+
+      // Every character is a single byte, so string offsets are byte offsets.
+      let output = '%PDF-1.4\n%âãÏÓ\n'
+      const offsets: number[] = []
+      for (let number = 1; number < objects.length; number++) {
+        offsets[number] = output.length
+        output += `${number} 0 obj\n${objects[number]}\nendobj\n`
+      }
+
+      const xrefOffset = output.length
+      output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`
+      for (let number = 1; number < objects.length; number++) {
+        output += `${String(offsets[number]).padStart(10, '0')} 00000 n \n`
+      }
+      output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+      const bytes = new Uint8Array(output.length)
+      for (let i = 0; i < output.length; i++) {
+        bytes[i] = output.charCodeAt(i)
+      }
+      return bytes
+    },
+  }
+}
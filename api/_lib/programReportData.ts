@@ -0,0 +1,147 @@
+import { MAX_REPORT_LIST_ROWS, type ProgramReportMetrics, type ProgramReportPerson } from '../../src/lib/programReportShared'
+import type { ServiceClient } from './supabaseServer'
+
+/**
+ * Build the ReportsAnalytics program report from the database, for both
+ * on-demand PDFs and scheduled delivery. Figures follow the component's
+ * definitions: milestones are the participants' assignments, activity is the
+ * latest progress report, and financials cover each participant's active
+ * cycle in the program currency.
+ */
+
+const DAY_MS = 1000 * 60 * 60 * 24
+const ACTIVE_WITHIN_DAYS = 7
+const TOP_PERFORMER_COUNT = 5
+
+interface ParticipantMetrics {
+  participant: ProgramReportPerson
+  milestones: number
+  completionRate: number
+  lastActivity: string | null
+}
+
+function daysSince(value: string, now: Date) {
+  return Math.floor((now.getTime() - new Date(value).getTime()) / DAY_MS)
+}
+
+export async function buildProgramReportMetrics(
+  serviceClient: ServiceClient,
+  program: { id: string; start_date: string; end_date: string },
+  now = new Date()
+): Promise<ProgramReportMetrics> {
+  const [enrollmentResult, assignmentResult, spendingResult] = await Promise.all([
+    serviceClient
+      .from('program_participants')
+      .select('participant_id, profiles:participant_id (name, email)')
+      .eq('program_id', program.id)
+      .eq('status', 'active'),
+    serviceClient
+      .from('milestone_assignments')
+      .select('id, participant_id, status, assignment_type, milestones!inner(program_id)')
+      .eq('milestones.program_id', program.id),
+    serviceClient.rpc('get_program_report_spending', { p_program_id: program.id }),
+  ])
+
+  if (enrollmentResult.error) throw enrollmentResult.error
+  if (assignmentResult.error) throw assignmentResult.error
+  if (spendingResult.error) throw spendingResult.error
+
+  const participantIds = new Set((enrollmentResult.data || []).map((enrollment) => enrollment.participant_id))
+  const assignments = (assignmentResult.data || []).filter(
+    (assignment) => assignment.participant_id && participantIds.has(assignment.participant_id)
+  )
+
+  const lastActivityByParticipant = new Map<string, string>()
+  let totalReports = 0
+
+  if (assignments.length > 0) {
+    const { data: reports, error: reportError } = await serviceClient
+      .from('progress_reports')
+      .select('participant_id, report_date')
+      .in('assignment_id', assignments.map((assignment) => assignment.id))
+
+    if (reportError) throw reportError
+
+    for (const report of reports || []) {
+      totalReports += 1
+      const previous = lastActivityByParticipant.get(report.participant_id)
+      if (!previous || report.report_date > previous) {
+        lastActivityByParticipant.set(report.participant_id, report.report_date)
+      }
+    }
+  }
+
+  const isCompleted = (status: string | null) => status === 'completed' || status === 'verified'
+
+  const participantMetrics: ParticipantMetrics[] = (enrollmentResult.data || []).map((enrollment) => {
+    const own = assignments.filter((assignment) => assignment.participant_id === enrollment.participant_id)
+    const completed = own.filter((assignment) => isCompleted(assignment.status)).length
+
+    return {
+      participant: {
+        name: enrollment.profiles?.name ?? '',
+        email: enrollment.profiles?.email ?? '',
+      },
+      milestones: own.length,
+      completionRate: own.length > 0 ? Math.round((completed / own.length) * 100) : 0,
+      lastActivity: lastActivityByParticipant.get(enrollment.participant_id) ?? null,
+    }
+  })
+
+  const spending = (spendingResult.data || []).filter((row) => participantIds.has(row.participant_id))
+  const totalBudget = spending.reduce((sum, row) => sum + Number(row.budget), 0)
+  const totalSpent = spending.reduce((sum, row) => sum + Number(row.spent), 0)
+
+  const start = new Date(program.start_date)
+  const end = new Date(program.end_date)
+  const totalDays = Math.ceil((end.getTime() - start.getTime()) / DAY_MS)
+  const daysElapsed = Math.ceil((now.getTime() - start.getTime()) / DAY_MS)
+  const activeParticipants = participantMetrics.filter(
+    (metrics) => metrics.lastActivity && daysSince(metrics.lastActivity, now) <= ACTIVE_WITHIN_DAYS
+  ).length
+  const completedMilestones = assignments.filter((assignment) => isCompleted(assignment.status)).length
+
+  return {
+    participants: participantMetrics.length,
+    milestones: {
+      total: assignments.length,
+      completed: completedMilestones,
+      inProgress: assignments.filter((assignment) => assignment.status === 'in_progress').length,
+      notStarted: assignments.filter((assignment) => assignment.status === 'pending').length,
+      assigned: assignments.filter((assignment) => assignment.assignment_type !== 'self_created').length,
+      selfCreated: assignments.filter((assignment) => assignment.assignment_type === 'self_created').length,
+    },
+    progress: {
+      overallCompletion: assignments.length > 0 ? Math.round((completedMilestones / assignments.length) * 100) : 0,
+      averageCompletion: participantMetrics.length > 0
+        ? Math.round(participantMetrics.reduce((sum, metrics) => sum + metrics.completionRate, 0) / participantMetrics.length)
+        : 0,
+      topPerformers: participantMetrics
+        .filter((metrics) => metrics.milestones > 0)
+        .sort((a, b) => b.completionRate - a.completionRate)
+        .slice(0, TOP_PERFORMER_COUNT)
+        .map((metrics) => ({ participant: metrics.participant, completionRate: metrics.completionRate })),
+      needsAttention: participantMetrics
+        .filter((metrics) => !metrics.lastActivity || daysSince(metrics.lastActivity, now) > ACTIVE_WITHIN_DAYS)
+        .slice(0, MAX_REPORT_LIST_ROWS)
+        .map((metrics) => ({ participant: metrics.participant, lastActivity: metrics.lastActivity })),
+    },
+    financial: {
+      totalBudget,
+      totalSpent,
+      averageUtilization: totalBudget > 0 ? Math.round((totalSpent / totalBudget) * 100) : 0,
+      overBudget: spending.filter((row) => Number(row.spent) > Number(row.budget)).length,
+    },
+    engagement: {
+      totalReports,
+      averageReportsPerParticipant: participantMetrics.length > 0 ? Math.round(totalReports / participantMetrics.length) : 0,
+      activeParticipants,
+      inactiveParticipants: participantMetrics.length - activeParticipants,
+    },
+    timeline: {
+      programProgress: totalDays > 0 ? Math.round(Math.min(100, (daysElapsed / totalDays) * 100)) : 0,
+      daysRemaining: Math.max(0, Math.ceil((end.getTime() - now.getTime()) / DAY_MS)),
+      daysElapsed,
+    },
+  }
+}
@@ -0,0 +1,333 @@
+import type { ProgramReportMetrics } from '../../src/lib/programReportShared'
+import { createPdfDocument, type PdfColor, type PdfPage } from './pdfWriter'
+
+/**
+ * Branded PDF layout of the ReportsAnalytics program report: key metrics,
+ * milestone breakdown with a bar chart, financial and engagement tables,
+ * top performers, participants needing attention and the program timeline.
+ */
+
+export interface ProgramReportPdfProgram {
+  name: string
+  description: string | null
+  status: string | null
+  currency: string
+  start_date: string
+  end_date: string
+}
+
+const BRAND: PdfColor = [0.31, 0.275, 0.898] // indigo-600
+const BRAND_LIGHT: PdfColor = [0.878, 0.906, 1] // indigo-100
+const TEXT: PdfColor = [0.067, 0.094, 0.153] // gray-900
+const MUTED: PdfColor = [0.42, 0.447, 0.502] // gray-500
+const RULE: PdfColor = [0.898, 0.906, 0.922] // gray-200
+const PANEL: PdfColor = [0.976, 0.98, 0.984] // gray-50
+const GREEN: PdfColor = [0.086, 0.639, 0.29]
+const BLUE: PdfColor = [0.145, 0.388, 0.922]
+const AMBER: PdfColor = [0.851, 0.467, 0.024]
+const RED: PdfColor = [0.863, 0.149, 0.149]
+const WHITE: PdfColor = [1, 1, 1]
+
+const MARGIN = 48
+const FOOTER_SPACE = 48
+
+interface TableColumn {
+  label: string
+  width: number
+  align?: 'left' | 'right'
+}
+
+function formatAmount(amount: number, currency: string) {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount)
+  } catch {
+    return `${currency} ${amount.toFixed(2)}`
+  }
+}
+
+function formatDate(value: string | null) {
+  if (!value) {
+    return 'No activity'
+  }
+  const date = new Date(value)
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' })
+}
+
+function progressColor(percentage: number): PdfColor {
+  if (percentage >= 80) return GREEN
+  if (percentage >= 60) return BLUE
+  if (percentage >= 40) return AMBER
+  return RED
+}
+
+export function renderProgramReportPdf(
+  program: ProgramReportPdfProgram,
+  report: ProgramReportMetrics,
+  generatedAt = new Date()
+) {
+  const doc = createPdfDocument()
+  const contentWidth = doc.width - MARGIN * 2
+  let page: PdfPage = doc.addPage()
+  let y = 0
+
+  const startPage = () => {
+    page = doc.addPage()
+    page.rect(0, 0, doc.width, 28, BRAND)
+    page.text(MARGIN, 18, 'Golden Bridge', { size: 9, bold: true, color: WHITE })
+    page.text(doc.width - MARGIN, 18, program.name, { size: 9, color: WHITE, align: 'right', maxWidth: 300 })
+    y = 56
+  }
+
+  // Starts a new page when the next block would run into the footer.
+  const ensureSpace = (height: number) => {
+    if (y + height > doc.height - FOOTER_SPACE) {
+      startPage()
+    }
+  }
+
+  const sectionTitle = (title: string) => {
+    ensureSpace(48)
+    y += 10
+    page.text(MARGIN, y + 12, title, { size: 13, bold: true, color: TEXT })
+    page.line(MARGIN, y + 20, MARGIN + contentWidth, y + 20, BRAND, 1)
+    y += 32
+  }
+
+  const table = (columns: TableColumn[], rows: string[][], emptyMessage: string) => {
+    const rowHeight = 18
+    const drawHeader = () => {
+      page.rect(MARGIN, y, contentWidth, rowHeight, BRAND_LIGHT)
+      let x = MARGIN
+      for (const column of columns) {
+        const textX = column.align === 'right' ? x + column.width - 6 : x + 6
+        page.text(textX, y + 12.5, column.label, { size: 8.5, bold: true, color: TEXT, align: column.align, maxWidth: column.width - 12 })
+        x += column.width
+      }
+      y += rowHeight
+    }
+
+    ensureSpace(rowHeight * 2)
+    drawHeader()
+
+    if (rows.length === 0) {
+      page.text(MARGIN + 6, y + 12.5, emptyMessage, { size: 9, color: MUTED })
+      y += rowHeight + 6
+      return
+    }
+
+    rows.forEach((row, rowIndex) => {
+      if (y + rowHeight > doc.height - FOOTER_SPACE) {
+        startPage()
+        drawHeader()
+      }
+      if (rowIndex % 2 === 1) {
+        page.rect(MARGIN, y, contentWidth, rowHeight, PANEL)
+      }
+      let x = MARGIN
+      columns.forEach((column, columnIndex) => {
+        const textX = column.align === 'right' ? x + column.width - 6 : x + 6
+        page.text(textX, y + 12.5, row[columnIndex] ?? '', { size: 9, color: TEXT, align: column.align, maxWidth: column.width - 12 })
+        x += column.width
+      })
+      page.line(MARGIN, y + rowHeight, MARGIN + contentWidth, y + rowHeight, RULE)
+      y += rowHeight
+    })
+    y += 6
+  }
+
+  const progressBar = (label: string, percentage: number, detail: string) => {
+    ensureSpace(34)
+    const clamped = Math.min(100, Math.max(0, percentage))
+    page.text(MARGIN, y + 10, label, { size: 9.5, bold: true, color: TEXT })
+    page.text(MARGIN + contentWidth, y + 10, detail, { size: 9, color: MUTED, align: 'right' })
+    page.rect(MARGIN, y + 16, contentWidth, 8, RULE)
+    page.rect(MARGIN, y + 16, (contentWidth * clamped) / 100, 8, progressColor(percentage))
+    y += 34
+  }
+
+  // Cover header band
+  page.rect(0, 0, doc.width, 116, BRAND)
+  page.text(MARGIN, 40, 'Golden Bridge', { size: 11, bold: true, color: BRAND_LIGHT })
+  page.text(MARGIN, 70, program.name, { size: 22, bold: true, color: WHITE, maxWidth: contentWidth })
+  page.text(MARGIN, 94, 'Program Analytics Report', { size: 12, color: BRAND_LIGHT })
+  page.text(doc.width - MARGIN, 94, `Generated ${formatDate(generatedAt.toISOString())}`, { size: 9, color: BRAND_LIGHT, align: 'right' })
+  y = 140
+
+  page.text(MARGIN, y, `Status: ${(program.status || 'unknown').toUpperCase()}`, { size: 9.5, bold: true, color: TEXT })
+  page.text(MARGIN + 160, y, `${formatDate(program.start_date)} - ${formatDate(program.end_date)}`, { size: 9.5, color: MUTED })
+  page.text(MARGIN + contentWidth, y, `Currency: ${program.currency}`, { size: 9.5, color: MUTED, align: 'right' })
+  y += 8
+  if (program.description) {
+    page.text(MARGIN, y + 14, program.description, { size: 9.5, color: MUTED, maxWidth: contentWidth })
+    y += 14
+  }
+  y += 8
+
+  // Key metrics grid
+  sectionTitle('Key Metrics')
+  const metrics: [string, string, string][] = [
+    ['Total Participants', String(report.participants), `${report.engagement.activeParticipants} active`],
+    ['Overall Completion', `${report.progress.overallCompletion}%`, `${report.milestones.completed} of ${report.milestones.total} milestones`],
+    ['Budget Utilization', `${report.financial.averageUtilization}%`, `${report.financial.overBudget} over budget`],
+    ['Progress Reports', String(report.engagement.totalReports), `${report.engagement.averageReportsPerParticipant} per participant`],
+  ]
+  const gap = 10
+  const cardWidth = (contentWidth - gap * (metrics.length - 1)) / metrics.length
+  metrics.forEach(([label, value, detail], index) => {
+    const x = MARGIN + index * (cardWidth + gap)
+    page.rect(x, y, cardWidth, 64, PANEL)
+    page.rect(x, y, 3, 64, BRAND)
+    page.text(x + 12, y + 18, label, { size: 8, color: MUTED, maxWidth: cardWidth - 18 })
+    page.text(x + 12, y + 40, value, { size: 18, bold: true, color: TEXT, maxWidth: cardWidth - 18 })
+    page.text(x + 12, y + 55, detail, { size: 7.5, color: MUTED, maxWidth: cardWidth - 18 })
+  })
+  y += 76
+
+  // Milestone breakdown
+  sectionTitle('Milestone Breakdown')
+  const total = report.milestones.total
+  const share = (count: number) => (total > 0 ? `${Math.round((count / total) * 100)}%` : '0%')
+  table(
+    [
+      { label: 'Category', width: contentWidth * 0.6 },
+      { label: 'Milestones', width: contentWidth * 0.2, align: 'right' },
+      { label: 'Share', width: contentWidth * 0.2, align: 'right' },
+    ],
+    [
+      ['Completed', String(report.milestones.completed), share(report.milestones.completed)],
+      ['In Progress', String(report.milestones.inProgress), share(report.milestones.inProgress)],
+      ['Not Started', String(report.milestones.notStarted), share(report.milestones.notStarted)],
+      ['Assigned by Manager', String(report.milestones.assigned), share(report.milestones.assigned)],
+      ['Self-Created', String(report.milestones.selfCreated), share(report.milestones.selfCreated)],
+      ['Total', String(total), total > 0 ? '100%' : '0%'],
+    ],
+    'No milestones yet.'
+  )
+
+  // Bar chart of milestone status
+  const bars: [string, number, PdfColor][] = [
+    ['Completed', report.milestones.completed, GREEN],
+    ['In Progress', report.milestones.inProgress, BLUE],
+    ['Not Started', report.milestones.notStarted, MUTED],
+  ]
+  const chartHeight = 110
+  ensureSpace(chartHeight + 40)
+  const chartTop = y + 8
+  const chartBottom = chartTop + chartHeight
+  const maxBar = Math.max(1, ...bars.map(([, count]) => count))
+  const slot = contentWidth / bars.length
+  page.line(MARGIN, chartBottom, MARGIN + contentWidth, chartBottom, MUTED, 0.75)
+  bars.forEach(([label, count, color], index) => {
+    const barWidth = Math.min(80, slot * 0.5)
+    const barHeight = (chartHeight - 16) * (count / maxBar)
+    const x = MARGIN + slot * index + (slot - barWidth) / 2
+    page.rect(x, chartBottom - barHeight, barWidth, barHeight, color)
+    page.text(x + barWidth / 2, chartBottom - barHeight - 4, String(count), { size: 9, bold: true, color: TEXT, align: 'center' })
+    page.text(x + barWidth / 2, chartBottom + 13, label, { size: 8.5, color: MUTED, align: 'center' })
+  })
+  y = chartBottom + 28
+
+  // Financial overview
+  sectionTitle('Financial Overview')
+  const remaining = report.financial.totalBudget - report.financial.totalSpent
+  table(
+    [
+      { label: 'Measure', width: contentWidth * 0.6 },
+      { label: 'Value', width: contentWidth * 0.4, align: 'right' },
+    ],
+    [
+      ['Total Budget', formatAmount(report.financial.totalBudget, program.currency)],
+      ['Total Spent', formatAmount(report.financial.totalSpent, program.currency)],
+      ['Remaining', formatAmount(remaining, program.currency)],
+      ['Average Utilization', `${report.financial.averageUtilization}%`],
+      ['Participants Over Budget', String(report.financial.overBudget)],
+    ],
+    'No financial data.'
+  )
+  const spentPercentage = report.financial.totalBudget > 0
+    ? Math.round((report.financial.totalSpent / report.financial.totalBudget) * 100)
+    : 0
+  progressBar(
+    'Budget Spent',
+    spentPercentage,
+    `${formatAmount(report.financial.totalSpent, program.currency)} of ${formatAmount(report.financial.totalBudget, program.currency)} (${spentPercentage}%)`
+  )
+
+  // Engagement
+  sectionTitle('Engagement')
+  table(
+    [
+      { label: 'Measure', width: contentWidth * 0.6 },
+      { label: 'Value', width: contentWidth * 0.4, align: 'right' },
+    ],
+    [
+      ['Active Participants (last 7 days)', String(report.engagement.activeParticipants)],
+      ['Inactive Participants', String(report.engagement.inactiveParticipants)],
+      ['Progress Reports Submitted', String(report.engagement.totalReports)],
+      ['Average Reports per Participant', String(report.engagement.averageReportsPerParticipant)],
+      ['Average Participant Completion', `${report.progress.averageCompletion}%`],
+    ],
+    'No engagement data.'
+  )
+
+  // Top performers
+  sectionTitle('Top Performers')
+  table(
+    [
+      { label: 'Rank', width: contentWidth * 0.1 },
+      { label: 'Name', width: contentWidth * 0.35 },
+      { label: 'Email', width: contentWidth * 0.35 },
+      { label: 'Completion', width: contentWidth * 0.2, align: 'right' },
+    ],
+    report.progress.topPerformers.map((performer, index) => [
+      String(index + 1),
+      performer.participant.name,
+      performer.participant.email,
+      `${performer.completionRate}%`,
+    ]),
+    'No participants have completed milestones yet.'
+  )
+
+  // Needs attention
+  sectionTitle('Participants Needing Attention')
+  table(
+    [
+      { label: 'Name', width: contentWidth * 0.35 },
+      { label: 'Email', width: contentWidth * 0.4 },
+      { label: 'Last Activity', width: contentWidth * 0.25, align: 'right' },
+    ],
+    report.progress.needsAttention.map((item) => [
+      item.participant.name,
+      item.participant.email,
+      formatDate(item.lastActivity),
+    ]),
+    'All participants are on track.'
+  )
+
+  // Timeline
+  sectionTitle('Program Timeline')
+  progressBar(
+    'Time Elapsed',
+    report.timeline.programProgress,
+    `${report.timeline.daysElapsed} days elapsed, ${report.timeline.daysRemaining} days remaining`
+  )
+  progressBar(
+    'Milestone Completion',
+    report.progress.overallCompletion,
+    `${report.progress.overallCompletion}% of milestones completed`
+  )
+
+  doc.pages.forEach((pdfPage, index) => {
+    pdfPage.line(MARGIN, doc.height - 34, doc.width - MARGIN, doc.height - 34, RULE)
+    pdfPage.text(MARGIN, doc.height - 22, `Golden Bridge - ${program.name}`, { size: 8, color: MUTED, maxWidth: 360 })
+    pdfPage.text(doc.width - MARGIN, doc.height - 22, `Page ${index + 1} of ${doc.pages.length}`, { size: 8, color: MUTED, align: 'right' })
+  })
+
+  return doc.save({
+    title: `${program.name} - Program Analytics Report`,
+    author: 'Golden Bridge',
+    subject: 'Program analytics report',
+  })
+}
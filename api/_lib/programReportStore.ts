@@ -0,0 +1,75 @@
+import type { ProgramReportMetrics, StoredProgramReport } from '../../src/lib/programReportShared'
+import { renderProgramReportPdf, type ProgramReportPdfProgram } from './programReportPdf'
+import type { ServiceClient } from './supabaseServer'
+
+/**
+ * Render a program report PDF and keep it in the private program-reports
+ * bucket with a program_reports row, so it can be downloaded again later.
+ */
+
+export const PROGRAM_REPORT_BUCKET = 'program-reports'
+
+export interface RenderedProgramReport {
+  report: StoredProgramReport
+  pdf: Uint8Array
+  fileName: string
+}
+
+export function programReportFileName(title: string, createdAt: string) {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'program_report'
+  return `${slug}_${createdAt.split('T')[0]}.pdf`
+}
+
+export async function storeProgramReport(
+  serviceClient: ServiceClient,
+  programId: string,
+  program: ProgramReportPdfProgram,
+  metrics: ProgramReportMetrics,
+  createdBy: string | null
+): Promise<RenderedProgramReport> {
+  const pdf = renderProgramReportPdf(program, metrics)
+  const storagePath = `${programId}/${crypto.randomUUID()}.pdf`
+  const title = `${program.name} - Program Analytics Report`
+
+  const { error: uploadError } = await serviceClient.storage
+    .from(PROGRAM_REPORT_BUCKET)
+    .upload(storagePath, pdf, {
+      contentType: 'application/pdf',
+      upsert: false,
+    })
+
+  if (uploadError) {
+    throw new Error(`Program report upload failed: ${uploadError.message}`)
+  }
+
+  const { data: saved, error: insertError } = await serviceClient
+    .from('program_reports')
+    .insert({
+      program_id: programId,
+      title,
+      storage_path: storagePath,
+      file_size: pdf.byteLength,
+      created_by: createdBy,
+    })
+    .select('id, program_id, title, file_size, created_by, created_at')
+    .single()
+
+  if (insertError || !saved) {
+    // Don't leave an orphaned file nobody can list.
+    await serviceClient.storage.from(PROGRAM_REPORT_BUCKET).remove([storagePath])
+    throw new Error(`Program report record failed: ${insertError?.message ?? 'no row returned'}`)
+  }
+
+  return {
+    report: {
+      id: saved.id,
+      programId: saved.program_id,
+      title: saved.title,
+      fileSize: saved.file_size,
+      createdBy: saved.created_by,
+      createdAt: saved.created_at,
+    },
+    pdf,
+    fileName: programReportFileName(saved.title, saved.created_at),
+  }
+}
@@ -106,3 +106,25 @@ export async function canAccessCycle(
 
   return isAuthorized
 }
+
+/**
+ * Determine whether a user may manage a program: its manager or an admin.
+ * The profile lookup only runs for users who are not the manager.
+ */
+export async function canManageProgram(
+  serviceClient: ServiceClient,
+  userId: string,
+  managerId: string | null
+): Promise<boolean> {
+  if (managerId === userId) {
+    return true
+  }
+
+  const { data: profile, error } = await serviceClient
+    .from('profiles')
+    .select('role')
+    .eq('id', userId)
+    .single()
+
+  return !error && profile?.role === 'admin'
+}
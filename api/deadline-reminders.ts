@@ -0,0 +1,37 @@
+import { createServiceClient, getEnvValue, jsonError } from './_lib/supabaseServer'
+
+export const config = {
+  runtime: 'edge',
+}
+
+/**
+ * Daily milestone deadline reminders (Vercel cron, "Authorization: Bearer
+ * $CRON_SECRET"). The work happens in generate_deadline_notifications, which
+ * pg_cron also runs where available; already-sent reminders are never
+ * repeated, so both running is harmless.
+ */
+export default async function handler(request: Request) {
+  try {
+    if (request.method !== 'POST' && request.method !== 'GET') {
+      return jsonError('Method not allowed', 405)
+    }
+
+    const cronSecret = getEnvValue('CRON_SECRET')
+    if (!cronSecret || request.headers.get('Authorization') !== `Bearer ${cronSecret}`) {
+      return jsonError('Authentication required', 401)
+    }
+
+    const serviceClient = createServiceClient()
+    const { data: created, error } = await serviceClient.rpc('generate_deadline_notifications')
+
+    if (error) {
+      console.error('Failed to generate deadline notifications:', error.message)
+      return jsonError('Failed to generate deadline reminders.', 500)
+    }
+
+    return Response.json({ created: created ?? 0 })
+  } catch (error) {
+    console.error('Unexpected deadline reminder error:', error)
+    return jsonError('Failed to generate deadline reminders.', 500)
+  }
+}
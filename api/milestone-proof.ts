@@ -0,0 +1,251 @@
+import { isSupportedProofFile } from '../src/lib/milestoneProofShared'
+import {
+  canManageProgram,
+  createServiceClient,
+  createSupabaseClient,
+  jsonError,
+  type ServiceClient,
+} from './_lib/supabaseServer'
+
+export const config = {
+  runtime: 'edge',
+}
+
+const PROOF_BUCKET = 'milestone-proofs'
+
+function guessExtension(mimeType: string) {
+  switch (mimeType) {
+    case 'image/jpeg':
+      return 'jpg'
+    case 'image/png':
+      return 'png'
+    case 'image/webp':
+      return 'webp'
+    case 'image/gif':
+      return 'gif'
+    case 'application/pdf':
+      return 'pdf'
+    default:
+      return 'bin'
+  }
+}
+
+function guessContentType(proofPath: string) {
+  const extension = proofPath.split('.').pop()?.toLowerCase()
+
+  switch (extension) {
+    case 'jpg':
+    case 'jpeg':
+      return 'image/jpeg'
+    case 'png':
+      return 'image/png'
+    case 'webp':
+      return 'image/webp'
+    case 'gif':
+      return 'image/gif'
+    case 'pdf':
+      return 'application/pdf'
+    default:
+      return 'application/octet-stream'
+  }
+}
+
+function requireString(value: FormDataEntryValue | null) {
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+interface ProofAssignment {
+  participantId: string | null
+  managerId: string | null
+  status: string | null
+  proofPath: string | null
+}
+
+async function getProofAssignment(
+  serviceClient: ServiceClient,
+  assignmentId: string
+): Promise<ProofAssignment | null> {
+  const { data: assignment, error } = await serviceClient
+    .from('milestone_assignments')
+    .select('participant_id, milestone_id, status, proof_url')
+    .eq('id', assignmentId)
+    .single()
+
+  if (error || !assignment) {
+    return null
+  }
+
+  let managerId: string | null = null
+  if (assignment.milestone_id) {
+    const { data: milestone } = await serviceClient
+      .from('milestones')
+      .select('program_id')
+      .eq('id', assignment.milestone_id)
+      .single()
+
+    if (milestone?.program_id) {
+      const { data: program } = await serviceClient
+        .from('programs')
+        .select('manager_id')
+        .eq('id', milestone.program_id)
+        .single()
+
+      managerId = program?.manager_id ?? null
+    }
+  }
+
+  return {
+    participantId: assignment.participant_id,
+    managerId,
+    status: assignment.status,
+    proofPath: assignment.proof_url,
+  }
+}
+
+async function uploadProof(request: Request, serviceClient: ServiceClient, userId: string) {
+  const formData = await request.formData()
+  const file = formData.get('proof')
+  const assignmentId = requireString(formData.get('assignmentId'))
+
+  if (!(file instanceof File)) {
+    return jsonError('A proof image or PDF is required.', 400)
+  }
+
+  if (!isSupportedProofFile(file)) {
+    return jsonError('Unsupported file type or file is too large.', 400)
+  }
+
+  if (!assignmentId) {
+    return jsonError('Milestone assignment is required.', 400)
+  }
+
+  const assignment = await getProofAssignment(serviceClient, assignmentId)
+
+  if (!assignment) {
+    return jsonError('Milestone not found.', 404)
+  }
+
+  // Only the participant submits proof for their own milestone.
+  if (assignment.participantId !== userId) {
+    return jsonError('Access denied.', 403)
+  }
+
+  if (assignment.status === 'verified') {
+    return jsonError('This milestone has been verified. Its proof can no longer be changed.', 409)
+  }
+
+  const proofPath = `proofs/${assignmentId}/${crypto.randomUUID()}.${guessExtension(file.type)}`
+
+  const { error: uploadError } = await serviceClient.storage
+    .from(PROOF_BUCKET)
+    .upload(proofPath, new Uint8Array(await file.arrayBuffer()), {
+      contentType: file.type,
+      upsert: false,
+    })
+
+  if (uploadError) {
+    console.error('Milestone proof upload failed:', uploadError.message)
+    return jsonError('Failed to upload proof.', 500)
+  }
+
+  const fileName = file.name.trim().slice(0, 255) || 'Proof of completion'
+  const uploadedAt = new Date().toISOString()
+
+  const { error: updateError } = await serviceClient
+    .from('milestone_assignments')
+    .update({
+      proof_url: proofPath,
+      proof_file_name: fileName,
+      proof_uploaded_at: uploadedAt,
+    })
+    .eq('id', assignmentId)
+
+  if (updateError) {
+    console.error('Failed to save milestone proof:', updateError.message)
+    await serviceClient.storage.from(PROOF_BUCKET).remove([proofPath])
+    return jsonError('Failed to save proof.', 500)
+  }
+
+  // The replaced file is no longer reachable; removing it is best-effort.
+  if (assignment.proofPath) {
+    const { error: removeError } = await serviceClient.storage.from(PROOF_BUCKET).remove([assignment.proofPath])
+    if (removeError) {
+      console.error('Failed to remove replaced milestone proof:', removeError.message)
+    }
+  }
+
+  return Response.json({ fileName, uploadedAt })
+}
+
+async function downloadProof(request: Request, serviceClient: ServiceClient, userId: string) {
+  const assignmentId = new URL(request.url).searchParams.get('assignmentId')?.trim()
+
+  if (!assignmentId) {
+    return jsonError('Milestone assignment is required.', 400)
+  }
+
+  const assignment = await getProofAssignment(serviceClient, assignmentId)
+
+  if (!assignment) {
+    return jsonError('Milestone not found.', 404)
+  }
+
+  const isAuthorized = assignment.participantId === userId
+    || await canManageProgram(serviceClient, userId, assignment.managerId)
+
+  if (!isAuthorized) {
+    return jsonError('Access denied.', 403)
+  }
+
+  if (!assignment.proofPath) {
+    return jsonError('No proof has been uploaded for this milestone.', 404)
+  }
+
+  const { data: fileBlob, error: downloadError } = await serviceClient.storage
+    .from(PROOF_BUCKET)
+    .download(assignment.proofPath)
+
+  if (downloadError || !fileBlob) {
+    console.error('Failed to download milestone proof:', downloadError?.message)
+    return jsonError('Failed to open proof.', 500)
+  }
+
+  return new Response(await fileBlob.arrayBuffer(), {
+    headers: {
+      'Content-Type': guessContentType(assignment.proofPath),
+      'Content-Disposition': 'inline',
+    },
+  })
+}
+
+export default async function handler(request: Request) {
+  try {
+    if (request.method !== 'POST' && request.method !== 'GET') {
+      return jsonError('Method not allowed', 405)
+    }
+
+    const authHeader = request.headers.get('Authorization') ?? undefined
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonError('Authentication required', 401)
+    }
+
+    const authClient = createSupabaseClient(authHeader)
+    const {
+      data: { user },
+      error: authError,
+    } = await authClient.auth.getUser()
+
+    if (authError || !user) {
+      return jsonError('Authentication required', 401)
+    }
+
+    const serviceClient = createServiceClient()
+
+    return request.method === 'POST'
+      ? await uploadProof(request, serviceClient, user.id)
+      : await downloadProof(request, serviceClient, user.id)
+  } catch (error) {
+    console.error('Unexpected milestone proof error:', error)
+    return jsonError('Unexpected milestone proof failure.', 500)
+  }
+}
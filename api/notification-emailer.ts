@@ -0,0 +1,266 @@
+import { NOTIFICATION_DIGEST_HOUR_UTC } from '../src/lib/notificationShared'
+import { getEmailTransport, type EmailTransport } from './_lib/email'
+import {
+  renderNotificationDigest,
+  renderNotificationEmail,
+  type NotificationEmailItem,
+} from './_lib/notificationEmails'
+import { createServiceClient, getEnvValue, jsonError, type ServiceClient } from './_lib/supabaseServer'
+
+// SMTP needs raw sockets, so like report-scheduler this runs on Node and
+// exports named GET/POST handlers.
+export const config = {
+  runtime: 'nodejs',
+}
+
+// Bounds one cron invocation; anything left over is picked up by the next run.
+const MAX_NOTIFICATIONS_PER_RUN = 100
+const MAX_DIGESTS_PER_RUN = 50
+
+// A claim older than this belongs to a run that died mid-send.
+const STALE_CLAIM_MS = 30 * 60 * 1000
+
+type EmailOutcome = 'sent' | 'failed' | 'skipped'
+
+interface QueuedNotification extends NotificationEmailItem {
+  id: string
+  user_id: string | null
+}
+
+interface Recipient {
+  email: string | null
+  name: string | null
+}
+
+const NOTIFICATION_COLUMNS = 'id, user_id, type, title, message, created_at'
+
+async function markNotifications(
+  serviceClient: ServiceClient,
+  ids: string[],
+  status: EmailOutcome,
+  errorMessage?: string
+) {
+  if (ids.length === 0) {
+    return
+  }
+
+  const { error } = await serviceClient
+    .from('notifications')
+    .update({
+      email_status: status,
+      email_processed_at: new Date().toISOString(),
+      email_error: errorMessage ?? null,
+    })
+    .in('id', ids)
+
+  if (error) {
+    console.error('Failed to update notification email status:', error.message)
+  }
+}
+
+async function loadRecipients(serviceClient: ServiceClient, userIds: string[]) {
+  const recipients = new Map<string, Recipient>()
+  if (userIds.length === 0) {
+    return recipients
+  }
+
+  const { data, error } = await serviceClient.from('profiles').select('id, name, email').in('id', userIds)
+  if (error) {
+    throw error
+  }
+
+  for (const profile of data || []) {
+    recipients.set(profile.id, { email: profile.email?.trim() || null, name: profile.name?.trim() || null })
+  }
+
+  return recipients
+}
+
+async function failStaleClaims(serviceClient: ServiceClient, now: Date) {
+  const { error } = await serviceClient
+    .from('notifications')
+    .update({ email_status: 'failed', email_error: 'The send was interrupted.' })
+    .eq('email_status', 'sending')
+    .lt('email_processed_at', new Date(now.getTime() - STALE_CLAIM_MS).toISOString())
+
+  if (error) {
+    console.error('Failed to release stale notification email claims:', error.message)
+  }
+}
+
+// One email per notification for users on 'immediate'.
+async function sendImmediate(serviceClient: ServiceClient, transport: EmailTransport, now: Date) {
+  const { data: queued, error } = await serviceClient
+    .from('notifications')
+    .select('id')
+    .eq('email_status', 'pending')
+    .order('created_at', { ascending: true })
+    .limit(MAX_NOTIFICATIONS_PER_RUN)
+
+  if (error) {
+    throw error
+  }
+
+  if (!queued || queued.length === 0) {
+    return { sent: 0, failed: 0, skipped: 0 }
+  }
+
+  // Only rows still pending are claimed, so concurrent runs never send twice.
+  const { data: claimed, error: claimError } = await serviceClient
+    .from('notifications')
+    .update({ email_status: 'sending', email_processed_at: now.toISOString() })
+    .in('id', queued.map((row) => row.id))
+    .eq('email_status', 'pending')
+    .select(NOTIFICATION_COLUMNS)
+
+  if (claimError) {
+    throw claimError
+  }
+
+  const notifications = (claimed || []) as QueuedNotification[]
+  const recipients = await loadRecipients(
+    serviceClient,
+    [...new Set(notifications.map((row) => row.user_id).filter((id): id is string => Boolean(id)))]
+  )
+
+  const counts = { sent: 0, failed: 0, skipped: 0 }
+  for (const notification of notifications) {
+    const recipient = notification.user_id ? recipients.get(notification.user_id) : undefined
+    if (!recipient?.email) {
+      await markNotifications(serviceClient, [notification.id], 'skipped', 'The recipient has no email address.')
+      counts.skipped += 1
+      continue
+    }
+
+    try {
+      const email = renderNotificationEmail(notification, recipient.name)
+      await transport.send({ to: [recipient.email], ...email })
+      await markNotifications(serviceClient, [notification.id], 'sent')
+      counts.sent += 1
+    } catch (sendError) {
+      const message = sendError instanceof Error ? sendError.message : 'Email delivery failed.'
+      console.error(`Notification ${notification.id} email failed:`, message)
+      await markNotifications(serviceClient, [notification.id], 'failed', message)
+      counts.failed += 1
+    }
+  }
+
+  return counts
+}
+
+// One digest per 'daily_digest' user per day, on the first run after the digest hour.
+async function sendDigests(serviceClient: ServiceClient, transport: EmailTransport, now: Date) {
+  const counts = { sent: 0, failed: 0, skipped: 0 }
+
+  const digestTime = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), NOTIFICATION_DIGEST_HOUR_UTC))
+  if (now < digestTime) {
+    return counts
+  }
+
+  const { data: preferences, error } = await serviceClient
+    .from('notification_email_preferences')
+    .select('user_id, last_digest_at')
+    .eq('mode', 'daily_digest')
+    .or(`last_digest_at.is.null,last_digest_at.lt.${digestTime.toISOString()}`)
+    .limit(MAX_DIGESTS_PER_RUN)
+
+  if (error) {
+    throw error
+  }
+
+  for (const preference of preferences || []) {
+    // Claim today's digest by moving last_digest_at on first; if another run
+    // got there already, the conditional update matches nothing.
+    const claimQuery = serviceClient
+      .from('notification_email_preferences')
+      .update({ last_digest_at: now.toISOString() })
+      .eq('user_id', preference.user_id)
+      .eq('mode', 'daily_digest')
+
+    const { data: claimedPreference, error: preferenceError } = await (
+      preference.last_digest_at
+        ? claimQuery.eq('last_digest_at', preference.last_digest_at)
+        : claimQuery.is('last_digest_at', null)
+    ).select('user_id')
+
+    if (preferenceError || !claimedPreference || claimedPreference.length === 0) {
+      continue
+    }
+
+    const { data: claimed, error: claimError } = await serviceClient
+      .from('notifications')
+      .update({ email_status: 'sending', email_processed_at: now.toISOString() })
+      .eq('user_id', preference.user_id)
+      .eq('email_status', 'digest')
+      .select(NOTIFICATION_COLUMNS)
+
+    if (claimError) {
+      console.error(`Failed to claim digest notifications for ${preference.user_id}:`, claimError.message)
+      continue
+    }
+
+    const notifications = ((claimed || []) as QueuedNotification[])
+      .sort((a, b) => (a.created_at ?? '').localeCompare(b.created_at ?? ''))
+    if (notifications.length === 0) {
+      continue
+    }
+
+    const ids = notifications.map((notification) => notification.id)
+    const recipient = (await loadRecipients(serviceClient, [preference.user_id])).get(preference.user_id)
+    if (!recipient?.email) {
+      await markNotifications(serviceClient, ids, 'skipped', 'The recipient has no email address.')
+      counts.skipped += 1
+      continue
+    }
+
+    try {
+      const email = renderNotificationDigest(notifications, recipient.name)
+      await transport.send({ to: [recipient.email], ...email })
+      await markNotifications(serviceClient, ids, 'sent')
+      counts.sent += 1
+    } catch (sendError) {
+      const message = sendError instanceof Error ? sendError.message : 'Email delivery failed.'
+      console.error(`Notification digest for ${preference.user_id} failed:`, message)
+      await markNotifications(serviceClient, ids, 'failed', message)
+      counts.failed += 1
+    }
+  }
+
+  return counts
+}
+
+/**
+ * Notification email worker (Vercel cron, "Authorization: Bearer $CRON_SECRET").
+ *
+ * Emails notifications according to each recipient's preference: 'immediate'
+ * rows one by one as they arrive, 'daily_digest' rows as one email per user
+ * per day. Rows for users who turned email off are never queued (see
+ * 20261019000014_notification_email.sql).
+ */
+async function handler(request: Request) {
+  try {
+    const cronSecret = getEnvValue('CRON_SECRET')
+    if (!cronSecret || request.headers.get('Authorization') !== `Bearer ${cronSecret}`) {
+      return jsonError('Authentication required', 401)
+    }
+
+    const transport = getEmailTransport()
+    if (!transport) {
+      return jsonError('Email delivery is not configured.', 503)
+    }
+
+    const serviceClient = createServiceClient()
+    const now = new Date()
+
+    await failStaleClaims(serviceClient, now)
+    const immediate = await sendImmediate(serviceClient, transport, now)
+    const digests = await sendDigests(serviceClient, transport, now)
+
+    return Response.json({ immediate, digests })
+  } catch (error) {
+    console.error('Unexpected notification emailer error:', error)
+    return jsonError('Failed to send notification emails.', 500)
+  }
+}
+
+export { handler as GET, handler as POST }
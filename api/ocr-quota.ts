@@ -0,0 +1,79 @@
+import { getOcrQuotaLimits, getOcrQuotaStore } from './_lib/ocrQuota'
+import {
+  canAccessCycle,
+  createServiceClient,
+  createSupabaseClient,
+  jsonError,
+} from './_lib/supabaseServer'
+
+export const config = {
+  runtime: 'edge',
+}
+
+/**
+ * Today's receipt OCR usage for the signed-in user. With ?cycleId= the
+ * program quota of that cycle is included, which is what a receipt upload in
+ * that cycle will be counted against.
+ */
+export default async function handler(request: Request) {
+  try {
+    if (request.method !== 'GET') {
+      return jsonError('Method not allowed', 405)
+    }
+
+    const authHeader = request.headers.get('Authorization') ?? undefined
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonError('Authentication required', 401)
+    }
+
+    const authClient = createSupabaseClient(authHeader)
+    const {
+      data: { user },
+      error: authError,
+    } = await authClient.auth.getUser()
+
+    if (authError || !user) {
+      return jsonError('Authentication required', 401)
+    }
+
+    const serviceClient = createServiceClient()
+    const cycleId = new URL(request.url).searchParams.get('cycleId')?.trim()
+    let programId: string | null = null
+
+    if (cycleId) {
+      const { data: profile, error: profileError } = await serviceClient
+        .from('profiles')
+        .select('role')
+        .eq('id', user.id)
+        .single()
+
+      if (profileError || !profile) {
+        return jsonError('Access denied.', 403)
+      }
+
+      const { data: cycle, error: cycleError } = await serviceClient
+        .from('balance_cycles')
+        .select('participant_id, program_id')
+        .eq('id', cycleId)
+        .single()
+
+      if (cycleError || !cycle) {
+        return jsonError('Receipt cycle not found.', 404)
+      }
+
+      const isAuthorized = await canAccessCycle(serviceClient, user.id, profile.role, cycle)
+
+      if (!isAuthorized) {
+        return jsonError('Access denied.', 403)
+      }
+
+      programId = cycle.program_id
+    }
+
+    const status = await getOcrQuotaStore(serviceClient).status(user.id, programId, getOcrQuotaLimits())
+    return Response.json(status)
+  } catch (error) {
+    console.error('Unexpected OCR quota error:', error)
+    return jsonError('Failed to load receipt scan quota.', 500)
+  }
+}
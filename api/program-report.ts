@@ -0,0 +1,125 @@
+import { buildProgramReportMetrics } from './_lib/programReportData'
+import { PROGRAM_REPORT_BUCKET, programReportFileName, storeProgramReport } from './_lib/programReportStore'
+import {
+  canManageProgram,
+  createServiceClient,
+  createSupabaseClient,
+  jsonError,
+  type ServiceClient,
+} from './_lib/supabaseServer'
+
+export const config = {
+  runtime: 'edge',
+}
+
+async function createReport(request: Request, serviceClient: ServiceClient, userId: string) {
+  let body: { programId?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return jsonError('Invalid request body.', 400)
+  }
+
+  const programId = typeof body.programId === 'string' ? body.programId.trim() : ''
+
+  if (!programId) {
+    return jsonError('Program is required.', 400)
+  }
+
+  const { data: program, error: programError } = await serviceClient
+    .from('programs')
+    .select('id, name, description, status, currency, start_date, end_date, manager_id')
+    .eq('id', programId)
+    .single()
+
+  if (programError || !program) {
+    return jsonError('Program not found.', 404)
+  }
+
+  if (!(await canManageProgram(serviceClient, userId, program.manager_id))) {
+    return jsonError('Access denied.', 403)
+  }
+
+  try {
+    const metrics = await buildProgramReportMetrics(serviceClient, program)
+    const { report: stored } = await storeProgramReport(serviceClient, programId, program, metrics, userId)
+    return Response.json(stored, { status: 201 })
+  } catch (error) {
+    console.error('Program report generation failed:', error instanceof Error ? error.message : error)
+    return jsonError('Failed to generate the report.', 500)
+  }
+}
+
+async function downloadReport(request: Request, serviceClient: ServiceClient, userId: string) {
+  const reportId = new URL(request.url).searchParams.get('id')?.trim()
+  if (!reportId) {
+    return jsonError('Report id is required.', 400)
+  }
+
+  const { data: report, error: reportError } = await serviceClient
+    .from('program_reports')
+    .select('title, storage_path, created_at, programs!inner(manager_id)')
+    .eq('id', reportId)
+    .single()
+
+  if (reportError || !report) {
+    return jsonError('Report not found.', 404)
+  }
+
+  if (!(await canManageProgram(serviceClient, userId, report.programs.manager_id))) {
+    return jsonError('Access denied.', 403)
+  }
+
+  const { data: fileBlob, error: downloadError } = await serviceClient.storage
+    .from(PROGRAM_REPORT_BUCKET)
+    .download(report.storage_path)
+
+  if (downloadError || !fileBlob) {
+    console.error('Failed to download program report:', downloadError?.message)
+    return jsonError('Failed to open report.', 500)
+  }
+
+  return new Response(await fileBlob.arrayBuffer(), {
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${programReportFileName(report.title, report.created_at)}"`,
+    },
+  })
+}
+
+/**
+ * POST { programId } builds the program report from the database, renders it
+ * as a branded PDF and stores it in the program-reports bucket. GET ?id= downloads a
+ * stored report. Both are limited to admins and the program's manager.
+ */
+export default async function handler(request: Request) {
+  try {
+    if (request.method !== 'POST' && request.method !== 'GET') {
+      return jsonError('Method not allowed', 405)
+    }
+
+    const authHeader = request.headers.get('Authorization') ?? undefined
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonError('Authentication required', 401)
+    }
+
+    const authClient = createSupabaseClient(authHeader)
+    const {
+      data: { user },
+      error: authError,
+    } = await authClient.auth.getUser()
+
+    if (authError || !user) {
+      return jsonError('Authentication required', 401)
+    }
+
+    const serviceClient = createServiceClient()
+
+    return request.method === 'POST'
+      ? await createReport(request, serviceClient, user.id)
+      : await downloadReport(request, serviceClient, user.id)
+  } catch (error) {
+    console.error('Unexpected program report error:', error)
+    return jsonError('Failed to generate program report.', 500)
+  }
+}
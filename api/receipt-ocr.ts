@@ -1,42 +1,29 @@
 import {
   buildReceiptPrompt,
   buildReceiptUrl,
+  countPdfPages,
+  isPdfReceipt,
   isSupportedReceiptFile,
-  parseReceiptOcrResponse,
+  hasReceiptDetails,
+  MAX_RECEIPT_PDF_PAGES,
+  type ReceiptDuplicateMatch,
+  type ReceiptOcrDetails,
+  type ReceiptOcrResult,
 } from '../src/lib/receiptOcrShared'
+import { getOcrProvider } from './_lib/ocrProviders'
+import { getOcrQuotaLimits, getOcrQuotaStore, quotaExceededResponse } from './_lib/ocrQuota'
 import {
   canAccessCycle,
   createServiceClient,
   createSupabaseClient,
-  getEnvValue,
   jsonError,
+  type ServiceClient,
 } from './_lib/supabaseServer'
 
 export const config = {
   runtime: 'edge',
 }
 
-const OCR_RATE_LIMIT_WINDOW_MS = 60_000
-const OCR_RATE_LIMIT_MAX_REQUESTS = 6
-
-type RateLimitEntry = {
-  count: number
-  resetAt: number
-}
-
-const rateLimitStore = new Map<string, RateLimitEntry>()
-
-function arrayBufferToBase64(buffer: ArrayBuffer) {
-  const bytes = new Uint8Array(buffer)
-  let binary = ''
-
-  for (const byte of bytes) {
-    binary += String.fromCharCode(byte)
-  }
-
-  return btoa(binary)
-}
-
 function guessExtension(mimeType: string) {
   switch (mimeType) {
     case 'image/jpeg':
@@ -47,54 +34,51 @@ function guessExtension(mimeType: string) {
       return 'webp'
     case 'image/gif':
       return 'gif'
+    case 'application/pdf':
+      return 'pdf'
     default:
       return 'bin'
   }
 }
 
-function requireString(value: FormDataEntryValue | null) {
-  return typeof value === 'string' ? value.trim() : ''
+async function sha256Hex(buffer: ArrayBuffer) {
+  const digest = await crypto.subtle.digest('SHA-256', buffer)
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
 }
 
-function getRequestIp(request: Request) {
-  return request.headers.get('x-forwarded-for')?.split(',')[0]?.trim()
-    || request.headers.get('x-real-ip')
-    || 'unknown'
-}
-
-function getRateLimitKey(userId: string, request: Request) {
-  return `${userId}:${getRequestIp(request)}`
-}
-
-function enforceRateLimit(userId: string, request: Request) {
-  const key = getRateLimitKey(userId, request)
-  const now = Date.now()
-  const existing = rateLimitStore.get(key)
-
-  if (!existing || existing.resetAt <= now) {
-    rateLimitStore.set(key, {
-      count: 1,
-      resetAt: now + OCR_RATE_LIMIT_WINDOW_MS,
-    })
-    return
+// Earlier non-rejected expenses of the same participant (in any cycle) whose
+// receipt is byte-for-byte the file just uploaded.
+async function findDuplicateReceiptExpenses(
+  serviceClient: ServiceClient,
+  participantId: string,
+  receiptHash: string
+): Promise<ReceiptDuplicateMatch[]> {
+  const { data, error } = await serviceClient
+    .from('expenses')
+    .select('id, description, amount, currency, date, balance_cycles!inner(participant_id)')
+    .eq('receipt_hash', receiptHash)
+    .eq('balance_cycles.participant_id', participantId)
+    .neq('status', 'rejected')
+    .order('date', { ascending: false })
+    .limit(5)
+
+  if (error) {
+    throw error
   }
 
-  if (existing.count >= OCR_RATE_LIMIT_MAX_REQUESTS) {
-    const retryAfterSeconds = Math.max(1, Math.ceil((existing.resetAt - now) / 1000))
-    throw new Response(
-      JSON.stringify({ error: 'Too many receipt OCR requests. Please try again later.' }),
-      {
-        status: 429,
-        headers: {
-          'Content-Type': 'application/json',
-          'Retry-After': String(retryAfterSeconds),
-        },
-      }
-    )
-  }
+  return (data || []).map((expense) => ({
+    id: expense.id,
+    item: expense.description,
+    amount: Number(expense.amount),
+    currency: expense.currency,
+    date: expense.date,
+  }))
+}
 
-  existing.count += 1
-  rateLimitStore.set(key, existing)
+function requireString(value: FormDataEntryValue | null) {
+  return typeof value === 'string' ? value.trim() : ''
 }
 
 export default async function handler(request: Request) {
@@ -118,14 +102,12 @@ export default async function handler(request: Request) {
       return jsonError('Authentication required', 401)
     }
 
-    enforceRateLimit(user.id, request)
-
     const formData = await request.formData()
     const file = formData.get('receipt')
     const cycleId = requireString(formData.get('cycleId'))
 
     if (!(file instanceof File)) {
-      return jsonError('A receipt image is required.', 400)
+      return jsonError('A receipt image or PDF is required.', 400)
     }
 
     if (!isSupportedReceiptFile(file)) {
@@ -136,6 +118,18 @@ export default async function handler(request: Request) {
       return jsonError('Receipt cycle is required.', 400)
     }
 
+    // Providers bill and slow down per page, so long PDFs are refused before
+    // anything is uploaded or counted against the quota.
+    if (isPdfReceipt(file.type)) {
+      const pageCount = countPdfPages(await file.arrayBuffer())
+      if (pageCount !== null && pageCount > MAX_RECEIPT_PDF_PAGES) {
+        return jsonError(
+          `PDF receipts can have at most ${MAX_RECEIPT_PDF_PAGES} pages; this one has ${pageCount}. Upload only the pages with the items.`,
+          400
+        )
+      }
+    }
+
     const serviceClient = createServiceClient()
     const { data: profile, error: profileError } = await serviceClient
       .from('profiles')
@@ -163,10 +157,23 @@ export default async function handler(request: Request) {
       return jsonError('Access denied.', 403)
     }
 
+    // Counted before the upload so refused requests cost nothing. A store
+    // failure refuses the request rather than letting it through unmetered.
+    try {
+      const quota = await getOcrQuotaStore(serviceClient).consume(user.id, cycle.program_id, getOcrQuotaLimits())
+      if (!quota.allowed) {
+        return quotaExceededResponse(quota)
+      }
+    } catch (error) {
+      console.error('OCR quota check failed:', error instanceof Error ? error.message : error)
+      return jsonError('Receipt scanning is temporarily unavailable. Please try again later.', 503)
+    }
+
     const fileExtension = guessExtension(file.type)
     const receiptPath = `receipts/${cycleId}/${crypto.randomUUID()}.${fileExtension}`
     const fileBuffer = await file.arrayBuffer()
     const uploadPayload = new Uint8Array(fileBuffer)
+    const receiptHash = await sha256Hex(fileBuffer)
 
     const { error: uploadError } = await serviceClient.storage
       .from('receipts')
@@ -181,79 +188,52 @@ export default async function handler(request: Request) {
     }
 
     const receiptUrl = buildReceiptUrl(receiptPath)
-    const geminiApiKey = getEnvValue('GEMINI_API_KEY')
-    let ocrResults = []
-    let analysisError: string | undefined
 
-    if (!geminiApiKey) {
-      analysisError = 'Receipt uploaded, but OCR is not configured.'
-    } else {
+    // Duplicate detection is advisory: a failed lookup must not lose the upload.
+    let duplicateExpenses: ReceiptDuplicateMatch[] = []
+    if (cycle.participant_id) {
       try {
-        const prompt = buildReceiptPrompt()
-        const base64Data = arrayBufferToBase64(fileBuffer)
-
-        const geminiResponse = await fetch(
-          `https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${geminiApiKey}`,
-          {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              contents: [
-                {
-                  role: 'user',
-                  parts: [
-                    { text: prompt },
-                    {
-                      inlineData: {
-                        mimeType: file.type,
-                        data: base64Data,
-                      },
-                    },
-                  ],
-                },
-              ],
-              generationConfig: {
-                temperature: 0.2,
-                responseMimeType: 'application/json',
-              },
-            }),
-          }
-        )
-
-        if (!geminiResponse.ok) {
-          const payload = await geminiResponse.json().catch(() => null)
-          throw new Error(payload?.error?.message || `Gemini request failed with status ${geminiResponse.status}`)
-        }
+        duplicateExpenses = await findDuplicateReceiptExpenses(serviceClient, cycle.participant_id, receiptHash)
+      } catch (error) {
+        console.error('Duplicate receipt lookup failed:', error instanceof Error ? error.message : error)
+      }
+    }
+    let ocrResults: ReceiptOcrResult[] = []
+    let receiptDetails: ReceiptOcrDetails | undefined
+    let analysisError: string | undefined
 
-        const payload = await geminiResponse.json()
-        const text = payload?.candidates?.[0]?.content?.parts
-          ?.map((part: { text?: string }) => part.text || '')
-          .join('') || ''
+    try {
+      const provider = getOcrProvider()
 
-        ocrResults = parseReceiptOcrResponse(text)
+      if (!provider) {
+        analysisError = 'Receipt uploaded, but OCR is not configured.'
+      } else {
+        const analysis = await provider.analyze(
+          { data: fileBuffer, mimeType: file.type },
+          buildReceiptPrompt(file.type)
+        )
+        ocrResults = analysis.items
+        receiptDetails = hasReceiptDetails(analysis.details) ? analysis.details : undefined
 
         if (ocrResults.length === 0) {
           analysisError = 'No expenses could be extracted from the receipt. Please enter details manually.'
         }
-      } catch (error) {
-        console.error('Receipt OCR failed:', error instanceof Error ? error.message : error)
-        analysisError = 'Failed to analyze receipt. The image was uploaded, but OCR did not complete.'
       }
+    } catch (error) {
+      console.error('Receipt OCR failed:', error instanceof Error ? error.message : error)
+      analysisError = 'Failed to analyze receipt. The image was uploaded, but OCR did not complete.'
     }
 
     return Response.json({
       receiptUrl,
       receiptPath,
+      receiptHash,
       ocrResults,
+      receiptDetails,
+      duplicateExpenses,
       analysisError,
     })
   } catch (error) {
-    if (error instanceof Response) {
-      return error
-    }
-
     console.error('Unexpected receipt OCR error:', error)
     return jsonError('Unexpected receipt OCR failure.', 500)
   }
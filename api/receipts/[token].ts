@@ -23,6 +23,8 @@ function guessContentType(receiptPath: string) {
       return 'image/webp'
     case 'gif':
       return 'image/gif'
+    case 'pdf':
+      return 'application/pdf'
     default:
       return 'application/octet-stream'
   }
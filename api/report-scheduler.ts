@@ -0,0 +1,253 @@
+import {
+  advanceReportRun,
+  parseReportRecipients,
+  type ReportDeliveryStatus,
+  type ReportScheduleFrequency,
+} from '../src/lib/programReportShared'
+import { escapeHtml, getEmailTransport, type EmailTransport } from './_lib/email'
+import { buildProgramReportMetrics } from './_lib/programReportData'
+import { storeProgramReport } from './_lib/programReportStore'
+import {
+  canManageProgram,
+  createServiceClient,
+  createSupabaseClient,
+  getEnvValue,
+  jsonError,
+  type ServiceClient,
+} from './_lib/supabaseServer'
+
+// SMTP needs raw sockets, so unlike the other handlers this one runs on Node,
+// where Vercel only hands a Web Request to the named GET/POST exports below.
+export const config = {
+  runtime: 'nodejs',
+}
+
+// Bounds one cron invocation; anything left over is picked up by the next run.
+const MAX_SCHEDULES_PER_RUN = 25
+
+interface ReportSchedule {
+  id: string
+  program_id: string
+  frequency: string
+  recipients: string[]
+  next_run_at: string
+  created_by: string | null
+}
+
+async function recordDelivery(
+  serviceClient: ServiceClient,
+  schedule: ReportSchedule,
+  status: ReportDeliveryStatus,
+  details: { reportId?: string; error?: string; transport?: string; triggeredBy: string | null }
+) {
+  const { error } = await serviceClient.from('report_deliveries').insert({
+    program_id: schedule.program_id,
+    schedule_id: schedule.id,
+    report_id: details.reportId ?? null,
+    recipients: schedule.recipients,
+    status,
+    error: details.error ?? null,
+    transport: details.transport ?? null,
+    triggered_by: details.triggeredBy,
+  })
+
+  if (error) {
+    console.error('Failed to record report delivery:', error.message)
+  }
+}
+
+/**
+ * Build, store and email one schedule's report. Failures are recorded in
+ * report_deliveries rather than thrown, so one bad schedule cannot stop a run.
+ */
+async function deliverSchedule(
+  serviceClient: ServiceClient,
+  transport: EmailTransport,
+  schedule: ReportSchedule,
+  triggeredBy: string | null
+): Promise<{ status: ReportDeliveryStatus; error?: string }> {
+  let reportId: string | undefined
+
+  try {
+    const { recipients } = parseReportRecipients(schedule.recipients)
+    if (recipients.length === 0) {
+      throw new Error('The schedule has no valid recipients.')
+    }
+
+    const { data: program, error: programError } = await serviceClient
+      .from('programs')
+      .select('id, name, description, status, currency, start_date, end_date')
+      .eq('id', schedule.program_id)
+      .single()
+
+    if (programError || !program) {
+      throw new Error('Program not found.')
+    }
+
+    const metrics = await buildProgramReportMetrics(serviceClient, program)
+    const stored = await storeProgramReport(serviceClient, program.id, program, metrics, triggeredBy ?? schedule.created_by)
+    reportId = stored.report.id
+
+    const period = schedule.frequency === 'weekly' ? 'Weekly' : 'Monthly'
+    const summary = [
+      `Participants: ${metrics.participants} (${metrics.engagement.activeParticipants} active in the last 7 days)`,
+      `Milestones completed: ${metrics.milestones.completed} of ${metrics.milestones.total} (${metrics.progress.overallCompletion}%)`,
+      `Budget utilization: ${metrics.financial.averageUtilization}%`,
+      `Program timeline: ${metrics.timeline.programProgress}% elapsed, ${metrics.timeline.daysRemaining} days remaining`,
+    ]
+
+    await transport.send({
+      to: recipients,
+      subject: `${program.name} - ${period} program report`,
+      text: [
+        `${period} report for ${program.name}.`,
+        '',
+        ...summary,
+        '',
+        'The full report is attached as a PDF.',
+        '',
+        'Golden Bridge',
+      ].join('\n'),
+      html: [
+        `<p>${period} report for <strong>${escapeHtml(program.name)}</strong>.</p>`,
+        `<ul>${summary.map((line) => `<li>${escapeHtml(line)}</li>`).join('')}</ul>`,
+        '<p>The full report is attached as a PDF.</p>',
+        '<p>Golden Bridge</p>',
+      ].join(''),
+      attachments: [{ filename: stored.fileName, contentType: 'application/pdf', content: stored.pdf }],
+    })
+
+    await recordDelivery(serviceClient, schedule, 'sent', { reportId, transport: transport.name, triggeredBy })
+    return { status: 'sent' }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Report delivery failed.'
+    console.error(`Report schedule ${schedule.id} failed:`, message)
+    await recordDelivery(serviceClient, schedule, 'failed', { reportId, error: message, transport: transport.name, triggeredBy })
+    return { status: 'failed', error: message }
+  }
+}
+
+// Vercel cron calls with "Authorization: Bearer $CRON_SECRET".
+async function runDueSchedules(serviceClient: ServiceClient, transport: EmailTransport) {
+  const now = new Date()
+  const { data: schedules, error } = await serviceClient
+    .from('report_schedules')
+    .select('id, program_id, frequency, recipients, next_run_at, created_by')
+    .eq('is_active', true)
+    .lte('next_run_at', now.toISOString())
+    .order('next_run_at', { ascending: true })
+    .limit(MAX_SCHEDULES_PER_RUN)
+
+  if (error) {
+    throw error
+  }
+
+  let sent = 0
+  let failed = 0
+
+  for (const schedule of schedules || []) {
+    // Claim the run by moving next_run_at on first; if another invocation got
+    // there already, the conditional update matches nothing and we skip.
+    const nextRunAt = advanceReportRun(schedule.frequency as ReportScheduleFrequency, new Date(schedule.next_run_at), now)
+    const { data: claimed, error: claimError } = await serviceClient
+      .from('report_schedules')
+      .update({ next_run_at: nextRunAt.toISOString(), last_run_at: now.toISOString() })
+      .eq('id', schedule.id)
+      .eq('next_run_at', schedule.next_run_at)
+      .select('id')
+
+    if (claimError || !claimed || claimed.length === 0) {
+      continue
+    }
+
+    const result = await deliverSchedule(serviceClient, transport, schedule, null)
+    if (result.status === 'sent') {
+      sent += 1
+    } else {
+      failed += 1
+    }
+  }
+
+  return Response.json({ processed: sent + failed, sent, failed })
+}
+
+// "Send now" from the schedule manager; next_run_at is left alone.
+async function sendScheduleNow(request: Request, serviceClient: ServiceClient, transport: EmailTransport, userId: string) {
+  let body: { scheduleId?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return jsonError('Invalid request body.', 400)
+  }
+
+  const scheduleId = typeof body.scheduleId === 'string' ? body.scheduleId.trim() : ''
+  if (!scheduleId) {
+    return jsonError('Schedule is required.', 400)
+  }
+
+  const { data: schedule, error: scheduleError } = await serviceClient
+    .from('report_schedules')
+    .select('id, program_id, frequency, recipients, next_run_at, created_by, programs!inner(manager_id)')
+    .eq('id', scheduleId)
+    .single()
+
+  if (scheduleError || !schedule) {
+    return jsonError('Report schedule not found.', 404)
+  }
+
+  if (!(await canManageProgram(serviceClient, userId, schedule.programs.manager_id))) {
+    return jsonError('Access denied.', 403)
+  }
+
+  const result = await deliverSchedule(serviceClient, transport, schedule, userId)
+  return Response.json(result, { status: result.status === 'sent' ? 200 : 502 })
+}
+
+/**
+ * Scheduled program report delivery.
+ *
+ *   GET/POST with the cron secret - email every active schedule that is due
+ *   POST { scheduleId } as a user  - send one schedule's report now (admins
+ *                                    and the program's manager)
+ */
+async function handler(request: Request) {
+  try {
+    const authHeader = request.headers.get('Authorization') ?? undefined
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonError('Authentication required', 401)
+    }
+
+    const transport = getEmailTransport()
+    if (!transport) {
+      return jsonError('Email delivery is not configured.', 503)
+    }
+
+    const serviceClient = createServiceClient()
+    const cronSecret = getEnvValue('CRON_SECRET')
+
+    if (cronSecret && authHeader === `Bearer ${cronSecret}`) {
+      return await runDueSchedules(serviceClient, transport)
+    }
+
+    if (request.method !== 'POST') {
+      return jsonError('Authentication required', 401)
+    }
+
+    const authClient = createSupabaseClient(authHeader)
+    const {
+      data: { user },
+      error: authError,
+    } = await authClient.auth.getUser()
+
+    if (authError || !user) {
+      return jsonError('Authentication required', 401)
+    }
+
+    return await sendScheduleNow(request, serviceClient, transport, user.id)
+  } catch (error) {
+    console.error('Unexpected report scheduler error:', error)
+    return jsonError('Failed to deliver scheduled reports.', 500)
+  }
+}
+
+export { handler as GET, handler as POST }
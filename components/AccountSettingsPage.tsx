@@ -1,6 +1,26 @@
 import React, { useEffect, useState } from 'react';
 import { User } from '../types';
 import { getUserProfileSecure, updatePassword, updateProfile, validateNewPassword } from '../src/lib/auth';
+import {
+  getManagerNotificationOptOuts,
+  getNotificationEmailMode,
+  setManagerNotificationOptOut,
+  setNotificationEmailMode,
+  type ManagerNotificationEvent,
+  type NotificationEmailMode,
+} from '../src/lib/notifications';
+
+const EMAIL_MODE_OPTIONS: { value: NotificationEmailMode; label: string; description: string }[] = [
+  { value: 'immediate', label: 'Immediately', description: 'Email each notification as soon as it arrives.' },
+  { value: 'daily_digest', label: 'Daily digest', description: 'One email a day (around 07:00 UTC) listing everything since the last one.' },
+  { value: 'off', label: 'Off', description: 'Only show notifications in the app.' },
+];
+
+const MANAGER_EVENT_OPTIONS: { value: ManagerNotificationEvent; label: string; description: string }[] = [
+  { value: 'progress_report', label: 'Progress reports', description: 'A participant submits a progress report.' },
+  { value: 'milestone_completed', label: 'Completed milestones', description: 'A participant marks a milestone as completed.' },
+  { value: 'budget_exceeded', label: 'Budget overruns', description: 'A participant spends more than their cycle budget.' },
+];
 
 interface AccountSettingsPageProps {
   user: User;
@@ -27,6 +47,15 @@ const AccountSettingsPage: React.FC<AccountSettingsPageProps> = ({
   const [isSaving, setIsSaving] = useState(false);
   const [isProfileSaving, setIsProfileSaving] = useState(false);
   const [emailChangePending, setEmailChangePending] = useState(false);
+  const [emailMode, setEmailMode] = useState<NotificationEmailMode>('immediate');
+  const [emailModeError, setEmailModeError] = useState('');
+  const [emailModeSuccess, setEmailModeSuccess] = useState('');
+  const [isEmailModeSaving, setIsEmailModeSaving] = useState(false);
+  const [optedOutEvents, setOptedOutEvents] = useState<ManagerNotificationEvent[]>([]);
+  const [savingEvent, setSavingEvent] = useState<ManagerNotificationEvent | null>(null);
+  const [activityError, setActivityError] = useState('');
+
+  const managesPrograms = user.role === 'program_manager' || user.role === 'admin';
 
   useEffect(() => {
     let isMounted = true;
@@ -52,6 +81,40 @@ const AccountSettingsPage: React.FC<AccountSettingsPageProps> = ({
     };
   }, [user.email, user.name]);
 
+  useEffect(() => {
+    let isMounted = true;
+
+    getNotificationEmailMode()
+      .then((mode) => {
+        if (isMounted) setEmailMode(mode);
+      })
+      .catch((loadError) => {
+        console.error('Failed to load notification email preference:', loadError);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!managesPrograms) return;
+
+    let isMounted = true;
+
+    getManagerNotificationOptOuts()
+      .then((events) => {
+        if (isMounted) setOptedOutEvents(events);
+      })
+      .catch((loadError) => {
+        console.error('Failed to load participant activity preferences:', loadError);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [managesPrograms]);
+
   const handleProfileUpdate = async (event: React.FormEvent) => {
     event.preventDefault();
     setProfileError('');
@@ -84,6 +147,38 @@ const AccountSettingsPage: React.FC<AccountSettingsPageProps> = ({
     }
   };
 
+  const handleEmailModeUpdate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setEmailModeError('');
+    setEmailModeSuccess('');
+
+    try {
+      setIsEmailModeSaving(true);
+      await setNotificationEmailMode(emailMode);
+      setEmailModeSuccess('Notification email preference saved.');
+    } catch (saveError) {
+      setEmailModeError(saveError instanceof Error ? saveError.message : 'Failed to save notification email preference');
+    } finally {
+      setIsEmailModeSaving(false);
+    }
+  };
+
+  const handleActivityToggle = async (event: ManagerNotificationEvent, enabled: boolean) => {
+    setActivityError('');
+
+    try {
+      setSavingEvent(event);
+      await setManagerNotificationOptOut(event, !enabled);
+      setOptedOutEvents((current) =>
+        enabled ? current.filter((entry) => entry !== event) : [...current.filter((entry) => entry !== event), event]
+      );
+    } catch (saveError) {
+      setActivityError(saveError instanceof Error ? saveError.message : 'Failed to save participant activity preference');
+    } finally {
+      setSavingEvent(null);
+    }
+  };
+
   const handlePasswordUpdate = async (event: React.FormEvent) => {
     event.preventDefault();
     setPasswordError('');
@@ -250,6 +345,91 @@ const AccountSettingsPage: React.FC<AccountSettingsPageProps> = ({
           </form>
         </section>
 
+        <section className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+          <h2 className="text-lg font-semibold text-gray-900">Email notifications</h2>
+          <p className="mt-1 text-sm text-gray-600">
+            Choose how notifications about assignments, feedback, and deadlines reach your inbox.
+          </p>
+
+          <form className="mt-6 space-y-4" onSubmit={handleEmailModeUpdate}>
+            <fieldset className="space-y-3">
+              <legend className="sr-only">Notification email delivery</legend>
+              {EMAIL_MODE_OPTIONS.map((option) => (
+                <label key={option.value} className="flex cursor-pointer items-start gap-3">
+                  <input
+                    type="radio"
+                    name="notificationEmailMode"
+                    value={option.value}
+                    checked={emailMode === option.value}
+                    onChange={() => setEmailMode(option.value)}
+                    className="mt-1 h-4 w-4 border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                    <span className="block text-sm text-gray-500">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+            </fieldset>
+
+            {emailModeError && (
+              <div className="rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-800">
+                {emailModeError}
+              </div>
+            )}
+
+            {emailModeSuccess && (
+              <div className="rounded-md border border-green-200 bg-green-50 px-3 py-2 text-sm text-green-800">
+                {emailModeSuccess}
+              </div>
+            )}
+
+            <div className="flex items-center justify-end gap-3 pt-2">
+              <button
+                type="submit"
+                disabled={isEmailModeSaving}
+                className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {isEmailModeSaving ? 'Saving...' : 'Save preference'}
+              </button>
+            </div>
+          </form>
+        </section>
+
+        {managesPrograms && (
+          <section className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+            <h2 className="text-lg font-semibold text-gray-900">Participant activity</h2>
+            <p className="mt-1 text-sm text-gray-600">
+              Get notified when participants in programs you manage do any of the following.
+            </p>
+
+            <fieldset className="mt-6 space-y-3">
+              <legend className="sr-only">Participant activity notifications</legend>
+              {MANAGER_EVENT_OPTIONS.map((option) => (
+                <label key={option.value} className="flex cursor-pointer items-start gap-3">
+                  <input
+                    type="checkbox"
+                    checked={!optedOutEvents.includes(option.value)}
+                    disabled={savingEvent !== null}
+                    onChange={(event) => handleActivityToggle(option.value, event.target.checked)}
+                    className="mt-1 h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                    <span className="block text-sm text-gray-500">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+            </fieldset>
+
+            {activityError && (
+              <div className="mt-4 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-800">
+                {activityError}
+              </div>
+            )}
+          </section>
+        )}
+
         <section className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
           <h2 className="text-lg font-semibold text-gray-900">Change password</h2>
           <p className="mt-1 text-sm text-gray-600">
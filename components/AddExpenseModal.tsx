@@ -1,13 +1,40 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Expense } from '../types';
+import { ExchangeRate, Expense, ExpenseCategory, ExpenseStatus } from '../types';
 import CloseIcon from './icons/CloseIcon';
-import { analyzeReceipt, openProtectedReceipt } from '../src/lib/receiptOcr';
+import {
+  analyzeReceipt,
+  getOcrQuotaStatus,
+  hasReceiptDetails,
+  isPdfReceipt,
+  OcrQuotaStatus,
+  openProtectedReceipt,
+  RECEIPT_FILE_ACCEPT,
+  remainingOcrScans,
+  ReceiptDuplicateMatch,
+  ReceiptOcrDetails
+} from '../src/lib/receiptOcr';
+import { findDuplicateExpenses } from '../src/lib/expenseDuplicates';
+import {
+  currencyOptions,
+  DEFAULT_CURRENCY,
+  expenseBaseAmount,
+  findExchangeRate,
+  formatMoney
+} from '../src/lib/currency';
 
 interface AddExpenseModalProps {
   onClose: () => void;
-  onSave: (expense: Expense | Omit<Expense, 'id'>) => void;
+  // allowDuplicate is set when the participant saved despite a duplicate warning.
+  onSave: (expense: Expense | Omit<Expense, 'id'>, options?: { allowDuplicate?: boolean }) => void;
+  // Enables "create all": every included receipt line is saved as its own
+  // expense in one request.
+  onSaveMany?: (expenses: Omit<Expense, 'id'>[]) => void;
   expenseToEdit?: Expense | null;
   cycleId?: string;
+  categories?: ExpenseCategory[];
+  cycleExpenses?: Expense[]; // Active cycle's expenses, for category cap warnings
+  currency?: string; // Program currency; new expenses default to it
+  exchangeRates?: ExchangeRate[];
 }
 
 type OcrResult = {
@@ -16,19 +43,57 @@ type OcrResult = {
   date?: string;
 };
 
-const AddExpenseModal: React.FC<AddExpenseModalProps> = ({ onClose, onSave, expenseToEdit, cycleId }) => {
+// One receipt line in "create all" mode, editable before it becomes an expense.
+type SplitLine = {
+  item: string;
+  amount: string;
+  date: string;
+  include: boolean;
+};
+
+// OCR dates come in whatever format the receipt printed; null when unparseable.
+function toInputDate(value?: string): string | null {
+  if (!value) return null;
+  try {
+    return new Date(value).toISOString().split('T')[0];
+  } catch (e) {
+    return null;
+  }
+}
+
+const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
+  onClose,
+  onSave,
+  onSaveMany,
+  expenseToEdit,
+  cycleId,
+  categories = [],
+  cycleExpenses = [],
+  currency = DEFAULT_CURRENCY,
+  exchangeRates = []
+}) => {
   const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
   const [item, setItem] = useState('');
   const [amount, setAmount] = useState('');
+  const [expenseCurrency, setExpenseCurrency] = useState(currency);
   const [contact, setContact] = useState('');
   const [remarks, setRemarks] = useState('');
+  const [categoryId, setCategoryId] = useState('');
   const [receiptPreview, setReceiptPreview] = useState<string | null>(null);
+  // PDFs have no thumbnail; the preview shows the file name instead.
+  const [receiptPdfName, setReceiptPdfName] = useState<string | null>(null);
   const [storedReceiptUrl, setStoredReceiptUrl] = useState<string | null>(expenseToEdit?.receiptUrl || null);
+  // Hash of a newly uploaded receipt; an untouched receipt keeps the stored one.
+  const [storedReceiptHash, setStoredReceiptHash] = useState<string | null>(null);
+  const [receiptDuplicates, setReceiptDuplicates] = useState<ReceiptDuplicateMatch[]>([]);
   const [existingReceiptUrl, setExistingReceiptUrl] = useState<string | null>(expenseToEdit?.receiptUrl || null);
 
   const [isOcrLoading, setIsOcrLoading] = useState(false);
   const [ocrError, setOcrError] = useState<string | null>(null);
   const [ocrResults, setOcrResults] = useState<OcrResult[]>([]);
+  const [receiptDetails, setReceiptDetails] = useState<ReceiptOcrDetails | null>(null);
+  const [splitLines, setSplitLines] = useState<SplitLine[] | null>(null);
+  const [ocrQuota, setOcrQuota] = useState<OcrQuotaStatus | null>(null);
 
   const isEditing = !!expenseToEdit;
   const modalRef = useRef<HTMLDivElement>(null);
@@ -39,22 +104,49 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({ onClose, onSave, expe
       setDate(expenseToEdit.date.split('T')[0]);
       setItem(expenseToEdit.item);
       setAmount(String(expenseToEdit.amount));
+      setExpenseCurrency(expenseToEdit.currency || currency);
       setContact(expenseToEdit.contact || '');
       setRemarks(expenseToEdit.remarks || '');
+      setCategoryId(expenseToEdit.categoryId || '');
       setReceiptPreview(null);
+      setReceiptPdfName(null);
       setStoredReceiptUrl(expenseToEdit.receiptUrl || null);
       setExistingReceiptUrl(expenseToEdit.receiptUrl || null);
       setOcrResults([]);
       setOcrError(null);
+      setReceiptDetails({
+        merchant: expenseToEdit.merchant,
+        subtotal: expenseToEdit.receiptSubtotal,
+        tax: expenseToEdit.receiptTax,
+        tip: expenseToEdit.receiptTip,
+        total: expenseToEdit.receiptTotal,
+        paymentMethod: expenseToEdit.paymentMethod
+      });
     } else {
       setReceiptPreview(null);
+      setReceiptPdfName(null);
       setStoredReceiptUrl(null);
       setExistingReceiptUrl(null);
       setOcrResults([]);
       setOcrError(null);
+      setReceiptDetails(null);
     }
   }, [expenseToEdit]);
 
+  // The quota display is informational; the OCR endpoint enforces the limits.
+  const refreshOcrQuota = () => {
+    void getOcrQuotaStatus(cycleId)
+      .then(setOcrQuota)
+      .catch((err: unknown) => {
+        console.error('Failed to load OCR quota:', err);
+        setOcrQuota(null);
+      });
+  };
+
+  useEffect(() => {
+    refreshOcrQuota();
+  }, [cycleId]);
+
   useEffect(() => {
     return () => {
       if (receiptPreview?.startsWith('blob:')) {
@@ -110,12 +202,16 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({ onClose, onSave, expe
       }
 
       setReceiptPreview(URL.createObjectURL(file));
+      setReceiptPdfName(isPdfReceipt(file.type) ? file.name : null);
       // Clear only the pending new-upload URL. Do NOT clear existingReceiptUrl:
       // the previously-attached receipt must survive until the replacement upload
       // actually succeeds, so a failed re-upload never destroys the prior receipt.
       setStoredReceiptUrl(null);
+      setStoredReceiptHash(null);
+      setReceiptDuplicates([]);
       setOcrError(null);
       setOcrResults([]);
+      setSplitLines(null);
 
       setIsOcrLoading(true);
       void analyzeReceipt(file, cycleId)
@@ -123,9 +219,22 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({ onClose, onSave, expe
           if (result.receiptUrl) {
             // New upload succeeded: it replaces the previous receipt on save.
             setStoredReceiptUrl(result.receiptUrl);
+            setStoredReceiptHash(result.receiptHash || null);
           }
+          setReceiptDuplicates(result.duplicateExpenses || []);
           setOcrResults(result.ocrResults);
           setOcrError(result.analysisError || null);
+          if (result.receiptDetails) {
+            const { merchant, currency: receiptCurrency } = result.receiptDetails;
+            setReceiptDetails(result.receiptDetails);
+            // Never overwrite a contact the participant already typed.
+            if (merchant) {
+              setContact((current) => current || merchant);
+            }
+            if (receiptCurrency) {
+              setExpenseCurrency(receiptCurrency);
+            }
+          }
         })
         .catch((err: unknown) => {
           console.error('OCR Error:', err);
@@ -135,6 +244,7 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({ onClose, onSave, expe
         })
         .finally(() => {
           setIsOcrLoading(false);
+          refreshOcrQuota();
         });
     }
   };
@@ -142,16 +252,38 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({ onClose, onSave, expe
   const handleOcrResultClick = (result: OcrResult) => {
     setItem(result.item);
     setAmount(String(result.amount));
-    if (result.date) {
-      try {
-        const validDate = new Date(result.date).toISOString().split('T')[0];
-        setDate(validDate);
-      } catch (e) {
-        // Ignore invalid dates from OCR
-      }
+    // Ignore invalid dates from OCR
+    const validDate = toInputDate(result.date);
+    if (validDate) {
+      setDate(validDate);
     }
   };
 
+  const remainingScans = ocrQuota ? remainingOcrScans(ocrQuota) : null;
+  const canSplitReceipt = !isEditing && !!onSaveMany && ocrResults.length > 1;
+  const isSplitMode = canSplitReceipt && splitLines !== null;
+  const includedLines = splitLines?.filter((line) => line.include) ?? [];
+
+  const handleStartSplit = () => {
+    setSplitLines(ocrResults.map((result) => ({
+      item: result.item,
+      amount: String(result.amount),
+      date: toInputDate(result.date) || date,
+      include: true
+    })));
+  };
+
+  const updateSplitLine = (index: number, changes: Partial<SplitLine>) => {
+    setSplitLines((lines) => lines && lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  // Receipt total versus what OCR read line by line; a gap usually means some
+  // lines were missed or misread.
+  const lineItemsTotal = ocrResults.reduce((sum, result) => sum + result.amount, 0);
+  const lineItemsGap = receiptDetails?.total !== undefined && ocrResults.length > 0
+    ? receiptDetails.total - (lineItemsTotal + (receiptDetails.tax ?? 0) + (receiptDetails.tip ?? 0))
+    : 0;
+
   const handleOpenExistingReceipt = async () => {
     if (!existingReceiptUrl) {
       return;
@@ -166,6 +298,41 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({ onClose, onSave, expe
   };
 
 
+  const selectedCategory = categories.find((category) => category.id === categoryId);
+
+  // This expense in the program currency. Without a known rate it counts at
+  // face value, the same fallback the budget totals use.
+  const exchangeRate = findExchangeRate(exchangeRates, expenseCurrency, currency, date);
+  const formAmount = isSplitMode
+    ? includedLines.reduce((sum, line) => sum + (parseFloat(line.amount) || 0), 0)
+    : parseFloat(amount) || 0;
+  const amountInProgramCurrency = formAmount * (exchangeRate ?? 1);
+
+  // Projected spend in the selected category for this cycle if the expense is
+  // saved, excluding the expense being edited and rejected expenses.
+  const projectedCategorySpend = selectedCategory
+    ? cycleExpenses
+        .filter((expense) =>
+          expense.categoryId === selectedCategory.id &&
+          expense.id !== expenseToEdit?.id &&
+          expense.status !== ExpenseStatus.REJECTED
+        )
+        .reduce((sum, expense) => sum + expenseBaseAmount(expense), 0) + amountInProgramCurrency
+    : 0;
+  // Likely duplicates of this expense already in the cycle. Split receipt
+  // lines are checked by the server when they are created.
+  const detailDuplicates = !isSplitMode && item.trim() && amount
+    ? findDuplicateExpenses(
+        { date, item, amount: parseFloat(amount) || 0, currency: expenseCurrency },
+        cycleExpenses,
+        expenseToEdit?.id
+      )
+    : [];
+  const hasDuplicateWarning = detailDuplicates.length > 0 || receiptDuplicates.length > 0;
+
+  const exceedsCategoryCap =
+    selectedCategory?.cycleCap !== undefined && projectedCategorySpend > selectedCategory.cycleCap;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     // Guard: never save while a receipt upload/OCR is still in flight, otherwise the
@@ -173,22 +340,58 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({ onClose, onSave, expe
     if (isOcrLoading) {
       return;
     }
-    const expenseData = {
-      date,
-      item,
-      amount: parseFloat(amount),
+    const sharedFields = {
+      currency: expenseCurrency,
       contact,
       remarks,
+      categoryId: selectedCategory?.id,
+      // Legacy free-text categories (no categoryId) survive an edit untouched.
+      category: selectedCategory ? selectedCategory.name : expenseToEdit?.categoryId ? undefined : expenseToEdit?.category,
       receiptUrl: storedReceiptUrl || existingReceiptUrl || undefined,
+      receiptHash: storedReceiptUrl ? storedReceiptHash || undefined : expenseToEdit?.receiptHash,
+    };
+    // Describe the receipt as a whole, so a split receipt keeps them on its
+    // first line only rather than repeating the totals on every line.
+    const receiptFields = {
+      merchant: receiptDetails?.merchant,
+      paymentMethod: receiptDetails?.paymentMethod,
+      receiptSubtotal: receiptDetails?.subtotal,
+      receiptTax: receiptDetails?.tax,
+      receiptTip: receiptDetails?.tip,
+      receiptTotal: receiptDetails?.total,
     };
 
+    if (isSplitMode && onSaveMany) {
+      if (includedLines.length === 0) {
+        return;
+      }
+      onSaveMany(includedLines.map((line, index) => ({
+        ...sharedFields,
+        ...(index === 0 ? receiptFields : {}),
+        date: line.date,
+        item: line.item.trim(),
+        amount: parseFloat(line.amount)
+      })));
+      return;
+    }
+
+    const expenseData = { ...sharedFields, ...receiptFields, date, item, amount: parseFloat(amount) };
+
     if (isEditing) {
-      onSave({ ...expenseData, id: expenseToEdit.id });
+      onSave({ ...expenseData, id: expenseToEdit.id }, { allowDuplicate: hasDuplicateWarning });
     } else {
-      onSave(expenseData);
+      onSave(expenseData, { allowDuplicate: hasDuplicateWarning });
     }
   };
 
+  const currencySelect = (
+    <select id="currency" aria-label="Currency" value={expenseCurrency} onChange={e => setExpenseCurrency(e.target.value)} className="block w-24 border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm">
+      {currencyOptions(currency, expenseToEdit?.currency).map(code => (
+        <option key={code} value={code}>{code}</option>
+      ))}
+    </select>
+  );
+
   return (
     <div
       className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4"
@@ -205,20 +408,107 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({ onClose, onSave, expe
         </div>
         <form onSubmit={handleSubmit}>
           <div className="p-6 space-y-4">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {expenseToEdit && expenseToEdit.status && expenseToEdit.status !== ExpenseStatus.SUBMITTED && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 text-sm text-yellow-800">
+                {expenseToEdit.reviewReason && (
+                  <p className="mb-1"><strong>Manager note:</strong> {expenseToEdit.reviewReason}</p>
+                )}
+                <p>Saving changes will re-submit this expense for manager review.</p>
+              </div>
+            )}
+            {isSplitMode && splitLines ? (
               <div>
-                <label htmlFor="date" className="block text-sm font-medium text-gray-700">Date</label>
-                <input ref={firstFocusableElementRef} type="date" id="date" value={date} onChange={e => setDate(e.target.value)} required className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"/>
+                <div className="flex justify-between items-center">
+                  <h4 className="text-sm font-medium text-gray-700">Receipt lines</h4>
+                  <div className="flex items-center gap-2">
+                    {currencySelect}
+                    <button type="button" onClick={() => setSplitLines(null)} className="text-sm text-indigo-600 hover:text-indigo-800">
+                      Single expense
+                    </button>
+                  </div>
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                  Each included line becomes its own expense with the category, contact, remarks and receipt below.
+                </p>
+                <div className="mt-2 space-y-2 max-h-64 overflow-y-auto">
+                  {splitLines.map((line, index) => (
+                    <div key={index} className={`grid grid-cols-12 gap-2 items-center ${line.include ? '' : 'opacity-50'}`}>
+                      <input
+                        type="checkbox"
+                        aria-label={`Include line ${index + 1}`}
+                        checked={line.include}
+                        onChange={e => updateSplitLine(index, { include: e.target.checked })}
+                        className="col-span-1 h-4 w-4 text-indigo-600 border-gray-300 rounded"
+                      />
+                      <input type="text" aria-label={`Line ${index + 1} description`} value={line.item} onChange={e => updateSplitLine(index, { item: e.target.value })} required={line.include} disabled={!line.include} className="col-span-5 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"/>
+                      <input type="number" aria-label={`Line ${index + 1} amount`} value={line.amount} onChange={e => updateSplitLine(index, { amount: e.target.value })} required={line.include} disabled={!line.include} min="0" step="0.01" className="col-span-3 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"/>
+                      <input type="date" aria-label={`Line ${index + 1} date`} value={line.date} onChange={e => updateSplitLine(index, { date: e.target.value })} required={line.include} disabled={!line.include} className="col-span-3 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"/>
+                    </div>
+                  ))}
+                </div>
+                <p className="mt-2 text-sm text-gray-600">
+                  {includedLines.length} of {splitLines.length} lines, {formatMoney(formAmount, expenseCurrency)} in total
+                </p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="date" className="block text-sm font-medium text-gray-700">Date</label>
+                  <input ref={firstFocusableElementRef} type="date" id="date" value={date} onChange={e => setDate(e.target.value)} required className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"/>
+                </div>
+                <div>
+                  <label htmlFor="amount" className="block text-sm font-medium text-gray-700">Amount</label>
+                  <div className="mt-1 flex gap-2">
+                    <input type="number" id="amount" value={amount} onChange={e => setAmount(e.target.value)} required placeholder="0.00" step="0.01" className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"/>
+                    {currencySelect}
+                  </div>
+                </div>
               </div>
+            )}
+            {expenseCurrency !== currency && (
+              <p className={`text-sm ${exchangeRate === null ? 'text-yellow-700' : 'text-gray-500'}`}>
+                {exchangeRate === null
+                  ? `No ${expenseCurrency} to ${currency} exchange rate is on file yet. This expense counts at face value until a manager adds one.`
+                  : `About ${formatMoney(amountInProgramCurrency, currency)} in the program currency.`}
+              </p>
+            )}
+            {!isSplitMode && (
               <div>
-                <label htmlFor="amount" className="block text-sm font-medium text-gray-700">Amount</label>
-                <input type="number" id="amount" value={amount} onChange={e => setAmount(e.target.value)} required placeholder="0.00" step="0.01" className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"/>
+                <label htmlFor="item" className="block text-sm font-medium text-gray-700">Item / Description</label>
+                <input type="text" id="item" value={item} onChange={e => setItem(e.target.value)} required placeholder="e.g., Piano Lessons" className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"/>
               </div>
-            </div>
-            <div>
-              <label htmlFor="item" className="block text-sm font-medium text-gray-700">Item / Description</label>
-              <input type="text" id="item" value={item} onChange={e => setItem(e.target.value)} required placeholder="e.g., Piano Lessons" className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"/>
-            </div>
+            )}
+            {detailDuplicates.length > 0 && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 text-sm text-yellow-800">
+                <p className="font-medium">This looks like an expense you already added:</p>
+                <ul className="mt-1 list-disc list-inside">
+                  {detailDuplicates.map(({ expense }) => (
+                    <li key={expense.id}>
+                      {expense.item} on {expense.date.split('T')[0]}, {formatMoney(expense.amount, expense.currency || currency)}
+                    </li>
+                  ))}
+                </ul>
+                <p className="mt-1">You can still save it if it is a separate purchase.</p>
+              </div>
+            )}
+            {categories.length > 0 && (
+              <div>
+                <label htmlFor="category" className="block text-sm font-medium text-gray-700">Category</label>
+                <select id="category" value={categoryId} onChange={e => setCategoryId(e.target.value)} className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm">
+                  <option value="">Uncategorized</option>
+                  {categories.map(category => (
+                    <option key={category.id} value={category.id}>
+                      {category.name}{category.cycleCap !== undefined ? ` (cap ${formatMoney(category.cycleCap, currency)} per cycle)` : ''}
+                    </option>
+                  ))}
+                </select>
+                {exceedsCategoryCap && selectedCategory && (
+                  <p className="mt-1 text-sm text-red-600">
+                    This brings {selectedCategory.name} to {formatMoney(projectedCategorySpend, currency)} this cycle, over its {formatMoney(selectedCategory.cycleCap!, currency)} cap.
+                  </p>
+                )}
+              </div>
+            )}
             <div>
               <label htmlFor="contact" className="block text-sm font-medium text-gray-700">Contact (Optional)</label>
               <input type="text" id="contact" value={contact} onChange={e => setContact(e.target.value)} placeholder="e.g., Music School" className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"/>
@@ -231,7 +521,12 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({ onClose, onSave, expe
               <label className="block text-sm font-medium text-gray-700">Upload Receipt (Optional)</label>
               <div className="mt-1 flex justify-center px-6 pt-5 pb-6 border-2 border-gray-300 border-dashed rounded-md">
                 <div className="space-y-1 text-center">
-                  {receiptPreview ? (
+                  {receiptPreview && receiptPdfName ? (
+                    <div className="mx-auto flex h-24 flex-col items-center justify-center">
+                      <svg className="h-12 w-12 text-red-500" stroke="currentColor" fill="none" viewBox="0 0 24 24" aria-hidden="true"><path d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round" /></svg>
+                      <p className="mt-1 max-w-xs truncate text-sm text-gray-700">{receiptPdfName}</p>
+                    </div>
+                  ) : receiptPreview ? (
                     <img src={receiptPreview} alt="Receipt Preview" className="mx-auto h-24 w-auto"/>
                   ) : existingReceiptUrl ? (
                     <div className="space-y-2">
@@ -250,19 +545,47 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({ onClose, onSave, expe
                   <div className="flex text-sm text-gray-600">
                     <label htmlFor="file-upload" className="relative cursor-pointer bg-white rounded-md font-medium text-indigo-600 hover:text-indigo-500 focus-within:outline-none focus-within:ring-2 focus-within:ring-offset-2 focus-within:ring-indigo-500">
                       <span>Upload a file</span>
-                      <input id="file-upload" name="file-upload" type="file" className="sr-only" onChange={handleReceiptChange} accept="image/*"/>
+                      <input id="file-upload" name="file-upload" type="file" className="sr-only" onChange={handleReceiptChange} accept={RECEIPT_FILE_ACCEPT}/>
                     </label>
                     <p className="pl-1">or drag and drop</p>
                   </div>
-                  <p className="text-xs text-gray-500">PNG, JPG, GIF, WEBP up to 10MB</p>
+                  <p className="text-xs text-gray-500">PNG, JPG, GIF, WEBP or PDF up to 10MB</p>
+                  {remainingScans !== null && (
+                    <p className={`text-xs ${remainingScans === 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                      {remainingScans === 0
+                        ? 'No receipt scans left today. Please enter the details manually.'
+                        : `${remainingScans} receipt scan${remainingScans === 1 ? '' : 's'} left today`}
+                    </p>
+                  )}
                 </div>
               </div>
               {isOcrLoading && <p className="mt-2 text-center text-sm text-indigo-600 animate-pulse">Analyzing receipt...</p>}
               {ocrError && <p className="mt-2 text-center text-sm text-red-600">{ocrError}</p>}
+              {receiptDuplicates.length > 0 && (
+                <div className="mt-2 bg-yellow-50 border border-yellow-200 rounded-md p-3 text-sm text-yellow-800">
+                  <p className="font-medium">This receipt was already uploaded for:</p>
+                  <ul className="mt-1 list-disc list-inside">
+                    {receiptDuplicates.map((duplicate) => (
+                      <li key={duplicate.id}>
+                        {duplicate.item} on {duplicate.date.split('T')[0]}, {formatMoney(duplicate.amount, duplicate.currency || currency)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
               {ocrResults.length > 0 && (
                 <div className="mt-4 p-4 bg-indigo-50 rounded-md">
-                  <h4 className="font-bold text-gray-800">Detected Expenses</h4>
-                  <p className="text-sm text-gray-600 mb-2">Click an item to auto-fill the form.</p>
+                  <div className="flex justify-between items-center">
+                    <h4 className="font-bold text-gray-800">Detected Expenses</h4>
+                    {canSplitReceipt && !isSplitMode && (
+                      <button type="button" onClick={handleStartSplit} className="text-sm font-medium text-indigo-600 hover:text-indigo-800">
+                        Create all {ocrResults.length}
+                      </button>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-600 mb-2">
+                    {isSplitMode ? 'Edit or skip lines above before saving.' : 'Click an item to auto-fill the form.'}
+                  </p>
                   <div className="space-y-2 max-h-32 overflow-y-auto">
                     {ocrResults.map((result, index) => (
                       <button
@@ -272,17 +595,60 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({ onClose, onSave, expe
                         className="w-full text-left p-2 bg-white rounded shadow hover:bg-indigo-100 transition-colors duration-200 flex justify-between items-center"
                       >
                         <span className="truncate pr-2">{result.item}</span>
-                        <span className="font-semibold text-indigo-800">${result.amount.toFixed(2)}</span>
+                        <span className="font-semibold text-indigo-800">{formatMoney(result.amount, expenseCurrency)}</span>
                       </button>
                     ))}
                   </div>
                 </div>
               )}
+              {receiptDetails && hasReceiptDetails(receiptDetails) && (
+                <div className="mt-4 p-4 bg-gray-50 rounded-md text-sm">
+                  <h4 className="font-bold text-gray-800 mb-2">Receipt Summary</h4>
+                  <dl className="grid grid-cols-2 gap-x-4 gap-y-1">
+                    {receiptDetails.merchant && (
+                      <><dt className="text-gray-500">Merchant</dt><dd className="text-gray-900 truncate">{receiptDetails.merchant}</dd></>
+                    )}
+                    {receiptDetails.paymentMethod && (
+                      <><dt className="text-gray-500">Paid with</dt><dd className="text-gray-900 truncate">{receiptDetails.paymentMethod}</dd></>
+                    )}
+                    {receiptDetails.subtotal !== undefined && (
+                      <><dt className="text-gray-500">Subtotal</dt><dd className="text-gray-900">{formatMoney(receiptDetails.subtotal, expenseCurrency)}</dd></>
+                    )}
+                    {receiptDetails.tax !== undefined && (
+                      <><dt className="text-gray-500">Tax</dt><dd className="text-gray-900">{formatMoney(receiptDetails.tax, expenseCurrency)}</dd></>
+                    )}
+                    {receiptDetails.tip !== undefined && (
+                      <><dt className="text-gray-500">Tip</dt><dd className="text-gray-900">{formatMoney(receiptDetails.tip, expenseCurrency)}</dd></>
+                    )}
+                    {receiptDetails.total !== undefined && (
+                      <><dt className="text-gray-500">Receipt total</dt><dd className="font-semibold text-gray-900">{formatMoney(receiptDetails.total, expenseCurrency)}</dd></>
+                    )}
+                    {ocrResults.length > 0 && (
+                      <><dt className="text-gray-500">Line items ({ocrResults.length})</dt><dd className="text-gray-900">{formatMoney(lineItemsTotal, expenseCurrency)}</dd></>
+                    )}
+                  </dl>
+                  {Math.abs(lineItemsGap) >= 0.01 && (
+                    <p className="mt-2 text-yellow-700">
+                      Line items plus tax and tip are {formatMoney(Math.abs(lineItemsGap), expenseCurrency)} {lineItemsGap > 0 ? 'short of' : 'over'} the
+                      receipt total. Some lines may not have been read correctly.
+                    </p>
+                  )}
+                  {receiptDetails.total !== undefined && (
+                    <button
+                      type="button"
+                      onClick={() => setAmount(String(receiptDetails.total))}
+                      className="mt-2 text-indigo-600 hover:text-indigo-800 font-medium"
+                    >
+                      Use receipt total
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
           </div>
           <div className="p-6 bg-gray-50 flex justify-end gap-3">
             <button type="button" onClick={onClose} className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 transition-colors duration-200">Cancel</button>
-            <button type="submit" disabled={isOcrLoading} aria-busy={isOcrLoading} title={isOcrLoading ? 'Please wait for the receipt to finish uploading' : undefined} className="px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-indigo-600">{isOcrLoading ? 'Uploading receipt...' : isEditing ? 'Save Changes' : 'Add Expense'}</button>
+            <button type="submit" disabled={isOcrLoading || (isSplitMode && includedLines.length === 0)} aria-busy={isOcrLoading} title={isOcrLoading ? 'Please wait for the receipt to finish uploading' : undefined} className="px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-indigo-600">{isOcrLoading ? 'Uploading receipt...' : isEditing ? 'Save Changes' : isSplitMode ? `Add ${includedLines.length} Expenses` : 'Add Expense'}</button>
           </div>
         </form>
       </div>
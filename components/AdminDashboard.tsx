@@ -1,12 +1,21 @@
 import React, { useState, useEffect } from 'react';
 import { User } from '../types';
 import AdminUserManagement from './AdminUserManagement';
+import OcrQuotaManager from './OcrQuotaManager';
 import { getSystemStats } from '../src/lib/programs';
+import { ProgramBudgetAllocation } from '../src/lib/finance';
+import { formatMoney } from '../src/lib/currency';
+import { NotificationTarget } from '../src/lib/notifications';
+import NotificationBadge from './NotificationBadge';
+import useNotifications from '../hooks/useNotifications';
 
 interface AdminDashboardProps {
   user: User;
   onLogout: () => void;
   onAccountSettings: () => void;
+  onNotifications: () => void;
+  navigationTarget?: NotificationTarget | null;
+  onNavigationHandled?: () => void;
 }
 
 interface SystemStats {
@@ -17,17 +26,43 @@ interface SystemStats {
   totalAdmins: number;
   pendingInvites: number;
   activePrograms: number;
+  budgetRollup: {
+    totalBudget: number;
+    allocated: number;
+    unallocated: number;
+    spent: number;
+    overAllocatedPrograms: number;
+    unconvertedPrograms: number;
+    currency: string;
+  };
+  programBudgets: ProgramBudgetAllocation[];
 }
 
-const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout, onAccountSettings }) => {
+
+const AdminDashboard: React.FC<AdminDashboardProps> = ({
+  user,
+  onLogout,
+  onAccountSettings,
+  onNotifications,
+  navigationTarget,
+  onNavigationHandled
+}) => {
   const [activeTab, setActiveTab] = useState<'overview' | 'users' | 'programs'>('overview');
   const [stats, setStats] = useState<SystemStats | null>(null);
   const [loading, setLoading] = useState(true);
+  const { unreadCount } = useNotifications(user.id);
 
   useEffect(() => {
     loadStats();
   }, []);
 
+  // Admins see every program from the programs tab
+  useEffect(() => {
+    if (!navigationTarget) return;
+    setActiveTab('programs');
+    onNavigationHandled?.();
+  }, [navigationTarget]);
+
   const loadStats = async () => {
     try {
       setLoading(true);
@@ -56,6 +91,15 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout, onAccou
               <span className="text-sm text-gray-600">
                 Welcome, {user.name}
               </span>
+              <button
+                onClick={onNotifications}
+                className="relative px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                Notifications
+                <span className="absolute -top-2 -right-2">
+                  <NotificationBadge count={unreadCount} />
+                </span>
+              </button>
               <button
                 onClick={onAccountSettings}
                 className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
@@ -211,6 +255,82 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout, onAccou
               </div>
             </div>
 
+            {/* Budget Rollup */}
+            <div className="bg-white rounded-lg shadow p-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">Program Budgets (Active Programs)</h3>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                <div className="text-center p-4 bg-gray-50 rounded-lg">
+                  <p className="text-2xl font-bold text-gray-900">
+                    {loading || !stats ? '-' : formatMoney(stats.budgetRollup.totalBudget, stats.budgetRollup.currency)}
+                  </p>
+                  <p className="text-sm text-gray-600">Total Budget</p>
+                </div>
+                <div className="text-center p-4 bg-blue-50 rounded-lg">
+                  <p className="text-2xl font-bold text-blue-700">
+                    {loading || !stats ? '-' : formatMoney(stats.budgetRollup.allocated, stats.budgetRollup.currency)}
+                  </p>
+                  <p className="text-sm text-blue-600">Allocated to Cycles</p>
+                </div>
+                <div className="text-center p-4 bg-green-50 rounded-lg">
+                  <p className="text-2xl font-bold text-green-700">
+                    {loading || !stats ? '-' : formatMoney(stats.budgetRollup.unallocated, stats.budgetRollup.currency)}
+                  </p>
+                  <p className="text-sm text-green-600">Unallocated</p>
+                </div>
+                <div className="text-center p-4 bg-amber-50 rounded-lg">
+                  <p className="text-2xl font-bold text-amber-700">
+                    {loading || !stats ? '-' : formatMoney(stats.budgetRollup.spent, stats.budgetRollup.currency)}
+                  </p>
+                  <p className="text-sm text-amber-600">Spent</p>
+                </div>
+              </div>
+              {stats && stats.budgetRollup.unconvertedPrograms > 0 && (
+                <div className="mb-4 bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-md text-sm">
+                  {stats.budgetRollup.unconvertedPrograms} active program
+                  {stats.budgetRollup.unconvertedPrograms !== 1 ? 's have' : ' has'} no exchange rate to {stats.budgetRollup.currency}
+                  {' '}and {stats.budgetRollup.unconvertedPrograms !== 1 ? 'are' : 'is'} added to these totals at face value.
+                </div>
+              )}
+              {stats && stats.budgetRollup.overAllocatedPrograms > 0 && (
+                <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
+                  {stats.budgetRollup.overAllocatedPrograms} active program
+                  {stats.budgetRollup.overAllocatedPrograms !== 1 ? 's have' : ' has'} more allocated to cycles than its total budget.
+                </div>
+              )}
+              {stats && stats.programBudgets.length > 0 && (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Program</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Budget</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Allocated</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Unallocated</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Spent</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {stats.programBudgets.map((program) => (
+                        <tr key={program.programId}>
+                          <td className="px-4 py-2 text-sm text-gray-900">{program.programName}</td>
+                          <td className="px-4 py-2 text-sm text-gray-500">{program.programStatus}</td>
+                          <td className="px-4 py-2 text-sm text-gray-900 text-right">
+                            {program.totalBudget > 0 ? formatMoney(program.totalBudget, program.currency) : 'Not set'}
+                          </td>
+                          <td className="px-4 py-2 text-sm text-gray-900 text-right">{formatMoney(program.allocated, program.currency)}</td>
+                          <td className={`px-4 py-2 text-sm text-right ${program.totalBudget > 0 && program.unallocated < 0 ? 'text-red-600 font-medium' : 'text-gray-900'}`}>
+                            {program.totalBudget > 0 ? formatMoney(program.unallocated, program.currency) : '-'}
+                          </td>
+                          <td className="px-4 py-2 text-sm text-gray-900 text-right">{formatMoney(program.spent, program.currency)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
             {/* Quick Actions */}
             <div className="bg-white rounded-lg shadow p-6">
               <h3 className="text-lg font-medium text-gray-900 mb-4">Quick Actions</h3>
@@ -269,11 +389,14 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout, onAccou
         )}
 
         {activeTab === 'programs' && (
-          <div className="bg-white rounded-lg shadow p-6">
-            <h3 className="text-lg font-medium text-gray-900 mb-4">All Programs</h3>
-            <p className="text-gray-500">
-              Program management view coming soon. For now, use the Program Manager dashboard to manage individual programs.
-            </p>
+          <div className="space-y-6">
+            <div className="bg-white rounded-lg shadow p-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">All Programs</h3>
+              <p className="text-gray-500">
+                Program management view coming soon. For now, use the Program Manager dashboard to manage individual programs.
+              </p>
+            </div>
+            <OcrQuotaManager />
           </div>
         )}
       </main>
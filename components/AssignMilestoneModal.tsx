@@ -1,6 +1,13 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { User, Milestone, MilestoneCategory, MilestoneStatus, AssignmentType, Program } from '../types';
+import { User, Milestone, MilestoneCategory, MilestoneStatus, MilestoneTemplate, AssignmentType, Program } from '../types';
 import CloseIcon from './icons/CloseIcon';
+import { DEFAULT_CURRENCY } from '../src/lib/currency';
+import {
+  createMilestoneTemplate,
+  deleteMilestoneTemplate,
+  getProgramMilestoneTemplates,
+  updateMilestoneTemplate
+} from '../src/lib/milestoneTemplates';
 
 interface AssignMilestoneModalProps {
   user: User; // The manager assigning
@@ -17,6 +24,14 @@ interface MilestoneAssignment {
   milestone: Omit<Milestone, 'id' | 'userId' | 'createdAt' | 'progressReports'>;
 }
 
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const addDays = (date: string, days: number) => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+};
+
 const AssignMilestoneModal: React.FC<AssignMilestoneModalProps> = ({
   user,
   programId,
@@ -33,10 +48,15 @@ const AssignMilestoneModal: React.FC<AssignMilestoneModalProps> = ({
   const [endDate, setEndDate] = useState('');
   const [isRequired, setIsRequired] = useState(true);
   const [canDecline, setCanDecline] = useState(false);
+  const [completionReward, setCompletionReward] = useState('');
   const [selectedParticipants, setSelectedParticipants] = useState<string[]>([]);
   const [selectAll, setSelectAll] = useState(false);
   const [error, setError] = useState('');
   const [assignmentType, setAssignmentType] = useState<'individual' | 'bulk'>('individual');
+  const [templates, setTemplates] = useState<MilestoneTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState('');
+  const [saveAsTemplate, setSaveAsTemplate] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
 
   const modalRef = useRef<HTMLDivElement>(null);
   const firstFocusableElementRef = useRef<HTMLInputElement>(null);
@@ -61,6 +81,93 @@ const AssignMilestoneModal: React.FC<AssignMilestoneModalProps> = ({
     };
   }, [onClose]);
 
+  useEffect(() => {
+    const loadTemplates = async () => {
+      try {
+        setTemplates(await getProgramMilestoneTemplates(programId));
+      } catch (err) {
+        // The picker is a convenience; the form still works without it.
+        console.error('Error loading milestone templates:', err);
+      }
+    };
+
+    loadTemplates();
+  }, [programId]);
+
+  const selectedTemplate = templates.find(t => t.id === selectedTemplateId) || null;
+
+  const handleTemplateChange = (templateId: string) => {
+    setSelectedTemplateId(templateId);
+    const template = templates.find(t => t.id === templateId);
+    if (!template) return;
+
+    setTitle(template.title);
+    setDescription(template.description);
+    setCategory(template.category);
+    setIsRequired(template.isRequired);
+    setEndDate(addDays(startDate, template.suggestedDuration));
+    setSaveAsTemplate(false);
+  };
+
+  const handleStartDateChange = (value: string) => {
+    setStartDate(value);
+    // Keep the template's duration when the manager shifts the start date.
+    if (selectedTemplate && value) {
+      setEndDate(addDays(value, selectedTemplate.suggestedDuration));
+    }
+  };
+
+  const handleDeleteTemplate = async () => {
+    if (!selectedTemplate) return;
+    if (!confirm(`Delete the "${selectedTemplate.title}" template? Milestones already assigned from it are not affected.`)) {
+      return;
+    }
+
+    try {
+      await deleteMilestoneTemplate(selectedTemplate.id);
+      setTemplates(prev => prev.filter(t => t.id !== selectedTemplate.id));
+      setSelectedTemplateId('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete template');
+    }
+  };
+
+  // Saves the form's current details back to the selected template.
+  const handleUpdateTemplate = async () => {
+    if (!selectedTemplate) return;
+    setError('');
+
+    if (!title.trim()) {
+      setError('Milestone title is required');
+      return;
+    }
+
+    const start = new Date(startDate);
+    const end = new Date(endDate);
+    if (!endDate || end <= start) {
+      setError('Set an end date after the start date to give the template its duration');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const updated = await updateMilestoneTemplate(selectedTemplate.id, {
+        title: title.trim(),
+        description: description.trim(),
+        category,
+        suggestedDuration: Math.max(1, Math.round((end.getTime() - start.getTime()) / DAY_MS)),
+        isRequired
+      });
+      setTemplates(prev => prev
+        .map(t => (t.id === updated.id ? updated : t))
+        .sort((a, b) => a.title.localeCompare(b.title)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update template');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   const handleSelectAll = () => {
     if (selectAll) {
       setSelectedParticipants([]);
@@ -81,7 +188,7 @@ const AssignMilestoneModal: React.FC<AssignMilestoneModalProps> = ({
     setSelectAll(false);
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
 
@@ -109,6 +216,30 @@ const AssignMilestoneModal: React.FC<AssignMilestoneModalProps> = ({
       return;
     }
 
+    const reward = completionReward.trim() ? Number(completionReward) : undefined;
+    if (reward !== undefined && (!Number.isFinite(reward) || reward < 0)) {
+      setError('Completion reward cannot be negative');
+      return;
+    }
+
+    if (saveAsTemplate) {
+      try {
+        setIsSubmitting(true);
+        await createMilestoneTemplate(programId, {
+          title: title.trim(),
+          description: description.trim(),
+          category,
+          suggestedDuration: Math.max(1, Math.round((end.getTime() - start.getTime()) / DAY_MS)),
+          isRequired
+        });
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to save milestone template');
+        return;
+      } finally {
+        setIsSubmitting(false);
+      }
+    }
+
     // Create assignments for each selected participant
     const assignments: MilestoneAssignment[] = selectedParticipants.map(participantId => ({
       participantId,
@@ -120,12 +251,15 @@ const AssignMilestoneModal: React.FC<AssignMilestoneModalProps> = ({
         endDate,
         status: MilestoneStatus.NOT_STARTED,
         programId,
+        completionReward: reward,
         assignmentInfo: {
           assignedBy: user.id,
           assignedAt: new Date().toISOString(),
-          assignmentType: selectedParticipants.length > 1
-            ? AssignmentType.BULK_ASSIGNED
-            : AssignmentType.MANAGER_ASSIGNED,
+          assignmentType: selectedTemplate
+            ? AssignmentType.TEMPLATE_BASED
+            : selectedParticipants.length > 1
+              ? AssignmentType.BULK_ASSIGNED
+              : AssignmentType.MANAGER_ASSIGNED,
           isRequired,
           canDecline,
         }
@@ -206,6 +340,50 @@ const AssignMilestoneModal: React.FC<AssignMilestoneModalProps> = ({
             <div className="space-y-4 pb-4 border-b">
               <h4 className="font-medium text-gray-900">Milestone Details</h4>
 
+              {/* Template Picker */}
+              <div>
+                <label htmlFor="template" className="block text-sm font-medium text-gray-700">
+                  Start from Template
+                </label>
+                <div className="mt-1 flex items-center gap-3">
+                  <select
+                    id="template"
+                    value={selectedTemplateId}
+                    onChange={(e) => handleTemplateChange(e.target.value)}
+                    className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                  >
+                    <option value="">
+                      {templates.length === 0 ? 'No templates saved for this program' : 'None (blank milestone)'}
+                    </option>
+                    {templates.map(template => (
+                      <option key={template.id} value={template.id}>
+                        {template.title} ({template.suggestedDuration} day{template.suggestedDuration !== 1 ? 's' : ''})
+                      </option>
+                    ))}
+                  </select>
+                  {selectedTemplate && (
+                    <>
+                      <button
+                        type="button"
+                        onClick={handleUpdateTemplate}
+                        disabled={isSubmitting}
+                        title="Save the title, description, category, duration and required setting below to this template"
+                        className="text-sm text-indigo-600 hover:text-indigo-500 whitespace-nowrap disabled:opacity-50"
+                      >
+                        Update template
+                      </button>
+                      <button
+                        type="button"
+                        onClick={handleDeleteTemplate}
+                        className="text-sm text-red-600 hover:text-red-500 whitespace-nowrap"
+                      >
+                        Delete template
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+
               {/* Title */}
               <div>
                 <label htmlFor="title" className="block text-sm font-medium text-gray-700">
@@ -267,7 +445,7 @@ const AssignMilestoneModal: React.FC<AssignMilestoneModalProps> = ({
                     type="date"
                     id="startDate"
                     value={startDate}
-                    onChange={(e) => setStartDate(e.target.value)}
+                    onChange={(e) => handleStartDateChange(e.target.value)}
                     required
                     className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
                   />
@@ -288,6 +466,26 @@ const AssignMilestoneModal: React.FC<AssignMilestoneModalProps> = ({
                 </div>
               </div>
 
+              {/* Completion Reward */}
+              <div>
+                <label htmlFor="completionReward" className="block text-sm font-medium text-gray-700">
+                  Completion Reward ({program?.currency || DEFAULT_CURRENCY})
+                </label>
+                <input
+                  type="number"
+                  id="completionReward"
+                  value={completionReward}
+                  onChange={(e) => setCompletionReward(e.target.value)}
+                  min="0"
+                  step="0.01"
+                  placeholder="Optional"
+                  className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Added to the participant's cycle budget when you verify the completed milestone.
+                </p>
+              </div>
+
               {/* Assignment Options */}
               <div className="space-y-2">
                 <label className="flex items-center">
@@ -310,6 +508,19 @@ const AssignMilestoneModal: React.FC<AssignMilestoneModalProps> = ({
                     Allow participants to decline (with reason)
                   </span>
                 </label>
+                {!selectedTemplate && (
+                  <label className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={saveAsTemplate}
+                      onChange={(e) => setSaveAsTemplate(e.target.checked)}
+                      className="mr-2"
+                    />
+                    <span className="text-sm font-medium text-gray-700">
+                      Save as a template for future cohorts
+                    </span>
+                  </label>
+                )}
               </div>
             </div>
 
@@ -405,7 +616,8 @@ const AssignMilestoneModal: React.FC<AssignMilestoneModalProps> = ({
             </button>
             <button
               type="submit"
-              className="px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 transition-colors duration-200"
+              disabled={isSubmitting}
+              className="px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 transition-colors duration-200 disabled:opacity-50"
             >
               Assign Milestone{selectedParticipants.length > 1 ? 's' : ''}
             </button>
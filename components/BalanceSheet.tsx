@@ -1,20 +1,34 @@
 import React from 'react';
-import { BalanceSheetCycle, Expense } from '../types';
+import { BalanceSheetCycle, Expense, ExpenseStatus } from '../types';
 import PlusIcon from './icons/PlusIcon';
 import EditIcon from './icons/EditIcon';
 import DeleteIcon from './icons/DeleteIcon';
+import ExpenseStatusBadge from './ExpenseStatusBadge';
 import { openProtectedReceipt } from '../src/lib/receiptOcr';
+import { sumCountedExpenses } from '../src/lib/finance';
+import { DEFAULT_CURRENCY, formatMoney } from '../src/lib/currency';
+import ExpenseAmount from './ExpenseAmount';
 
 interface BalanceSheetProps {
   cycle: BalanceSheetCycle;
+  currency?: string; // Program currency the budget and totals are in
   onAddExpense: () => void;
+  onImportStatement?: () => void;
   onNewCycle: () => void;
   onEditExpense: (expense: Expense) => void;
   onDeleteExpense: (expenseId: string) => void;
 }
 
-const BalanceSheet: React.FC<BalanceSheetProps> = ({ cycle, onAddExpense, onNewCycle, onEditExpense, onDeleteExpense }) => {
-  const totalSpent = cycle.expenses.reduce((sum, expense) => sum + expense.amount, 0);
+const BalanceSheet: React.FC<BalanceSheetProps> = ({
+  cycle,
+  currency = DEFAULT_CURRENCY,
+  onAddExpense,
+  onImportStatement,
+  onNewCycle,
+  onEditExpense,
+  onDeleteExpense
+}) => {
+  const totalSpent = sumCountedExpenses(cycle.expenses);
   const remainingBudget = cycle.budget - totalSpent;
   const isOverBudget = remainingBudget < 0;
 
@@ -45,6 +59,14 @@ const BalanceSheet: React.FC<BalanceSheetProps> = ({ cycle, onAddExpense, onNewC
             >
               Close & Start New Cycle
             </button>
+            {onImportStatement && (
+              <button
+                onClick={onImportStatement}
+                className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors duration-200"
+              >
+                Import Statement
+              </button>
+            )}
             <button
               onClick={onAddExpense}
               className="inline-flex items-center gap-2 px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors duration-200"
@@ -58,16 +80,16 @@ const BalanceSheet: React.FC<BalanceSheetProps> = ({ cycle, onAddExpense, onNewC
         <div className="mt-6 grid grid-cols-1 md:grid-cols-3 gap-6 text-center">
           <div className="bg-gray-100 p-4 rounded-lg">
             <p className="text-sm font-medium text-gray-500">Allowable Budget</p>
-            <p className="mt-1 text-2xl font-semibold text-gray-900">${cycle.budget.toFixed(2)}</p>
+            <p className="mt-1 text-2xl font-semibold text-gray-900">{formatMoney(cycle.budget, currency)}</p>
           </div>
           <div className="bg-green-50 p-4 rounded-lg">
             <p className="text-sm font-medium text-green-700">Total Spent</p>
-            <p className="mt-1 text-2xl font-semibold text-green-800">${totalSpent.toFixed(2)}</p>
+            <p className="mt-1 text-2xl font-semibold text-green-800">{formatMoney(totalSpent, currency)}</p>
           </div>
           <div className={`${isOverBudget ? 'bg-red-50' : 'bg-blue-50'} p-4 rounded-lg`}>
             <p className={`text-sm font-medium ${isOverBudget ? 'text-red-700' : 'text-blue-700'}`}>Remaining</p>
             <p className={`mt-1 text-2xl font-semibold ${isOverBudget ? 'text-red-800' : 'text-blue-800'}`}>
-              ${remainingBudget.toFixed(2)}
+              {formatMoney(remainingBudget, currency)}
             </p>
           </div>
         </div>
@@ -83,6 +105,7 @@ const BalanceSheet: React.FC<BalanceSheetProps> = ({ cycle, onAddExpense, onNewC
               <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-gray-500 uppercase tracking-wider">Contact</th>
               <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-gray-500 uppercase tracking-wider">Remarks</th>
               <th scope="col" className="px-6 py-3 text-center text-xs font-bold text-gray-500 uppercase tracking-wider">Receipt</th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-gray-500 uppercase tracking-wider">Status</th>
               <th scope="col" className="px-6 py-3 text-right text-xs font-bold text-gray-500 uppercase tracking-wider">Actions</th>
             </tr>
           </thead>
@@ -91,7 +114,12 @@ const BalanceSheet: React.FC<BalanceSheetProps> = ({ cycle, onAddExpense, onNewC
               <tr key={expense.id} className="hover:bg-gray-50 transition-colors duration-200">
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(expense.date)}</td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{expense.item}</td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">${expense.amount.toFixed(2)}</td>
+                <td
+                  className={`px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right ${expense.status === ExpenseStatus.REJECTED ? 'line-through' : ''}`}
+                  title={expense.status === ExpenseStatus.REJECTED ? 'Rejected expenses do not count toward the budget' : undefined}
+                >
+                  <ExpenseAmount expense={expense} baseCurrency={currency} />
+                </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{expense.contact || '-'}</td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 max-w-xs truncate">{expense.remarks || '-'}</td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-center">
@@ -105,6 +133,14 @@ const BalanceSheet: React.FC<BalanceSheetProps> = ({ cycle, onAddExpense, onNewC
                     </button>
                   ) : 'N/A'}
                 </td>
+                <td className="px-6 py-4 text-sm text-gray-500">
+                  <ExpenseStatusBadge status={expense.status} />
+                  {expense.reviewReason && (expense.status === ExpenseStatus.REJECTED || expense.status === ExpenseStatus.NEEDS_INFO) && (
+                    <p className="mt-1 text-xs text-gray-600 max-w-xs whitespace-normal">
+                      {expense.reviewReason}
+                    </p>
+                  )}
+                </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-right">
                    <button onClick={() => onEditExpense(expense)} className="text-indigo-600 hover:text-indigo-900 p-1" aria-label={`Edit expense ${expense.item}`}>
                      <EditIcon className="h-5 w-5"/>
@@ -116,13 +152,13 @@ const BalanceSheet: React.FC<BalanceSheetProps> = ({ cycle, onAddExpense, onNewC
               </tr>
             )) : (
               <tr>
-                <td colSpan={7} className="px-6 py-12 text-center text-gray-500">No expenses recorded for this cycle.</td>
+                <td colSpan={8} className="px-6 py-12 text-center text-gray-500">No expenses recorded for this cycle.</td>
               </tr>
             )}
             <tr className="bg-gray-50 font-bold">
               <td colSpan={2} className="px-6 py-4 text-right text-gray-700">Total:</td>
-              <td className="px-6 py-4 text-right text-gray-900">${totalSpent.toFixed(2)}</td>
-              <td colSpan={4}></td>
+              <td className="px-6 py-4 text-right text-gray-900">{formatMoney(totalSpent, currency)}</td>
+              <td colSpan={5}></td>
             </tr>
           </tbody>
         </table>
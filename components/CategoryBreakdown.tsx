@@ -0,0 +1,80 @@
+import React from 'react';
+import { CategorySpending } from '../src/lib/expenseCategories';
+
+interface CategoryBreakdownProps {
+  breakdown: CategorySpending[];
+  formatCurrency: (amount: number) => string;
+}
+
+// Horizontal bar chart of spending per category. Bars are scaled against the
+// largest of spend or cap so a capped category shows how close it is to the cap.
+const CategoryBreakdown: React.FC<CategoryBreakdownProps> = ({ breakdown, formatCurrency }) => {
+  const totalSpent = breakdown.reduce((sum, entry) => sum + entry.spent, 0);
+  const scale = Math.max(1, ...breakdown.map((entry) => Math.max(entry.spent, entry.cap ?? 0)));
+  const overCap = breakdown.filter((entry) => entry.isOverCap);
+
+  if (breakdown.length === 0) {
+    return <p className="text-sm text-gray-500">No categorized spending yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {overCap.length > 0 && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
+          {overCap.map((entry) => (
+            <p key={entry.label}>
+              <strong>{entry.label}</strong> is over its cycle cap: {formatCurrency(entry.spent)} of {formatCurrency(entry.cap ?? 0)}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {totalSpent > 0 && (
+        <div className="flex h-3 w-full rounded-full overflow-hidden bg-gray-200" aria-hidden="true">
+          {breakdown.filter((entry) => entry.spent > 0).map((entry) => (
+            <div
+              key={entry.label}
+              style={{ width: `${(entry.spent / totalSpent) * 100}%`, backgroundColor: entry.color }}
+              title={`${entry.label}: ${formatCurrency(entry.spent)}`}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {breakdown.map((entry) => (
+          <div key={entry.label}>
+            <div className="flex justify-between text-sm mb-1">
+              <span className="flex items-center gap-2 font-medium text-gray-900">
+                <span className="h-3 w-3 rounded-full" style={{ backgroundColor: entry.color }} />
+                {entry.label}
+              </span>
+              <span className={entry.isOverCap ? 'text-red-600 font-medium' : 'text-gray-600'}>
+                {formatCurrency(entry.spent)}
+                {entry.cap !== undefined && ` / ${formatCurrency(entry.cap)}`}
+              </span>
+            </div>
+            <div className="relative w-full bg-gray-100 rounded-full h-2">
+              <div
+                className="h-2 rounded-full"
+                style={{
+                  width: `${Math.min((entry.spent / scale) * 100, 100)}%`,
+                  backgroundColor: entry.isOverCap ? '#dc2626' : entry.color
+                }}
+              />
+              {entry.cap !== undefined && (
+                <div
+                  className="absolute top-0 h-2 w-0.5 bg-gray-700"
+                  style={{ left: `${Math.min((entry.cap / scale) * 100, 100)}%` }}
+                  title={`Cap: ${formatCurrency(entry.cap)}`}
+                />
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CategoryBreakdown;
@@ -0,0 +1,267 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Program, User, UserRole } from '../types';
+import CloseIcon from './icons/CloseIcon';
+
+interface CloneProgramModalProps {
+  user: User;
+  program: Program;
+  onClose: () => void;
+  onClone: (options: {
+    name: string;
+    start_date: string;
+    end_date: string;
+    total_budget: number;
+    copy_manager: boolean;
+  }) => void | Promise<void>;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const shiftDate = (date: string, days: number) => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+};
+
+const CloneProgramModal: React.FC<CloneProgramModalProps> = ({ user, program, onClose, onClone }) => {
+  const programLengthDays = Math.max(
+    1,
+    Math.round((new Date(program.endDate).getTime() - new Date(program.startDate).getTime()) / DAY_MS)
+  );
+  const today = new Date().toISOString().split('T')[0];
+
+  const [name, setName] = useState(`${program.name} (New Cohort)`);
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState(shiftDate(today, programLengthDays));
+  const [totalBudget, setTotalBudget] = useState(String(program.totalBudget ?? 0));
+  const [copyManager, setCopyManager] = useState(false);
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const modalRef = useRef<HTMLDivElement>(null);
+  const firstFocusableElementRef = useRef<HTMLInputElement>(null);
+
+  const isAdmin = user.role === UserRole.ADMIN;
+  const shiftDays = Math.round(
+    (new Date(startDate).getTime() - new Date(program.startDate).getTime()) / DAY_MS
+  );
+
+  // Accessibility: Focus trapping and Escape key
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    firstFocusableElementRef.current?.focus();
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClose]);
+
+  const handleStartDateChange = (value: string) => {
+    setStartDate(value);
+    // Keep the source program's length unless the manager edits the end date.
+    if (value) {
+      setEndDate(shiftDate(value, programLengthDays));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!name.trim()) {
+      setError('Program name is required');
+      return;
+    }
+
+    if (!startDate || !endDate) {
+      setError('Start and end dates are required');
+      return;
+    }
+
+    if (new Date(endDate) <= new Date(startDate)) {
+      setError('End date must be after start date');
+      return;
+    }
+
+    const budget = parseFloat(totalBudget);
+    if (isNaN(budget) || budget < 0) {
+      setError('Total budget must be zero or a positive number');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      await onClone({
+        name: name.trim(),
+        start_date: startDate,
+        end_date: endDate,
+        total_budget: budget,
+        copy_manager: isAdmin && copyManager
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to clone program');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="modal-title"
+    >
+      <div ref={modalRef} className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-full overflow-y-auto">
+        <div className="p-6 border-b flex justify-between items-center">
+          <div>
+            <h3 id="modal-title" className="text-2xl font-bold text-gray-900">
+              Clone Program
+            </h3>
+            <p className="mt-1 text-sm text-gray-600">From {program.name}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors duration-200"
+            aria-label="Close modal"
+          >
+            <CloseIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit}>
+          <div className="p-6 space-y-4">
+            {/* Program Name */}
+            <div>
+              <label htmlFor="clone-name" className="block text-sm font-medium text-gray-700">
+                New Program Name <span className="text-red-500">*</span>
+              </label>
+              <input
+                ref={firstFocusableElementRef}
+                type="text"
+                id="clone-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                required
+              />
+            </div>
+
+            {/* Date Range */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="clone-startDate" className="block text-sm font-medium text-gray-700">
+                  Start Date <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="date"
+                  id="clone-startDate"
+                  value={startDate}
+                  onChange={(e) => handleStartDateChange(e.target.value)}
+                  required
+                  className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                />
+              </div>
+              <div>
+                <label htmlFor="clone-endDate" className="block text-sm font-medium text-gray-700">
+                  End Date <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="date"
+                  id="clone-endDate"
+                  value={endDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  required
+                  min={startDate}
+                  className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                />
+              </div>
+            </div>
+
+            {/* Budget */}
+            <div>
+              <label htmlFor="clone-budget" className="block text-sm font-medium text-gray-700">
+                Total Budget
+              </label>
+              <div className="mt-1 relative rounded-md shadow-sm">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <span className="text-gray-500 sm:text-sm">$</span>
+                </div>
+                <input
+                  type="number"
+                  id="clone-budget"
+                  value={totalBudget}
+                  onChange={(e) => setTotalBudget(e.target.value)}
+                  min="0"
+                  step="0.01"
+                  className="block w-full pl-7 pr-3 border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                />
+              </div>
+            </div>
+
+            {isAdmin && (
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={copyManager}
+                  onChange={(e) => setCopyManager(e.target.checked)}
+                  className="mr-2"
+                />
+                <span className="text-sm font-medium text-gray-700">
+                  Keep the original program manager (otherwise you manage the clone)
+                </span>
+              </label>
+            )}
+
+            {/* Error Message */}
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md text-sm">
+                {error}
+              </div>
+            )}
+
+            {/* Info */}
+            <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
+              <h4 className="text-sm font-medium text-blue-900 mb-2">What gets copied:</h4>
+              <ul className="text-sm text-blue-700 space-y-1">
+                <li>• Program description and budget</li>
+                <li>
+                  • Milestones, with dates moved {Math.abs(shiftDays)} day{Math.abs(shiftDays) !== 1 ? 's' : ''}{' '}
+                  {shiftDays >= 0 ? 'later' : 'earlier'}
+                </li>
+                <li>• Milestone templates</li>
+                <li>• Expense categories, the program cycle schedule and reminder settings</li>
+                <li>• Participants, expenses and progress are not copied</li>
+              </ul>
+            </div>
+          </div>
+
+          <div className="p-6 bg-gray-50 flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 transition-colors duration-200"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 transition-colors duration-200 disabled:opacity-50"
+            >
+              {isSubmitting ? 'Cloning...' : 'Clone Program'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default CloneProgramModal;
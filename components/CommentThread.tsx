@@ -0,0 +1,344 @@
+import React, { useEffect, useState } from 'react';
+import { CommentPerson, CommentRevision, MilestoneComment } from '../types';
+import {
+  CommentThreadScope,
+  createComment,
+  deleteComment,
+  extractMentions,
+  getCommentPeople,
+  getCommentRevisions,
+  getComments,
+  MAX_COMMENT_LENGTH,
+  updateComment,
+} from '../src/lib/comments';
+
+interface CommentThreadProps {
+  scope: CommentThreadScope;
+  currentUserId: string;
+  // Program managers and admins can delete anyone's comments.
+  canModerate?: boolean;
+  emptyText?: string;
+}
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+interface CommentComposerProps {
+  people: CommentPerson[];
+  currentUserId: string;
+  initialBody?: string;
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (body: string, mentions: string[]) => Promise<void>;
+  onCancel?: () => void;
+}
+
+const CommentComposer: React.FC<CommentComposerProps> = ({
+  people,
+  currentUserId,
+  initialBody = '',
+  placeholder,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}) => {
+  const [body, setBody] = useState(initialBody);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const mentionable = people.filter((person) => person.id !== currentUserId);
+  const mentions = extractMentions(body, mentionable);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!body.trim()) {
+      setError('Write something first');
+      return;
+    }
+    if (body.trim().length > MAX_COMMENT_LENGTH) {
+      setError(`Comments can be at most ${MAX_COMMENT_LENGTH} characters`);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await onSubmit(body, mentions);
+      setBody('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save comment');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={placeholder}
+        rows={3}
+        maxLength={MAX_COMMENT_LENGTH}
+        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+      />
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs text-gray-500">
+          {mentions.length > 0
+            ? `Mentions: ${mentionable.filter((person) => mentions.includes(person.id)).map((person) => person.name).join(', ')}`
+            : mentionable.length > 0
+              ? `Mention someone with @${mentionable[0].name}`
+              : ''}
+        </p>
+        <div className="flex gap-2">
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-3 py-1 bg-gray-200 text-gray-700 text-sm rounded hover:bg-gray-300"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="px-3 py-1 bg-indigo-600 text-white text-sm rounded hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : submitLabel}
+          </button>
+        </div>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </form>
+  );
+};
+
+const CommentThread: React.FC<CommentThreadProps> = ({
+  scope,
+  currentUserId,
+  canModerate = false,
+  emptyText = 'No comments yet.',
+}) => {
+  const [people, setPeople] = useState<CommentPerson[]>([]);
+  const [threads, setThreads] = useState<MilestoneComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [revisions, setRevisions] = useState<CommentRevision[]>([]);
+
+  useEffect(() => {
+    loadComments();
+  }, [scope.assignmentId, scope.progressReportId]);
+
+  const loadComments = async () => {
+    try {
+      setError(null);
+      const commentPeople = await getCommentPeople(scope.assignmentId);
+      setPeople(commentPeople);
+      setThreads(await getComments(scope, commentPeople));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load comments');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async (body: string, mentions: string[], parentId?: string) => {
+    await createComment({ ...scope, parentId, body, mentions });
+    setReplyingTo(null);
+    await loadComments();
+  };
+
+  const handleUpdate = async (commentId: string, body: string, mentions: string[]) => {
+    await updateComment(commentId, body, mentions);
+    setEditingId(null);
+    if (historyId === commentId) setHistoryId(null);
+    await loadComments();
+  };
+
+  const handleDelete = async (comment: MilestoneComment) => {
+    if (!window.confirm('Delete this comment? Replies stay in the thread.')) return;
+
+    try {
+      setError(null);
+      await deleteComment(comment.id);
+      if (historyId === comment.id) setHistoryId(null);
+      await loadComments();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete comment');
+    }
+  };
+
+  const toggleHistory = async (commentId: string) => {
+    if (historyId === commentId) {
+      setHistoryId(null);
+      return;
+    }
+
+    try {
+      setError(null);
+      setRevisions(await getCommentRevisions(commentId));
+      setHistoryId(commentId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load comment history');
+    }
+  };
+
+  const renderComment = (comment: MilestoneComment) => {
+    const isAuthor = comment.authorId === currentUserId;
+    const isDeleted = Boolean(comment.deletedAt);
+
+    return (
+      <div key={comment.id} className="text-sm">
+        <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+          <span className="font-medium text-gray-900">{comment.authorName}</span>
+          <span>{formatDateTime(comment.createdAt)}</span>
+          {(comment.editedAt || isDeleted) && (
+            <button
+              type="button"
+              onClick={() => toggleHistory(comment.id)}
+              className="underline hover:text-gray-700"
+            >
+              {isDeleted ? 'deleted' : 'edited'}
+            </button>
+          )}
+        </div>
+
+        {editingId === comment.id ? (
+          <div className="mt-1">
+            <CommentComposer
+              people={people}
+              currentUserId={currentUserId}
+              initialBody={comment.body}
+              placeholder="Edit your comment..."
+              submitLabel="Save"
+              onSubmit={(body, mentions) => handleUpdate(comment.id, body, mentions)}
+              onCancel={() => setEditingId(null)}
+            />
+          </div>
+        ) : isDeleted ? (
+          <p className="mt-1 italic text-gray-400">This comment was deleted.</p>
+        ) : (
+          <p className="mt-1 text-gray-800 whitespace-pre-wrap">{comment.body}</p>
+        )}
+
+        {!isDeleted && editingId !== comment.id && (
+          <div className="mt-1 flex gap-3 text-xs">
+            {!comment.parentId && (
+              <button
+                type="button"
+                onClick={() => setReplyingTo(replyingTo === comment.id ? null : comment.id)}
+                className="text-indigo-600 hover:text-indigo-500"
+              >
+                Reply
+              </button>
+            )}
+            {isAuthor && (
+              <button
+                type="button"
+                onClick={() => setEditingId(comment.id)}
+                className="text-gray-600 hover:text-gray-900"
+              >
+                Edit
+              </button>
+            )}
+            {(isAuthor || canModerate) && (
+              <button
+                type="button"
+                onClick={() => handleDelete(comment)}
+                className="text-red-600 hover:text-red-800"
+              >
+                Delete
+              </button>
+            )}
+          </div>
+        )}
+
+        {historyId === comment.id && (
+          <div className="mt-2 rounded border border-gray-200 bg-white p-2 text-xs">
+            <p className="font-medium text-gray-700">History</p>
+            {revisions.length === 0 ? (
+              <p className="mt-1 text-gray-500">No earlier versions.</p>
+            ) : (
+              <ul className="mt-1 space-y-2">
+                {revisions.map((revision) => (
+                  <li key={revision.id}>
+                    <p className="text-gray-500">
+                      {revision.action === 'delete' ? 'Deleted' : 'Edited'} {formatDateTime(revision.createdAt)}
+                      {revision.revisedBy && revision.revisedBy !== comment.authorId && ' by a program manager'}
+                    </p>
+                    <p className="text-gray-700 whitespace-pre-wrap">{revision.body}</p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading comments...</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded-md text-sm">
+          {error}
+        </div>
+      )}
+
+      {threads.length === 0 ? (
+        <p className="text-sm text-gray-500">{emptyText}</p>
+      ) : (
+        <div className="space-y-3">
+          {threads.map((thread) => (
+            <div key={thread.id} className="rounded-md border border-gray-200 bg-gray-50 p-3">
+              {renderComment(thread)}
+
+              {thread.replies.length > 0 && (
+                <div className="mt-3 ml-4 space-y-3 border-l-2 border-gray-200 pl-3">
+                  {thread.replies.map(renderComment)}
+                </div>
+              )}
+
+              {replyingTo === thread.id && (
+                <div className="mt-3 ml-4">
+                  <CommentComposer
+                    people={people}
+                    currentUserId={currentUserId}
+                    placeholder="Write a reply..."
+                    submitLabel="Reply"
+                    onSubmit={(body, mentions) => handleCreate(body, mentions, thread.id)}
+                    onCancel={() => setReplyingTo(null)}
+                  />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <CommentComposer
+        people={people}
+        currentUserId={currentUserId}
+        placeholder="Add a comment..."
+        submitLabel="Comment"
+        onSubmit={(body, mentions) => handleCreate(body, mentions)}
+      />
+    </div>
+  );
+};
+
+export default CommentThread;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { CarryForwardMode, CycleFrequency } from '../types';
+
+export const FREQUENCY_LABELS: Record<CycleFrequency, string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  custom: 'Custom interval'
+};
+
+export const CARRY_FORWARD_LABELS: Record<CarryForwardMode, string> = {
+  none: 'Start each cycle fresh',
+  unspent: 'Carry unspent balance forward',
+  overspend: 'Deduct overspending from the next cycle',
+  both: 'Carry unspent balance and deduct overspending'
+};
+
+interface CycleScheduleFieldsProps {
+  idPrefix: string;
+  frequency: CycleFrequency;
+  intervalDays: string;
+  carryForward: CarryForwardMode;
+  onFrequencyChange: (frequency: CycleFrequency) => void;
+  onIntervalDaysChange: (intervalDays: string) => void;
+  onCarryForwardChange: (carryForward: CarryForwardMode) => void;
+}
+
+const CycleScheduleFields: React.FC<CycleScheduleFieldsProps> = ({
+  idPrefix,
+  frequency,
+  intervalDays,
+  carryForward,
+  onFrequencyChange,
+  onIntervalDaysChange,
+  onCarryForwardChange
+}) => (
+  <div className="space-y-4">
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div>
+        <label htmlFor={`${idPrefix}-frequency`} className="block text-sm font-medium text-gray-700">Repeats</label>
+        <select
+          id={`${idPrefix}-frequency`}
+          value={frequency}
+          onChange={e => onFrequencyChange(e.target.value as CycleFrequency)}
+          className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+        >
+          {(Object.keys(FREQUENCY_LABELS) as CycleFrequency[]).map(value => (
+            <option key={value} value={value}>{FREQUENCY_LABELS[value]}</option>
+          ))}
+        </select>
+      </div>
+      {frequency === 'custom' && (
+        <div>
+          <label htmlFor={`${idPrefix}-interval`} className="block text-sm font-medium text-gray-700">Every (days)</label>
+          <input
+            type="number"
+            id={`${idPrefix}-interval`}
+            value={intervalDays}
+            onChange={e => onIntervalDaysChange(e.target.value)}
+            min="1"
+            step="1"
+            required
+            className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          />
+        </div>
+      )}
+    </div>
+    <div>
+      <label htmlFor={`${idPrefix}-carry`} className="block text-sm font-medium text-gray-700">When a cycle ends</label>
+      <select
+        id={`${idPrefix}-carry`}
+        value={carryForward}
+        onChange={e => onCarryForwardChange(e.target.value as CarryForwardMode)}
+        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+      >
+        {(Object.keys(CARRY_FORWARD_LABELS) as CarryForwardMode[]).map(value => (
+          <option key={value} value={value}>{CARRY_FORWARD_LABELS[value]}</option>
+        ))}
+      </select>
+    </div>
+  </div>
+);
+
+export default CycleScheduleFields;
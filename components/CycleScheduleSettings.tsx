@@ -0,0 +1,206 @@
+import React, { useEffect, useState } from 'react';
+import { CarryForwardMode, CycleFrequency, CycleSchedule } from '../types';
+import CycleScheduleFields from './CycleScheduleFields';
+import {
+  deleteCycleSchedule,
+  getCycleSchedules,
+  rollOverBalanceCycles,
+  saveCycleSchedule
+} from '../src/lib/cycles';
+import { logAuditEvent } from '../src/lib/audit';
+
+interface CycleScheduleSettingsProps {
+  programId: string;
+  onCyclesChange: () => void | Promise<void>;
+}
+
+// Program-wide default schedule. Participants who set their own schedule in
+// "Start New Spending Cycle" override it.
+const CycleScheduleSettings: React.FC<CycleScheduleSettingsProps> = ({ programId, onCyclesChange }) => {
+  const [schedule, setSchedule] = useState<CycleSchedule | null>(null);
+  const [participantScheduleCount, setParticipantScheduleCount] = useState(0);
+  const [frequency, setFrequency] = useState<CycleFrequency>('monthly');
+  const [intervalDays, setIntervalDays] = useState('14');
+  const [carryForward, setCarryForward] = useState<CarryForwardMode>('none');
+  const [budget, setBudget] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadSchedule();
+  }, [programId]);
+
+  const loadSchedule = async () => {
+    try {
+      const schedules = await getCycleSchedules(programId);
+      const programDefault = schedules.find((entry) => !entry.participantId) || null;
+      setSchedule(programDefault);
+      setParticipantScheduleCount(schedules.filter((entry) => entry.participantId).length);
+      if (programDefault) {
+        setFrequency(programDefault.frequency);
+        setIntervalDays(String(programDefault.intervalDays || 14));
+        setCarryForward(programDefault.carryForward);
+        setBudget(String(programDefault.budget));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load cycle schedule');
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setMessage(null);
+
+    const cycleBudget = parseFloat(budget);
+    if (isNaN(cycleBudget) || cycleBudget < 0) {
+      setError('Budget per cycle must be zero or a positive number');
+      return;
+    }
+    const days = parseInt(intervalDays, 10);
+    if (frequency === 'custom' && !(days >= 1)) {
+      setError('Custom schedules need an interval of at least 1 day');
+      return;
+    }
+
+    const input = {
+      frequency,
+      intervalDays: frequency === 'custom' ? days : undefined,
+      budget: cycleBudget,
+      carryForward,
+      isActive: true
+    };
+
+    try {
+      setIsSaving(true);
+      const saved = await saveCycleSchedule(programId, null, input);
+      await logAuditEvent({
+        action: 'SAVE_CYCLE_SCHEDULE',
+        programId,
+        metadata: { scheduleId: saved.id, scope: 'program', ...input }
+      });
+      setSchedule(saved);
+      setMessage('Program cycle schedule saved');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save cycle schedule');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!schedule || !window.confirm('Stop opening cycles automatically for participants without their own schedule?')) {
+      return;
+    }
+
+    try {
+      await deleteCycleSchedule(schedule.id);
+      await logAuditEvent({
+        action: 'DELETE_CYCLE_SCHEDULE',
+        programId,
+        metadata: { scheduleId: schedule.id, scope: 'program' }
+      });
+      setSchedule(null);
+      setMessage('Program cycle schedule removed');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove cycle schedule');
+    }
+  };
+
+  const handleRollOverNow = async () => {
+    setError(null);
+    setMessage(null);
+    try {
+      const created = await rollOverBalanceCycles(programId);
+      if (created > 0) {
+        await logAuditEvent({
+          action: 'ROLLOVER_BALANCE_CYCLE',
+          programId,
+          metadata: { cyclesCreated: created }
+        });
+        await onCyclesChange();
+      }
+      setMessage(created > 0 ? `Opened ${created} new cycle${created !== 1 ? 's' : ''}` : 'No ended cycles to roll over');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to roll over cycles');
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="p-6">
+        <div className="flex justify-between items-center mb-1">
+          <h3 className="text-lg font-medium text-gray-900">Recurring Cycles</h3>
+          <button onClick={handleRollOverNow} className="text-sm text-indigo-600 hover:text-indigo-900">
+            Roll Over Ended Cycles Now
+          </button>
+        </div>
+        <p className="text-sm text-gray-500 mb-4">
+          When a participant's active cycle ends, the next one opens automatically using this schedule.
+          {participantScheduleCount > 0 &&
+            ` ${participantScheduleCount} participant${participantScheduleCount !== 1 ? 's have' : ' has'} their own schedule, which takes precedence.`}
+        </p>
+
+        <form onSubmit={handleSave} className="space-y-4">
+          <div>
+            <label htmlFor="program-schedule-budget" className="block text-sm font-medium text-gray-700">
+              Budget per cycle
+            </label>
+            <input
+              type="number"
+              id="program-schedule-budget"
+              value={budget}
+              onChange={(e) => setBudget(e.target.value)}
+              min="0"
+              step="0.01"
+              required
+              className="mt-1 block w-full md:w-48 border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            />
+          </div>
+          <CycleScheduleFields
+            idPrefix="program-schedule"
+            frequency={frequency}
+            intervalDays={intervalDays}
+            carryForward={carryForward}
+            onFrequencyChange={setFrequency}
+            onIntervalDaysChange={setIntervalDays}
+            onCarryForwardChange={setCarryForward}
+          />
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+          {message && (
+            <div className="bg-blue-50 border border-blue-200 text-blue-700 px-4 py-3 rounded-md text-sm">
+              {message}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3">
+            {schedule && (
+              <button
+                type="button"
+                onClick={handleRemove}
+                className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-red-600 bg-white hover:bg-red-50"
+              >
+                Remove Schedule
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 bg-indigo-600 text-white text-sm rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {schedule ? 'Update Schedule' : 'Enable Recurring Cycles'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default CycleScheduleSettings;
@@ -1,5 +1,5 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { User, BalanceSheetCycle, Milestone } from '../types';
+import { User, BalanceSheetCycle, CycleSchedule, ExchangeRate, Expense, ExpenseCategory, ExpenseStatus, Milestone } from '../types';
 import useLocalStorage from '../hooks/useLocalStorage';
 import UserManager from '../utils/userManager';
 import Header from './Header';
@@ -10,9 +10,18 @@ import MilestoneTab from './tabs/MilestoneTab';
 import AssignmentsTab from './tabs/AssignmentsTab';
 import ProgramSelector from './ProgramSelector';
 import { getMyPrograms } from '../src/lib/programs';
-import { createBalanceCycle, getMyBalanceCyclesWithExpenses } from '../src/lib/cycles';
+import {
+  createBalanceCycle,
+  CycleScheduleInput,
+  deleteCycleSchedule,
+  getCycleSchedules,
+  getMyBalanceCyclesWithExpenses,
+  rollOverBalanceCycles,
+  saveCycleSchedule
+} from '../src/lib/cycles';
 import {
   createExpense,
+  createExpenses,
   deleteExpense,
   updateExpense
 } from '../src/lib/expenses';
@@ -25,6 +34,7 @@ import {
   updateAssignmentStatus,
   updateMilestoneAssignment
 } from '../src/lib/milestones';
+import { uploadMilestoneProof } from '../src/lib/milestoneProofs';
 import {
   dbCycleToBalanceSheetCycle,
   dbExpenseToExpense,
@@ -32,14 +42,27 @@ import {
   expenseToDbUpdate
 } from '../src/lib/mappers';
 import { logAuditEvent } from '../src/lib/audit';
+import { getProgramExpenseCategories } from '../src/lib/expenseCategories';
+import { applyExchangeRates, DEFAULT_CURRENCY, getExchangeRates } from '../src/lib/currency';
+import { NotificationTarget } from '../src/lib/notifications';
 
 interface DashboardProps {
   user: User;
   onLogout: () => void;
   onAccountSettings: () => void;
+  onNotifications: () => void;
+  navigationTarget?: NotificationTarget | null;
+  onNavigationHandled?: () => void;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ user, onLogout, onAccountSettings }) => {
+const Dashboard: React.FC<DashboardProps> = ({
+  user,
+  onLogout,
+  onAccountSettings,
+  onNotifications,
+  navigationTarget,
+  onNavigationHandled
+}) => {
   // Program state
   const [programs, setPrograms] = useState<any[]>([]);
   const [selectedProgram, setSelectedProgram] = useState<any>(null);
@@ -54,13 +77,32 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onLogout, onAccountSettings
   const [cycles, setCycles] = useState<BalanceSheetCycle[]>([]);
   const [, setStoredMilestones] = useLocalStorage<Milestone[]>(userMilestonesKey, []);
   const [milestones, setMilestones] = useState<Milestone[]>([]);
+  const [expenseCategories, setExpenseCategories] = useState<ExpenseCategory[]>([]);
+  const [cycleSchedules, setCycleSchedules] = useState<CycleSchedule[]>([]);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
   const [activeTab, setActiveTab] = useState<string>('home');
+  const [focusMilestoneId, setFocusMilestoneId] = useState<string | null>(null);
 
   // Load programs on mount
   useEffect(() => {
     loadPrograms();
   }, []);
 
+  // Open what a notification points at once programs are loaded
+  useEffect(() => {
+    if (!navigationTarget || loading) return;
+
+    const program = programs.find((entry) => entry.id === navigationTarget.programId);
+    if (program) {
+      setSelectedProgram(program);
+      setActiveTab(
+        navigationTarget.view === 'expense' ? 'finance' : navigationTarget.view === 'milestone' ? 'milestones' : 'home'
+      );
+      setFocusMilestoneId(navigationTarget.assignmentId || null);
+    }
+    onNavigationHandled?.();
+  }, [navigationTarget, loading, programs]);
+
   // Load program data when a program is selected
   useEffect(() => {
     if (selectedProgram) {
@@ -92,19 +134,46 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onLogout, onAccountSettings
 
     try {
       setError(null);
+
+      // Open any cycle whose predecessor has ended before loading, so the
+      // participant never lands on a stale cycle. Rollover failing must not
+      // block the dashboard from loading.
+      try {
+        const rolledOver = await rollOverBalanceCycles(selectedProgram.id);
+        if (rolledOver > 0) {
+          await logAuditEvent({
+            action: 'ROLLOVER_BALANCE_CYCLE',
+            programId: selectedProgram.id,
+            metadata: { cyclesCreated: rolledOver }
+          });
+        }
+      } catch (rolloverError) {
+        console.warn('Balance cycle rollover failed (non-fatal):', rolloverError);
+      }
+
       const dbCycles = await getMyBalanceCyclesWithExpenses(selectedProgram.id);
+      const rates = await getExchangeRates();
       const cyclesWithExpenses = dbCycles.map((cycle: any) =>
         dbCycleToBalanceSheetCycle(
           cycle,
-          (cycle.expenses || []).map((expense: any) => dbExpenseToExpense(expense))
+          applyExchangeRates(
+            (cycle.expenses || []).map((expense: any) => dbExpenseToExpense(expense)),
+            selectedProgram.currency || DEFAULT_CURRENCY,
+            rates
+          )
         )
       );
       const dbMilestones = await getMyMilestoneAssignments(selectedProgram.id);
+      const categories = await getProgramExpenseCategories(selectedProgram.id);
+      const schedules = await getCycleSchedules(selectedProgram.id);
 
       setCycles(cyclesWithExpenses);
       setStoredCycles(cyclesWithExpenses);
       setMilestones(dbMilestones);
       setStoredMilestones(dbMilestones);
+      setExpenseCategories(categories);
+      setCycleSchedules(schedules);
+      setExchangeRates(rates);
     } catch (err) {
       console.error('Failed to load program finance data:', err);
       setError(err instanceof Error ? err.message : 'Failed to load program finance data');
@@ -117,6 +186,10 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onLogout, onAccountSettings
   };
 
   const activeCycle = useMemo(() => cycles.find(c => c.isActive), [cycles]);
+  const programCurrency: string = selectedProgram?.currency || DEFAULT_CURRENCY;
+  const mySchedule = cycleSchedules.find((schedule) => schedule.participantId === user.id);
+  // The participant's own schedule wins over the program-wide default.
+  const effectiveSchedule = mySchedule || cycleSchedules.find((schedule) => !schedule.participantId && schedule.isActive);
 
   // Check if user has any assignments
   const hasAssignments = milestones.some(m =>
@@ -172,7 +245,12 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onLogout, onAccountSettings
     setStoredCycles(updatedCycles);
   };
 
-  const handleStartNewCycle = async (budget: number, startDate: string, endDate: string) => {
+  const handleStartNewCycle = async (
+    budget: number,
+    startDate: string,
+    endDate: string,
+    schedule?: CycleScheduleInput | null
+  ) => {
     if (!selectedProgram) return;
 
     await createBalanceCycle({
@@ -182,21 +260,105 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onLogout, onAccountSettings
       budget
     });
 
+    if (schedule) {
+      const saved = await saveCycleSchedule(selectedProgram.id, user.id, schedule);
+      await logAuditEvent({
+        action: 'SAVE_CYCLE_SCHEDULE',
+        programId: selectedProgram.id,
+        metadata: { scheduleId: saved.id, ...schedule }
+      });
+    } else if (schedule === null && mySchedule) {
+      await deleteCycleSchedule(mySchedule.id);
+      await logAuditEvent({
+        action: 'DELETE_CYCLE_SCHEDULE',
+        programId: selectedProgram.id,
+        metadata: { scheduleId: mySchedule.id }
+      });
+    }
+
     await loadProgramData();
   };
 
-  const handleSaveExpense = async (expenseData: any) => {
+  const handleSaveExpense = async (expenseData: any, options?: { allowDuplicate?: boolean }) => {
     if (!activeCycle) return;
 
     if ('id' in expenseData) {
+      const previous = activeCycle.expenses.find((expense) => expense.id === expenseData.id);
       await updateExpense(expenseData.id, expenseToDbUpdate(expenseData));
+
+      // The enforce_expense_review trigger moves a reviewed expense back to
+      // 'submitted' when the participant edits it; record that transition.
+      if (previous?.status && previous.status !== ExpenseStatus.SUBMITTED) {
+        await logAuditEvent({
+          action: 'RESUBMIT_EXPENSE',
+          programId: selectedProgram?.id,
+          metadata: {
+            cycleId: activeCycle.id,
+            expenseId: expenseData.id,
+            fromStatus: previous.status,
+            toStatus: ExpenseStatus.SUBMITTED
+          }
+        });
+      }
     } else {
-      await createExpense(expenseToDbInsert(activeCycle.id, expenseData));
+      const created = await createExpense(expenseToDbInsert(activeCycle.id, expenseData), options);
+      await logAuditEvent({
+        action: 'SUBMIT_EXPENSE',
+        programId: selectedProgram?.id,
+        metadata: {
+          cycleId: activeCycle.id,
+          expenseId: created.id,
+          amount: created.amount,
+          toStatus: ExpenseStatus.SUBMITTED
+        }
+      });
+    }
+
+    await loadProgramData();
+  };
+
+  const handleSaveExpenses = async (expenses: Omit<Expense, 'id'>[]) => {
+    if (!activeCycle) return;
+
+    const created = await createExpenses(expenses.map((expense) => expenseToDbInsert(activeCycle.id, expense)));
+    for (const expense of created) {
+      await logAuditEvent({
+        action: 'SUBMIT_EXPENSE',
+        programId: selectedProgram?.id,
+        metadata: {
+          cycleId: activeCycle.id,
+          expenseId: expense.id,
+          amount: expense.amount,
+          toStatus: ExpenseStatus.SUBMITTED,
+          receiptUrl: expense.receipt_url,
+          receiptLineCount: created.length
+        }
+      });
     }
 
     await loadProgramData();
   };
 
+  const handleImportExpenses = async (expenses: Omit<Expense, 'id'>[], fileName: string) => {
+    if (!activeCycle) return;
+
+    const created = await createExpenses(expenses.map((expense) => expenseToDbInsert(activeCycle.id, expense)));
+    await logAuditEvent({
+      action: 'IMPORT_EXPENSES',
+      programId: selectedProgram?.id,
+      metadata: {
+        cycleId: activeCycle.id,
+        expenseIds: created.map((expense) => expense.id),
+        totalAmount: created.reduce((sum, expense) => sum + expense.amount, 0),
+        toStatus: ExpenseStatus.SUBMITTED,
+        importFile: fileName,
+        importCount: created.length
+      }
+    });
+
+    await loadProgramData();
+  };
+
   const handleDeleteExpense = async (expenseId: string) => {
     await deleteExpense(expenseId);
     await loadProgramData();
@@ -256,6 +418,19 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onLogout, onAccountSettings
     await loadProgramData();
   };
 
+  const handleUploadMilestoneProof = async (milestoneId: string, file: File) => {
+    const proof = await uploadMilestoneProof(milestoneId, file);
+    await logAuditEvent({
+      action: 'UPLOAD_MILESTONE_PROOF',
+      programId: selectedProgram?.id,
+      metadata: {
+        assignmentId: milestoneId,
+        fileName: proof.fileName
+      }
+    });
+    await loadProgramData();
+  };
+
   const handleSaveProgressReport = async (
     milestoneId: string,
     report: any
@@ -323,7 +498,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onLogout, onAccountSettings
 
   return (
     <>
-      <Header user={user} onLogout={onLogout} onAccountSettings={onAccountSettings} />
+      <Header user={user} onLogout={onLogout} onAccountSettings={onAccountSettings} onNotifications={onNotifications} />
 
       {/* Program Context Header */}
       {selectedProgram && (
@@ -387,9 +562,15 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onLogout, onAccountSettings
             user={user}
             cycles={cycles}
             activeCycle={activeCycle}
+            categories={expenseCategories}
+            schedule={effectiveSchedule}
+            currency={programCurrency}
+            exchangeRates={exchangeRates}
             onCyclesUpdate={handleCyclesUpdate}
             onStartNewCycle={handleStartNewCycle}
             onSaveExpense={handleSaveExpense}
+            onSaveExpenses={handleSaveExpenses}
+            onImportExpenses={handleImportExpenses}
             onDeleteExpense={handleDeleteExpense}
           />
         )}
@@ -402,7 +583,9 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onLogout, onAccountSettings
             onSaveMilestone={handleSaveMilestone}
             onSaveProgressReport={handleSaveProgressReport}
             onUpdateStatus={handleUpdateMilestoneStatus}
+            onUploadProof={handleUploadMilestoneProof}
             onDeleteMilestone={handleDeleteMilestone}
+            focusMilestoneId={focusMilestoneId}
           />
         )}
 
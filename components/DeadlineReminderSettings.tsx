@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { getDeadlineReminderSettings, updateDeadlineReminderSettings } from '../src/lib/programs';
+
+interface DeadlineReminderSettingsProps {
+  programId: string;
+}
+
+const MAX_OFFSETS = 10;
+
+// "7, 3, 1" -> [7, 3, 1]; null when any entry is not a whole number in range.
+const parseDays = (value: string, min: number): number[] | null => {
+  const entries = value.split(',').map((entry) => entry.trim()).filter(Boolean);
+  const days = entries.map((entry) => (/^\d+$/.test(entry) ? parseInt(entry, 10) : NaN));
+  if (days.some((day) => isNaN(day) || day < min || day > 365)) return null;
+  return days;
+};
+
+// Days-before and days-overdue offsets at which the daily reminder job
+// notifies participants about open milestones.
+const DeadlineReminderSettings: React.FC<DeadlineReminderSettingsProps> = ({ programId }) => {
+  const [daysBefore, setDaysBefore] = useState('');
+  const [daysOverdue, setDaysOverdue] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadSettings();
+  }, [programId]);
+
+  const loadSettings = async () => {
+    setError(null);
+    setMessage(null);
+    try {
+      const settings = await getDeadlineReminderSettings(programId);
+      setDaysBefore(settings.daysBefore.join(', '));
+      setDaysOverdue(settings.daysOverdue.join(', '));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load deadline reminders');
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setMessage(null);
+
+    const before = parseDays(daysBefore, 0);
+    if (!before) {
+      setError('Reminders before the deadline must be whole days between 0 and 365');
+      return;
+    }
+    const overdue = parseDays(daysOverdue, 1);
+    if (!overdue) {
+      setError('Overdue reminders must be whole days between 1 and 365');
+      return;
+    }
+    if (new Set(before).size > MAX_OFFSETS || new Set(overdue).size > MAX_OFFSETS) {
+      setError(`Use at most ${MAX_OFFSETS} reminders before and ${MAX_OFFSETS} after the deadline`);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const saved = await updateDeadlineReminderSettings(programId, { daysBefore: before, daysOverdue: overdue });
+      setDaysBefore(saved.daysBefore.join(', '));
+      setDaysOverdue(saved.daysOverdue.join(', '));
+      setMessage('Deadline reminders saved');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save deadline reminders');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-1">Deadline Reminders</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          Participants are notified about milestones they have not completed on these days. Leave a field empty to turn those reminders off.
+        </p>
+
+        <form onSubmit={handleSave} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="deadline-reminder-before" className="block text-sm font-medium text-gray-700">
+                Days before the deadline
+              </label>
+              <input
+                type="text"
+                id="deadline-reminder-before"
+                value={daysBefore}
+                onChange={(e) => setDaysBefore(e.target.value)}
+                placeholder="7, 3, 1"
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+              />
+              <p className="mt-1 text-xs text-gray-500">Comma-separated. 0 sends a reminder on the day it is due.</p>
+            </div>
+            <div>
+              <label htmlFor="deadline-reminder-overdue" className="block text-sm font-medium text-gray-700">
+                Days overdue
+              </label>
+              <input
+                type="text"
+                id="deadline-reminder-overdue"
+                value={daysOverdue}
+                onChange={(e) => setDaysOverdue(e.target.value)}
+                placeholder="1, 7"
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+              />
+              <p className="mt-1 text-xs text-gray-500">Comma-separated days after a missed deadline.</p>
+            </div>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+          {message && (
+            <div className="bg-blue-50 border border-blue-200 text-blue-700 px-4 py-3 rounded-md text-sm">
+              {message}
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 bg-indigo-600 text-white text-sm rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save Reminders'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default DeadlineReminderSettings;
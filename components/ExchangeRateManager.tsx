@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { ExchangeRate } from '../types';
+import { currencyOptions, deleteExchangeRate, saveExchangeRate } from '../src/lib/currency';
+import { logAuditEvent } from '../src/lib/audit';
+
+interface ExchangeRateManagerProps {
+  programId: string;
+  currency: string; // Program currency, the default conversion target
+  rates: ExchangeRate[];
+  canEdit: boolean; // Only admins maintain the shared rate table
+  onRatesChange: () => void | Promise<void>;
+}
+
+// The rate table is shared by every program; the audit event is recorded
+// against the program the admin was working in.
+const ExchangeRateManager: React.FC<ExchangeRateManagerProps> = ({
+  programId,
+  currency,
+  rates,
+  canEdit,
+  onRatesChange
+}) => {
+  const today = new Date().toISOString().split('T')[0];
+  const [form, setForm] = useState({
+    fromCurrency: currencyOptions().find((code) => code !== currency) || '',
+    rate: '',
+    effectiveDate: today
+  });
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const rate = parseFloat(form.rate);
+    if (isNaN(rate) || rate <= 0) {
+      setError('Rate must be a positive number');
+      return;
+    }
+    if (form.fromCurrency === currency) {
+      setError(`Pick a currency other than ${currency}`);
+      return;
+    }
+
+    const input = { fromCurrency: form.fromCurrency, toCurrency: currency, rate, effectiveDate: form.effectiveDate };
+
+    try {
+      setIsSaving(true);
+      const saved = await saveExchangeRate(input);
+      await logAuditEvent({
+        action: 'SAVE_EXCHANGE_RATE',
+        programId,
+        metadata: { rateId: saved.id, ...input }
+      });
+      setForm({ ...form, rate: '' });
+      await onRatesChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save exchange rate');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (rate: ExchangeRate) => {
+    if (!window.confirm(`Delete the ${rate.fromCurrency}/${rate.toCurrency} rate from ${rate.effectiveDate}? It is used by every program.`)) {
+      return;
+    }
+
+    try {
+      await deleteExchangeRate(rate.id);
+      await logAuditEvent({
+        action: 'DELETE_EXCHANGE_RATE',
+        programId,
+        metadata: { rateId: rate.id, fromCurrency: rate.fromCurrency, toCurrency: rate.toCurrency, effectiveDate: rate.effectiveDate }
+      });
+      await onRatesChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete exchange rate');
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-1">Exchange Rates</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          Expenses paid in another currency are converted to {currency} with the latest rate on or before the expense date.
+          Rates are shared across all programs{canEdit ? '.' : ' and maintained by admins.'}
+        </p>
+
+        {rates.length > 0 ? (
+          <div className="overflow-x-auto mb-4">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Pair</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Rate</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Effective</th>
+                  {canEdit && <th className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase">Actions</th>}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {rates.map((rate) => (
+                  <tr key={rate.id}>
+                    <td className="px-4 py-2 text-sm text-gray-900">{rate.fromCurrency} → {rate.toCurrency}</td>
+                    <td className="px-4 py-2 text-sm text-gray-900 text-right">{rate.rate}</td>
+                    <td className="px-4 py-2 text-sm text-gray-500">{rate.effectiveDate}</td>
+                    {canEdit && (
+                      <td className="px-4 py-2 text-sm text-center">
+                        <button onClick={() => handleDelete(rate)} className="text-red-600 hover:text-red-900">
+                          Delete
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 mb-4">No exchange rates recorded yet.</p>
+        )}
+
+        {canEdit && (
+          <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+            <div>
+              <label htmlFor="rate-from" className="block text-xs font-medium text-gray-700">1 unit of</label>
+              <select
+                id="rate-from"
+                value={form.fromCurrency}
+                onChange={(e) => setForm({ ...form, fromCurrency: e.target.value })}
+                className="mt-1 w-full px-3 py-2 border rounded-md text-sm"
+              >
+                {currencyOptions().filter((code) => code !== currency).map((code) => (
+                  <option key={code} value={code}>{code}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="rate-value" className="block text-xs font-medium text-gray-700">Equals ({currency})</label>
+              <input
+                id="rate-value"
+                type="number"
+                min="0"
+                step="any"
+                value={form.rate}
+                onChange={(e) => setForm({ ...form, rate: e.target.value })}
+                className="mt-1 w-full px-3 py-2 border rounded-md text-sm"
+              />
+            </div>
+            <div>
+              <label htmlFor="rate-date" className="block text-xs font-medium text-gray-700">Effective from</label>
+              <input
+                id="rate-date"
+                type="date"
+                value={form.effectiveDate}
+                onChange={(e) => setForm({ ...form, effectiveDate: e.target.value })}
+                className="mt-1 w-full px-3 py-2 border rounded-md text-sm"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-3 py-2 bg-indigo-600 text-white text-sm rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+              Save Rate
+            </button>
+          </form>
+        )}
+
+        {error && (
+          <div className="mt-3 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExchangeRateManager;
@@ -0,0 +1,35 @@
+import React from 'react';
+import { Expense } from '../types';
+import { formatMoney, hasMissingRate } from '../src/lib/currency';
+
+interface ExpenseAmountProps {
+  expense: Expense;
+  baseCurrency: string;
+}
+
+// An expense amount as paid, with its program-currency equivalent underneath
+// when it was paid in another currency.
+const ExpenseAmount: React.FC<ExpenseAmountProps> = ({ expense, baseCurrency }) => {
+  const currency = expense.currency || baseCurrency;
+
+  if (currency === baseCurrency) {
+    return <>{formatMoney(expense.amount, baseCurrency)}</>;
+  }
+
+  return (
+    <>
+      {formatMoney(expense.amount, currency)}
+      {hasMissingRate(expense, baseCurrency) ? (
+        <span className="block text-xs text-yellow-700" title={`Counted at face value until a ${currency} to ${baseCurrency} rate is added`}>
+          No {currency}/{baseCurrency} rate
+        </span>
+      ) : (
+        <span className="block text-xs text-gray-400">
+          ≈ {formatMoney(expense.convertedAmount ?? expense.amount, baseCurrency)}
+        </span>
+      )}
+    </>
+  );
+};
+
+export default ExpenseAmount;
@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { ExpenseCategory } from '../types';
+import {
+  createExpenseCategory,
+  deleteExpenseCategory,
+  ExpenseCategoryInput,
+  updateExpenseCategory
+} from '../src/lib/expenseCategories';
+import { logAuditEvent } from '../src/lib/audit';
+import { DEFAULT_CURRENCY, formatMoney } from '../src/lib/currency';
+
+interface ExpenseCategoryManagerProps {
+  programId: string;
+  categories: ExpenseCategory[];
+  currency?: string; // Program currency caps are set in
+  onCategoriesChange: () => void | Promise<void>;
+}
+
+const DEFAULT_COLOR = '#6366f1';
+
+const emptyForm = { name: '', color: DEFAULT_COLOR, cycleCap: '' };
+
+const ExpenseCategoryManager: React.FC<ExpenseCategoryManagerProps> = ({
+  programId,
+  categories,
+  currency = DEFAULT_CURRENCY,
+  onCategoriesChange
+}) => {
+  const [form, setForm] = useState(emptyForm);
+  const [editingCategoryId, setEditingCategoryId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setEditingCategoryId(null);
+    setError(null);
+  };
+
+  const handleEdit = (category: ExpenseCategory) => {
+    setEditingCategoryId(category.id);
+    setForm({
+      name: category.name,
+      color: category.color,
+      cycleCap: category.cycleCap === undefined ? '' : String(category.cycleCap)
+    });
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!form.name.trim()) {
+      setError('Category name is required');
+      return;
+    }
+
+    const cap = form.cycleCap.trim() === '' ? undefined : parseFloat(form.cycleCap);
+    if (cap !== undefined && (isNaN(cap) || cap < 0)) {
+      setError('Cycle cap must be zero or a positive number');
+      return;
+    }
+
+    const input: ExpenseCategoryInput = { name: form.name.trim(), color: form.color, cycleCap: cap };
+
+    try {
+      setIsSaving(true);
+      if (editingCategoryId) {
+        await updateExpenseCategory(editingCategoryId, input);
+        await logAuditEvent({
+          action: 'UPDATE_EXPENSE_CATEGORY',
+          programId,
+          metadata: { categoryId: editingCategoryId, ...input }
+        });
+      } else {
+        const created = await createExpenseCategory(programId, input);
+        await logAuditEvent({
+          action: 'CREATE_EXPENSE_CATEGORY',
+          programId,
+          metadata: { categoryId: created.id, ...input }
+        });
+      }
+      resetForm();
+      await onCategoriesChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save category');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (category: ExpenseCategory) => {
+    if (!window.confirm(`Delete the "${category.name}" category? Existing expenses keep the name but lose the link.`)) {
+      return;
+    }
+
+    try {
+      await deleteExpenseCategory(category.id);
+      await logAuditEvent({
+        action: 'DELETE_EXPENSE_CATEGORY',
+        programId,
+        metadata: { categoryId: category.id, name: category.name }
+      });
+      if (editingCategoryId === category.id) {
+        resetForm();
+      }
+      await onCategoriesChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete category');
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-1">Expense Categories</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          Participants pick one of these when logging an expense. A cap limits spending per category in each balance cycle.
+        </p>
+
+        {categories.length > 0 ? (
+          <ul className="divide-y divide-gray-200 mb-4">
+            {categories.map((category) => (
+              <li key={category.id} className="py-2 flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <span className="h-4 w-4 rounded-full" style={{ backgroundColor: category.color }} />
+                  <span className="text-sm font-medium text-gray-900">{category.name}</span>
+                  <span className="text-xs text-gray-500">
+                    {category.cycleCap !== undefined ? `Cap ${formatMoney(category.cycleCap, currency)} / cycle` : 'No cap'}
+                  </span>
+                </div>
+                <div className="flex gap-3 text-sm">
+                  <button onClick={() => handleEdit(category)} className="text-indigo-600 hover:text-indigo-900">
+                    Edit
+                  </button>
+                  <button onClick={() => handleDelete(category)} className="text-red-600 hover:text-red-900">
+                    Delete
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500 mb-4">No categories defined yet.</p>
+        )}
+
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+          <div className="md:col-span-2">
+            <label htmlFor="category-name" className="block text-xs font-medium text-gray-700">Name</label>
+            <input
+              id="category-name"
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="e.g., Tuition"
+              className="mt-1 w-full px-3 py-2 border rounded-md text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="category-cap" className="block text-xs font-medium text-gray-700">Cap per cycle in {currency} (optional)</label>
+            <input
+              id="category-cap"
+              type="number"
+              min="0"
+              step="0.01"
+              value={form.cycleCap}
+              onChange={(e) => setForm({ ...form, cycleCap: e.target.value })}
+              className="mt-1 w-full px-3 py-2 border rounded-md text-sm"
+            />
+          </div>
+          <div className="flex items-end gap-2">
+            <input
+              type="color"
+              aria-label="Category color"
+              value={form.color}
+              onChange={(e) => setForm({ ...form, color: e.target.value })}
+              className="h-9 w-12 border rounded"
+            />
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="flex-1 px-3 py-2 bg-indigo-600 text-white text-sm rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {editingCategoryId ? 'Save' : 'Add'}
+            </button>
+            {editingCategoryId && (
+              <button
+                type="button"
+                onClick={resetForm}
+                className="px-3 py-2 bg-gray-200 text-gray-700 text-sm rounded-md hover:bg-gray-300"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </form>
+
+        {error && (
+          <div className="mt-3 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExpenseCategoryManager;
@@ -0,0 +1,24 @@
+import React from 'react';
+import { ExpenseStatus } from '../types';
+
+const STATUS_STYLES: Record<ExpenseStatus, { label: string; className: string }> = {
+  [ExpenseStatus.SUBMITTED]: { label: 'Submitted', className: 'bg-blue-100 text-blue-800' },
+  [ExpenseStatus.APPROVED]: { label: 'Approved', className: 'bg-green-100 text-green-800' },
+  [ExpenseStatus.REJECTED]: { label: 'Rejected', className: 'bg-red-100 text-red-800' },
+  [ExpenseStatus.NEEDS_INFO]: { label: 'Needs Info', className: 'bg-yellow-100 text-yellow-800' }
+};
+
+interface ExpenseStatusBadgeProps {
+  status?: ExpenseStatus;
+}
+
+const ExpenseStatusBadge: React.FC<ExpenseStatusBadgeProps> = ({ status = ExpenseStatus.SUBMITTED }) => {
+  const { label, className } = STATUS_STYLES[status];
+  return (
+    <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${className}`}>
+      {label}
+    </span>
+  );
+};
+
+export default ExpenseStatusBadge;
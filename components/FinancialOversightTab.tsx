@@ -1,13 +1,35 @@
 import React, { useState, useEffect } from 'react';
-import { User, BalanceSheetCycle, Expense, UserRole } from '../types';
-import { createExpense, deleteExpense, updateExpense } from '../src/lib/expenses';
+import { User, BalanceSheetCycle, ExchangeRate, Expense, ExpenseCategory, ExpenseStatus, UserRole } from '../types';
+import { createExpense, deleteExpense, DuplicateExpenseError, reviewExpense, updateExpense } from '../src/lib/expenses';
+import { findPossibleDuplicates } from '../src/lib/expenseDuplicates';
 import {
+  getProgramBudgetAllocation,
   getProgramParticipantFinancials,
-  ParticipantFinancials
+  ParticipantFinancials,
+  ProgramBudgetAllocation,
+  sumCountedExpenses
 } from '../src/lib/finance';
+import { updateProgram } from '../src/lib/programs';
+import { getProgramExpenseCategories, summarizeCategorySpending } from '../src/lib/expenseCategories';
+import ExpenseStatusBadge from './ExpenseStatusBadge';
+import ExpenseCategoryManager from './ExpenseCategoryManager';
+import CategoryBreakdown from './CategoryBreakdown';
+import CycleScheduleSettings from './CycleScheduleSettings';
+import ExchangeRateManager from './ExchangeRateManager';
+import ExpenseAmount from './ExpenseAmount';
+import { currencyOptions, DEFAULT_CURRENCY, formatMoney, getExchangeRates } from '../src/lib/currency';
+import ExportManager from '../utils/exportManager';
 import { expenseToDbInsert, expenseToDbUpdate } from '../src/lib/mappers';
 import { logAuditEvent } from '../src/lib/audit';
 
+// Every review transition is written to the audit trail under its own action.
+const REVIEW_AUDIT_ACTIONS: Record<ExpenseStatus, string> = {
+  [ExpenseStatus.SUBMITTED]: 'REOPEN_EXPENSE_REVIEW',
+  [ExpenseStatus.APPROVED]: 'APPROVE_EXPENSE',
+  [ExpenseStatus.REJECTED]: 'REJECT_EXPENSE',
+  [ExpenseStatus.NEEDS_INFO]: 'REQUEST_EXPENSE_INFO'
+};
+
 interface FinancialOversightTabProps {
   programId: string;
   managerId: string;
@@ -20,12 +42,18 @@ const FinancialOversightTab: React.FC<FinancialOversightTabProps> = ({
   managerUser
 }) => {
   const [participantFinancials, setParticipantFinancials] = useState<ParticipantFinancials[]>([]);
+  const [categories, setCategories] = useState<ExpenseCategory[]>([]);
+  const [allocation, setAllocation] = useState<ProgramBudgetAllocation | null>(null);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const [isEditingBudget, setIsEditingBudget] = useState(false);
+  const [budgetInput, setBudgetInput] = useState('');
+  const [currencyInput, setCurrencyInput] = useState(DEFAULT_CURRENCY);
   const [selectedParticipant, setSelectedParticipant] = useState<string | null>(null);
   const [editingExpense, setEditingExpense] = useState<string | null>(null);
   const [editReason, setEditReason] = useState('');
   const [editAmount, setEditAmount] = useState('');
   const [showAddExpense, setShowAddExpense] = useState(false);
-  const [newExpense, setNewExpense] = useState({ item: '', amount: '', date: new Date().toISOString().split('T')[0], contact: '', remarks: '' });
+  const [newExpense, setNewExpense] = useState({ item: '', amount: '', currency: '', date: new Date().toISOString().split('T')[0], contact: '', remarks: '', categoryId: '' });
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
 
@@ -38,8 +66,16 @@ const FinancialOversightTab: React.FC<FinancialOversightTabProps> = ({
     try {
       setLoading(true);
       setError(null);
-      const financials = await getProgramParticipantFinancials(programId);
+      const [financials, programCategories, programAllocation, rates] = await Promise.all([
+        getProgramParticipantFinancials(programId),
+        getProgramExpenseCategories(programId),
+        getProgramBudgetAllocation(programId),
+        getExchangeRates()
+      ]);
       setParticipantFinancials(financials);
+      setCategories(programCategories);
+      setAllocation(programAllocation);
+      setExchangeRates(rates);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load financial oversight data');
     } finally {
@@ -106,18 +142,30 @@ const FinancialOversightTab: React.FC<FinancialOversightTabProps> = ({
       return;
     }
 
+    const newExpenseCategory = categories.find((category) => category.id === newExpense.categoryId);
     const expense: Omit<Expense, 'id'> = {
       date: newExpense.date,
       item: newExpense.item.trim(),
       amount: parseFloat(newExpense.amount),
+      currency: newExpense.currency || currency,
       contact: newExpense.contact.trim() || undefined,
-      remarks: newExpense.remarks.trim() || undefined
+      remarks: newExpense.remarks.trim() || undefined,
+      categoryId: newExpenseCategory?.id,
+      category: newExpenseCategory?.name
     };
 
     try {
       // Route through the shared mapper so category/receipt_url are preserved and
       // the insert shape cannot drift from the schema.
-      await createExpense(expenseToDbInsert(cycleId, expense));
+      // Expenses a manager records are signed off by that manager on creation.
+      const insert = { ...expenseToDbInsert(cycleId, expense), status: ExpenseStatus.APPROVED };
+      try {
+        await createExpense(insert);
+      } catch (err) {
+        if (!(err instanceof DuplicateExpenseError)) throw err;
+        if (!window.confirm(`${err.message} Add it anyway?`)) return;
+        await createExpense(insert, { allowDuplicate: true });
+      }
 
       // Only write the audit event after the mutation truly succeeded.
       await logAuditEvent({
@@ -134,7 +182,7 @@ const FinancialOversightTab: React.FC<FinancialOversightTabProps> = ({
       await loadFinancials();
 
       setShowAddExpense(false);
-      setNewExpense({ item: '', amount: '', date: new Date().toISOString().split('T')[0], contact: '', remarks: '' });
+      setNewExpense({ item: '', amount: '', currency: '', date: new Date().toISOString().split('T')[0], contact: '', remarks: '', categoryId: '' });
       alert('Expense added successfully');
     } catch (err) {
       alert(err instanceof Error ? err.message : 'Failed to add expense. Please try again.');
@@ -175,8 +223,117 @@ const FinancialOversightTab: React.FC<FinancialOversightTabProps> = ({
     }
   };
 
+  const handleReviewExpense = async (
+    participantId: string,
+    cycleId: string,
+    expense: Expense,
+    status: ExpenseStatus
+  ) => {
+    let reason: string | undefined;
+    if (status === ExpenseStatus.REJECTED || status === ExpenseStatus.NEEDS_INFO) {
+      const input = prompt(
+        status === ExpenseStatus.REJECTED
+          ? 'Why is this expense being rejected? The participant will see this reason.'
+          : 'What information do you need from the participant?'
+      );
+      if (!input?.trim()) return;
+      reason = input.trim();
+    }
+
+    try {
+      await reviewExpense(expense.id, status, reason);
+
+      // Only write the audit event after the transition truly succeeded.
+      await logAuditEvent({
+        action: REVIEW_AUDIT_ACTIONS[status],
+        targetUserId: participantId,
+        programId,
+        metadata: {
+          cycleId,
+          expenseId: expense.id,
+          amount: expense.amount,
+          fromStatus: expense.status,
+          toStatus: status,
+          reason
+        }
+      });
+
+      await loadFinancials();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to review expense. Please try again.');
+    }
+  };
+
+  const handleSaveTotalBudget = async () => {
+    const newBudget = parseFloat(budgetInput);
+    if (isNaN(newBudget) || newBudget < 0) {
+      alert('Please provide a valid budget');
+      return;
+    }
+
+    // 0 switches enforcement off; anything else must still cover what cycles
+    // already hold, otherwise the program would start out over-allocated.
+    if (allocation && newBudget > 0 && newBudget < allocation.allocated) {
+      alert(`The program budget cannot be lower than the ${formatCurrency(allocation.allocated)} already allocated to balance cycles.`);
+      return;
+    }
+
+    // Cycle budgets and caps are stored as plain numbers, so switching the base
+    // currency relabels them rather than converting them.
+    if (currencyInput !== currency && participantFinancials.some((pf) => pf.cycles.length > 0)) {
+      if (!window.confirm(
+        `Existing cycle budgets and category caps will be read as ${currencyInput} instead of ${currency} without conversion. Continue?`
+      )) {
+        return;
+      }
+    }
+
+    try {
+      // updateProgram writes the UPDATE_PROGRAM audit event itself.
+      await updateProgram(programId, { total_budget: newBudget, currency: currencyInput });
+      setIsEditingBudget(false);
+      await loadFinancials();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update program budget. Please try again.');
+    }
+  };
+
+  const currency = allocation?.currency || DEFAULT_CURRENCY;
+  const missingRateCount = participantFinancials.reduce((count, pf) => count + pf.missingRateCount, 0);
+
   const formatCurrency = (amount: number) => {
-    return `$${amount.toFixed(2)}`;
+    return formatMoney(amount, currency);
+  };
+
+  const handleExportProgramLedger = () => {
+    const programName = allocation?.programName || 'program';
+    ExportManager.exportProgramLedgerXLSX(programName, participantFinancials, categories, currency);
+    logAuditEvent({
+      action: 'EXPORT_PROGRAM_LEDGER',
+      programId,
+      metadata: {
+        participantCount: participantFinancials.length,
+        expenseCount: participantFinancials.reduce((count, pf) =>
+          count + pf.cycles.reduce((cycleCount, cycle) => cycleCount + cycle.expenses.length, 0), 0),
+        currency
+      }
+    }).catch((error) => {
+      console.error('Failed to log ledger export:', error);
+    });
+  };
+
+  const handleExportParticipantExpenses = (financials: ParticipantFinancials) => {
+    const expenses = financials.cycles.flatMap((cycle) => cycle.expenses);
+    const rewards = financials.cycles.flatMap((cycle) => cycle.rewards || []);
+    ExportManager.exportExpensesCSV(expenses, financials.participant.name.replace(/\s+/g, '_'), financials.currency, rewards);
+    logAuditEvent({
+      action: 'EXPORT_EXPENSES',
+      targetUserId: financials.participant.id,
+      programId,
+      metadata: { expenseCount: expenses.length, currency: financials.currency }
+    }).catch((error) => {
+      console.error('Failed to log expense export:', error);
+    });
   };
 
   const formatDate = (dateString: string) => {
@@ -199,6 +356,12 @@ const FinancialOversightTab: React.FC<FinancialOversightTabProps> = ({
     return 'text-green-600 bg-green-50';
   };
 
+  // Checked per participant: two people buying the same thing is not a duplicate.
+  const possibleDuplicates = participantFinancials.flatMap((pf) =>
+    findPossibleDuplicates(pf.cycles.flatMap((cycle) => cycle.expenses))
+      .map((duplicate) => ({ ...duplicate, participant: pf.participant }))
+  );
+
   const selectedParticipantData = selectedParticipant
     ? participantFinancials.find(pf => pf.participant.id === selectedParticipant)
     : null;
@@ -215,9 +378,123 @@ const FinancialOversightTab: React.FC<FinancialOversightTabProps> = ({
           Loading financial data...
         </div>
       )}
+      {allocation && (
+        <div className="bg-white shadow rounded-lg">
+          <div className="p-6">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-medium text-gray-900">Program Budget Allocation ({currency})</h3>
+              {isEditingBudget ? (
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={budgetInput}
+                    onChange={(e) => setBudgetInput(e.target.value)}
+                    className="w-32 px-2 py-1 border rounded text-sm"
+                    aria-label="Program total budget"
+                  />
+                  <select
+                    value={currencyInput}
+                    onChange={(e) => setCurrencyInput(e.target.value)}
+                    className="px-2 py-1 border rounded text-sm"
+                    aria-label="Program currency"
+                  >
+                    {currencyOptions(currency).map((code) => (
+                      <option key={code} value={code}>{code}</option>
+                    ))}
+                  </select>
+                  <button onClick={handleSaveTotalBudget} className="text-sm text-green-600 hover:text-green-900">
+                    Save
+                  </button>
+                  <button onClick={() => setIsEditingBudget(false)} className="text-sm text-gray-600 hover:text-gray-900">
+                    Cancel
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => {
+                    setBudgetInput(String(allocation.totalBudget));
+                    setCurrencyInput(currency);
+                    setIsEditingBudget(true);
+                  }}
+                  className="text-sm text-indigo-600 hover:text-indigo-900"
+                >
+                  Edit Program Budget
+                </button>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <dt className="text-xs text-gray-500">Program Budget</dt>
+                <dd className="text-lg font-semibold text-gray-900">
+                  {allocation.totalBudget > 0 ? formatCurrency(allocation.totalBudget) : 'Not set'}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-xs text-gray-500">Allocated to Cycles</dt>
+                <dd className="text-lg font-semibold text-blue-700">{formatCurrency(allocation.allocated)}</dd>
+              </div>
+              <div>
+                <dt className="text-xs text-gray-500">Unallocated</dt>
+                <dd className={`text-lg font-semibold ${allocation.unallocated < 0 ? 'text-red-600' : 'text-green-700'}`}>
+                  {allocation.totalBudget > 0 ? formatCurrency(allocation.unallocated) : '-'}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-xs text-gray-500">Spent</dt>
+                <dd className="text-lg font-semibold text-gray-900">{formatCurrency(allocation.spent)}</dd>
+              </div>
+            </div>
+
+            {allocation.totalBudget > 0 ? (
+              <div className="mt-4">
+                <div className="relative w-full bg-gray-200 rounded-full h-3 overflow-hidden">
+                  <div
+                    className="absolute inset-y-0 left-0 bg-blue-300"
+                    style={{ width: `${Math.min((allocation.allocated / allocation.totalBudget) * 100, 100)}%` }}
+                    title={`Allocated: ${formatCurrency(allocation.allocated)}`}
+                  />
+                  <div
+                    className="absolute inset-y-0 left-0 bg-blue-600"
+                    style={{ width: `${Math.min((allocation.spent / allocation.totalBudget) * 100, 100)}%` }}
+                    title={`Spent: ${formatCurrency(allocation.spent)}`}
+                  />
+                </div>
+                <p className="mt-2 text-xs text-gray-500">
+                  Dark: spent. Light: allocated to balance cycles but not yet spent. New cycles that would exceed the program budget are blocked.
+                </p>
+              </div>
+            ) : (
+              <p className="mt-4 text-sm text-gray-500">
+                No program budget is set, so cycle allocations are not limited. Set one to block over-allocation.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
       <div className="bg-white shadow rounded-lg">
         <div className="p-6">
-          <h3 className="text-lg font-medium text-gray-900 mb-4">Financial Overview</h3>
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-medium text-gray-900">Financial Overview</h3>
+            {participantFinancials.length > 0 && (
+              <button
+                onClick={handleExportProgramLedger}
+                className="text-sm text-indigo-600 hover:text-indigo-900"
+              >
+                Export Ledger (XLSX)
+              </button>
+            )}
+          </div>
+
+          {missingRateCount > 0 && (
+            <div className="mb-4 bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-md text-sm">
+              {missingRateCount} expense{missingRateCount !== 1 ? 's were' : ' was'} paid in a currency with no exchange rate
+              to {currency} and {missingRateCount !== 1 ? 'are' : 'is'} counted at face value. Add the missing rates under Exchange Rates.
+            </div>
+          )}
 
           {participantFinancials.length === 0 ? (
             <p className="text-gray-500">No participants enrolled in this program.</p>
@@ -241,6 +518,9 @@ const FinancialOversightTab: React.FC<FinancialOversightTabProps> = ({
                     <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Utilization
                     </th>
+                    <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Pending Review
+                    </th>
                     <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Active Cycle
                     </th>
@@ -250,7 +530,7 @@ const FinancialOversightTab: React.FC<FinancialOversightTabProps> = ({
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
-                  {participantFinancials.map(({ participant, cycles, activeCycle, totalSpent, totalBudget }) => {
+                  {participantFinancials.map(({ participant, activeCycle, totalSpent, totalBudget, pendingReviewCount }) => {
                     const utilization = calculateUtilization(totalSpent, totalBudget);
                     return (
                       <tr key={participant.id}>
@@ -274,6 +554,15 @@ const FinancialOversightTab: React.FC<FinancialOversightTabProps> = ({
                             {utilization}%
                           </span>
                         </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-center">
+                          {pendingReviewCount > 0 ? (
+                            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                              {pendingReviewCount}
+                            </span>
+                          ) : (
+                            <span className="text-sm text-gray-400">0</span>
+                          )}
+                        </td>
                         <td className="px-6 py-4 whitespace-nowrap text-center text-sm text-gray-500">
                           {activeCycle ? 'Yes' : 'No'}
                         </td>
@@ -295,6 +584,60 @@ const FinancialOversightTab: React.FC<FinancialOversightTabProps> = ({
         </div>
       </div>
 
+      {possibleDuplicates.length > 0 && (
+        <div className="bg-white shadow rounded-lg">
+          <div className="p-6">
+            <h3 className="text-lg font-medium text-gray-900 mb-1">Possible Duplicates</h3>
+            <p className="text-sm text-gray-500 mb-4">
+              Expenses with the same receipt file, or the same date, amount and a similar description. Reject the extra copy to stop it counting toward spending.
+            </p>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Participant</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Expense</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Looks Like</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Match</th>
+                    <th className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {possibleDuplicates.map(({ participant, expense, duplicateOf, reason }) => (
+                    <tr key={`${duplicateOf.id}-${expense.id}`}>
+                      <td className="px-4 py-2 text-sm text-gray-900">{participant.name}</td>
+                      <td className="px-4 py-2 text-sm text-gray-900">
+                        {expense.item}
+                        <span className="block text-xs text-gray-500">
+                          {formatDate(expense.date)} · {formatMoney(expense.amount, expense.currency || currency)}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-900">
+                        {duplicateOf.item}
+                        <span className="block text-xs text-gray-500">
+                          {formatDate(duplicateOf.date)} · {formatMoney(duplicateOf.amount, duplicateOf.currency || currency)}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-500">
+                        {reason === 'same_receipt' ? 'Same receipt file' : 'Same date and amount'}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-center">
+                        <button
+                          onClick={() => setSelectedParticipant(participant.id)}
+                          className="text-indigo-600 hover:text-indigo-900"
+                        >
+                          View Details
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Detailed View */}
       {selectedParticipantData && (
         <div className="bg-white shadow rounded-lg">
@@ -303,12 +646,20 @@ const FinancialOversightTab: React.FC<FinancialOversightTabProps> = ({
               <h3 className="text-lg font-medium text-gray-900">
                 Financial Details - {selectedParticipantData.participant.name}
               </h3>
-              <button
-                onClick={() => setSelectedParticipant(null)}
-                className="text-sm text-gray-500 hover:text-gray-700"
-              >
-                Close
-              </button>
+              <div className="flex items-center space-x-4">
+                <button
+                  onClick={() => handleExportParticipantExpenses(selectedParticipantData)}
+                  className="text-sm text-indigo-600 hover:text-indigo-900"
+                >
+                  Export CSV
+                </button>
+                <button
+                  onClick={() => setSelectedParticipant(null)}
+                  className="text-sm text-gray-500 hover:text-gray-700"
+                >
+                  Close
+                </button>
+              </div>
             </div>
 
             {selectedParticipantData.activeCycle ? (
@@ -333,7 +684,7 @@ const FinancialOversightTab: React.FC<FinancialOversightTabProps> = ({
                       <dt className="text-xs text-gray-500">Spent</dt>
                       <dd className="text-sm font-medium text-gray-900">
                         {formatCurrency(
-                          selectedParticipantData.activeCycle.expenses.reduce((sum, exp) => sum + exp.amount, 0)
+                          sumCountedExpenses(selectedParticipantData.activeCycle.expenses)
                         )}
                       </dd>
                     </div>
@@ -342,13 +693,24 @@ const FinancialOversightTab: React.FC<FinancialOversightTabProps> = ({
                       <dd className="text-sm font-medium text-gray-900">
                         {formatCurrency(
                           selectedParticipantData.activeCycle.budget -
-                          selectedParticipantData.activeCycle.expenses.reduce((sum, exp) => sum + exp.amount, 0)
+                          sumCountedExpenses(selectedParticipantData.activeCycle.expenses)
                         )}
                       </dd>
                     </div>
                   </div>
                 </div>
 
+                {/* Category Breakdown */}
+                {categories.length > 0 && (
+                  <div className="border border-gray-200 rounded-lg p-4">
+                    <h4 className="text-sm font-medium text-gray-900 mb-3">Spending by Category</h4>
+                    <CategoryBreakdown
+                      breakdown={summarizeCategorySpending(selectedParticipantData.activeCycle.expenses, categories)}
+                      formatCurrency={formatCurrency}
+                    />
+                  </div>
+                )}
+
                 {/* Add Expense Button */}
                 {managerUser.role === UserRole.ADMIN || managerUser.role === UserRole.PROGRAM_MANAGER ? (
                   <div className="flex justify-end">
@@ -373,13 +735,25 @@ const FinancialOversightTab: React.FC<FinancialOversightTabProps> = ({
                         onChange={(e) => setNewExpense({ ...newExpense, item: e.target.value })}
                         className="px-3 py-2 border rounded-md text-sm"
                       />
-                      <input
-                        type="number"
-                        placeholder="Amount"
-                        value={newExpense.amount}
-                        onChange={(e) => setNewExpense({ ...newExpense, amount: e.target.value })}
-                        className="px-3 py-2 border rounded-md text-sm"
-                      />
+                      <div className="flex gap-2">
+                        <input
+                          type="number"
+                          placeholder="Amount"
+                          value={newExpense.amount}
+                          onChange={(e) => setNewExpense({ ...newExpense, amount: e.target.value })}
+                          className="w-full px-3 py-2 border rounded-md text-sm"
+                        />
+                        <select
+                          value={newExpense.currency || currency}
+                          onChange={(e) => setNewExpense({ ...newExpense, currency: e.target.value })}
+                          className="px-2 py-2 border rounded-md text-sm"
+                          aria-label="Currency"
+                        >
+                          {currencyOptions(currency).map((code) => (
+                            <option key={code} value={code}>{code}</option>
+                          ))}
+                        </select>
+                      </div>
                       <input
                         type="date"
                         value={newExpense.date}
@@ -393,6 +767,18 @@ const FinancialOversightTab: React.FC<FinancialOversightTabProps> = ({
                         onChange={(e) => setNewExpense({ ...newExpense, contact: e.target.value })}
                         className="px-3 py-2 border rounded-md text-sm"
                       />
+                      {categories.length > 0 && (
+                        <select
+                          value={newExpense.categoryId}
+                          onChange={(e) => setNewExpense({ ...newExpense, categoryId: e.target.value })}
+                          className="px-3 py-2 border rounded-md text-sm col-span-2"
+                        >
+                          <option value="">Uncategorized</option>
+                          {categories.map((category) => (
+                            <option key={category.id} value={category.id}>{category.name}</option>
+                          ))}
+                        </select>
+                      )}
                       <input
                         type="text"
                         placeholder="Remarks (optional)"
@@ -405,7 +791,7 @@ const FinancialOversightTab: React.FC<FinancialOversightTabProps> = ({
                       <button
                         onClick={() => {
                           setShowAddExpense(false);
-                          setNewExpense({ item: '', amount: '', date: new Date().toISOString().split('T')[0], contact: '', remarks: '' });
+                          setNewExpense({ item: '', amount: '', currency: '', date: new Date().toISOString().split('T')[0], contact: '', remarks: '', categoryId: '' });
                         }}
                         className="px-3 py-1 bg-gray-300 text-gray-700 text-sm rounded hover:bg-gray-400"
                       >
@@ -433,9 +819,12 @@ const FinancialOversightTab: React.FC<FinancialOversightTabProps> = ({
                         <tr>
                           <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
                           <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Item</th>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Category</th>
                           <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Amount</th>
                           <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Contact</th>
                           <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Remarks</th>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                          <th className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase">Review</th>
                           <th className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase">Actions</th>
                         </tr>
                       </thead>
@@ -444,6 +833,7 @@ const FinancialOversightTab: React.FC<FinancialOversightTabProps> = ({
                           <tr key={expense.id}>
                             <td className="px-4 py-2 text-sm text-gray-900">{formatDate(expense.date)}</td>
                             <td className="px-4 py-2 text-sm text-gray-900">{expense.item}</td>
+                            <td className="px-4 py-2 text-sm text-gray-500">{expense.category || '-'}</td>
                             <td className="px-4 py-2 text-sm text-gray-900 text-right">
                               {editingExpense === expense.id ? (
                                 <input
@@ -453,11 +843,60 @@ const FinancialOversightTab: React.FC<FinancialOversightTabProps> = ({
                                   className="w-20 px-2 py-1 border rounded text-sm"
                                 />
                               ) : (
-                                formatCurrency(expense.amount)
+                                <ExpenseAmount expense={expense} baseCurrency={currency} />
                               )}
                             </td>
                             <td className="px-4 py-2 text-sm text-gray-500">{expense.contact || '-'}</td>
                             <td className="px-4 py-2 text-sm text-gray-500">{expense.remarks || '-'}</td>
+                            <td className="px-4 py-2 text-sm text-gray-500">
+                              <ExpenseStatusBadge status={expense.status} />
+                              {expense.reviewReason && (
+                                <p className="mt-1 text-xs text-gray-500">{expense.reviewReason}</p>
+                              )}
+                            </td>
+                            <td className="px-4 py-2 text-sm text-center">
+                              <div className="flex justify-center space-x-2">
+                                {expense.status !== ExpenseStatus.APPROVED && (
+                                  <button
+                                    onClick={() => handleReviewExpense(
+                                      selectedParticipantData.participant.id,
+                                      selectedParticipantData.activeCycle!.id,
+                                      expense,
+                                      ExpenseStatus.APPROVED
+                                    )}
+                                    className="text-green-600 hover:text-green-900"
+                                  >
+                                    Approve
+                                  </button>
+                                )}
+                                {expense.status !== ExpenseStatus.REJECTED && (
+                                  <button
+                                    onClick={() => handleReviewExpense(
+                                      selectedParticipantData.participant.id,
+                                      selectedParticipantData.activeCycle!.id,
+                                      expense,
+                                      ExpenseStatus.REJECTED
+                                    )}
+                                    className="text-red-600 hover:text-red-900"
+                                  >
+                                    Reject
+                                  </button>
+                                )}
+                                {expense.status !== ExpenseStatus.NEEDS_INFO && (
+                                  <button
+                                    onClick={() => handleReviewExpense(
+                                      selectedParticipantData.participant.id,
+                                      selectedParticipantData.activeCycle!.id,
+                                      expense,
+                                      ExpenseStatus.NEEDS_INFO
+                                    )}
+                                    className="text-yellow-600 hover:text-yellow-900"
+                                  >
+                                    Ask
+                                  </button>
+                                )}
+                              </div>
+                            </td>
                             <td className="px-4 py-2 text-sm text-center">
                               {editingExpense === expense.id ? (
                                 <div className="space-y-1">
@@ -526,7 +965,7 @@ const FinancialOversightTab: React.FC<FinancialOversightTabProps> = ({
                 {/* Warning Notice */}
                 <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3">
                   <p className="text-sm text-yellow-800">
-                    <strong>Note:</strong> All financial edits are logged in the audit trail for compliance and transparency.
+                    <strong>Note:</strong> All financial edits and review decisions are logged in the audit trail for compliance and transparency. Rejected expenses do not count toward spending.
                   </p>
                 </div>
               </div>
@@ -536,6 +975,24 @@ const FinancialOversightTab: React.FC<FinancialOversightTabProps> = ({
           </div>
         </div>
       )}
+
+      <ExpenseCategoryManager
+        programId={programId}
+        categories={categories}
+        currency={currency}
+        onCategoriesChange={loadFinancials}
+      />
+
+      <ExchangeRateManager
+        key={currency}
+        programId={programId}
+        currency={currency}
+        rates={exchangeRates}
+        canEdit={managerUser.role === UserRole.ADMIN}
+        onRatesChange={loadFinancials}
+      />
+
+      <CycleScheduleSettings programId={programId} onCyclesChange={loadFinancials} />
     </div>
   );
 };
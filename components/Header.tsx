@@ -1,15 +1,19 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { User } from '../types';
+import NotificationBadge from './NotificationBadge';
+import useNotifications from '../hooks/useNotifications';
 
 interface HeaderProps {
   user: User;
   onLogout: () => void;
   onAccountSettings: () => void;
+  onNotifications: () => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ user, onLogout, onAccountSettings }) => {
+const Header: React.FC<HeaderProps> = ({ user, onLogout, onAccountSettings, onNotifications }) => {
   const menuRef = useRef<HTMLDivElement | null>(null);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const { unreadCount } = useNotifications(user.id);
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -46,6 +50,19 @@ const Header: React.FC<HeaderProps> = ({ user, onLogout, onAccountSettings }) =>
             <h1 className="text-xl font-bold text-gray-900">Golden Bridge Women</h1>
           </div>
           <div className="relative flex items-center space-x-4" ref={menuRef}>
+            <button
+              type="button"
+              onClick={onNotifications}
+              aria-label="Notifications"
+              className="relative rounded-full p-2 text-gray-500 hover:bg-gray-50 hover:text-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+              </svg>
+              <div className="absolute -top-1 -right-1">
+                <NotificationBadge count={unreadCount} />
+              </div>
+            </button>
             <button
               type="button"
               onClick={() => setIsMenuOpen((current) => !current)}
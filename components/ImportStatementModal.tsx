@@ -0,0 +1,376 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Expense, ExpenseCategory } from '../types';
+import CloseIcon from './icons/CloseIcon';
+import {
+  CsvColumnMapping,
+  detectStatementFormat,
+  guessCsvMapping,
+  mapCsvTransactions,
+  parseCsv,
+  parseOfx,
+  STATEMENT_FILE_ACCEPT,
+  StatementFormat,
+  StatementParseResult
+} from '../src/lib/bankImport';
+import { duplicateReason } from '../src/lib/expenseDuplicates';
+import { DEFAULT_CURRENCY, formatMoney } from '../src/lib/currency';
+
+interface ImportStatementModalProps {
+  onClose: () => void;
+  onImport: (expenses: Omit<Expense, 'id'>[], fileName: string) => Promise<void>;
+  cycleExpenses?: Expense[]; // Checked for duplicates
+  cycleStartDate?: string; // Rows dated outside the cycle are not imported
+  cycleEndDate?: string;
+  categories?: ExpenseCategory[];
+  currency?: string; // Program currency, used when the statement has none
+}
+
+type StatementFile = {
+  name: string;
+  format: StatementFormat;
+  rows: string[][]; // CSV only
+  ofx: StatementParseResult | null;
+};
+
+const EMPTY_RESULT: StatementParseResult = { transactions: [], skipped: 0 };
+
+const ImportStatementModal: React.FC<ImportStatementModalProps> = ({
+  onClose,
+  onImport,
+  cycleExpenses,
+  cycleStartDate,
+  cycleEndDate,
+  categories = [],
+  currency = DEFAULT_CURRENCY
+}) => {
+  const [statement, setStatement] = useState<StatementFile | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null);
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+  const [categoryId, setCategoryId] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const parsed = useMemo(() => {
+    if (!statement) return EMPTY_RESULT;
+    if (statement.format === 'ofx') return statement.ofx ?? EMPTY_RESULT;
+    return mapping ? mapCsvTransactions(statement.rows, mapping) : EMPTY_RESULT;
+  }, [statement, mapping]);
+
+  const duplicates = useMemo(
+    () => parsed.transactions.map((transaction) => {
+      const candidate = { date: transaction.date, item: transaction.description, amount: transaction.amount, currency: transaction.currency || currency };
+      return (cycleExpenses ?? []).find((expense) => duplicateReason(candidate, expense) !== null);
+    }),
+    [parsed, cycleExpenses, currency]
+  );
+
+  const outsideCycle = useMemo(
+    () => parsed.transactions.map((transaction) =>
+      (!!cycleStartDate && transaction.date < cycleStartDate) || (!!cycleEndDate && transaction.date > cycleEndDate)
+    ),
+    [parsed, cycleStartDate, cycleEndDate]
+  );
+
+  // Likely duplicates start unticked; the participant can still include them.
+  // Seeded once per parse, so a refreshed expense list does not undo toggles.
+  const seededFor = useRef<StatementParseResult | null>(null);
+  useEffect(() => {
+    if (seededFor.current === parsed) return;
+    seededFor.current = parsed;
+    setExcluded(new Set(duplicates.flatMap((duplicate, index) => (duplicate ? [index] : []))));
+  }, [parsed, duplicates]);
+
+  const isIncluded = (index: number) => !excluded.has(index) && !outsideCycle[index];
+  const includedCount = parsed.transactions.filter((_, index) => isIncluded(index)).length;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError(null);
+
+    try {
+      const text = await file.text();
+      const format = detectStatementFormat(file.name, text);
+      if (format === 'ofx') {
+        setStatement({ name: file.name, format, rows: [], ofx: parseOfx(text) });
+        setMapping(null);
+      } else {
+        const rows = parseCsv(text);
+        if (rows.length === 0) {
+          setError('The file has no rows.');
+          return;
+        }
+        setStatement({ name: file.name, format, rows, ofx: null });
+        setMapping(guessCsvMapping(rows));
+      }
+    } catch (err) {
+      console.error('Failed to read statement:', err);
+      setError('Could not read the file. Export a CSV, OFX or QFX statement from your bank.');
+    }
+  };
+
+  const toggleRow = (index: number) => {
+    setExcluded((current) => {
+      const next = new Set(current);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!statement) return;
+    const category = categories.find((c) => c.id === categoryId);
+    const expenses: Omit<Expense, 'id'>[] = parsed.transactions
+      .filter((_, index) => isIncluded(index))
+      .map((transaction) => ({
+        date: transaction.date,
+        item: transaction.description,
+        amount: transaction.amount,
+        currency: transaction.currency || currency,
+        categoryId: category?.id,
+        category: category?.name,
+        remarks: transaction.memo
+          ? `${transaction.memo} (imported from ${statement.name})`
+          : `Imported from ${statement.name}`
+      }));
+    if (expenses.length === 0) return;
+
+    setError(null);
+    setIsImporting(true);
+    try {
+      await onImport(expenses, statement.name);
+      onClose();
+    } catch (err) {
+      console.error('Failed to import expenses:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import expenses');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const headerRow = statement?.format === 'csv' ? statement.rows[0] ?? [] : [];
+  const columnOptions = headerRow.map((cell, index) => ({
+    index,
+    label: mapping?.hasHeader && cell ? cell : `Column ${index + 1}`
+  }));
+
+  const columnSelect = (
+    label: string,
+    field: 'date' | 'description' | 'amount' | 'debit' | 'currency' | 'memo',
+    optional = false
+  ) => mapping && (
+    <div>
+      <label htmlFor={`import-${field}`} className="block text-xs font-medium text-gray-700">{label}</label>
+      <select
+        id={`import-${field}`}
+        value={mapping[field] ?? ''}
+        onChange={(e) => setMapping({ ...mapping, [field]: e.target.value === '' ? undefined : Number(e.target.value) })}
+        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm sm:text-sm"
+      >
+        {optional && <option value="">None</option>}
+        {columnOptions.map((option) => (
+          <option key={option.index} value={option.index}>{option.label}</option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="import-modal-title"
+    >
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-full overflow-y-auto">
+        <div className="p-6 border-b flex justify-between items-center">
+          <h3 id="import-modal-title" className="text-2xl font-bold text-gray-900">Import Bank Statement</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors duration-200" aria-label="Close modal">
+            <CloseIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <label htmlFor="statement-file" className="block text-sm font-medium text-gray-700">Statement file</label>
+            <input
+              id="statement-file"
+              type="file"
+              accept={STATEMENT_FILE_ACCEPT}
+              onChange={handleFileChange}
+              className="mt-1 block w-full text-sm text-gray-700"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              CSV, OFX or QFX from your online banking. Only money going out is imported; each row is submitted for review like any other expense.
+            </p>
+          </div>
+
+          {statement?.format === 'csv' && mapping && (
+            <div className="border rounded-md p-4 space-y-3">
+              <div className="flex justify-between items-center">
+                <h4 className="text-sm font-medium text-gray-700">Columns</h4>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={mapping.hasHeader}
+                    onChange={(e) => setMapping({ ...mapping, hasHeader: e.target.checked })}
+                  />
+                  First row is a header
+                </label>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                {columnSelect('Date', 'date')}
+                {columnSelect('Description', 'description')}
+                {mapping.debit !== undefined
+                  ? columnSelect('Money out', 'debit', true)
+                  : columnSelect('Amount', 'amount', true)}
+                {columnSelect('Currency', 'currency', true)}
+                {columnSelect('Memo', 'memo', true)}
+                <div>
+                  <label htmlFor="import-date-format" className="block text-xs font-medium text-gray-700">Date format</label>
+                  <select
+                    id="import-date-format"
+                    value={mapping.dateFormat}
+                    onChange={(e) => setMapping({ ...mapping, dateFormat: e.target.value as CsvColumnMapping['dateFormat'] })}
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm sm:text-sm"
+                  >
+                    <option value="mdy">Month/Day/Year</option>
+                    <option value="dmy">Day/Month/Year</option>
+                    <option value="ymd">Year-Month-Day</option>
+                  </select>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-4 text-sm text-gray-700">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={mapping.debit !== undefined}
+                    onChange={(e) => setMapping(e.target.checked
+                      ? { ...mapping, debit: mapping.amount ?? 0, amount: undefined }
+                      : { ...mapping, amount: mapping.debit ?? 0, debit: undefined })}
+                  />
+                  Separate money in / money out columns
+                </label>
+                {mapping.debit === undefined && (
+                  <select
+                    aria-label="Amount sign"
+                    value={mapping.amountSign}
+                    onChange={(e) => setMapping({ ...mapping, amountSign: e.target.value as CsvColumnMapping['amountSign'] })}
+                    className="border-gray-300 rounded-md shadow-sm sm:text-sm"
+                  >
+                    <option value="negative_is_spend">Spending is negative</option>
+                    <option value="positive_is_spend">Spending is positive</option>
+                  </select>
+                )}
+              </div>
+            </div>
+          )}
+
+          {statement && (
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <h4 className="text-sm font-medium text-gray-700">
+                  {parsed.transactions.length} transaction{parsed.transactions.length === 1 ? '' : 's'} found
+                  {parsed.skipped > 0 && <span className="text-gray-500 font-normal"> ({parsed.skipped} skipped: money in or unreadable)</span>}
+                </h4>
+                {categories.length > 0 && (
+                  <select
+                    aria-label="Category for imported expenses"
+                    value={categoryId}
+                    onChange={(e) => setCategoryId(e.target.value)}
+                    className="border-gray-300 rounded-md shadow-sm sm:text-sm"
+                  >
+                    <option value="">No category</option>
+                    {categories.filter((c) => c.isActive || c.id === categoryId).map((c) => (
+                      <option key={c.id} value={c.id}>{c.name}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+              {parsed.transactions.length > 0 ? (
+                <div className="overflow-x-auto max-h-80 border rounded-md">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50 sticky top-0">
+                      <tr>
+                        <th className="px-3 py-2"><span className="sr-only">Include</span></th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Description</th>
+                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Amount</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {parsed.transactions.map((transaction, index) => {
+                        const duplicate = duplicates[index];
+                        return (
+                          <tr key={`${transaction.reference ?? ''}-${index}`} className={isIncluded(index) ? 'text-gray-900' : 'text-gray-400'}>
+                            <td className="px-3 py-2">
+                              <input
+                                type="checkbox"
+                                aria-label={`Include ${transaction.description}`}
+                                checked={isIncluded(index)}
+                                disabled={outsideCycle[index]}
+                                onChange={() => toggleRow(index)}
+                              />
+                            </td>
+                            <td className="px-3 py-2 whitespace-nowrap">{transaction.date}</td>
+                            <td className="px-3 py-2">
+                              {transaction.description}
+                              {outsideCycle[index] ? (
+                                <p className="text-xs text-red-600">Outside the current cycle ({cycleStartDate} to {cycleEndDate})</p>
+                              ) : duplicate && (
+                                <p className="text-xs text-yellow-700">Possible duplicate of "{duplicate.item}"</p>
+                              )}
+                            </td>
+                            <td className="px-3 py-2 text-right whitespace-nowrap">
+                              {formatMoney(transaction.amount, transaction.currency || currency)}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">
+                  No spending rows could be read{statement.format === 'csv' ? '. Check the column mapping above.' : '.'}
+                </p>
+              )}
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 bg-gray-50 flex justify-end gap-3">
+          <button type="button" onClick={onClose} className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 transition-colors duration-200">Cancel</button>
+          <button
+            type="button"
+            onClick={handleImport}
+            disabled={includedCount <= 0 || isImporting}
+            className="px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isImporting ? 'Importing...' : `Import ${Math.max(includedCount, 0)} Expense${includedCount === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportStatementModal;
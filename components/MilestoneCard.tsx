@@ -1,5 +1,6 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useRef } from 'react';
 import { Milestone, MilestoneStatus, MilestoneCategory } from '../types';
+import { PROOF_FILE_ACCEPT } from '../src/lib/milestoneProofShared';
 
 interface MilestoneCardProps {
   milestone: Milestone;
@@ -7,6 +8,9 @@ interface MilestoneCardProps {
   onDelete: (milestoneId: string) => void;
   onAddReport: (milestone: Milestone) => void;
   onUpdateStatus: (milestoneId: string, status: MilestoneStatus) => void;
+  onUploadProof?: (milestoneId: string, file: File) => void;
+  onViewProof?: (milestoneId: string) => void;
+  isHighlighted?: boolean;
 }
 
 const MilestoneCard: React.FC<MilestoneCardProps> = ({
@@ -14,8 +18,22 @@ const MilestoneCard: React.FC<MilestoneCardProps> = ({
   onEdit,
   onDelete,
   onAddReport,
-  onUpdateStatus
+  onUpdateStatus,
+  onUploadProof,
+  onViewProof,
+  isHighlighted
 }) => {
+  const proofInputRef = useRef<HTMLInputElement>(null);
+  const changesRequested = milestone.review?.decision === 'changes_requested' && milestone.status !== MilestoneStatus.COMPLETED;
+
+  const handleProofSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file && onUploadProof) {
+      onUploadProof(milestone.id, file);
+    }
+  };
+
   // Calculate progress
   const progress = useMemo(() => {
     const startDate = new Date(milestone.startDate);
@@ -92,7 +110,12 @@ const MilestoneCard: React.FC<MilestoneCardProps> = ({
   };
 
   return (
-    <div className="bg-white rounded-lg shadow-md hover:shadow-lg transition-shadow duration-200">
+    <div
+      id={`milestone-${milestone.id}`}
+      className={`bg-white rounded-lg shadow-md hover:shadow-lg transition-shadow duration-200 ${
+        isHighlighted ? 'ring-2 ring-indigo-500' : ''
+      }`}
+    >
       <div className="p-6">
         {/* Header */}
         <div className="flex justify-between items-start mb-4">
@@ -105,6 +128,18 @@ const MilestoneCard: React.FC<MilestoneCardProps> = ({
               <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusStyles(milestone.status)}`}>
                 {milestone.status.replace('_', ' ')}
               </span>
+              {milestone.isVerified ? (
+                <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-emerald-100 text-emerald-800">
+                  <svg className="w-3 h-3 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                  </svg>
+                  verified
+                </span>
+              ) : milestone.status === MilestoneStatus.COMPLETED && (
+                <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                  awaiting review
+                </span>
+              )}
             </div>
           </div>
           <div className="flex space-x-1">
@@ -134,6 +169,14 @@ const MilestoneCard: React.FC<MilestoneCardProps> = ({
           <p className="text-sm text-gray-600 mb-4 line-clamp-2">{milestone.description}</p>
         )}
 
+        {/* Manager's change request */}
+        {changesRequested && (
+          <div className="mb-4 rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+            <p className="font-medium">Changes requested</p>
+            <p className="whitespace-pre-wrap">{milestone.review?.note}</p>
+          </div>
+        )}
+
         {/* Date Range */}
         <div className="text-sm text-gray-500 mb-4">
           <div className="flex items-center">
@@ -187,6 +230,43 @@ const MilestoneCard: React.FC<MilestoneCardProps> = ({
           <span>Week {getWeekNumber()}</span>
         </div>
 
+        {/* Proof of completion */}
+        <div className="flex items-center justify-between text-sm mb-4">
+          {milestone.proof ? (
+            <button
+              type="button"
+              onClick={() => onViewProof?.(milestone.id)}
+              className="flex items-center min-w-0 text-indigo-600 hover:text-indigo-500"
+              title={`Uploaded ${formatDate(milestone.proof.uploadedAt)}`}
+            >
+              <svg className="w-4 h-4 mr-1 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13" />
+              </svg>
+              <span className="truncate">{milestone.proof.fileName}</span>
+            </button>
+          ) : (
+            <span className="text-gray-500">No proof uploaded</span>
+          )}
+          {onUploadProof && !milestone.isVerified && (
+            <>
+              <button
+                type="button"
+                onClick={() => proofInputRef.current?.click()}
+                className="ml-2 flex-shrink-0 text-gray-600 hover:text-gray-900 underline"
+              >
+                {milestone.proof ? 'Replace proof' : 'Upload proof'}
+              </button>
+              <input
+                ref={proofInputRef}
+                type="file"
+                accept={PROOF_FILE_ACCEPT}
+                onChange={handleProofSelected}
+                className="hidden"
+              />
+            </>
+          )}
+        </div>
+
         {/* Actions */}
         <div className="flex gap-2">
           <button
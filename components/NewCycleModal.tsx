@@ -1,15 +1,28 @@
 import React, { useState, useEffect, useRef } from 'react';
+import { CarryForwardMode, CycleFrequency, CycleSchedule } from '../types';
 import CloseIcon from './icons/CloseIcon';
+import CycleScheduleFields from './CycleScheduleFields';
+import { CycleScheduleInput, getSchedulePeriodEnd } from '../src/lib/cycles';
 
 interface NewCycleModalProps {
   onClose: () => void;
-  onStartCycle: (budget: number, startDate: string, endDate: string) => void;
+  onStartCycle: (
+    budget: number,
+    startDate: string,
+    endDate: string,
+    schedule?: CycleScheduleInput | null
+  ) => void;
+  currentSchedule?: CycleSchedule; // The participant's own schedule, if any
 }
 
-const NewCycleModal: React.FC<NewCycleModalProps> = ({ onClose, onStartCycle }) => {
-  const [budget, setBudget] = useState('');
+const NewCycleModal: React.FC<NewCycleModalProps> = ({ onClose, onStartCycle, currentSchedule }) => {
+  const [budget, setBudget] = useState(currentSchedule ? String(currentSchedule.budget) : '');
   const [startDate, setStartDate] = useState(new Date().toISOString().split('T')[0]);
   const [endDate, setEndDate] = useState('');
+  const [repeats, setRepeats] = useState(!!currentSchedule?.isActive);
+  const [frequency, setFrequency] = useState<CycleFrequency>(currentSchedule?.frequency || 'monthly');
+  const [intervalDays, setIntervalDays] = useState(String(currentSchedule?.intervalDays || 14));
+  const [carryForward, setCarryForward] = useState<CarryForwardMode>(currentSchedule?.carryForward || 'none');
   
   const modalRef = useRef<HTMLDivElement>(null);
   const firstFocusableElementRef = useRef<HTMLInputElement>(null);
@@ -52,10 +65,31 @@ const NewCycleModal: React.FC<NewCycleModalProps> = ({ onClose, onStartCycle })
     };
   }, [onClose]);
 
+  // A repeating cycle's end date follows from its schedule.
+  useEffect(() => {
+    if (repeats && startDate) {
+      setEndDate(getSchedulePeriodEnd(startDate, frequency, parseInt(intervalDays, 10) || undefined));
+    }
+  }, [repeats, startDate, frequency, intervalDays]);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (repeats && frequency === 'custom' && !(parseInt(intervalDays, 10) >= 1)) {
+      alert('Please enter how many days each cycle lasts.');
+      return;
+    }
     if(parseFloat(budget) > 0 && startDate && endDate && startDate <= endDate) {
-      onStartCycle(parseFloat(budget), startDate, endDate);
+      // undefined = leave schedules alone; null = stop the existing schedule.
+      const schedule: CycleScheduleInput | null | undefined = repeats
+        ? {
+            frequency,
+            intervalDays: frequency === 'custom' ? parseInt(intervalDays, 10) : undefined,
+            budget: parseFloat(budget),
+            carryForward,
+            isActive: true
+          }
+        : currentSchedule ? null : undefined;
+      onStartCycle(parseFloat(budget), startDate, endDate, schedule);
     } else {
         alert("Please fill in all fields correctly. End date must be after start date.");
     }
@@ -68,7 +102,7 @@ const NewCycleModal: React.FC<NewCycleModalProps> = ({ onClose, onStartCycle })
       aria-modal="true"
       aria-labelledby="new-cycle-modal-title"
     >
-      <div ref={modalRef} className="bg-white rounded-lg shadow-xl w-full max-w-md">
+      <div ref={modalRef} className="bg-white rounded-lg shadow-xl w-full max-w-md max-h-full overflow-y-auto">
         <div className="p-6 border-b flex justify-between items-center">
           <h3 id="new-cycle-modal-title" className="text-2xl font-bold text-gray-900">Start New Spending Cycle</h3>
           <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors duration-200" aria-label="Close modal">
@@ -88,9 +122,24 @@ const NewCycleModal: React.FC<NewCycleModalProps> = ({ onClose, onStartCycle })
               </div>
               <div>
                 <label htmlFor="endDate" className="block text-sm font-medium text-gray-700">End Date</label>
-                <input type="date" id="endDate" value={endDate} onChange={e => setEndDate(e.target.value)} required className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"/>
+                <input type="date" id="endDate" value={endDate} onChange={e => setEndDate(e.target.value)} required disabled={repeats} className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm disabled:bg-gray-100"/>
               </div>
             </div>
+            <label className="flex items-center">
+              <input type="checkbox" checked={repeats} onChange={e => setRepeats(e.target.checked)} className="mr-2"/>
+              <span className="text-sm font-medium text-gray-700">Open the next cycle automatically when this one ends</span>
+            </label>
+            {repeats && (
+              <CycleScheduleFields
+                idPrefix="new-cycle"
+                frequency={frequency}
+                intervalDays={intervalDays}
+                carryForward={carryForward}
+                onFrequencyChange={setFrequency}
+                onIntervalDaysChange={setIntervalDays}
+                onCarryForwardChange={setCarryForward}
+              />
+            )}
           </div>
           <div className="p-6 bg-gray-50 flex justify-end gap-3">
             <button type="button" onClick={onClose} className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 transition-colors duration-200">Cancel</button>
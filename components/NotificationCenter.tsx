@@ -0,0 +1,350 @@
+import React, { useEffect, useState } from 'react';
+import { User } from '../types';
+import {
+  AppNotification,
+  archiveNotifications,
+  deleteNotification,
+  getNotificationsPage,
+  markNotificationRead,
+  NotificationFolder,
+  NotificationTarget,
+  NotificationType,
+  resolveNotificationTarget,
+  unarchiveNotification,
+} from '../src/lib/notifications';
+
+interface NotificationCenterProps {
+  user: User;
+  onBack: () => void;
+  onOpenTarget: (target: NotificationTarget) => void;
+}
+
+const PAGE_SIZE = 20;
+
+const FOLDERS: { value: NotificationFolder; label: string }[] = [
+  { value: 'inbox', label: 'Inbox' },
+  { value: 'unread', label: 'Unread' },
+  { value: 'archived', label: 'Archived' },
+];
+
+const TYPE_FILTERS: { value: NotificationType; label: string }[] = [
+  { value: 'assignment', label: 'Assignments' },
+  { value: 'feedback', label: 'Feedback' },
+  { value: 'comment', label: 'Comments' },
+  { value: 'mention', label: 'Mentions' },
+  { value: 'deadline', label: 'Deadlines' },
+  { value: 'decline', label: 'Declines' },
+  { value: 'progress_report', label: 'Progress reports' },
+  { value: 'milestone_completed', label: 'Completed milestones' },
+  { value: 'milestone_review', label: 'Milestone reviews' },
+  { value: 'budget_exceeded', label: 'Budget alerts' },
+  { value: 'general', label: 'General' },
+];
+
+const TYPE_BADGES: Record<NotificationType, string> = {
+  assignment: 'bg-indigo-100 text-indigo-800',
+  feedback: 'bg-green-100 text-green-800',
+  comment: 'bg-sky-100 text-sky-800',
+  mention: 'bg-purple-100 text-purple-800',
+  deadline: 'bg-amber-100 text-amber-800',
+  decline: 'bg-red-100 text-red-800',
+  progress_report: 'bg-blue-100 text-blue-800',
+  milestone_completed: 'bg-emerald-100 text-emerald-800',
+  milestone_review: 'bg-teal-100 text-teal-800',
+  budget_exceeded: 'bg-orange-100 text-orange-800',
+  general: 'bg-gray-100 text-gray-800',
+};
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const NotificationCenter: React.FC<NotificationCenterProps> = ({ user, onBack, onOpenTarget }) => {
+  const [folder, setFolder] = useState<NotificationFolder>('inbox');
+  const [types, setTypes] = useState<NotificationType[]>([]);
+  const [page, setPage] = useState(0);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  useEffect(() => {
+    loadPage();
+  }, [folder, types, page, user.id]);
+
+  const loadPage = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await getNotificationsPage({ folder, types, page, pageSize: PAGE_SIZE });
+      // Archiving or deleting the last item on a page leaves it empty.
+      if (result.notifications.length === 0 && page > 0) {
+        setPage(page - 1);
+        return;
+      }
+      setNotifications(result.notifications);
+      setTotal(result.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load notifications');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const changeFolder = (next: NotificationFolder) => {
+    setFolder(next);
+    setPage(0);
+  };
+
+  const toggleType = (type: NotificationType) => {
+    setTypes((current) => (current.includes(type) ? current.filter((entry) => entry !== type) : [...current, type]));
+    setPage(0);
+  };
+
+  const runAction = async (notificationId: string | null, action: () => Promise<void>, failure: string) => {
+    try {
+      setBusyId(notificationId);
+      setError(null);
+      await action();
+      await loadPage();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleOpen = async (notification: AppNotification) => {
+    try {
+      setBusyId(notification.id);
+      setError(null);
+      if (!notification.read) {
+        await markNotificationRead(notification.id);
+      }
+      const target = await resolveNotificationTarget(notification);
+      if (target) {
+        onOpenTarget(target);
+        return;
+      }
+      await loadPage();
+      setError('This notification does not link to anything that is still available.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open notification');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = (notification: AppNotification) => {
+    if (!window.confirm(`Delete "${notification.title}"? This cannot be undone.`)) return;
+    runAction(notification.id, () => deleteNotification(notification.id), 'Failed to delete notification');
+  };
+
+  const handleArchiveAll = () => {
+    runAction(
+      null,
+      () => archiveNotifications(notifications.map((notification) => notification.id)),
+      'Failed to archive notifications'
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="border-b border-gray-200 bg-white shadow-sm">
+        <div className="mx-auto flex max-w-5xl items-center justify-between px-4 py-4 sm:px-6 lg:px-8">
+          <div>
+            <p className="text-sm text-gray-500">Notification center</p>
+            <h1 className="text-2xl font-bold text-gray-900">Your notifications</h1>
+          </div>
+          <button
+            type="button"
+            onClick={onBack}
+            className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Back
+          </button>
+        </div>
+      </div>
+
+      <main className="mx-auto max-w-5xl space-y-4 px-4 py-8 sm:px-6 lg:px-8">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex rounded-md border border-gray-300 bg-white p-0.5">
+            {FOLDERS.map((entry) => (
+              <button
+                key={entry.value}
+                type="button"
+                onClick={() => changeFolder(entry.value)}
+                className={`rounded px-3 py-1.5 text-sm font-medium ${
+                  folder === entry.value ? 'bg-indigo-600 text-white' : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {entry.label}
+              </button>
+            ))}
+          </div>
+          {folder !== 'archived' && notifications.length > 0 && (
+            <button
+              type="button"
+              onClick={handleArchiveAll}
+              disabled={busyId !== null}
+              className="text-sm font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+            >
+              Archive this page
+            </button>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {TYPE_FILTERS.map((entry) => (
+            <button
+              key={entry.value}
+              type="button"
+              onClick={() => toggleType(entry.value)}
+              className={`rounded-full border px-3 py-1 text-xs font-medium ${
+                types.includes(entry.value)
+                  ? 'border-indigo-600 bg-indigo-50 text-indigo-700'
+                  : 'border-gray-300 bg-white text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              {entry.label}
+            </button>
+          ))}
+          {types.length > 0 && (
+            <button
+              type="button"
+              onClick={() => {
+                setTypes([]);
+                setPage(0);
+              }}
+              className="px-2 py-1 text-xs text-gray-500 hover:text-gray-700"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-800">{error}</div>
+        )}
+
+        <section className="rounded-xl border border-gray-200 bg-white shadow-sm">
+          {loading ? (
+            <p className="p-6 text-sm text-gray-500">Loading notifications...</p>
+          ) : notifications.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500">
+              {folder === 'archived' ? 'No archived notifications.' : 'You are all caught up.'}
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {notifications.map((notification) => (
+                <li
+                  key={notification.id}
+                  className={`flex items-start gap-4 px-4 py-4 sm:px-6 ${notification.read ? '' : 'bg-blue-50'}`}
+                >
+                  <button
+                    type="button"
+                    onClick={() => handleOpen(notification)}
+                    disabled={busyId !== null}
+                    className="min-w-0 flex-1 text-left disabled:cursor-wait"
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className={`rounded px-2 py-0.5 text-xs font-medium ${TYPE_BADGES[notification.type] || TYPE_BADGES.general}`}>
+                        {notification.type}
+                      </span>
+                      <span className={`truncate text-sm font-medium ${notification.read ? 'text-gray-900' : 'text-blue-900'}`}>
+                        {notification.title}
+                      </span>
+                    </div>
+                    <p className="mt-1 text-sm text-gray-600">{notification.message}</p>
+                    <p className="mt-1 text-xs text-gray-400">{formatDateTime(notification.createdAt)}</p>
+                  </button>
+                  <div className="flex shrink-0 flex-col items-end gap-1 text-xs">
+                    {!notification.read && (
+                      <button
+                        type="button"
+                        onClick={() =>
+                          runAction(notification.id, () => markNotificationRead(notification.id), 'Failed to mark notification as read')
+                        }
+                        disabled={busyId !== null}
+                        className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                      >
+                        Mark read
+                      </button>
+                    )}
+                    {notification.archivedAt ? (
+                      <button
+                        type="button"
+                        onClick={() =>
+                          runAction(notification.id, () => unarchiveNotification(notification.id), 'Failed to restore notification')
+                        }
+                        disabled={busyId !== null}
+                        className="text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                      >
+                        Move to inbox
+                      </button>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() =>
+                          runAction(notification.id, () => archiveNotifications([notification.id]), 'Failed to archive notification')
+                        }
+                        disabled={busyId !== null}
+                        className="text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                      >
+                        Archive
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(notification)}
+                      disabled={busyId !== null}
+                      className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        {total > PAGE_SIZE && (
+          <div className="flex items-center justify-between text-sm text-gray-600">
+            <span>
+              Page {page + 1} of {pageCount} ({total} notifications)
+            </span>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setPage(page - 1)}
+                disabled={page === 0 || loading}
+                className="rounded-md border border-gray-300 bg-white px-3 py-1.5 font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <button
+                type="button"
+                onClick={() => setPage(page + 1)}
+                disabled={page + 1 >= pageCount || loading}
+                className="rounded-md border border-gray-300 bg-white px-3 py-1.5 font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default NotificationCenter;
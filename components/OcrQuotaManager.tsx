@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { getProgramOcrQuotas, ProgramOcrQuota, setProgramOcrQuota } from '../src/lib/ocrQuotas';
+import { logAuditEvent } from '../src/lib/audit';
+
+// Per-program daily receipt scan limits. Each participant is also capped by
+// the server's OCR_DAILY_USER_QUOTA; whichever runs out first applies.
+const OcrQuotaManager: React.FC = () => {
+  const [quotas, setQuotas] = useState<ProgramOcrQuota[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [savingProgramId, setSavingProgramId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadQuotas = async () => {
+    try {
+      setLoading(true);
+      const data = await getProgramOcrQuotas();
+      setQuotas(data);
+      setDrafts(Object.fromEntries(data.map((quota) => [quota.programId, quota.dailyLimit === null ? '' : String(quota.dailyLimit)])));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load receipt scan limits');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadQuotas();
+  }, []);
+
+  const handleSave = async (quota: ProgramOcrQuota) => {
+    setError(null);
+
+    const draft = (drafts[quota.programId] ?? '').trim();
+    const dailyLimit = draft === '' ? null : Number(draft);
+    if (dailyLimit !== null && (!Number.isInteger(dailyLimit) || dailyLimit < 0)) {
+      setError('Daily limit must be a whole number of 0 or more, or blank for no limit');
+      return;
+    }
+
+    try {
+      setSavingProgramId(quota.programId);
+      await setProgramOcrQuota(quota.programId, dailyLimit);
+      await logAuditEvent({
+        action: 'SET_OCR_QUOTA',
+        programId: quota.programId,
+        metadata: { previousLimit: quota.dailyLimit, dailyLimit }
+      });
+      await loadQuotas();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save receipt scan limit');
+    } finally {
+      setSavingProgramId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-1">Receipt Scan Limits</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          Daily receipt OCR requests allowed per program, counted across all its participants and reset at midnight UTC.
+          Leave blank for no program limit.
+        </p>
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : quotas.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Program</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Used Today</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Daily Limit</th>
+                  <th className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {quotas.map((quota) => {
+                  const draft = drafts[quota.programId] ?? '';
+                  const isChanged = draft.trim() !== (quota.dailyLimit === null ? '' : String(quota.dailyLimit));
+                  const isAtLimit = quota.dailyLimit !== null && quota.usedToday >= quota.dailyLimit;
+
+                  return (
+                    <tr key={quota.programId}>
+                      <td className="px-4 py-2 text-sm text-gray-900">
+                        {quota.programName}
+                        {quota.programStatus !== 'active' && (
+                          <span className="ml-2 text-xs text-gray-400">({quota.programStatus})</span>
+                        )}
+                      </td>
+                      <td className={`px-4 py-2 text-sm text-right ${isAtLimit ? 'text-red-600 font-medium' : 'text-gray-900'}`}>
+                        {quota.usedToday}
+                      </td>
+                      <td className="px-4 py-2 text-sm">
+                        <input
+                          type="number"
+                          min="0"
+                          step="1"
+                          placeholder="No limit"
+                          aria-label={`Daily receipt scan limit for ${quota.programName}`}
+                          value={draft}
+                          onChange={(e) => setDrafts({ ...drafts, [quota.programId]: e.target.value })}
+                          className="w-28 px-3 py-1 border rounded-md text-sm"
+                        />
+                      </td>
+                      <td className="px-4 py-2 text-sm text-center">
+                        <button
+                          onClick={() => handleSave(quota)}
+                          disabled={!isChanged || savingProgramId === quota.programId}
+                          className="text-indigo-600 hover:text-indigo-900 disabled:text-gray-300"
+                        >
+                          Save
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">No programs yet.</p>
+        )}
+
+        {error && (
+          <div className="mt-3 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OcrQuotaManager;
@@ -2,11 +2,14 @@ import React, { useState, useEffect, useRef } from 'react';
 import { User, Milestone, MilestoneStatus, BalanceSheetCycle, Expense } from '../types';
 import CloseIcon from './icons/CloseIcon';
 import { getProgram } from '../src/lib/programs';
-import { getParticipantCycles } from '../src/lib/finance';
-import { addManagerFeedback, getParticipantMilestones } from '../src/lib/milestones';
-import { dbProfileToUser } from '../src/lib/mappers';
+import { getParticipantCycles, sumCountedExpenses } from '../src/lib/finance';
+import { DEFAULT_CURRENCY, formatMoney } from '../src/lib/currency';
+import ExpenseAmount from './ExpenseAmount';
+import { getParticipantMilestones, reviewMilestoneCompletion } from '../src/lib/milestones';
+import { openMilestoneProof } from '../src/lib/milestoneProofs';
 import { logAuditEvent } from '../src/lib/audit';
-import { notifyFeedback } from '../src/lib/notifications';
+import { dbProfileToUser } from '../src/lib/mappers';
+import CommentThread from './CommentThread';
 
 interface ParticipantDetailsModalProps {
   participantId: string;
@@ -24,9 +27,12 @@ const ParticipantDetailsModal: React.FC<ParticipantDetailsModalProps> = ({
   const [participant, setParticipant] = useState<User | null>(null);
   const [milestones, setMilestones] = useState<Milestone[]>([]);
   const [cycles, setCycles] = useState<BalanceSheetCycle[]>([]);
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
   const [activeTab, setActiveTab] = useState<'overview' | 'milestones' | 'progress' | 'finance'>('overview');
-  const [feedback, setFeedback] = useState('');
-  const [selectedReportId, setSelectedReportId] = useState<string | null>(null);
+  const [discussionMilestoneId, setDiscussionMilestoneId] = useState<string | null>(null);
+  const [changesMilestoneId, setChangesMilestoneId] = useState<string | null>(null);
+  const [changesNote, setChangesNote] = useState('');
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   const modalRef = useRef<HTMLDivElement>(null);
@@ -58,11 +64,47 @@ const ParticipantDetailsModal: React.FC<ParticipantDetailsModalProps> = ({
 
       setMilestones(milestoneData);
       setCycles(cycleData);
+      setCurrency(programData.currency || DEFAULT_CURRENCY);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load participant details');
     }
   };
 
+  const handleReview = async (milestone: Milestone, decision: 'verified' | 'changes_requested') => {
+    try {
+      setError(null);
+      setReviewingId(milestone.id);
+      const note = decision === 'changes_requested' ? changesNote : undefined;
+      await reviewMilestoneCompletion(milestone.id, decision, note);
+      await logAuditEvent({
+        action: decision === 'verified' ? 'VERIFY_MILESTONE' : 'REQUEST_MILESTONE_CHANGES',
+        targetUserId: participantId,
+        programId,
+        metadata: {
+          assignmentId: milestone.id,
+          milestoneTitle: milestone.title,
+          note
+        }
+      });
+      setChangesMilestoneId(null);
+      setChangesNote('');
+      await loadParticipantDetails();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to review milestone');
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  const handleViewProof = async (milestoneId: string) => {
+    try {
+      setError(null);
+      await openMilestoneProof(milestoneId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open proof');
+    }
+  };
+
   // Accessibility: Escape key
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -77,44 +119,6 @@ const ParticipantDetailsModal: React.FC<ParticipantDetailsModalProps> = ({
     };
   }, [onClose]);
 
-  const handleProvideFeedback = async (milestoneId: string, reportId: string) => {
-    if (!feedback.trim()) {
-      alert('Please enter feedback');
-      return;
-    }
-
-    await addManagerFeedback(reportId, managerId, feedback.trim());
-
-    // Notify participant
-    const milestone = milestones.find(m => m.id === milestoneId);
-    if (participant && milestone) {
-      await notifyFeedback({
-        participantId,
-        managerName: 'Manager',
-        milestoneTitle: milestone.title,
-        feedback: feedback.trim(),
-        assignmentId: milestoneId,
-        reportId
-      });
-    }
-
-    await logAuditEvent({
-      action: 'PROVIDE_FEEDBACK',
-      targetUserId: participantId,
-      programId,
-      metadata: {
-        milestoneId,
-        reportId,
-        feedback: feedback.trim()
-      }
-    });
-
-    await loadParticipantDetails();
-    setFeedback('');
-    setSelectedReportId(null);
-    alert('Feedback provided successfully');
-  };
-
   // Calculate statistics
   const stats = {
     totalMilestones: milestones.length,
@@ -293,6 +297,15 @@ const ParticipantDetailsModal: React.FC<ParticipantDetailsModalProps> = ({
                             <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(milestone.status)}`}>
                               {milestone.status.replace('_', ' ')}
                             </span>
+                            {milestone.isVerified ? (
+                              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-emerald-100 text-emerald-800">
+                                verified
+                              </span>
+                            ) : milestone.status === MilestoneStatus.COMPLETED && (
+                              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                                awaiting review
+                              </span>
+                            )}
                             {milestone.assignmentInfo && (
                               <span className="text-indigo-600">
                                 {milestone.assignmentInfo.assignmentType.replace('_', ' ')}
@@ -307,8 +320,89 @@ const ParticipantDetailsModal: React.FC<ParticipantDetailsModalProps> = ({
                               </span>
                             )}
                           </div>
+                          <div className="mt-1 text-sm text-gray-600">
+                            Proof:{' '}
+                            {milestone.proof ? (
+                              <button
+                                onClick={() => handleViewProof(milestone.id)}
+                                className="text-indigo-600 hover:text-indigo-500"
+                              >
+                                {milestone.proof.fileName}
+                              </button>
+                            ) : (
+                              <span className="text-gray-400">none uploaded</span>
+                            )}
+                          </div>
+                          {milestone.review?.decision === 'changes_requested' && milestone.status !== MilestoneStatus.COMPLETED && (
+                            <p className="mt-1 text-sm text-amber-700">
+                              Changes requested: {milestone.review.note}
+                            </p>
+                          )}
+                          {milestone.status === MilestoneStatus.COMPLETED && !milestone.isVerified && (
+                            <div className="mt-3 flex gap-2">
+                              <button
+                                onClick={() => handleReview(milestone, 'verified')}
+                                disabled={reviewingId === milestone.id}
+                                className="px-3 py-1 bg-green-600 text-white text-sm rounded hover:bg-green-700 disabled:opacity-50"
+                              >
+                                Verify
+                              </button>
+                              <button
+                                onClick={() => {
+                                  setChangesMilestoneId(changesMilestoneId === milestone.id ? null : milestone.id);
+                                  setChangesNote('');
+                                }}
+                                disabled={reviewingId === milestone.id}
+                                className="px-3 py-1 bg-amber-100 text-amber-800 text-sm rounded hover:bg-amber-200 disabled:opacity-50"
+                              >
+                                Request changes
+                              </button>
+                            </div>
+                          )}
+                          {changesMilestoneId === milestone.id && (
+                            <div className="mt-3 space-y-2">
+                              <textarea
+                                value={changesNote}
+                                onChange={(e) => setChangesNote(e.target.value)}
+                                placeholder="What needs to change before this milestone can be verified?"
+                                rows={3}
+                                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+                              />
+                              <div className="flex gap-2">
+                                <button
+                                  onClick={() => handleReview(milestone, 'changes_requested')}
+                                  disabled={reviewingId === milestone.id || !changesNote.trim()}
+                                  className="px-3 py-1 bg-indigo-600 text-white text-sm rounded hover:bg-indigo-700 disabled:opacity-50"
+                                >
+                                  Send back
+                                </button>
+                                <button
+                                  onClick={() => setChangesMilestoneId(null)}
+                                  className="px-3 py-1 bg-gray-200 text-gray-700 text-sm rounded hover:bg-gray-300"
+                                >
+                                  Cancel
+                                </button>
+                              </div>
+                            </div>
+                          )}
                         </div>
+                        <button
+                          onClick={() => setDiscussionMilestoneId(discussionMilestoneId === milestone.id ? null : milestone.id)}
+                          className="text-sm text-indigo-600 hover:text-indigo-500"
+                        >
+                          {discussionMilestoneId === milestone.id ? 'Hide Discussion' : 'Discussion'}
+                        </button>
                       </div>
+                      {discussionMilestoneId === milestone.id && (
+                        <div className="mt-4 border-t pt-4">
+                          <CommentThread
+                            scope={{ assignmentId: milestone.id }}
+                            currentUserId={managerId}
+                            canModerate
+                            emptyText="No discussion on this milestone yet."
+                          />
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -346,55 +440,14 @@ const ParticipantDetailsModal: React.FC<ParticipantDetailsModalProps> = ({
                                   </div>
                                   <p className="text-sm text-gray-800">{report.content}</p>
 
-                                  {/* Show existing feedback */}
-                                  {report.managerFeedback && report.managerFeedback.length > 0 && (
-                                    <div className="mt-2 p-2 bg-blue-50 rounded text-sm">
-                                      <p className="font-medium text-blue-900">Manager Feedback:</p>
-                                      {report.managerFeedback.map((fb, idx) => (
-                                        <p key={idx} className="text-blue-800 mt-1">
-                                          {fb.feedback} - <span className="text-xs">{formatDate(fb.feedbackDate)}</span>
-                                        </p>
-                                      ))}
-                                    </div>
-                                  )}
-
-                                  {/* Feedback form */}
-                                  {selectedReportId === report.id ? (
-                                    <div className="mt-3 space-y-2">
-                                      <textarea
-                                        value={feedback}
-                                        onChange={(e) => setFeedback(e.target.value)}
-                                        placeholder="Provide feedback..."
-                                        className="w-full px-3 py-2 text-sm border rounded-md focus:ring-indigo-500 focus:border-indigo-500"
-                                        rows={3}
-                                        autoFocus
-                                      />
-                                      <div className="flex space-x-2">
-                                        <button
-                                          onClick={() => handleProvideFeedback(milestone.id, report.id)}
-                                          className="px-3 py-1 bg-indigo-600 text-white text-sm rounded hover:bg-indigo-700"
-                                        >
-                                          Submit Feedback
-                                        </button>
-                                        <button
-                                          onClick={() => {
-                                            setSelectedReportId(null);
-                                            setFeedback('');
-                                          }}
-                                          className="px-3 py-1 bg-gray-300 text-gray-700 text-sm rounded hover:bg-gray-400"
-                                        >
-                                          Cancel
-                                        </button>
-                                      </div>
-                                    </div>
-                                  ) : (
-                                    <button
-                                      onClick={() => setSelectedReportId(report.id)}
-                                      className="mt-2 text-sm text-indigo-600 hover:text-indigo-500"
-                                    >
-                                      Provide Feedback
-                                    </button>
-                                  )}
+                                  <div className="mt-3">
+                                    <CommentThread
+                                      scope={{ assignmentId: milestone.id, progressReportId: report.id }}
+                                      currentUserId={managerId}
+                                      canModerate
+                                      emptyText="No feedback on this report yet."
+                                    />
+                                  </div>
                                 </div>
                               </div>
                             </div>
@@ -416,18 +469,18 @@ const ParticipantDetailsModal: React.FC<ParticipantDetailsModalProps> = ({
                     <div className="grid grid-cols-3 gap-4">
                       <div>
                         <dt className="text-sm font-medium text-gray-500">Budget</dt>
-                        <dd className="mt-1 text-xl font-semibold text-gray-900">${stats.activeCycle.budget}</dd>
+                        <dd className="mt-1 text-xl font-semibold text-gray-900">{formatMoney(stats.activeCycle.budget, currency)}</dd>
                       </div>
                       <div>
                         <dt className="text-sm font-medium text-gray-500">Spent</dt>
                         <dd className="mt-1 text-xl font-semibold text-gray-900">
-                          ${stats.activeCycle.expenses.reduce((sum, exp) => sum + exp.amount, 0).toFixed(2)}
+                          {formatMoney(sumCountedExpenses(stats.activeCycle.expenses), currency)}
                         </dd>
                       </div>
                       <div>
                         <dt className="text-sm font-medium text-gray-500">Remaining</dt>
                         <dd className="mt-1 text-xl font-semibold text-gray-900">
-                          ${(stats.activeCycle.budget - stats.activeCycle.expenses.reduce((sum, exp) => sum + exp.amount, 0)).toFixed(2)}
+                          {formatMoney(stats.activeCycle.budget - sumCountedExpenses(stats.activeCycle.expenses), currency)}
                         </dd>
                       </div>
                     </div>
@@ -442,7 +495,9 @@ const ParticipantDetailsModal: React.FC<ParticipantDetailsModalProps> = ({
                             <span className="font-medium">{expense.item}</span>
                             <span className="text-gray-500 ml-2">{formatDate(expense.date)}</span>
                           </div>
-                          <span className="font-medium">${expense.amount.toFixed(2)}</span>
+                          <span className="font-medium text-right">
+                            <ExpenseAmount expense={expense} baseCurrency={currency} />
+                          </span>
                         </div>
                       ))}
                     </div>
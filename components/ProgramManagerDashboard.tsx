@@ -3,24 +3,43 @@ import { User, Program, UserRole, Milestone } from '../types';
 import Header from './Header';
 import TabNavigation from './TabNavigation';
 import CreateProgramModal from './CreateProgramModal';
+import CloneProgramModal from './CloneProgramModal';
 import AssignMilestoneModal from './AssignMilestoneModal';
 import ParticipantDetailsModal from './ParticipantDetailsModal';
 import ProgressMatrixView from './ProgressMatrixView';
 import FinancialOversightTab from './FinancialOversightTab';
 import ManageProgramParticipantsModal from './ManageProgramParticipantsModal';
-import { createProgram, getMyPrograms, getProgram } from '../src/lib/programs';
-import { createMilestoneAssignments, getProgramMilestoneAssignments } from '../src/lib/milestones';
-import { dbProfileToUser, dbProgramToProgram } from '../src/lib/mappers';
+import ReportScheduleManager from './ReportScheduleManager';
+import ProgramReportsPanel from './ProgramReportsPanel';
+import DeadlineReminderSettings from './DeadlineReminderSettings';
+import { cloneProgram, createProgram, getMyPrograms, getProgram } from '../src/lib/programs';
+import {
+  assignExistingMilestone,
+  createMilestoneAssignments,
+  getProgramMilestoneAssignments,
+  getUnassignedProgramMilestones
+} from '../src/lib/milestones';
+import { dbProfileToUser, dbProgramToProgram, UnassignedMilestone } from '../src/lib/mappers';
 import { logAuditEvent } from '../src/lib/audit';
-import { notifyAssignment } from '../src/lib/notifications';
+import { NotificationTarget, notifyAssignment } from '../src/lib/notifications';
 
 interface ProgramManagerDashboardProps {
   user: User;
   onLogout: () => void;
   onAccountSettings: () => void;
+  onNotifications: () => void;
+  navigationTarget?: NotificationTarget | null;
+  onNavigationHandled?: () => void;
 }
 
-const ProgramManagerDashboard: React.FC<ProgramManagerDashboardProps> = ({ user, onLogout, onAccountSettings }) => {
+const ProgramManagerDashboard: React.FC<ProgramManagerDashboardProps> = ({
+  user,
+  onLogout,
+  onAccountSettings,
+  onNotifications,
+  navigationTarget,
+  onNavigationHandled
+}) => {
   const [activeTab, setActiveTab] = useState<string>('overview');
   const [selectedProgramId, setSelectedProgramId] = useState<string | null>(null);
   const [showCreateProgramModal, setShowCreateProgramModal] = useState(false);
@@ -34,6 +53,9 @@ const ProgramManagerDashboard: React.FC<ProgramManagerDashboardProps> = ({ user,
   const [error, setError] = useState<string | null>(null);
   const [showManageParticipantsModal, setShowManageParticipantsModal] = useState(false);
   const [programToManage, setProgramToManage] = useState<Program | null>(null);
+  const [programToClone, setProgramToClone] = useState<Program | null>(null);
+  const [unassignedMilestones, setUnassignedMilestones] = useState<UnassignedMilestone[]>([]);
+  const [assigningMilestoneId, setAssigningMilestoneId] = useState<string | null>(null);
 
   const managedPrograms = programs;
 
@@ -57,9 +79,10 @@ const ProgramManagerDashboard: React.FC<ProgramManagerDashboardProps> = ({ user,
   const loadSelectedProgramData = async (programId: string) => {
     try {
       setError(null);
-      const [programData, milestoneData] = await Promise.all([
+      const [programData, milestoneData, unassignedData] = await Promise.all([
         getProgram(programId),
-        getProgramMilestoneAssignments(programId)
+        getProgramMilestoneAssignments(programId),
+        getUnassignedProgramMilestones(programId)
       ]);
       if (!programData) throw new Error('Program not found');
 
@@ -76,6 +99,7 @@ const ProgramManagerDashboard: React.FC<ProgramManagerDashboardProps> = ({ user,
 
       setParticipants(programParticipants);
       setProgramMilestones(milestoneData);
+      setUnassignedMilestones(unassignedData);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load program details');
     }
@@ -91,6 +115,19 @@ const ProgramManagerDashboard: React.FC<ProgramManagerDashboardProps> = ({ user,
     }
   }, [selectedProgramId]);
 
+  // Open what a notification points at once programs are loaded
+  useEffect(() => {
+    if (!navigationTarget || loading) return;
+
+    if (programs.some((program) => program.id === navigationTarget.programId)) {
+      setSelectedProgramId(navigationTarget.programId);
+      setActiveTab(
+        navigationTarget.view === 'expense' ? 'financial' : navigationTarget.view === 'milestone' ? 'milestones' : 'overview'
+      );
+    }
+    onNavigationHandled?.();
+  }, [navigationTarget, loading, programs]);
+
   const handleCreateProgram = async (programData: {
     name: string;
     description: string;
@@ -105,10 +142,27 @@ const ProgramManagerDashboard: React.FC<ProgramManagerDashboardProps> = ({ user,
     setShowCreateProgramModal(false);
   };
 
-  const handleAssignMilestone = async (assignments: any[]) => {
-    if (!selectedProgramId) return;
+  const handleCloneProgram = async (options: {
+    name: string;
+    start_date: string;
+    end_date: string;
+    total_budget: number;
+    copy_manager: boolean;
+  }) => {
+    if (!programToClone) return;
+
+    const clonedProgram = await cloneProgram(programToClone.id, options);
+    const mappedProgram = dbProgramToProgram(clonedProgram as any);
+    // A clone that keeps another manager is not one of "my" programs; only
+    // show it here when the caller manages it (admins see every program).
+    if (user.role === UserRole.ADMIN || clonedProgram.manager_id === user.id) {
+      setPrograms((currentPrograms) => [...currentPrograms, mappedProgram]);
+      setSelectedProgramId(mappedProgram.id);
+    }
+    setProgramToClone(null);
+  };
 
-    const createdAssignments = await createMilestoneAssignments(selectedProgramId, assignments);
+  const notifyAndAuditAssignments = async (createdAssignments: Milestone[], programId: string) => {
     const programName = selectedProgram?.name || 'selected program';
 
     await Promise.all(createdAssignments.map(async (milestone) => {
@@ -118,7 +172,7 @@ const ProgramManagerDashboard: React.FC<ProgramManagerDashboardProps> = ({ user,
         milestoneTitle: milestone.title,
         programName,
         assignmentId: milestone.id,
-        programId: selectedProgramId,
+        programId,
         isRequired: milestone.assignmentInfo?.isRequired ?? true,
         canDecline: milestone.assignmentInfo?.canDecline ?? false
       });
@@ -126,7 +180,7 @@ const ProgramManagerDashboard: React.FC<ProgramManagerDashboardProps> = ({ user,
       await logAuditEvent({
         action: 'ASSIGN_MILESTONE',
         targetUserId: milestone.userId,
-        programId: selectedProgramId,
+        programId,
         metadata: {
           assignmentId: milestone.id,
           milestoneTitle: milestone.title,
@@ -135,6 +189,31 @@ const ProgramManagerDashboard: React.FC<ProgramManagerDashboardProps> = ({ user,
         }
       });
     }));
+  };
+
+  const handleAssignUnassignedMilestone = async (milestone: UnassignedMilestone) => {
+    if (!selectedProgramId || participants.length === 0) return;
+
+    try {
+      setAssigningMilestoneId(milestone.id);
+      const createdAssignments = await assignExistingMilestone(
+        milestone.id,
+        participants.map((participant) => participant.id)
+      );
+      await notifyAndAuditAssignments(createdAssignments, selectedProgramId);
+      await loadSelectedProgramData(selectedProgramId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to assign milestone');
+    } finally {
+      setAssigningMilestoneId(null);
+    }
+  };
+
+  const handleAssignMilestone = async (assignments: any[]) => {
+    if (!selectedProgramId) return;
+
+    const createdAssignments = await createMilestoneAssignments(selectedProgramId, assignments);
+    await notifyAndAuditAssignments(createdAssignments, selectedProgramId);
 
     await loadSelectedProgramData(selectedProgramId);
 
@@ -250,7 +329,7 @@ const ProgramManagerDashboard: React.FC<ProgramManagerDashboardProps> = ({ user,
   if (loading) {
     return (
       <>
-        <Header user={user} onLogout={onLogout} onAccountSettings={onAccountSettings} />
+        <Header user={user} onLogout={onLogout} onAccountSettings={onAccountSettings} onNotifications={onNotifications} />
         <main className="p-8 max-w-7xl mx-auto">
           <p className="text-gray-600">Loading program manager data...</p>
         </main>
@@ -260,7 +339,7 @@ const ProgramManagerDashboard: React.FC<ProgramManagerDashboardProps> = ({ user,
 
   return (
     <>
-      <Header user={user} onLogout={onLogout} onAccountSettings={onAccountSettings} />
+      <Header user={user} onLogout={onLogout} onAccountSettings={onAccountSettings} onNotifications={onNotifications} />
 
       {/* Program Selector */}
       <div className="bg-white border-b px-4 sm:px-6 md:px-8">
@@ -518,6 +597,12 @@ const ProgramManagerDashboard: React.FC<ProgramManagerDashboardProps> = ({ user,
                             >
                               View Details
                             </button>
+                            <button
+                              onClick={() => setProgramToClone(program)}
+                              className="flex-1 px-3 py-2 bg-gray-100 text-gray-700 text-sm rounded-md hover:bg-gray-200 transition-colors"
+                            >
+                              Clone for New Cohort
+                            </button>
                           </div>
                         </div>
                       );
@@ -661,10 +746,42 @@ const ProgramManagerDashboard: React.FC<ProgramManagerDashboardProps> = ({ user,
                     Bulk Assign Milestones
                   </button>
                 </div>
+
+                {unassignedMilestones.length > 0 && (
+                  <div className="mt-6 border-t pt-6">
+                    <h3 className="text-lg font-medium text-gray-900">Unassigned Milestones</h3>
+                    <p className="mt-1 text-sm text-gray-500">
+                      Milestones copied into this program that no participant has yet.
+                    </p>
+                    <ul className="mt-4 divide-y divide-gray-200 border border-gray-200 rounded-md">
+                      {unassignedMilestones.map((milestone) => (
+                        <li key={milestone.id} className="px-4 py-3 flex items-center justify-between">
+                          <div>
+                            <p className="text-sm font-medium text-gray-900">{milestone.title}</p>
+                            <p className="text-xs text-gray-500">
+                              {new Date(milestone.startDate).toLocaleDateString()} - {new Date(milestone.endDate).toLocaleDateString()} • {milestone.category}
+                            </p>
+                          </div>
+                          <button
+                            onClick={() => handleAssignUnassignedMilestone(milestone)}
+                            disabled={participants.length === 0 || assigningMilestoneId === milestone.id}
+                            className="px-3 py-1.5 text-sm font-medium rounded-md text-indigo-600 border border-indigo-200 hover:bg-indigo-50 disabled:opacity-50"
+                          >
+                            {assigningMilestoneId === milestone.id
+                              ? 'Assigning...'
+                              : `Assign to all ${participants.length} participant${participants.length !== 1 ? 's' : ''}`}
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
               </div>
             ) : (
               <p className="text-gray-500">Please select a program to manage milestones.</p>
             )}
+
+            {selectedProgram && <DeadlineReminderSettings programId={selectedProgram.id} />}
           </div>
         )}
 
@@ -686,7 +803,20 @@ const ProgramManagerDashboard: React.FC<ProgramManagerDashboardProps> = ({ user,
         {activeTab === 'reports' && (
           <div className="space-y-6">
             <h2 className="text-2xl font-bold text-gray-900">Reports & Analytics</h2>
-            <p className="text-gray-500">Advanced reporting and analytics features coming soon...</p>
+            {selectedProgram ? (
+              <>
+                <ProgramReportsPanel
+                  programId={selectedProgram.id}
+                  programName={selectedProgram.name}
+                />
+                <ReportScheduleManager
+                  programId={selectedProgram.id}
+                  programName={selectedProgram.name}
+                />
+              </>
+            ) : (
+              <p className="text-gray-500">Please select a program to view reports.</p>
+            )}
           </div>
         )}
       </main>
@@ -700,6 +830,16 @@ const ProgramManagerDashboard: React.FC<ProgramManagerDashboardProps> = ({ user,
         />
       )}
 
+      {/* Clone Program Modal */}
+      {programToClone && (
+        <CloneProgramModal
+          user={user}
+          program={programToClone}
+          onClose={() => setProgramToClone(null)}
+          onClone={handleCloneProgram}
+        />
+      )}
+
       {/* Assign Milestone Modal */}
       {showAssignModal && selectedProgramId && (
         <AssignMilestoneModal
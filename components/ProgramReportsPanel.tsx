@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import {
+  downloadProgramReport,
+  generateProgramReportPdf,
+  listProgramReports,
+  StoredProgramReport
+} from '../src/lib/programReports';
+import { logAuditEvent } from '../src/lib/audit';
+
+interface ProgramReportsPanelProps {
+  programId: string;
+  programName: string;
+}
+
+// Branded PDF program reports, generated from the database on the server and
+// kept with the program so they can be shared with funders.
+const ProgramReportsPanel: React.FC<ProgramReportsPanelProps> = ({ programId, programName }) => {
+  const [reports, setReports] = useState<StoredProgramReport[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReports = async () => {
+    try {
+      setLoading(true);
+      setReports(await listProgramReports(programId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load saved reports');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setError(null);
+    loadReports();
+  }, [programId]);
+
+  const handleGenerate = async () => {
+    setError(null);
+    setIsGenerating(true);
+    try {
+      const saved = await generateProgramReportPdf(programId);
+      setReports((current) => [saved, ...current]);
+      await downloadProgramReport(saved.id);
+
+      logAuditEvent({
+        action: 'EXPORT_REPORT',
+        programId,
+        metadata: {
+          format: 'pdf',
+          reportId: saved.id,
+          timestamp: new Date().toISOString()
+        }
+      }).catch((err) => {
+        console.error('Failed to log report export:', err);
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate the PDF report');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleDownload = async (reportId: string) => {
+    setError(null);
+    try {
+      setDownloadingId(reportId);
+      await downloadProgramReport(reportId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to download the report');
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 mb-1">PDF Reports</h3>
+          <p className="text-sm text-gray-500">
+            Generate the {programName} analytics report as a branded PDF from the latest program data.
+          </p>
+        </div>
+        <button
+          onClick={handleGenerate}
+          disabled={isGenerating}
+          className="px-4 py-2 bg-indigo-600 text-white text-sm rounded-md hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {isGenerating ? 'Generating PDF...' : 'Generate PDF'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md text-sm">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : reports.length > 0 ? (
+        <ul className="divide-y divide-gray-200">
+          {reports.map((report) => (
+            <li key={report.id} className="py-3 flex justify-between items-center">
+              <div>
+                <p className="text-sm font-medium text-gray-900">{report.title}</p>
+                <p className="text-xs text-gray-500">
+                  {new Date(report.createdAt).toLocaleString()} &middot; {Math.max(1, Math.round(report.fileSize / 1024))} KB
+                </p>
+              </div>
+              <button
+                onClick={() => handleDownload(report.id)}
+                disabled={downloadingId !== null}
+                className="text-sm text-indigo-600 hover:text-indigo-900 disabled:text-gray-300"
+              >
+                {downloadingId === report.id ? 'Downloading...' : 'Download'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">No PDF reports have been generated yet.</p>
+      )}
+    </div>
+  );
+};
+
+export default ProgramReportsPanel;
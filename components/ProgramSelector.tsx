@@ -1,4 +1,5 @@
 import React from 'react'
+import { formatMoney } from '../src/lib/currency'
 
 interface Program {
   id: string
@@ -8,6 +9,7 @@ interface Program {
   end_date: string
   status: string
   total_budget?: number
+  currency?: string
   enrolled_at?: string
   manager?: {
     id: string
@@ -33,13 +35,6 @@ const ProgramSelector: React.FC<ProgramSelectorProps> = ({
     })
   }
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(amount)
-  }
-
   if (programs.length === 0) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-50">
@@ -146,7 +141,7 @@ const ProgramSelector: React.FC<ProgramSelectorProps> = ({
                       {program.total_budget && (
                         <span className="text-gray-600">
                           Budget: <span className="font-semibold">
-                            {formatCurrency(program.total_budget)}
+                            {formatMoney(program.total_budget, program.currency)}
                           </span>
                         </span>
                       )}
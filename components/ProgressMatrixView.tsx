@@ -17,6 +17,8 @@ interface ParticipantProgress {
     completed: number;
     inProgress: number;
     notStarted: number;
+    verified: number;
+    awaitingReview: number; // Completed, not yet verified
     completionRate: number;
     reportsSubmitted: number;
     lastActivity: string | null;
@@ -33,6 +35,7 @@ const ProgressMatrixView: React.FC<ProgressMatrixViewProps> = ({
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [sortBy, setSortBy] = useState<'name' | 'completion' | 'activity'>('name');
   const [filterStatus, setFilterStatus] = useState<'all' | 'active' | 'inactive'>('all');
+  const [filterVerification, setFilterVerification] = useState<'all' | 'awaiting_review' | 'verified'>('all');
 
   // Get program and participants
   const program = providedProgram ?? null;
@@ -42,7 +45,9 @@ const ProgressMatrixView: React.FC<ProgressMatrixViewProps> = ({
   const participantProgress: ParticipantProgress[] = useMemo(() => {
     return participants.map(participant => {
       const allMilestones = providedMilestones ?? [];
-      const programMilestones = allMilestones.filter((m: Milestone) => m.programId === programId);
+      const programMilestones = allMilestones.filter((m: Milestone) =>
+        m.programId === programId && m.userId === participant.id
+      );
 
       // Calculate statistics
       const stats = {
@@ -50,6 +55,8 @@ const ProgressMatrixView: React.FC<ProgressMatrixViewProps> = ({
         completed: programMilestones.filter((m: Milestone) => m.status === MilestoneStatus.COMPLETED).length,
         inProgress: programMilestones.filter((m: Milestone) => m.status === MilestoneStatus.IN_PROGRESS).length,
         notStarted: programMilestones.filter((m: Milestone) => m.status === MilestoneStatus.NOT_STARTED).length,
+        verified: programMilestones.filter((m: Milestone) => m.isVerified).length,
+        awaitingReview: programMilestones.filter((m: Milestone) => m.status === MilestoneStatus.COMPLETED && !m.isVerified).length,
         completionRate: programMilestones.length > 0
           ? Math.round((programMilestones.filter((m: Milestone) => m.status === MilestoneStatus.COMPLETED).length / programMilestones.length) * 100)
           : 0,
@@ -63,7 +70,7 @@ const ProgressMatrixView: React.FC<ProgressMatrixViewProps> = ({
         stats
       };
     });
-  }, [participants, programId]);
+  }, [participants, programId, providedMilestones]);
 
   // Get last activity date
   function getLastActivity(milestones: Milestone[]): string | null {
@@ -108,8 +115,14 @@ const ProgressMatrixView: React.FC<ProgressMatrixViewProps> = ({
       );
     }
 
+    if (filterVerification === 'awaiting_review') {
+      sorted = sorted.filter(p => p.stats.awaitingReview > 0);
+    } else if (filterVerification === 'verified') {
+      sorted = sorted.filter(p => p.stats.verified > 0);
+    }
+
     return sorted;
-  }, [participantProgress, sortBy, filterStatus]);
+  }, [participantProgress, sortBy, filterStatus, filterVerification]);
 
   const formatDate = (dateString: string | null) => {
     if (!dateString) return 'No activity';
@@ -192,6 +205,16 @@ const ProgressMatrixView: React.FC<ProgressMatrixViewProps> = ({
             <option value="active">Active Only</option>
             <option value="inactive">Inactive Only</option>
           </select>
+
+          <select
+            value={filterVerification}
+            onChange={(e) => setFilterVerification(e.target.value as any)}
+            className="text-sm border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            <option value="all">Any Verification</option>
+            <option value="awaiting_review">Awaiting Review</option>
+            <option value="verified">With Verified Milestones</option>
+          </select>
         </div>
 
         <div className="text-sm text-gray-600">
@@ -250,6 +273,21 @@ const ProgressMatrixView: React.FC<ProgressMatrixViewProps> = ({
                   </div>
                 </div>
 
+                {(stats.verified > 0 || stats.awaitingReview > 0) && (
+                  <div className="mt-3 flex flex-wrap gap-2">
+                    {stats.verified > 0 && (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-emerald-100 text-emerald-800">
+                        {stats.verified} verified
+                      </span>
+                    )}
+                    {stats.awaitingReview > 0 && (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                        {stats.awaitingReview} awaiting review
+                      </span>
+                    )}
+                  </div>
+                )}
+
                 <div className="mt-3 pt-3 border-t text-xs text-gray-500">
                   <div className="flex justify-between">
                     <span>Reports: {stats.reportsSubmitted}</span>
@@ -319,6 +357,13 @@ const ProgressMatrixView: React.FC<ProgressMatrixViewProps> = ({
                         <span className="font-medium text-gray-900">{stats.completed}</span>
                         <span className="text-gray-500">/{stats.total}</span>
                       </div>
+                      {(stats.verified > 0 || stats.awaitingReview > 0) && (
+                        <div className="text-xs">
+                          {stats.verified > 0 && <span className="text-emerald-700">{stats.verified} verified</span>}
+                          {stats.verified > 0 && stats.awaitingReview > 0 && <span className="text-gray-400"> · </span>}
+                          {stats.awaitingReview > 0 && <span className="text-amber-700">{stats.awaitingReview} to review</span>}
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-center">
                       <div className="text-sm text-gray-900">{stats.reportsSubmitted}</div>
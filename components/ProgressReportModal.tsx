@@ -1,14 +1,16 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { Milestone, ProgressReport } from '../types';
 import CloseIcon from './icons/CloseIcon';
+import CommentThread from './CommentThread';
 
 interface ProgressReportModalProps {
   milestone: Milestone;
+  currentUserId: string;
   onClose: () => void;
   onSave: (report: Omit<ProgressReport, 'id'>) => void;
 }
 
-const ProgressReportModal: React.FC<ProgressReportModalProps> = ({ milestone, onClose, onSave }) => {
+const ProgressReportModal: React.FC<ProgressReportModalProps> = ({ milestone, currentUserId, onClose, onSave }) => {
   const [content, setContent] = useState('');
   const [hoursSpent, setHoursSpent] = useState<string>('');
   const [completionPercentage, setCompletionPercentage] = useState<string>('');
@@ -241,6 +243,15 @@ const ProgressReportModal: React.FC<ProgressReportModalProps> = ({ milestone, on
                   </div>
                 )}
               </div>
+
+              <div className="border-t pt-4">
+                <h4 className="text-sm font-medium text-gray-700 mb-3">Comments</h4>
+                <CommentThread
+                  scope={{ assignmentId: milestone.id, progressReportId: selectedReport.id }}
+                  currentUserId={currentUserId}
+                  emptyText="No comments on this report yet."
+                />
+              </div>
             </div>
 
             <div className="mt-6 flex justify-end">
@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { openProtectedReceipt } from '../src/lib/receiptOcr';
+
+interface ReceiptViewerPageProps {
+  receiptUrl: string;
+  onBack: () => void;
+}
+
+// Landing page for receipt links in exported spreadsheets. The receipt API
+// needs the signed-in user's token, so the link opens the app first and the
+// receipt is fetched from here (on a click, so the preview popup is allowed).
+const ReceiptViewerPage: React.FC<ReceiptViewerPageProps> = ({ receiptUrl, onBack }) => {
+  const [isOpening, setIsOpening] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpen = async () => {
+    setError(null);
+    setIsOpening(true);
+    try {
+      await openProtectedReceipt(receiptUrl);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open receipt.');
+    } finally {
+      setIsOpening(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 px-4">
+      <div className="w-full max-w-md rounded-lg bg-white p-8 shadow text-center">
+        <h1 className="text-2xl font-bold text-gray-900">Receipt</h1>
+        <p className="mt-2 text-sm text-gray-600">
+          This receipt was linked from an exported ledger. You can view it if you have access to the expense.
+        </p>
+
+        {error && (
+          <div className="mt-6 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="mt-6 flex justify-center gap-3">
+          <button
+            onClick={handleOpen}
+            disabled={isOpening}
+            className="px-4 py-2 bg-indigo-600 text-white text-sm rounded-md hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {isOpening ? 'Opening...' : 'Open receipt'}
+          </button>
+          <button
+            onClick={onBack}
+            className="px-4 py-2 border border-gray-300 text-gray-700 text-sm rounded-md hover:bg-gray-50"
+          >
+            Go to dashboard
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReceiptViewerPage;
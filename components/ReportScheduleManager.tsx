@@ -0,0 +1,390 @@
+import React, { useEffect, useState } from 'react';
+import {
+  createReportSchedule,
+  deleteReportSchedule,
+  getReportDeliveries,
+  getReportSchedules,
+  ReportDelivery,
+  ReportSchedule,
+  ReportScheduleFrequency,
+  sendReportScheduleNow,
+  updateReportSchedule
+} from '../src/lib/reportSchedules';
+import { MAX_REPORT_RECIPIENTS, parseReportRecipients } from '../src/lib/programReportShared';
+import { logAuditEvent } from '../src/lib/audit';
+
+interface ReportScheduleManagerProps {
+  programId: string;
+  programName: string;
+}
+
+// The scheduler runs once a day (vercel.json cron); a schedule's reports go out
+// on the first run at or after this time of its due day.
+const DELIVERY_TIME_UTC = '06:00';
+
+const tomorrow = () => {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date.toISOString().split('T')[0];
+};
+
+const emptyForm = () => ({
+  frequency: 'monthly' as ReportScheduleFrequency,
+  recipients: '',
+  firstDelivery: tomorrow()
+});
+
+// Weekly or monthly emailing of the program report PDF to managers and funders,
+// with the history of what was sent.
+const ReportScheduleManager: React.FC<ReportScheduleManagerProps> = ({ programId, programName }) => {
+  const [schedules, setSchedules] = useState<ReportSchedule[]>([]);
+  const [deliveries, setDeliveries] = useState<ReportDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      const [scheduleData, deliveryData] = await Promise.all([
+        getReportSchedules(programId),
+        getReportDeliveries(programId)
+      ]);
+      setSchedules(scheduleData);
+      setDeliveries(deliveryData);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load report schedules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setForm(emptyForm());
+    setEditingId(null);
+    setError(null);
+    setNotice(null);
+    loadData();
+  }, [programId]);
+
+  const handleEdit = (schedule: ReportSchedule) => {
+    setEditingId(schedule.id);
+    setForm({
+      frequency: schedule.frequency,
+      recipients: schedule.recipients.join(', '),
+      firstDelivery: schedule.nextRunAt.split('T')[0]
+    });
+    setError(null);
+    setNotice(null);
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setForm(emptyForm());
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setNotice(null);
+
+    const { recipients, invalid } = parseReportRecipients(form.recipients);
+    if (invalid.length > 0) {
+      setError(`Not a valid email address: ${invalid.join(', ')}`);
+      return;
+    }
+    if (recipients.length === 0) {
+      setError('Add at least one recipient');
+      return;
+    }
+    if (recipients.length > MAX_REPORT_RECIPIENTS) {
+      setError(`A schedule can have at most ${MAX_REPORT_RECIPIENTS} recipients`);
+      return;
+    }
+    if (!form.firstDelivery) {
+      setError('Choose the date of the next delivery');
+      return;
+    }
+
+    const nextRunAt = new Date(`${form.firstDelivery}T${DELIVERY_TIME_UTC}:00Z`).toISOString();
+
+    try {
+      setBusyId(editingId ?? 'new');
+      if (editingId) {
+        await updateReportSchedule(editingId, { frequency: form.frequency, recipients, nextRunAt });
+        await logAuditEvent({
+          action: 'UPDATE_REPORT_SCHEDULE',
+          programId,
+          metadata: { scheduleId: editingId, frequency: form.frequency, recipientCount: recipients.length, nextRunAt }
+        });
+      } else {
+        const schedule = await createReportSchedule(programId, {
+          frequency: form.frequency,
+          recipients,
+          nextRunAt,
+          isActive: true
+        });
+        await logAuditEvent({
+          action: 'CREATE_REPORT_SCHEDULE',
+          programId,
+          metadata: { scheduleId: schedule.id, frequency: form.frequency, recipientCount: recipients.length, nextRunAt }
+        });
+      }
+      setEditingId(null);
+      setForm(emptyForm());
+      await loadData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save report schedule');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleToggleActive = async (schedule: ReportSchedule) => {
+    setError(null);
+    try {
+      setBusyId(schedule.id);
+      await updateReportSchedule(schedule.id, { isActive: !schedule.isActive });
+      await logAuditEvent({
+        action: 'UPDATE_REPORT_SCHEDULE',
+        programId,
+        metadata: { scheduleId: schedule.id, isActive: !schedule.isActive }
+      });
+      await loadData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update report schedule');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (schedule: ReportSchedule) => {
+    if (!window.confirm('Delete this report schedule? Reports already sent stay in the history.')) return;
+
+    setError(null);
+    try {
+      setBusyId(schedule.id);
+      await deleteReportSchedule(schedule.id);
+      await logAuditEvent({
+        action: 'DELETE_REPORT_SCHEDULE',
+        programId,
+        metadata: { scheduleId: schedule.id, frequency: schedule.frequency }
+      });
+      if (editingId === schedule.id) handleCancelEdit();
+      await loadData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete report schedule');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSendNow = async (schedule: ReportSchedule) => {
+    setError(null);
+    setNotice(null);
+    try {
+      setBusyId(schedule.id);
+      await sendReportScheduleNow(schedule.id);
+      await logAuditEvent({
+        action: 'SEND_SCHEDULED_REPORT',
+        programId,
+        metadata: { scheduleId: schedule.id, recipientCount: schedule.recipients.length }
+      });
+      setNotice(`Report sent to ${schedule.recipients.join(', ')}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send report');
+    } finally {
+      setBusyId(null);
+      await loadData();
+    }
+  };
+
+  const formatDateTime = (value: string | null) => (value ? new Date(value).toLocaleString() : 'Never');
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow rounded-lg p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-1">Scheduled Report Delivery</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          Email the {programName} analytics report as a PDF to managers and funders every week or month.
+          Reports go out at {DELIVERY_TIME_UTC} UTC on the scheduled day.
+        </p>
+
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <label htmlFor="report-frequency" className="block text-sm font-medium text-gray-700">Frequency</label>
+            <select
+              id="report-frequency"
+              value={form.frequency}
+              onChange={(e) => setForm({ ...form, frequency: e.target.value as ReportScheduleFrequency })}
+              className="mt-1 w-full px-3 py-2 border rounded-md text-sm"
+            >
+              <option value="weekly">Weekly</option>
+              <option value="monthly">Monthly</option>
+            </select>
+          </div>
+          <div className="md:col-span-2">
+            <label htmlFor="report-recipients" className="block text-sm font-medium text-gray-700">Recipients</label>
+            <input
+              id="report-recipients"
+              type="text"
+              placeholder="manager@example.org, funder@example.org"
+              value={form.recipients}
+              onChange={(e) => setForm({ ...form, recipients: e.target.value })}
+              className="mt-1 w-full px-3 py-2 border rounded-md text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="report-next-delivery" className="block text-sm font-medium text-gray-700">
+              {editingId ? 'Next delivery' : 'First delivery'}
+            </label>
+            <input
+              id="report-next-delivery"
+              type="date"
+              value={form.firstDelivery}
+              onChange={(e) => setForm({ ...form, firstDelivery: e.target.value })}
+              className="mt-1 w-full px-3 py-2 border rounded-md text-sm"
+            />
+          </div>
+          <div className="md:col-span-4 flex justify-end space-x-2">
+            {editingId && (
+              <button
+                type="button"
+                onClick={handleCancelEdit}
+                className="px-4 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={busyId !== null}
+              className="px-4 py-2 bg-indigo-600 text-white text-sm rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {editingId ? 'Save Schedule' : 'Add Schedule'}
+            </button>
+          </div>
+        </form>
+
+        {error && (
+          <div className="mt-4 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+        {notice && (
+          <div className="mt-4 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md text-sm">
+            {notice}
+          </div>
+        )}
+
+        <div className="mt-6">
+          {loading ? (
+            <p className="text-sm text-gray-500">Loading...</p>
+          ) : schedules.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Frequency</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Recipients</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Next Delivery</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Last Sent</th>
+                    <th className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {schedules.map((schedule) => (
+                    <tr key={schedule.id} className={schedule.isActive ? '' : 'opacity-60'}>
+                      <td className="px-4 py-2 text-sm text-gray-900 capitalize">
+                        {schedule.frequency}
+                        {!schedule.isActive && <span className="ml-2 text-xs text-gray-400">(paused)</span>}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-900">{schedule.recipients.join(', ')}</td>
+                      <td className="px-4 py-2 text-sm text-gray-900">
+                        {schedule.isActive ? formatDateTime(schedule.nextRunAt) : '-'}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-500">{formatDateTime(schedule.lastRunAt)}</td>
+                      <td className="px-4 py-2 text-sm text-center space-x-3 whitespace-nowrap">
+                        <button
+                          onClick={() => handleSendNow(schedule)}
+                          disabled={busyId !== null}
+                          className="text-indigo-600 hover:text-indigo-900 disabled:text-gray-300"
+                        >
+                          {busyId === schedule.id ? 'Working...' : 'Send Now'}
+                        </button>
+                        <button
+                          onClick={() => handleEdit(schedule)}
+                          disabled={busyId !== null}
+                          className="text-gray-600 hover:text-gray-900 disabled:text-gray-300"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleToggleActive(schedule)}
+                          disabled={busyId !== null}
+                          className="text-gray-600 hover:text-gray-900 disabled:text-gray-300"
+                        >
+                          {schedule.isActive ? 'Pause' : 'Resume'}
+                        </button>
+                        <button
+                          onClick={() => handleDelete(schedule)}
+                          disabled={busyId !== null}
+                          className="text-red-600 hover:text-red-900 disabled:text-gray-300"
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">No report schedules yet.</p>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Delivery History</h3>
+        {deliveries.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Sent</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Recipients</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {deliveries.map((delivery) => (
+                  <tr key={delivery.id}>
+                    <td className="px-4 py-2 text-sm text-gray-900 whitespace-nowrap">{formatDateTime(delivery.createdAt)}</td>
+                    <td className="px-4 py-2 text-sm text-gray-900">{delivery.recipients.join(', ')}</td>
+                    <td className="px-4 py-2 text-sm">
+                      {delivery.status === 'sent' ? (
+                        <span className="inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">Sent</span>
+                      ) : (
+                        <span title={delivery.error ?? undefined} className="inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                          Failed{delivery.error ? `: ${delivery.error}` : ''}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">No reports have been sent yet.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReportScheduleManager;
@@ -3,6 +3,7 @@ import { User, Program, Milestone, MilestoneStatus, BalanceSheetCycle, UserRole
 import ProgramManager from '../utils/programManager';
 import ExportManager from '../utils/exportManager';
 import { logAuditEvent } from '../src/lib/audit';
+import { formatMoney } from '../src/lib/currency';
 
 interface ReportsAnalyticsProps {
   programId: string;
@@ -233,7 +234,7 @@ const ReportsAnalytics: React.FC<ReportsAnalyticsProps> = ({ programId, managerI
     });
   };
 
-  const formatCurrency = (amount: number) => `$${amount.toFixed(2)}`;
+  const formatCurrency = (amount: number) => formatMoney(amount, reportData?.programInfo.currency);
 
   const getProgressColor = (percentage: number) => {
     if (percentage >= 80) return 'text-green-600';
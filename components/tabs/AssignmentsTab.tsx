@@ -1,15 +1,10 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { User, Milestone, AssignmentType, MilestoneStatus } from '../../types';
 import UserManager from '../../utils/userManager';
 import NotificationBadge from '../NotificationBadge';
+import useNotifications from '../../hooks/useNotifications';
 import { logAuditEvent } from '../../src/lib/audit';
-import {
-  AppNotification,
-  getMyNotifications,
-  markAllNotificationsRead,
-  markNotificationRead,
-  notifyDecline
-} from '../../src/lib/notifications';
+import { notifyDecline } from '../../src/lib/notifications';
 
 interface AssignmentsTabProps {
   user: User;
@@ -28,34 +23,13 @@ const AssignmentsTab: React.FC<AssignmentsTabProps> = ({
   onMilestonesUpdate,
   onAssignmentResponse
 }) => {
-  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const { notifications, unreadCount, markRead, markAllRead } = useNotifications(user.id);
   const [showNotifications, setShowNotifications] = useState(false);
   const [declineReason, setDeclineReason] = useState('');
   const [decliningMilestoneId, setDecliningMilestoneId] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // Load notifications
-  useEffect(() => {
-    let cancelled = false;
-
-    const loadNotifications = async () => {
-      try {
-        const userNotifications = await getMyNotifications();
-        if (!cancelled) setNotifications(userNotifications);
-      } catch {
-        if (!cancelled) setNotifications([]);
-      }
-    };
-
-    loadNotifications();
-    const interval = setInterval(loadNotifications, 30000);
-    return () => {
-      cancelled = true;
-      clearInterval(interval);
-    };
-  }, [user.id]);
-
   // Filter assigned milestones
   const assignedMilestones = milestones.filter(m =>
     m.assignmentInfo &&
@@ -151,13 +125,11 @@ const AssignmentsTab: React.FC<AssignmentsTabProps> = ({
   };
 
   const markNotificationAsRead = async (notificationId: string) => {
-    await markNotificationRead(notificationId);
-    setNotifications(await getMyNotifications());
+    await markRead(notificationId);
   };
 
   const markAllAsRead = async () => {
-    await markAllNotificationsRead();
-    setNotifications(await getMyNotifications());
+    await markAllRead();
   };
 
   const formatDate = (dateString: string) => {
@@ -205,7 +177,7 @@ const AssignmentsTab: React.FC<AssignmentsTabProps> = ({
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
             </svg>
             <div className="absolute -top-1 -right-1">
-              <NotificationBadge userId={user.id} />
+              <NotificationBadge count={unreadCount} />
             </div>
           </button>
         </div>
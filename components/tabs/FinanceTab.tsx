@@ -1,16 +1,36 @@
 import React, { useState, useMemo } from 'react';
-import { User, BalanceSheetCycle, Expense } from '../../types';
+import { User, BalanceSheetCycle, CycleSchedule, ExchangeRate, Expense, ExpenseCategory } from '../../types';
 import BalanceSheet from '../BalanceSheet';
 import AddExpenseModal from '../AddExpenseModal';
+import ImportStatementModal from '../ImportStatementModal';
 import NewCycleModal from '../NewCycleModal';
+import CategoryBreakdown from '../CategoryBreakdown';
+import ExpenseAmount from '../ExpenseAmount';
+import { CARRY_FORWARD_LABELS, FREQUENCY_LABELS } from '../CycleScheduleFields';
+import { CycleScheduleInput } from '../../src/lib/cycles';
+import { DuplicateExpenseError } from '../../src/lib/expenses';
+import { sumCountedExpenses } from '../../src/lib/finance';
+import { summarizeCategorySpending } from '../../src/lib/expenseCategories';
+import { DEFAULT_CURRENCY, formatMoney } from '../../src/lib/currency';
 
 interface FinanceTabProps {
   user: User;
   cycles: BalanceSheetCycle[];
   activeCycle: BalanceSheetCycle | undefined;
+  categories?: ExpenseCategory[];
+  schedule?: CycleSchedule; // Schedule that opens this participant's next cycle
+  currency?: string; // Program currency
+  exchangeRates?: ExchangeRate[];
   onCyclesUpdate: (cycles: BalanceSheetCycle[]) => void;
-  onStartNewCycle?: (budget: number, startDate: string, endDate: string) => Promise<void>;
-  onSaveExpense?: (expense: Expense | Omit<Expense, 'id'>) => Promise<void>;
+  onStartNewCycle?: (
+    budget: number,
+    startDate: string,
+    endDate: string,
+    schedule?: CycleScheduleInput | null
+  ) => Promise<void>;
+  onSaveExpense?: (expense: Expense | Omit<Expense, 'id'>, options?: { allowDuplicate?: boolean }) => Promise<void>;
+  onSaveExpenses?: (expenses: Omit<Expense, 'id'>[]) => Promise<void>;
+  onImportExpenses?: (expenses: Omit<Expense, 'id'>[], fileName: string) => Promise<void>;
   onDeleteExpense?: (expenseId: string) => Promise<void>;
 }
 
@@ -18,21 +38,28 @@ const FinanceTab: React.FC<FinanceTabProps> = ({
   user,
   cycles,
   activeCycle,
+  categories = [],
+  schedule,
+  currency = DEFAULT_CURRENCY,
+  exchangeRates = [],
   onCyclesUpdate,
   onStartNewCycle,
   onSaveExpense,
+  onSaveExpenses,
+  onImportExpenses,
   onDeleteExpense
 }) => {
   const [isAddExpenseModalOpen, setAddExpenseModalOpen] = useState(false);
   const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
   const [isNewCycleModalOpen, setNewCycleModalOpen] = useState(false);
+  const [isImportModalOpen, setImportModalOpen] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
 
   // Calculate statistics
   const stats = useMemo(() => {
     const allExpenses = cycles.flatMap(c => c.expenses);
     const totalExpenses = allExpenses.length;
-    const totalSpentAllTime = allExpenses.reduce((sum, exp) => sum + exp.amount, 0);
+    const totalSpentAllTime = sumCountedExpenses(allExpenses);
 
     let currentMonthSpent = 0;
     let currentCycleBudget = 0;
@@ -41,20 +68,26 @@ const FinanceTab: React.FC<FinanceTabProps> = ({
 
     if (activeCycle) {
       currentCycleBudget = activeCycle.budget;
-      currentCycleSpent = activeCycle.expenses.reduce((sum, exp) => sum + exp.amount, 0);
+      currentCycleSpent = sumCountedExpenses(activeCycle.expenses);
       currentCycleRemaining = currentCycleBudget - currentCycleSpent;
 
       // Calculate current month spending
       const currentMonth = new Date().getMonth();
       const currentYear = new Date().getFullYear();
-      currentMonthSpent = activeCycle.expenses
+      currentMonthSpent = sumCountedExpenses(activeCycle.expenses
         .filter(exp => {
           const expDate = new Date(exp.date);
           return expDate.getMonth() === currentMonth && expDate.getFullYear() === currentYear;
-        })
-        .reduce((sum, exp) => sum + exp.amount, 0);
+        }));
     }
 
+    // Milestone rewards are already part of each cycle's budget
+    const rewards = cycles
+      .flatMap(c => c.rewards || [])
+      .sort((a, b) => (b.creditedAt || b.createdAt).localeCompare(a.creditedAt || a.createdAt));
+    const totalRewards = rewards.reduce((sum, reward) => sum + reward.amount, 0);
+    const currentCycleRewards = (activeCycle?.rewards || []).reduce((sum, reward) => sum + reward.amount, 0);
+
     // Get recent expenses across all cycles
     const recentExpenses = allExpenses
       .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
@@ -69,12 +102,20 @@ const FinanceTab: React.FC<FinanceTabProps> = ({
       currentCycleSpent,
       currentCycleRemaining,
       recentExpenses,
+      rewards,
+      totalRewards,
+      currentCycleRewards,
       hasActiveCycle: !!activeCycle
     };
   }, [cycles, activeCycle]);
 
+  const categoryBreakdown = useMemo(
+    () => (activeCycle ? summarizeCategorySpending(activeCycle.expenses, categories) : []),
+    [activeCycle, categories]
+  );
+
   const formatCurrency = (amount: number) => {
-    return `$${amount.toFixed(2)}`;
+    return formatMoney(amount, currency);
   };
 
   const formatDate = (dateString: string) => {
@@ -107,11 +148,16 @@ const FinanceTab: React.FC<FinanceTabProps> = ({
   };
 
   // Data handlers
-  const handleStartNewCycle = async (budget: number, startDate: string, endDate: string) => {
+  const handleStartNewCycle = async (
+    budget: number,
+    startDate: string,
+    endDate: string,
+    cycleSchedule?: CycleScheduleInput | null
+  ) => {
     if (onStartNewCycle) {
       setIsSaving(true);
       try {
-        await onStartNewCycle(budget, startDate, endDate);
+        await onStartNewCycle(budget, startDate, endDate, cycleSchedule);
         setNewCycleModalOpen(false);
       } catch (error) {
         console.error('Failed to start new cycle:', error);
@@ -122,15 +168,28 @@ const FinanceTab: React.FC<FinanceTabProps> = ({
     }
   };
 
-  const handleSaveExpense = async (expenseData: Expense | Omit<Expense, 'id'>) => {
+  const handleSaveExpense = async (
+    expenseData: Expense | Omit<Expense, 'id'>,
+    options?: { allowDuplicate?: boolean }
+  ) => {
     if (!activeCycle) return;
 
     if (onSaveExpense) {
       setIsSaving(true);
       try {
-        await onSaveExpense(expenseData);
+        await onSaveExpense(expenseData, options);
         handleCloseExpenseModal();
       } catch (error) {
+        // The server found a match the modal could not see (e.g. one added from
+        // another device); let the participant decide and keep the form open
+        // if they back out.
+        if (error instanceof DuplicateExpenseError) {
+          setIsSaving(false);
+          if (window.confirm(`${error.message} Save it anyway?`)) {
+            await handleSaveExpense(expenseData, { allowDuplicate: true });
+          }
+          return;
+        }
         console.error('Failed to save expense:', error);
         alert(error instanceof Error ? error.message : 'Failed to save expense');
       } finally {
@@ -139,6 +198,21 @@ const FinanceTab: React.FC<FinanceTabProps> = ({
     }
   };
 
+  const handleSaveExpenses = async (expenses: Omit<Expense, 'id'>[]) => {
+    if (!activeCycle || !onSaveExpenses) return;
+
+    setIsSaving(true);
+    try {
+      await onSaveExpenses(expenses);
+      handleCloseExpenseModal();
+    } catch (error) {
+      console.error('Failed to save expenses:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save expenses');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   const handleDeleteExpense = async (expenseId: string) => {
     if (!activeCycle || !window.confirm('Are you sure you want to delete this expense?')) return;
 
@@ -258,9 +332,38 @@ const FinanceTab: React.FC<FinanceTabProps> = ({
                   Cycle Period: {formatDate(activeCycle.startDate)} - {formatDate(activeCycle.endDate)}
                 </p>
               )}
+              {activeCycle.carriedForward !== undefined && (
+                <p className="text-xs text-gray-500">
+                  {activeCycle.carriedForward > 0
+                    ? `Includes ${formatCurrency(activeCycle.carriedForward)} unspent from the previous cycle`
+                    : `Reduced by ${formatCurrency(Math.abs(activeCycle.carriedForward))} overspent in the previous cycle`}
+                </p>
+              )}
+              {stats.currentCycleRewards > 0 && (
+                <p className="text-xs text-emerald-700">
+                  Includes {formatCurrency(stats.currentCycleRewards)} in milestone rewards
+                </p>
+              )}
+              {schedule?.isActive && (
+                <p className="text-xs text-indigo-600">
+                  Repeats {schedule.frequency === 'custom'
+                    ? `every ${schedule.intervalDays} days`
+                    : FREQUENCY_LABELS[schedule.frequency].toLowerCase()}
+                  {' '}with a {formatCurrency(schedule.budget)} budget. {CARRY_FORWARD_LABELS[schedule.carryForward]}.
+                  {' '}The next cycle opens automatically after {formatDate(activeCycle.endDate)}.
+                </p>
+              )}
             </div>
           </div>
 
+          {/* Category Breakdown */}
+          {(categories.length > 0 || activeCycle.expenses.length > 0) && (
+            <div className="bg-white rounded-lg shadow p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Spending by Category</h3>
+              <CategoryBreakdown breakdown={categoryBreakdown} formatCurrency={formatCurrency} />
+            </div>
+          )}
+
           {/* Recent Transactions */}
           <div className="bg-white rounded-lg shadow">
             <div className="p-6 border-b border-gray-200">
@@ -275,7 +378,9 @@ const FinanceTab: React.FC<FinanceTabProps> = ({
                         <p className="font-medium text-gray-900">{expense.item}</p>
                         <p className="text-sm text-gray-500">{formatDate(expense.date)}</p>
                       </div>
-                      <span className="font-semibold text-gray-900">{formatCurrency(expense.amount)}</span>
+                      <span className="font-semibold text-gray-900 text-right">
+                        <ExpenseAmount expense={expense} baseCurrency={currency} />
+                      </span>
                     </div>
                   </div>
                 ))
@@ -288,6 +393,29 @@ const FinanceTab: React.FC<FinanceTabProps> = ({
             </div>
           </div>
 
+          {/* Milestone Rewards */}
+          {stats.rewards.length > 0 && (
+            <div className="bg-white rounded-lg shadow">
+              <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+                <h3 className="text-lg font-semibold text-gray-900">Rewards Earned</h3>
+                <span className="text-lg font-semibold text-emerald-600">{formatCurrency(stats.totalRewards)}</span>
+              </div>
+              <div className="divide-y divide-gray-200">
+                {stats.rewards.map((reward) => (
+                  <div key={reward.id} className="p-4 flex justify-between items-start">
+                    <div>
+                      <p className="font-medium text-gray-900">{reward.milestoneTitle}</p>
+                      <p className="text-sm text-gray-500">
+                        Milestone verified {formatDate(reward.creditedAt || reward.createdAt)}
+                      </p>
+                    </div>
+                    <span className="font-semibold text-emerald-600">+{formatCurrency(reward.amount)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Quick Stats */}
           <div className="bg-white rounded-lg shadow p-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">Quick Stats</h3>
@@ -306,7 +434,7 @@ const FinanceTab: React.FC<FinanceTabProps> = ({
               </div>
               <div className="text-center">
                 <p className="text-2xl font-bold text-purple-600">
-                  {stats.totalExpenses > 0 ? formatCurrency(stats.totalSpentAllTime / stats.totalExpenses) : '$0.00'}
+                  {stats.totalExpenses > 0 ? formatCurrency(stats.totalSpentAllTime / stats.totalExpenses) : formatCurrency(0)}
                 </p>
                 <p className="text-sm text-gray-600">Avg. Transaction</p>
               </div>
@@ -316,7 +444,9 @@ const FinanceTab: React.FC<FinanceTabProps> = ({
           {/* Spending Balance Sheet */}
           <BalanceSheet
             cycle={activeCycle}
+            currency={currency}
             onAddExpense={handleOpenAddModal}
+            onImportStatement={onImportExpenses ? () => setImportModalOpen(true) : undefined}
             onNewCycle={() => setNewCycleModalOpen(true)}
             onEditExpense={handleOpenEditModal}
             onDeleteExpense={handleDeleteExpense}
@@ -345,8 +475,25 @@ const FinanceTab: React.FC<FinanceTabProps> = ({
         <AddExpenseModal
           onClose={handleCloseExpenseModal}
           onSave={handleSaveExpense}
+          onSaveMany={onSaveExpenses ? handleSaveExpenses : undefined}
           expenseToEdit={editingExpense}
           cycleId={activeCycle?.id}
+          categories={categories}
+          cycleExpenses={activeCycle?.expenses}
+          currency={currency}
+          exchangeRates={exchangeRates}
+        />
+      )}
+
+      {isImportModalOpen && activeCycle && onImportExpenses && (
+        <ImportStatementModal
+          onClose={() => setImportModalOpen(false)}
+          onImport={onImportExpenses}
+          cycleExpenses={activeCycle.expenses}
+          cycleStartDate={activeCycle.startDate}
+          cycleEndDate={activeCycle.endDate}
+          categories={categories}
+          currency={currency}
         />
       )}
 
@@ -354,6 +501,7 @@ const FinanceTab: React.FC<FinanceTabProps> = ({
         <NewCycleModal
           onClose={() => setNewCycleModalOpen(false)}
           onStartCycle={handleStartNewCycle}
+          currentSchedule={schedule?.participantId ? schedule : undefined}
         />
       )}
     </div>
@@ -1,8 +1,9 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { User, Milestone, MilestoneStatus, MilestoneCategory, ProgressReport } from '../../types';
 import MilestoneCard from '../MilestoneCard';
 import AddMilestoneModal from '../AddMilestoneModal';
 import ProgressReportModal from '../ProgressReportModal';
+import { openMilestoneProof } from '../../src/lib/milestoneProofs';
 
 interface MilestoneTabProps {
   user: User;
@@ -17,7 +18,9 @@ interface MilestoneTabProps {
     report: Omit<ProgressReport, 'id'>
   ) => Promise<void>;
   onUpdateStatus?: (milestoneId: string, status: MilestoneStatus) => Promise<void>;
+  onUploadProof?: (milestoneId: string, file: File) => Promise<void>;
   onDeleteMilestone?: (milestoneId: string) => Promise<void>;
+  focusMilestoneId?: string | null; // Scrolled to and highlighted, e.g. from a notification
 }
 
 const MilestoneTab: React.FC<MilestoneTabProps> = ({
@@ -27,7 +30,9 @@ const MilestoneTab: React.FC<MilestoneTabProps> = ({
   onSaveMilestone,
   onSaveProgressReport,
   onUpdateStatus,
-  onDeleteMilestone
+  onUploadProof,
+  onDeleteMilestone,
+  focusMilestoneId
 }) => {
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [isReportModalOpen, setIsReportModalOpen] = useState(false);
@@ -38,6 +43,18 @@ const MilestoneTab: React.FC<MilestoneTabProps> = ({
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Clear filters so the focused milestone is visible, then scroll to it
+  useEffect(() => {
+    if (!focusMilestoneId) return;
+    setFilterStatus('all');
+    setFilterCategory('all');
+  }, [focusMilestoneId]);
+
+  useEffect(() => {
+    if (!focusMilestoneId) return;
+    document.getElementById(`milestone-${focusMilestoneId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [focusMilestoneId, milestones]);
+
   // Calculate statistics
   const stats = useMemo(() => {
     const total = milestones.length;
@@ -152,6 +169,29 @@ const MilestoneTab: React.FC<MilestoneTabProps> = ({
     }
   };
 
+  const handleUploadProof = async (milestoneId: string, file: File) => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      if (onUploadProof) {
+        await onUploadProof(milestoneId, file);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload proof');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleViewProof = async (milestoneId: string) => {
+    try {
+      setError(null);
+      await openMilestoneProof(milestoneId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open proof');
+    }
+  };
+
   const getCategoryColor = (category: MilestoneCategory) => {
     switch (category) {
       case MilestoneCategory.EDUCATION: return 'bg-blue-100 text-blue-800';
@@ -286,6 +326,9 @@ const MilestoneTab: React.FC<MilestoneTabProps> = ({
               onDelete={handleDeleteMilestone}
               onAddReport={handleAddReport}
               onUpdateStatus={handleUpdateStatus}
+              onUploadProof={handleUploadProof}
+              onViewProof={handleViewProof}
+              isHighlighted={milestone.id === focusMilestoneId}
             />
           ))}
         </div>
@@ -321,6 +364,7 @@ const MilestoneTab: React.FC<MilestoneTabProps> = ({
       {isReportModalOpen && reportingMilestone && (
         <ProgressReportModal
           milestone={reportingMilestone}
+          currentUserId={user.id}
           onClose={() => setIsReportModalOpen(false)}
           onSave={handleSaveReport}
         />
@@ -0,0 +1,157 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  AppNotification,
+  getMyNotifications,
+  getUnreadNotificationCount,
+  markAllNotificationsRead,
+  markNotificationRead,
+  subscribeToNotifications,
+} from '../src/lib/notifications';
+
+// Only used while the realtime subscription is down.
+const POLL_INTERVAL_MS = 30000;
+
+interface UseNotificationsResult {
+  notifications: AppNotification[];
+  unreadCount: number;
+  isLive: boolean;
+  refresh: () => Promise<void>;
+  markRead: (notificationId: string) => Promise<void>;
+  markAllRead: () => Promise<void>;
+}
+
+/**
+ * The signed-in user's notifications and unread count, kept current by a
+ * Supabase realtime subscription, falling back to polling whenever realtime
+ * is unavailable.
+ */
+function useNotifications(userId: string | undefined): UseNotificationsResult {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isLive, setIsLive] = useState(false);
+  const notificationsRef = useRef<AppNotification[]>([]);
+
+  const applyNotifications = useCallback((next: AppNotification[]) => {
+    notificationsRef.current = next;
+    setNotifications(next);
+  }, []);
+
+  const refresh = useCallback(async () => {
+    if (!userId) return;
+
+    try {
+      const [userNotifications, count] = await Promise.all([
+        getMyNotifications(),
+        getUnreadNotificationCount(),
+      ]);
+      applyNotifications(userNotifications);
+      setUnreadCount(count);
+    } catch {
+      applyNotifications([]);
+      setUnreadCount(0);
+    }
+  }, [applyNotifications, userId]);
+
+  useEffect(() => {
+    if (!userId) {
+      applyNotifications([]);
+      setUnreadCount(0);
+      return;
+    }
+
+    let cancelled = false;
+
+    const refreshCount = async () => {
+      try {
+        const count = await getUnreadNotificationCount();
+        if (!cancelled) setUnreadCount(count);
+      } catch {
+        // Keep the last known count; the next change or poll corrects it.
+      }
+    };
+
+    refresh();
+
+    const unsubscribe = subscribeToNotifications(
+      userId,
+      (change) => {
+        if (cancelled) return;
+
+        const current = notificationsRef.current;
+
+        if (change.type === 'DELETE') {
+          // Realtime cannot filter deletes by user_id, so every user's deletes
+          // arrive here. Ignore ids we have not loaded; the next change or poll
+          // corrects the count if one of ours was older than the loaded page.
+          const removed = current.find((notification) => notification.id === change.id);
+          if (!removed) return;
+          applyNotifications(current.filter((notification) => notification.id !== change.id));
+          if (!removed.read) {
+            setUnreadCount((count) => Math.max(0, count - 1));
+          }
+          return;
+        }
+
+        const { notification } = change;
+        const previous = current.find((item) => item.id === notification.id);
+
+        if (notification.archivedAt) {
+          // Archived notifications leave the inbox (and are already read).
+          applyNotifications(current.filter((item) => item.id !== notification.id));
+          if (!previous || !previous.read) refreshCount();
+          return;
+        }
+
+        if (change.type === 'INSERT' && !previous) {
+          applyNotifications([notification, ...current]);
+          if (!notification.read) setUnreadCount((count) => count + 1);
+          return;
+        }
+
+        if (!previous) {
+          // Older than the loaded page, so only the count can have changed.
+          refreshCount();
+          return;
+        }
+
+        applyNotifications(current.map((item) => (item.id === notification.id ? notification : item)));
+        if (previous.read !== notification.read) {
+          setUnreadCount((count) => Math.max(0, count + (notification.read ? -1 : 1)));
+        }
+      },
+      (live) => {
+        if (cancelled) return;
+        setIsLive(live);
+        // Catch up on anything missed while the subscription was down.
+        if (live) refresh();
+      }
+    );
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      setIsLive(false);
+    };
+  }, [applyNotifications, refresh, userId]);
+
+  useEffect(() => {
+    if (!userId || isLive) return;
+
+    const interval = setInterval(refresh, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isLive, refresh, userId]);
+
+  const markRead = useCallback(async (notificationId: string) => {
+    await markNotificationRead(notificationId);
+    if (!isLive) await refresh();
+  }, [isLive, refresh]);
+
+  const markAllRead = useCallback(async () => {
+    await markAllNotificationsRead();
+    if (!isLive) await refresh();
+  }, [isLive, refresh]);
+
+  return { notifications, unreadCount, isLive, refresh, markRead, markAllRead };
+}
+
+export default useNotifications;
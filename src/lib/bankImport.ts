@@ -0,0 +1,280 @@
+// Parsing for bank statement imports: CSV exports (with a column mapping the
+// participant confirms) and OFX/QFX downloads. Both produce BankTransactions;
+// only money going out becomes an expense.
+
+export type StatementFormat = 'csv' | 'ofx';
+export type CsvDateFormat = 'ymd' | 'mdy' | 'dmy';
+// Banks disagree on the sign of a debit in a single amount column.
+export type CsvAmountSign = 'negative_is_spend' | 'positive_is_spend';
+
+export interface BankTransaction {
+  date: string; // YYYY-MM-DD
+  description: string;
+  amount: number; // Money spent, always positive
+  currency?: string;
+  memo?: string;
+  reference?: string; // Bank transaction id (OFX FITID) when known
+}
+
+// Column indexes into each CSV row. Set `debit` for exports with separate
+// money-in and money-out columns (rows with an empty debit are skipped),
+// otherwise `amount` with the sign convention.
+export interface CsvColumnMapping {
+  hasHeader: boolean;
+  date: number;
+  description: number;
+  amount?: number;
+  debit?: number;
+  currency?: number;
+  memo?: number;
+  dateFormat: CsvDateFormat;
+  amountSign: CsvAmountSign;
+}
+
+export interface StatementParseResult {
+  transactions: BankTransaction[];
+  skipped: number; // Rows that were credits or could not be read
+}
+
+export const STATEMENT_FILE_ACCEPT = '.csv,.ofx,.qfx,text/csv';
+
+export function detectStatementFormat(fileName: string, text: string): StatementFormat {
+  if (/\.(ofx|qfx)$/i.test(fileName) || /<OFX>/i.test(text) || /^\s*OFXHEADER:/i.test(text)) {
+    return 'ofx';
+  }
+  return 'csv';
+}
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const counts = [',', ';', '\t'].map((delimiter) => ({
+    delimiter,
+    count: firstLine.split(delimiter).length - 1
+  }));
+  return counts.reduce((best, current) => (current.count > best.count ? current : best)).delimiter;
+}
+
+// Quoted fields may contain delimiters, doubled quotes and line breaks.
+export function parseCsv(text: string): string[][] {
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows
+    .map((cells) => cells.map((cell) => cell.trim()))
+    .filter((cells) => cells.some((cell) => cell !== ''));
+}
+
+// "1,234.56", "1.234,56", "(12.00)", "-$5", "12.00 DR" all parse; blank is null.
+export function parseStatementAmount(value: string | undefined): number | null {
+  if (!value) return null;
+  let text = value.trim();
+  if (!text) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (/\bDR$/i.test(text)) {
+    negative = true;
+    text = text.replace(/\s*DR$/i, '');
+  }
+  text = text.replace(/\s*CR$/i, '').replace(/[^\d.,-]/g, '');
+  if (text.startsWith('-')) {
+    negative = !negative;
+    text = text.slice(1);
+  }
+
+  // A trailing ",d" or ",dd" is a decimal comma ("1.234,56"); otherwise commas
+  // are thousands separators.
+  if (/,\d{1,2}$/.test(text)) {
+    text = text.replace(/\./g, '').replace(',', '.');
+  } else {
+    text = text.replace(/,/g, '');
+  }
+
+  const amount = Number(text);
+  if (!text || !Number.isFinite(amount)) return null;
+  return negative ? -amount : amount;
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  if (year < 100) year += 2000;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().split('T')[0];
+}
+
+export function parseStatementDate(value: string | undefined, format: CsvDateFormat): string | null {
+  if (!value) return null;
+  const parts = value.trim().split(/[^\d]+/).filter(Boolean).map(Number);
+  if (parts.length < 3) return null;
+
+  // An ISO date is unambiguous whatever format was picked.
+  if (String(parts[0]).length === 4) {
+    return toIsoDate(parts[0], parts[1], parts[2]);
+  }
+
+  switch (format) {
+    case 'mdy':
+      return toIsoDate(parts[2], parts[0], parts[1]);
+    case 'dmy':
+      return toIsoDate(parts[2], parts[1], parts[0]);
+    default:
+      return toIsoDate(parts[0], parts[1], parts[2]);
+  }
+}
+
+// Best guess from header names; the participant can change every column.
+export function guessCsvMapping(rows: string[][]): CsvColumnMapping {
+  const header = (rows[0] ?? []).map((cell) => cell.toLowerCase());
+  const find = (...names: string[]) => {
+    const index = header.findIndex((cell) => names.some((name) => cell.includes(name)));
+    return index >= 0 ? index : undefined;
+  };
+
+  const date = find('date', 'posted');
+  const hasHeader = date !== undefined && parseStatementDate(rows[0]?.[date], 'ymd') === null;
+  const debit = find('debit', 'withdrawal', 'paid out', 'money out');
+  const amount = debit === undefined ? find('amount', 'value') : undefined;
+  const sample = rows.slice(hasHeader ? 1 : 0, 20).map((row) => row[date ?? 0] ?? '');
+  // Prefer day-first only when a sample could not be month-first.
+  const dateFormat: CsvDateFormat = sample.some((value) => parseStatementDate(value, 'mdy') === null && parseStatementDate(value, 'dmy'))
+    ? 'dmy'
+    : 'mdy';
+
+  return {
+    hasHeader,
+    date: date ?? 0,
+    description: find('description', 'payee', 'merchant', 'name', 'details', 'narrative') ?? 1,
+    amount: amount ?? (debit === undefined ? 2 : undefined),
+    debit,
+    currency: find('currency'),
+    memo: find('memo', 'reference', 'note'),
+    dateFormat,
+    amountSign: 'negative_is_spend'
+  };
+}
+
+export function mapCsvTransactions(rows: string[][], mapping: CsvColumnMapping): StatementParseResult {
+  const transactions: BankTransaction[] = [];
+  let skipped = 0;
+
+  for (const row of rows.slice(mapping.hasHeader ? 1 : 0)) {
+    const date = parseStatementDate(row[mapping.date], mapping.dateFormat);
+    const description = row[mapping.description]?.trim() ?? '';
+
+    let spent: number | null = null;
+    if (mapping.debit !== undefined) {
+      const debit = parseStatementAmount(row[mapping.debit]);
+      spent = debit === null || debit === 0 ? null : Math.abs(debit);
+    } else if (mapping.amount !== undefined) {
+      const amount = parseStatementAmount(row[mapping.amount]);
+      if (amount !== null) {
+        const signed = mapping.amountSign === 'negative_is_spend' ? -amount : amount;
+        spent = signed > 0 ? signed : null;
+      }
+    }
+
+    if (!date || !description || spent === null) {
+      skipped++;
+      continue;
+    }
+
+    const currency = mapping.currency !== undefined ? row[mapping.currency]?.trim().toUpperCase() : '';
+    const memo = mapping.memo !== undefined ? row[mapping.memo]?.trim() : '';
+    transactions.push({
+      date,
+      description,
+      amount: Math.round(spent * 100) / 100,
+      currency: /^[A-Z]{3}$/.test(currency ?? '') ? currency : undefined,
+      memo: memo || undefined
+    });
+  }
+
+  return { transactions, skipped };
+}
+
+// OFX 1.x is SGML with unclosed leaf tags; 2.x is XML. Reading each leaf up
+// to the next tag or line break handles both.
+function readOfxTag(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match?.[1]?.trim();
+  return value ? value.replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>') : undefined;
+}
+
+export function parseOfx(text: string): StatementParseResult {
+  const currency = readOfxTag(text, 'CURDEF')?.toUpperCase();
+  const blocks = text.split(/<STMTTRN>/i).slice(1).map((block) => block.split(/<\/STMTTRN>/i)[0]);
+  const transactions: BankTransaction[] = [];
+  let skipped = 0;
+
+  for (const block of blocks) {
+    const posted = readOfxTag(block, 'DTPOSTED');
+    const date = posted && posted.length >= 8
+      ? toIsoDate(Number(posted.slice(0, 4)), Number(posted.slice(4, 6)), Number(posted.slice(6, 8)))
+      : null;
+    const amount = parseStatementAmount(readOfxTag(block, 'TRNAMT'));
+    const name = readOfxTag(block, 'NAME') || readOfxTag(block, 'PAYEE');
+    const memo = readOfxTag(block, 'MEMO');
+    const description = name || memo || '';
+
+    // OFX amounts are signed from the account's point of view: debits are negative.
+    if (!date || amount === null || amount >= 0 || !description) {
+      skipped++;
+      continue;
+    }
+
+    transactions.push({
+      date,
+      description,
+      amount: Math.round(-amount * 100) / 100,
+      currency,
+      memo: memo && memo !== description ? memo : undefined,
+      reference: readOfxTag(block, 'FITID')
+    });
+  }
+
+  return { transactions, skipped };
+}
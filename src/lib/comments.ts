@@ -0,0 +1,150 @@
+import { CommentPerson, CommentRevision, MilestoneComment, UserRole } from '../../types'
+import { dbCommentRevisionToCommentRevision, dbCommentToMilestoneComment } from './mappers'
+import { supabase } from './supabase'
+
+export const MAX_COMMENT_LENGTH = 5000
+
+export interface CommentThreadScope {
+  assignmentId: string
+  // Set for a progress report's thread; omitted for the assignment's own
+  // discussion, which excludes report comments.
+  progressReportId?: string
+}
+
+/**
+ * The participant, program manager and previous commenters on an assignment.
+ * Participants cannot read their manager's profile directly, so names come
+ * from the get_assignment_comment_people RPC.
+ */
+export async function getCommentPeople(assignmentId: string): Promise<CommentPerson[]> {
+  const { data, error } = await supabase.rpc('get_assignment_comment_people', {
+    p_assignment_id: assignmentId
+  })
+
+  if (error) throw error
+  return (data || []).map((person) => ({
+    id: person.id,
+    name: person.name || 'Unnamed User',
+    role: Object.values(UserRole).includes(person.role as UserRole)
+      ? (person.role as UserRole)
+      : UserRole.PARTICIPANT
+  }))
+}
+
+/** Top-level comments oldest first, each with its replies oldest first. */
+export async function getComments(scope: CommentThreadScope, people: CommentPerson[]): Promise<MilestoneComment[]> {
+  let query = supabase
+    .from('comments')
+    .select('*')
+    .eq('assignment_id', scope.assignmentId)
+    .order('created_at', { ascending: true })
+
+  query = scope.progressReportId
+    ? query.eq('progress_report_id', scope.progressReportId)
+    : query.is('progress_report_id', null)
+
+  const { data, error } = await query
+
+  if (error) throw error
+
+  const names = new Map(people.map((person) => [person.id, person.name]))
+  const comments = (data || []).map((row) =>
+    dbCommentToMilestoneComment(row, names.get(row.author_id) || 'Former member')
+  )
+  const threads = new Map<string, MilestoneComment>()
+
+  comments.forEach((comment) => {
+    if (!comment.parentId) threads.set(comment.id, comment)
+  })
+  comments.forEach((comment) => {
+    if (comment.parentId) threads.get(comment.parentId)?.replies.push(comment)
+  })
+
+  return Array.from(threads.values())
+}
+
+export async function getCommentRevisions(commentId: string): Promise<CommentRevision[]> {
+  const { data, error } = await supabase
+    .from('comment_revisions')
+    .select('*')
+    .eq('comment_id', commentId)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return (data || []).map(dbCommentRevisionToCommentRevision)
+}
+
+/**
+ * Ids of the people @mentioned in a comment body. Names can contain spaces, so
+ * this looks for "@Full Name" rather than tokenizing; longer names are matched
+ * first so "@Ann Lee" does not also mention "Ann".
+ */
+export function extractMentions(body: string, people: CommentPerson[]): string[] {
+  let remaining = body.toLowerCase()
+  const mentioned: string[] = []
+  const longestNameFirst = [...people].sort((a, b) => b.name.length - a.name.length)
+
+  longestNameFirst.forEach((person) => {
+    const handle = `@${person.name.toLowerCase()}`
+    if (remaining.includes(handle)) {
+      mentioned.push(person.id)
+      remaining = remaining.split(handle).join(' ')
+    }
+  })
+
+  return mentioned
+}
+
+export async function createComment(input: CommentThreadScope & {
+  parentId?: string
+  body: string
+  mentions: string[]
+}): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) throw new Error('Not authenticated')
+
+  const { error } = await supabase
+    .from('comments')
+    .insert({
+      assignment_id: input.assignmentId,
+      progress_report_id: input.progressReportId || null,
+      parent_id: input.parentId || null,
+      author_id: user.id,
+      body: input.body.trim(),
+      mentions: input.mentions
+    })
+
+  if (error) throw error
+}
+
+// The previous text is kept in comment_revisions by the record_comment_revision trigger.
+export async function updateComment(commentId: string, body: string, mentions: string[]): Promise<void> {
+  const { data, error } = await supabase
+    .from('comments')
+    .update({ body: body.trim(), mentions })
+    .eq('id', commentId)
+    .select('id')
+
+  if (error) throw error
+  if (!data || data.length === 0) {
+    throw new Error(
+      'Comment update affected no rows. You may not have permission to edit this comment, or it was deleted.'
+    )
+  }
+}
+
+// Soft delete: replies stay in the thread and the text moves to the revision history.
+export async function deleteComment(commentId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('comments')
+    .update({ deleted_at: new Date().toISOString() })
+    .eq('id', commentId)
+    .select('id')
+
+  if (error) throw error
+  if (!data || data.length === 0) {
+    throw new Error(
+      'Comment delete affected no rows. You may not have permission to delete this comment, or it was already deleted.'
+    )
+  }
+}
@@ -0,0 +1,132 @@
+import { ExchangeRate, Expense } from '../../types';
+import { dbExchangeRateToExchangeRate, exchangeRateToDbInsert } from './mappers';
+import { supabase } from './supabase';
+
+export const DEFAULT_CURRENCY = 'USD';
+
+// Offered in currency pickers. Any ISO 4217 code is accepted by the database;
+// codes outside this list still display and convert correctly.
+export const COMMON_CURRENCIES = [
+  'USD', 'EUR', 'GBP', 'CAD', 'AUD', 'NZD', 'CHF', 'JPY', 'CNY', 'INR',
+  'SGD', 'MXN', 'BRL', 'ZAR', 'KES', 'NGN', 'GHS'
+];
+
+export function formatMoney(amount: number, currency: string = DEFAULT_CURRENCY): string {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+  } catch {
+    // Intl rejects malformed codes; never let a bad code break a page.
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+}
+
+// Currency pickers list the common codes plus whatever is already in use, so
+// editing an expense in an unlisted currency keeps its value selectable.
+export function currencyOptions(...inUse: Array<string | undefined>): string[] {
+  const extra = inUse.filter((code): code is string => !!code && !COMMON_CURRENCIES.includes(code));
+  return [...COMMON_CURRENCIES, ...Array.from(new Set(extra))];
+}
+
+export async function getExchangeRates(): Promise<ExchangeRate[]> {
+  const { data, error } = await supabase
+    .from('exchange_rates')
+    .select('*')
+    .order('from_currency', { ascending: true })
+    .order('to_currency', { ascending: true })
+    .order('effective_date', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(dbExchangeRateToExchangeRate);
+}
+
+// Saving a rate for a pair and date that already exists replaces it.
+export async function saveExchangeRate(rate: Omit<ExchangeRate, 'id'>): Promise<ExchangeRate> {
+  const { data, error } = await supabase
+    .from('exchange_rates')
+    .upsert(exchangeRateToDbInsert(rate), { onConflict: 'from_currency,to_currency,effective_date' })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return dbExchangeRateToExchangeRate(data);
+}
+
+export async function deleteExchangeRate(rateId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('exchange_rates')
+    .delete()
+    .eq('id', rateId)
+    .select('id');
+
+  if (error) throw error;
+  if (!data || data.length === 0) {
+    throw new Error(
+      'Exchange rate delete affected no rows. You may not have permission to delete this rate, or it no longer exists.'
+    );
+  }
+}
+
+// Mirrors public.convert_currency: the latest rate effective on or before the
+// date wins, then the earliest later rate, and the inverse pair is used when
+// only that one is maintained. Returns null when no rate is known.
+export function findExchangeRate(
+  rates: ExchangeRate[],
+  from: string,
+  to: string,
+  onDate: string
+): number | null {
+  if (from === to) return 1;
+
+  const pick = (candidates: ExchangeRate[]) => {
+    const onOrBefore = candidates
+      .filter((rate) => rate.effectiveDate <= onDate)
+      .sort((a, b) => b.effectiveDate.localeCompare(a.effectiveDate));
+    if (onOrBefore.length > 0) return onOrBefore[0];
+    return candidates.sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate))[0] || null;
+  };
+
+  const direct = pick(rates.filter((rate) => rate.fromCurrency === from && rate.toCurrency === to));
+  if (direct) return direct.rate;
+
+  const inverse = pick(rates.filter((rate) => rate.fromCurrency === to && rate.toCurrency === from));
+  if (inverse) return 1 / inverse.rate;
+
+  return null;
+}
+
+// Sets convertedAmount on each expense to its value in the base currency.
+// Expenses with no known rate are left without one; see hasMissingRate.
+export function applyExchangeRates(
+  expenses: Expense[],
+  baseCurrency: string,
+  rates: ExchangeRate[]
+): Expense[] {
+  return expenses.map((expense) => {
+    const rate = findExchangeRate(rates, expense.currency || baseCurrency, baseCurrency, expense.date);
+    return {
+      ...expense,
+      convertedAmount: rate === null ? undefined : Math.round(expense.amount * rate * 100) / 100
+    };
+  });
+}
+
+// The amount that counts against budgets: converted when a rate was applied,
+// face value otherwise (same fallback as get_program_budget_allocations).
+export function expenseBaseAmount(expense: Expense): number {
+  return expense.convertedAmount ?? expense.amount;
+}
+
+export function hasMissingRate(expense: Expense, baseCurrency: string): boolean {
+  return !!expense.currency && expense.currency !== baseCurrency && expense.convertedAmount === undefined;
+}
+
+export async function getProgramCurrency(programId: string): Promise<string> {
+  const { data, error } = await supabase
+    .from('programs')
+    .select('currency')
+    .eq('id', programId)
+    .single();
+
+  if (error) throw error;
+  return data.currency || DEFAULT_CURRENCY;
+}
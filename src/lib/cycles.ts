@@ -1,4 +1,9 @@
+import { CycleSchedule } from '../../types'
 import { supabase } from './supabase'
+import { getProgramBudgetAllocation } from './finance'
+import { cycleScheduleToDbUpdate, dbCycleScheduleToCycleSchedule } from './mappers'
+
+export type CycleScheduleInput = Omit<CycleSchedule, 'id' | 'programId' | 'participantId'>
 
 export interface BalanceCycleInsert {
   program_id: string
@@ -31,7 +36,7 @@ export async function getMyBalanceCyclesWithExpenses(programId: string) {
 
   const { data, error } = await supabase
     .from('balance_cycles')
-    .select('*, expenses (*)')
+    .select('*, expenses (*), milestone_rewards (*)')
     .eq('program_id', programId)
     .eq('participant_id', user.id)
     .order('created_at', { ascending: false })
@@ -41,10 +46,30 @@ export async function getMyBalanceCyclesWithExpenses(programId: string) {
   return data || []
 }
 
+/**
+ * Throw if giving a new cycle this budget would allocate more than the
+ * program's total_budget. The enforce_program_budget_allocation trigger is the
+ * real guard; checking first lets us show a readable message instead of a raw
+ * database error. A total_budget of 0 means no program budget is set.
+ */
+export async function assertProgramBudgetAvailable(programId: string, budget: number) {
+  const allocation = await getProgramBudgetAllocation(programId)
+  if (!allocation || allocation.totalBudget === 0) return
+
+  if (allocation.allocated + budget > allocation.totalBudget) {
+    const remaining = Math.max(allocation.unallocated, 0)
+    throw new Error(
+      `This cycle budget ($${budget.toFixed(2)}) exceeds the program's unallocated budget ($${remaining.toFixed(2)} of $${allocation.totalBudget.toFixed(2)} remaining). Ask your program manager to raise the program budget.`
+    )
+  }
+}
+
 export async function createBalanceCycle(cycle: BalanceCycleInsert) {
   const { data: { user } } = await supabase.auth.getUser()
   if (!user) throw new Error('Not authenticated')
 
+  await assertProgramBudgetAvailable(cycle.program_id, cycle.budget)
+
   const { data, error } = await supabase
     .from('balance_cycles')
     .insert({
@@ -70,3 +95,126 @@ export async function setActiveCycle(cycleId: string) {
   if (error) throw error
   return data
 }
+
+/**
+ * Schedules that apply in a program: the program-wide default (participantId
+ * undefined) and, depending on RLS, the caller's own or every participant's.
+ */
+export async function getCycleSchedules(programId: string): Promise<CycleSchedule[]> {
+  const { data, error } = await supabase
+    .from('cycle_schedules')
+    .select('*')
+    .eq('program_id', programId)
+
+  if (error) throw error
+  return (data || []).map(dbCycleScheduleToCycleSchedule)
+}
+
+/**
+ * Create or replace the schedule for a participant, or the program default
+ * when participantId is null. There is at most one of each (partial unique
+ * indexes), so an existing row is updated in place.
+ */
+export async function saveCycleSchedule(
+  programId: string,
+  participantId: string | null,
+  schedule: CycleScheduleInput
+): Promise<CycleSchedule> {
+  let query = supabase
+    .from('cycle_schedules')
+    .select('id')
+    .eq('program_id', programId)
+  query = participantId ? query.eq('participant_id', participantId) : query.is('participant_id', null)
+
+  const { data: existing, error: lookupError } = await query.maybeSingle()
+  if (lookupError) throw lookupError
+
+  if (existing) {
+    const { data, error } = await supabase
+      .from('cycle_schedules')
+      .update(cycleScheduleToDbUpdate(schedule))
+      .eq('id', existing.id)
+      .select()
+
+    if (error) throw error
+    if (!data || data.length === 0) {
+      throw new Error(
+        'Cycle schedule update affected no rows. You may not have permission to change this schedule, or it no longer exists.'
+      )
+    }
+    return dbCycleScheduleToCycleSchedule(data[0])
+  }
+
+  const { data, error } = await supabase
+    .from('cycle_schedules')
+    .insert({
+      ...cycleScheduleToDbUpdate(schedule),
+      program_id: programId,
+      participant_id: participantId
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+  return dbCycleScheduleToCycleSchedule(data)
+}
+
+/**
+ * Stop a schedule from opening further cycles. Cycles it already opened stay,
+ * but their schedule_id is cleared (ON DELETE SET NULL).
+ */
+export async function deleteCycleSchedule(scheduleId: string) {
+  const { data, error } = await supabase
+    .from('cycle_schedules')
+    .delete()
+    .eq('id', scheduleId)
+    .select('id')
+
+  if (error) throw error
+  if (!data || data.length === 0) {
+    throw new Error(
+      'Cycle schedule delete affected no rows. You may not have permission to remove this schedule, or it no longer exists.'
+    )
+  }
+}
+
+/**
+ * Open the next cycle for every ended active cycle the caller can see that has
+ * a schedule. pg_cron runs this daily where available; the dashboard also runs
+ * it on load so rollover does not depend on the extension. Returns the number
+ * of cycles created.
+ */
+export async function rollOverBalanceCycles(programId?: string): Promise<number> {
+  const { data, error } = await supabase.rpc('roll_over_balance_cycles', {
+    p_program_id: programId
+  })
+
+  if (error) throw error
+  return data || 0
+}
+
+/**
+ * Client-side mirror of cycle_schedule_period_end(): the last day (inclusive)
+ * of a schedule period starting on `startDate` (YYYY-MM-DD).
+ */
+export function getSchedulePeriodEnd(
+  startDate: string,
+  frequency: CycleSchedule['frequency'],
+  intervalDays?: number
+): string {
+  const end = new Date(`${startDate}T00:00:00Z`)
+  if (frequency === 'weekly') {
+    end.setUTCDate(end.getUTCDate() + 6)
+  } else if (frequency === 'monthly') {
+    // Match Postgres `date + interval '1 month'`: clamp to the last day of the
+    // next month (Jan 31 -> Feb 28) instead of overflowing into March.
+    const day = end.getUTCDate()
+    end.setUTCDate(1)
+    end.setUTCMonth(end.getUTCMonth() + 1)
+    const daysInMonth = new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth() + 1, 0)).getUTCDate()
+    end.setUTCDate(Math.min(day, daysInMonth) - 1)
+  } else {
+    end.setUTCDate(end.getUTCDate() + (intervalDays || 30) - 1)
+  }
+  return end.toISOString().split('T')[0]
+}
@@ -94,34 +94,43 @@ export type Database = {
       balance_cycles: {
         Row: {
           budget: number
+          carried_forward: number
           created_at: string | null
           end_date: string
           id: string
           is_active: boolean | null
+          over_budget_notified_at: string | null
           participant_id: string | null
           program_id: string | null
+          schedule_id: string | null
           start_date: string
           updated_at: string | null
         }
         Insert: {
           budget: number
+          carried_forward?: number
           created_at?: string | null
           end_date: string
           id?: string
           is_active?: boolean | null
+          over_budget_notified_at?: string | null
           participant_id?: string | null
           program_id?: string | null
+          schedule_id?: string | null
           start_date: string
           updated_at?: string | null
         }
         Update: {
           budget?: number
+          carried_forward?: number
           created_at?: string | null
           end_date?: string
           id?: string
           is_active?: boolean | null
+          over_budget_notified_at?: string | null
           participant_id?: string | null
           program_id?: string | null
+          schedule_id?: string | null
           start_date?: string
           updated_at?: string | null
         }
@@ -140,49 +149,379 @@ export type Database = {
             referencedRelation: "programs"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "balance_cycles_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "cycle_schedules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      comment_revisions: {
+        Row: {
+          action: string
+          body: string
+          comment_id: string
+          created_at: string
+          id: string
+          mentions: string[]
+          revised_by: string | null
+        }
+        Insert: {
+          action: string
+          body: string
+          comment_id: string
+          created_at?: string
+          id?: string
+          mentions?: string[]
+          revised_by?: string | null
+        }
+        Update: {
+          action?: string
+          body?: string
+          comment_id?: string
+          created_at?: string
+          id?: string
+          mentions?: string[]
+          revised_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comment_revisions_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comment_revisions_revised_by_fkey"
+            columns: ["revised_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      comments: {
+        Row: {
+          assignment_id: string
+          author_id: string
+          body: string
+          created_at: string
+          deleted_at: string | null
+          deleted_by: string | null
+          edited_at: string | null
+          id: string
+          mentions: string[]
+          parent_id: string | null
+          progress_report_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          assignment_id: string
+          author_id: string
+          body?: string
+          created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          edited_at?: string | null
+          id?: string
+          mentions?: string[]
+          parent_id?: string | null
+          progress_report_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          assignment_id?: string
+          author_id?: string
+          body?: string
+          created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          edited_at?: string | null
+          id?: string
+          mentions?: string[]
+          parent_id?: string | null
+          progress_report_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comments_assignment_id_fkey"
+            columns: ["assignment_id"]
+            isOneToOne: false
+            referencedRelation: "milestone_assignments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_deleted_by_fkey"
+            columns: ["deleted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_progress_report_id_fkey"
+            columns: ["progress_report_id"]
+            isOneToOne: false
+            referencedRelation: "progress_reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cycle_schedules: {
+        Row: {
+          budget: number
+          carry_forward: string
+          created_at: string | null
+          created_by: string | null
+          frequency: string
+          id: string
+          interval_days: number | null
+          is_active: boolean
+          participant_id: string | null
+          program_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          budget: number
+          carry_forward?: string
+          created_at?: string | null
+          created_by?: string | null
+          frequency?: string
+          id?: string
+          interval_days?: number | null
+          is_active?: boolean
+          participant_id?: string | null
+          program_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          budget?: number
+          carry_forward?: string
+          created_at?: string | null
+          created_by?: string | null
+          frequency?: string
+          id?: string
+          interval_days?: number | null
+          is_active?: boolean
+          participant_id?: string | null
+          program_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cycle_schedules_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cycle_schedules_participant_id_fkey"
+            columns: ["participant_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cycle_schedules_program_id_fkey"
+            columns: ["program_id"]
+            isOneToOne: false
+            referencedRelation: "programs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      deadline_reminders_sent: {
+        Row: {
+          assignment_id: string
+          created_at: string
+          deadline: string
+          notification_id: string | null
+          offset_days: number
+        }
+        Insert: {
+          assignment_id: string
+          created_at?: string
+          deadline: string
+          notification_id?: string | null
+          offset_days: number
+        }
+        Update: {
+          assignment_id?: string
+          created_at?: string
+          deadline?: string
+          notification_id?: string | null
+          offset_days?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deadline_reminders_sent_assignment_id_fkey"
+            columns: ["assignment_id"]
+            isOneToOne: false
+            referencedRelation: "milestone_assignments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deadline_reminders_sent_notification_id_fkey"
+            columns: ["notification_id"]
+            isOneToOne: false
+            referencedRelation: "notifications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      expense_categories: {
+        Row: {
+          color: string
+          created_at: string | null
+          created_by: string | null
+          cycle_cap: number | null
+          id: string
+          name: string
+          program_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          color?: string
+          created_at?: string | null
+          created_by?: string | null
+          cycle_cap?: number | null
+          id?: string
+          name: string
+          program_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          color?: string
+          created_at?: string | null
+          created_by?: string | null
+          cycle_cap?: number | null
+          id?: string
+          name?: string
+          program_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "expense_categories_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expense_categories_program_id_fkey"
+            columns: ["program_id"]
+            isOneToOne: false
+            referencedRelation: "programs"
+            referencedColumns: ["id"]
+          },
         ]
       }
       expenses: {
         Row: {
           amount: number
           category: string | null
+          category_id: string | null
           contact: string | null
           created_at: string | null
+          currency: string
           cycle_id: string | null
           date: string
           description: string
           id: string
+          merchant: string | null
+          payment_method: string | null
+          receipt_hash: string | null
+          receipt_subtotal: number | null
+          receipt_tax: number | null
+          receipt_tip: number | null
+          receipt_total: number | null
           receipt_url: string | null
           remarks: string | null
+          review_reason: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
           updated_at: string | null
         }
         Insert: {
           amount: number
           category?: string | null
+          category_id?: string | null
           contact?: string | null
           created_at?: string | null
+          currency?: string
           cycle_id?: string | null
           date: string
           description: string
           id?: string
+          merchant?: string | null
+          payment_method?: string | null
+          receipt_hash?: string | null
+          receipt_subtotal?: number | null
+          receipt_tax?: number | null
+          receipt_tip?: number | null
+          receipt_total?: number | null
           receipt_url?: string | null
           remarks?: string | null
+          review_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
           updated_at?: string | null
         }
         Update: {
           amount?: number
           category?: string | null
+          category_id?: string | null
           contact?: string | null
           created_at?: string | null
+          currency?: string
           cycle_id?: string | null
           date?: string
           description?: string
           id?: string
+          merchant?: string | null
+          payment_method?: string | null
+          receipt_hash?: string | null
+          receipt_subtotal?: number | null
+          receipt_tax?: number | null
+          receipt_tip?: number | null
+          receipt_total?: number | null
           receipt_url?: string | null
           remarks?: string | null
+          review_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
           updated_at?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "expenses_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "expense_categories"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "expenses_cycle_id_fkey"
             columns: ["cycle_id"]
@@ -190,6 +529,54 @@ export type Database = {
             referencedRelation: "balance_cycles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "expenses_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exchange_rates: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          effective_date: string
+          from_currency: string
+          id: string
+          rate: number
+          to_currency: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          effective_date?: string
+          from_currency: string
+          id?: string
+          rate: number
+          to_currency: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          effective_date?: string
+          from_currency?: string
+          id?: string
+          rate?: number
+          to_currency?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exchange_rates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
       invites: {
@@ -259,6 +646,32 @@ export type Database = {
           },
         ]
       }
+      manager_notification_opt_outs: {
+        Row: {
+          created_at: string
+          event_type: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          event_type: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          event_type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "manager_notification_opt_outs_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       milestone_assignments: {
         Row: {
           assigned_at: string | null
@@ -274,7 +687,13 @@ export type Database = {
           manager_response: Json | null
           milestone_id: string | null
           participant_id: string | null
+          proof_file_name: string | null
+          proof_uploaded_at: string | null
           proof_url: string | null
+          review_decision: string | null
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
           status: string | null
           updated_at: string | null
         }
@@ -292,48 +711,196 @@ export type Database = {
           manager_response?: Json | null
           milestone_id?: string | null
           participant_id?: string | null
+          proof_file_name?: string | null
+          proof_uploaded_at?: string | null
+          proof_url?: string | null
+          review_decision?: string | null
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          assigned_at?: string | null
+          assigned_by?: string | null
+          assignment_type?: string | null
+          can_decline?: boolean | null
+          completion_date?: string | null
+          decline_reason?: string | null
+          declined_at?: string | null
+          id?: string
+          is_required?: boolean | null
+          manager_notes?: string | null
+          manager_response?: Json | null
+          milestone_id?: string | null
+          participant_id?: string | null
+          proof_file_name?: string | null
+          proof_uploaded_at?: string | null
           proof_url?: string | null
+          review_decision?: string | null
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
           status?: string | null
           updated_at?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: "milestone_assignments_assigned_by_fkey"
+            columns: ["assigned_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "milestone_assignments_milestone_id_fkey"
+            columns: ["milestone_id"]
+            isOneToOne: false
+            referencedRelation: "milestones"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "milestone_assignments_participant_id_fkey"
+            columns: ["participant_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "milestone_assignments_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      milestone_rewards: {
+        Row: {
+          amount: number
+          assignment_id: string | null
+          awarded_by: string | null
+          created_at: string
+          credited_at: string | null
+          cycle_id: string | null
+          id: string
+          milestone_name: string
+          participant_id: string
+          program_id: string
+        }
+        Insert: {
+          amount: number
+          assignment_id?: string | null
+          awarded_by?: string | null
+          created_at?: string
+          credited_at?: string | null
+          cycle_id?: string | null
+          id?: string
+          milestone_name: string
+          participant_id: string
+          program_id: string
+        }
+        Update: {
+          amount?: number
+          assignment_id?: string | null
+          awarded_by?: string | null
+          created_at?: string
+          credited_at?: string | null
+          cycle_id?: string | null
+          id?: string
+          milestone_name?: string
+          participant_id?: string
+          program_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "milestone_rewards_assignment_id_fkey"
+            columns: ["assignment_id"]
+            isOneToOne: true
+            referencedRelation: "milestone_assignments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "milestone_rewards_awarded_by_fkey"
+            columns: ["awarded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "milestone_rewards_cycle_id_fkey"
+            columns: ["cycle_id"]
+            isOneToOne: false
+            referencedRelation: "balance_cycles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "milestone_rewards_participant_id_fkey"
+            columns: ["participant_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "milestone_rewards_program_id_fkey"
+            columns: ["program_id"]
+            isOneToOne: false
+            referencedRelation: "programs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      milestone_templates: {
+        Row: {
+          category: string
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          id: string
+          is_required: boolean
+          program_id: string
+          suggested_duration_days: number
+          title: string
+          updated_at: string | null
+        }
+        Insert: {
+          category?: string
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_required?: boolean
+          program_id: string
+          suggested_duration_days?: number
+          title: string
+          updated_at?: string | null
+        }
         Update: {
-          assigned_at?: string | null
-          assigned_by?: string | null
-          assignment_type?: string | null
-          can_decline?: boolean | null
-          completion_date?: string | null
-          decline_reason?: string | null
-          declined_at?: string | null
+          category?: string
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
           id?: string
-          is_required?: boolean | null
-          manager_notes?: string | null
-          manager_response?: Json | null
-          milestone_id?: string | null
-          participant_id?: string | null
-          proof_url?: string | null
-          status?: string | null
+          is_required?: boolean
+          program_id?: string
+          suggested_duration_days?: number
+          title?: string
           updated_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "milestone_assignments_assigned_by_fkey"
-            columns: ["assigned_by"]
+            foreignKeyName: "milestone_templates_created_by_fkey"
+            columns: ["created_by"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "milestone_assignments_milestone_id_fkey"
-            columns: ["milestone_id"]
-            isOneToOne: false
-            referencedRelation: "milestones"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "milestone_assignments_participant_id_fkey"
-            columns: ["participant_id"]
+            foreignKeyName: "milestone_templates_program_id_fkey"
+            columns: ["program_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "programs"
             referencedColumns: ["id"]
           },
         ]
@@ -385,9 +952,45 @@ export type Database = {
           },
         ]
       }
+      notification_email_preferences: {
+        Row: {
+          created_at: string | null
+          last_digest_at: string | null
+          mode: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          last_digest_at?: string | null
+          mode?: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          last_digest_at?: string | null
+          mode?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_email_preferences_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       notifications: {
         Row: {
+          archived_at: string | null
           created_at: string | null
+          email_error: string | null
+          email_processed_at: string | null
+          email_status: string
           id: string
           is_read: boolean | null
           message: string
@@ -398,7 +1001,11 @@ export type Database = {
           user_id: string | null
         }
         Insert: {
+          archived_at?: string | null
           created_at?: string | null
+          email_error?: string | null
+          email_processed_at?: string | null
+          email_status?: string
           id?: string
           is_read?: boolean | null
           message: string
@@ -409,7 +1016,11 @@ export type Database = {
           user_id?: string | null
         }
         Update: {
+          archived_at?: string | null
           created_at?: string | null
+          email_error?: string | null
+          email_processed_at?: string | null
+          email_status?: string
           id?: string
           is_read?: boolean | null
           message?: string
@@ -429,6 +1040,42 @@ export type Database = {
           },
         ]
       }
+      ocr_usage: {
+        Row: {
+          created_at: string
+          id: string
+          program_id: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          program_id?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          program_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ocr_usage_program_id_fkey"
+            columns: ["program_id"]
+            isOneToOne: false
+            referencedRelation: "programs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ocr_usage_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string | null
@@ -459,6 +1106,45 @@ export type Database = {
         }
         Relationships: []
       }
+      program_ocr_quotas: {
+        Row: {
+          created_at: string | null
+          daily_limit: number | null
+          program_id: string
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          daily_limit?: number | null
+          program_id: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          daily_limit?: number | null
+          program_id?: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "program_ocr_quotas_program_id_fkey"
+            columns: ["program_id"]
+            isOneToOne: true
+            referencedRelation: "programs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "program_ocr_quotas_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       program_participants: {
         Row: {
           enrolled_at: string | null
@@ -495,14 +1181,62 @@ export type Database = {
           },
         ]
       }
+      program_reports: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          file_size: number
+          id: string
+          program_id: string
+          storage_path: string
+          title: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          file_size: number
+          id?: string
+          program_id: string
+          storage_path: string
+          title: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          file_size?: number
+          id?: string
+          program_id?: string
+          storage_path?: string
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "program_reports_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "program_reports_program_id_fkey"
+            columns: ["program_id"]
+            isOneToOne: false
+            referencedRelation: "programs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       programs: {
         Row: {
           created_at: string | null
+          currency: string
+          deadline_reminder_days: number[]
           description: string | null
           end_date: string
           id: string
           manager_id: string | null
           name: string
+          overdue_reminder_days: number[]
           start_date: string
           status: string | null
           total_budget: number
@@ -510,11 +1244,14 @@ export type Database = {
         }
         Insert: {
           created_at?: string | null
+          currency?: string
+          deadline_reminder_days?: number[]
           description?: string | null
           end_date: string
           id?: string
           manager_id?: string | null
           name: string
+          overdue_reminder_days?: number[]
           start_date: string
           status?: string | null
           total_budget: number
@@ -522,11 +1259,14 @@ export type Database = {
         }
         Update: {
           created_at?: string | null
+          currency?: string
+          deadline_reminder_days?: number[]
           description?: string | null
           end_date?: string
           id?: string
           manager_id?: string | null
           name?: string
+          overdue_reminder_days?: number[]
           start_date?: string
           status?: string | null
           total_budget?: number
@@ -599,6 +1339,128 @@ export type Database = {
           },
         ]
       }
+      report_deliveries: {
+        Row: {
+          created_at: string
+          error: string | null
+          id: string
+          program_id: string
+          recipients: string[]
+          report_id: string | null
+          schedule_id: string | null
+          status: string
+          transport: string | null
+          triggered_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          error?: string | null
+          id?: string
+          program_id: string
+          recipients: string[]
+          report_id?: string | null
+          schedule_id?: string | null
+          status: string
+          transport?: string | null
+          triggered_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          error?: string | null
+          id?: string
+          program_id?: string
+          recipients?: string[]
+          report_id?: string | null
+          schedule_id?: string | null
+          status?: string
+          transport?: string | null
+          triggered_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_deliveries_program_id_fkey"
+            columns: ["program_id"]
+            isOneToOne: false
+            referencedRelation: "programs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "report_deliveries_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "program_reports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "report_deliveries_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "report_schedules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "report_deliveries_triggered_by_fkey"
+            columns: ["triggered_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_schedules: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          frequency: string
+          id: string
+          is_active: boolean
+          last_run_at: string | null
+          next_run_at: string
+          program_id: string
+          recipients: string[]
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          frequency?: string
+          id?: string
+          is_active?: boolean
+          last_run_at?: string | null
+          next_run_at: string
+          program_id: string
+          recipients: string[]
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          frequency?: string
+          id?: string
+          is_active?: boolean
+          last_run_at?: string | null
+          next_run_at?: string
+          program_id?: string
+          recipients?: string[]
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_schedules_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "report_schedules_program_id_fkey"
+            columns: ["program_id"]
+            isOneToOne: false
+            referencedRelation: "programs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
@@ -609,11 +1471,44 @@ export type Database = {
         Returns: boolean
       }
       can_manage_program: { Args: { p_program_id: string }; Returns: boolean }
+      can_access_assignment: {
+        Args: { p_assignment_id: string; p_user_id: string }
+        Returns: boolean
+      }
       can_view_participant_profile: {
         Args: { p_profile_id: string }
         Returns: boolean
       }
       cleanup_expired_invites: { Args: never; Returns: number }
+      clone_program: {
+        Args: {
+          p_copy_manager?: boolean
+          p_end_date?: string
+          p_name: string
+          p_source_program_id: string
+          p_start_date: string
+          p_total_budget?: number
+        }
+        Returns: string
+      }
+      consume_ocr_quota: {
+        Args: {
+          p_program_id?: string
+          p_user_daily_limit?: number
+          p_user_id: string
+          p_window_limit: number
+          p_window_seconds: number
+        }
+        Returns: {
+          allowed: boolean
+          limit_type: string
+          retry_after_seconds: number
+        }[]
+      }
+      convert_currency: {
+        Args: { p_amount: number; p_from: string; p_on?: string; p_to: string }
+        Returns: number
+      }
       create_notification: {
         Args: {
           p_message: string
@@ -625,6 +1520,10 @@ export type Database = {
         Returns: string
       }
       current_user_role: { Args: never; Returns: string }
+      cycle_schedule_period_end: {
+        Args: { p_frequency: string; p_interval_days: number; p_start: string }
+        Returns: string
+      }
       find_user_by_email: {
         Args: { search_email: string }
         Returns: {
@@ -634,6 +1533,15 @@ export type Database = {
           role: string
         }[]
       }
+      generate_deadline_notifications: { Args: never; Returns: number }
+      get_assignment_comment_people: {
+        Args: { p_assignment_id: string }
+        Returns: {
+          id: string
+          name: string
+          role: string
+        }[]
+      }
       get_invite_by_code: {
         Args: { p_invite_code: string }
         Returns: {
@@ -649,6 +1557,42 @@ export type Database = {
           target_role: string
         }[]
       }
+      get_ocr_quota_usage: {
+        Args: { p_program_id?: string; p_user_id: string }
+        Returns: {
+          program_daily_limit: number
+          program_used_today: number
+          resets_at: string
+          user_used_today: number
+        }[]
+      }
+      get_program_budget_allocations: {
+        Args: { p_program_id?: string }
+        Returns: {
+          allocated: number
+          program_id: string
+          program_currency: string
+          program_name: string
+          program_status: string
+          spent: number
+          total_budget: number
+        }[]
+      }
+      get_program_ocr_usage_today: {
+        Args: never
+        Returns: {
+          program_id: string
+          used_today: number
+        }[]
+      }
+      get_program_report_spending: {
+        Args: { p_program_id: string }
+        Returns: {
+          budget: number
+          participant_id: string
+          spent: number
+        }[]
+      }
       is_active_program_participant: {
         Args: { p_program_id: string }
         Returns: boolean
@@ -664,6 +1608,10 @@ export type Database = {
         }
         Returns: string
       }
+      roll_over_balance_cycles: {
+        Args: { p_program_id?: string }
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,125 @@
+import { Expense, ExpenseCategory, ExpenseStatus } from '../../types';
+import {
+  dbExpenseCategoryToExpenseCategory,
+  expenseCategoryToDbInsert,
+  expenseCategoryToDbUpdate
+} from './mappers';
+import { supabase } from './supabase';
+import { expenseBaseAmount } from './currency';
+
+export type ExpenseCategoryInput = Omit<ExpenseCategory, 'id' | 'programId'>;
+
+export interface CategorySpending {
+  category: ExpenseCategory | null; // null = uncategorized
+  label: string;
+  color: string;
+  spent: number;
+  cap?: number;
+  isOverCap: boolean;
+}
+
+export const UNCATEGORIZED_COLOR = '#9ca3af';
+
+export async function getProgramExpenseCategories(programId: string): Promise<ExpenseCategory[]> {
+  const { data, error } = await supabase
+    .from('expense_categories')
+    .select('*')
+    .eq('program_id', programId)
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(dbExpenseCategoryToExpenseCategory);
+}
+
+export async function createExpenseCategory(
+  programId: string,
+  category: ExpenseCategoryInput
+): Promise<ExpenseCategory> {
+  const { data, error } = await supabase
+    .from('expense_categories')
+    .insert(expenseCategoryToDbInsert(programId, category))
+    .select()
+    .single();
+
+  if (error) throw error;
+  return dbExpenseCategoryToExpenseCategory(data);
+}
+
+export async function updateExpenseCategory(
+  categoryId: string,
+  category: ExpenseCategoryInput
+): Promise<ExpenseCategory> {
+  const { data, error } = await supabase
+    .from('expense_categories')
+    .update(expenseCategoryToDbUpdate(category))
+    .eq('id', categoryId)
+    .select();
+
+  if (error) throw error;
+  if (!data || data.length === 0) {
+    throw new Error(
+      'Category update affected no rows. You may not have permission to edit this category, or it no longer exists.'
+    );
+  }
+  return dbExpenseCategoryToExpenseCategory(data[0]);
+}
+
+export async function deleteExpenseCategory(categoryId: string): Promise<void> {
+  // Expenses keep their category name; category_id is SET NULL by the FK.
+  const { data, error } = await supabase
+    .from('expense_categories')
+    .delete()
+    .eq('id', categoryId)
+    .select('id');
+
+  if (error) throw error;
+  if (!data || data.length === 0) {
+    throw new Error(
+      'Category delete affected no rows. You may not have permission to delete this category, or it no longer exists.'
+    );
+  }
+}
+
+// Per-category totals for one cycle's expenses, in category order with
+// uncategorized spending last. Rejected expenses are excluded, matching
+// sumCountedExpenses, so caps are measured against what actually counts.
+export function summarizeCategorySpending(
+  expenses: Expense[],
+  categories: ExpenseCategory[]
+): CategorySpending[] {
+  const spentByCategory = new Map<string, number>();
+  let uncategorized = 0;
+
+  for (const expense of expenses) {
+    if (expense.status === ExpenseStatus.REJECTED) continue;
+    if (expense.categoryId && categories.some((category) => category.id === expense.categoryId)) {
+      spentByCategory.set(expense.categoryId, (spentByCategory.get(expense.categoryId) || 0) + expenseBaseAmount(expense));
+    } else {
+      uncategorized += expenseBaseAmount(expense);
+    }
+  }
+
+  const breakdown: CategorySpending[] = categories.map((category) => {
+    const spent = spentByCategory.get(category.id) || 0;
+    return {
+      category,
+      label: category.name,
+      color: category.color,
+      spent,
+      cap: category.cycleCap,
+      isOverCap: category.cycleCap !== undefined && spent > category.cycleCap
+    };
+  });
+
+  if (uncategorized > 0) {
+    breakdown.push({
+      category: null,
+      label: 'Uncategorized',
+      color: UNCATEGORIZED_COLOR,
+      spent: uncategorized,
+      isOverCap: false
+    });
+  }
+
+  return breakdown;
+}
@@ -0,0 +1,96 @@
+import { Expense, ExpenseStatus } from '../../types';
+
+// 'same_receipt': the same file was uploaded again for a different expense.
+// 'same_details': same date, amount and currency with a similar description.
+export type DuplicateReason = 'same_receipt' | 'same_details';
+
+export interface DuplicateMatch {
+  expense: Expense;
+  reason: DuplicateReason;
+}
+
+export interface PossibleDuplicate {
+  expense: Expense;
+  duplicateOf: Expense;
+  reason: DuplicateReason;
+}
+
+type DuplicateCandidate = Pick<Expense, 'date' | 'item' | 'amount'> &
+  Partial<Pick<Expense, 'currency' | 'receiptUrl' | 'receiptHash'>>;
+
+// Lowercased with spacing and punctuation removed, so "Uber - Airport" and
+// "uber airport" compare equal.
+export function normalizeExpenseDescription(description: string): string {
+  return description.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// Equal once normalized, or one contains the other ("Lunch" vs "Lunch with
+// mentor"). Very short descriptions must match exactly.
+export function isSimilarDescription(a: string, b: string): boolean {
+  const left = normalizeExpenseDescription(a);
+  const right = normalizeExpenseDescription(b);
+  if (!left || !right) return false;
+  if (left === right) return true;
+
+  const [shorter, longer] = left.length <= right.length ? [left, right] : [right, left];
+  return shorter.length >= 4 && longer.includes(shorter);
+}
+
+export function duplicateReason(candidate: DuplicateCandidate, existing: Expense): DuplicateReason | null {
+  if (existing.status === ExpenseStatus.REJECTED) return null;
+
+  // Lines split from one receipt share its upload, so the same receiptUrl is
+  // expected; only a second upload of the same file counts.
+  if (
+    candidate.receiptHash &&
+    candidate.receiptHash === existing.receiptHash &&
+    candidate.receiptUrl !== existing.receiptUrl
+  ) {
+    return 'same_receipt';
+  }
+
+  const sameCurrency = !candidate.currency || !existing.currency || candidate.currency === existing.currency;
+  if (
+    sameCurrency &&
+    candidate.date.split('T')[0] === existing.date.split('T')[0] &&
+    Math.abs(candidate.amount - existing.amount) < 0.005 &&
+    isSimilarDescription(candidate.item, existing.item)
+  ) {
+    return 'same_details';
+  }
+
+  return null;
+}
+
+// Existing expenses a new or edited expense may duplicate.
+export function findDuplicateExpenses(
+  candidate: DuplicateCandidate,
+  expenses: Expense[],
+  ignoreExpenseId?: string
+): DuplicateMatch[] {
+  return expenses
+    .filter((expense) => expense.id !== ignoreExpenseId)
+    .map((expense) => ({ expense, reason: duplicateReason(candidate, expense) }))
+    .filter((match): match is DuplicateMatch => match.reason !== null);
+}
+
+// Every likely duplicate pair within one participant's expenses, each later
+// expense reported against the earliest one it matches.
+export function findPossibleDuplicates(expenses: Expense[]): PossibleDuplicate[] {
+  const ordered = [...expenses].sort((a, b) => a.date.localeCompare(b.date));
+  const duplicates: PossibleDuplicate[] = [];
+
+  ordered.forEach((expense, index) => {
+    if (expense.status === ExpenseStatus.REJECTED) return;
+
+    for (const earlier of ordered.slice(0, index)) {
+      const reason = duplicateReason(expense, earlier);
+      if (reason) {
+        duplicates.push({ expense, duplicateOf: earlier, reason });
+        return;
+      }
+    }
+  });
+
+  return duplicates;
+}
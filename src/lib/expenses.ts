@@ -1,17 +1,31 @@
+import { ExpenseStatus } from '../../types'
+import { isSimilarDescription } from './expenseDuplicates'
 import { supabase } from './supabase'
 
 export interface ExpenseInsert {
   cycle_id: string
   description: string
   amount: number
+  currency?: string
   date: string
-  category?: string
+  category?: string | null
+  category_id?: string | null
   contact?: string
   remarks?: string
   receipt_url?: string
+  receipt_hash?: string
+  merchant?: string
+  payment_method?: string
+  receipt_subtotal?: number
+  receipt_tax?: number
+  receipt_tip?: number
+  receipt_total?: number
+  // Only honoured for program managers; the enforce_expense_review trigger
+  // forces participant inserts to 'submitted'.
+  status?: ExpenseStatus
 }
 
-export type ExpenseUpdate = Partial<Omit<ExpenseInsert, 'cycle_id'>>
+export type ExpenseUpdate = Partial<Omit<ExpenseInsert, 'cycle_id' | 'status'>>
 
 export async function getExpenses(cycleId: string) {
   const { data, error } = await supabase
@@ -24,7 +38,62 @@ export async function getExpenses(cycleId: string) {
   return data || []
 }
 
-export async function createExpense(expense: ExpenseInsert) {
+export interface SimilarExpense {
+  id: string
+  description: string
+  amount: number
+  date: string
+}
+
+// Thrown by createExpense when the cycle already holds a likely duplicate;
+// callers confirm with the user and retry with allowDuplicate.
+export class DuplicateExpenseError extends Error {
+  matches: SimilarExpense[]
+
+  constructor(matches: SimilarExpense[]) {
+    const first = matches[0]
+    super(`This looks like a duplicate of "${first.description}" (${first.amount} on ${first.date}).`)
+    this.name = 'DuplicateExpenseError'
+    this.matches = matches
+  }
+}
+
+// Non-rejected expenses in the cycle with the same date and amount and a
+// similar description (see isSimilarDescription).
+export async function findSimilarExpenses(
+  expense: Pick<ExpenseInsert, 'cycle_id' | 'description' | 'amount' | 'currency' | 'date'>
+): Promise<SimilarExpense[]> {
+  let query = supabase
+    .from('expenses')
+    .select('id, description, amount, date, currency')
+    .eq('cycle_id', expense.cycle_id)
+    .eq('date', expense.date)
+    .eq('amount', expense.amount)
+    .neq('status', ExpenseStatus.REJECTED)
+
+  if (expense.currency) {
+    query = query.eq('currency', expense.currency)
+  }
+
+  const { data, error } = await query
+
+  if (error) throw error
+  return (data || [])
+    .filter((row) => isSimilarDescription(row.description, expense.description))
+    .map(({ id, description, amount, date }) => ({ id, description, amount: Number(amount), date }))
+}
+
+export async function createExpense(
+  expense: ExpenseInsert,
+  options: { allowDuplicate?: boolean } = {}
+) {
+  if (!options.allowDuplicate) {
+    const matches = await findSimilarExpenses(expense)
+    if (matches.length > 0) {
+      throw new DuplicateExpenseError(matches)
+    }
+  }
+
   const { data, error } = await supabase
     .from('expenses')
     .insert(expense)
@@ -35,6 +104,20 @@ export async function createExpense(expense: ExpenseInsert) {
   return data
 }
 
+// PostgREST runs a bulk insert as a single statement, so either every row is
+// created or none is (e.g. one line failing a check rolls back the others).
+export async function createExpenses(expenses: ExpenseInsert[]) {
+  if (expenses.length === 0) return []
+
+  const { data, error } = await supabase
+    .from('expenses')
+    .insert(expenses)
+    .select()
+
+  if (error) throw error
+  return data || []
+}
+
 export async function updateExpense(expenseId: string, updates: ExpenseUpdate) {
   // Use .select() (returning the affected rows) instead of .single() so that an
   // RLS-blocked or non-existent update surfaces as zero rows rather than a PostgREST
@@ -73,3 +156,36 @@ export async function deleteExpense(expenseId: string) {
   }
   return { success: true }
 }
+
+/**
+ * Record a manager's review decision on an expense. Reviewer and timestamp are
+ * stamped by the enforce_expense_review trigger, which also rejects the write
+ * outright when the caller does not manage the expense's program, so a
+ * participant can never approve their own expense.
+ */
+export async function reviewExpense(
+  expenseId: string,
+  status: ExpenseStatus,
+  reason?: string
+) {
+  if ((status === ExpenseStatus.REJECTED || status === ExpenseStatus.NEEDS_INFO) && !reason?.trim()) {
+    throw new Error('A reason is required when rejecting an expense or requesting more information.')
+  }
+
+  const { data, error } = await supabase
+    .from('expenses')
+    .update({
+      status,
+      review_reason: status === ExpenseStatus.APPROVED ? null : reason?.trim() || null
+    })
+    .eq('id', expenseId)
+    .select()
+
+  if (error) throw error
+  if (!data || data.length === 0) {
+    throw new Error(
+      'Expense review affected no rows. You may not have permission to review this expense, or it no longer exists.'
+    )
+  }
+  return data[0]
+}
@@ -1,6 +1,14 @@
-import { BalanceSheetCycle, User } from '../../types';
+import { BalanceSheetCycle, Expense, ExpenseStatus, User } from '../../types';
 import { dbCycleToBalanceSheetCycle, dbExpenseToExpense, dbProfileToUser } from './mappers';
 import { supabase } from './supabase';
+import {
+  applyExchangeRates,
+  DEFAULT_CURRENCY,
+  expenseBaseAmount,
+  getExchangeRates,
+  getProgramCurrency,
+  hasMissingRate
+} from './currency';
 
 export interface ParticipantFinancials {
   participant: User;
@@ -8,6 +16,60 @@ export interface ParticipantFinancials {
   activeCycle: BalanceSheetCycle | null;
   totalSpent: number;
   totalBudget: number;
+  pendingReviewCount: number;
+  currency: string; // Program currency every total above is expressed in
+  missingRateCount: number; // Expenses counted at face value for lack of a rate
+}
+
+export interface ProgramBudgetAllocation {
+  programId: string;
+  programName: string;
+  programStatus: string;
+  currency: string;
+  totalBudget: number; // 0 = no program-level budget set
+  allocated: number; // Sum of every balance cycle budget in the program
+  unallocated: number;
+  spent: number; // Non-rejected expenses
+}
+
+// Backed by the get_program_budget_allocations RPC so participants, who cannot
+// read other participants' cycles, still see accurate program totals. Omit
+// programId to get every program the caller can see (the admin rollup).
+export async function getProgramBudgetAllocations(programId?: string): Promise<ProgramBudgetAllocation[]> {
+  const { data, error } = await supabase.rpc('get_program_budget_allocations', {
+    p_program_id: programId
+  });
+
+  if (error) throw error;
+
+  return (data || []).map((row) => {
+    const totalBudget = Number(row.total_budget);
+    const allocated = Number(row.allocated);
+    return {
+      programId: row.program_id,
+      programName: row.program_name,
+      programStatus: row.program_status,
+      currency: row.program_currency || DEFAULT_CURRENCY,
+      totalBudget,
+      allocated,
+      unallocated: totalBudget - allocated,
+      spent: Number(row.spent)
+    };
+  });
+}
+
+export async function getProgramBudgetAllocation(programId: string): Promise<ProgramBudgetAllocation | null> {
+  const [allocation] = await getProgramBudgetAllocations(programId);
+  return allocation || null;
+}
+
+// Rejected expenses stay visible (so the participant can read the reason) but
+// no longer count against the cycle budget. Expenses loaded with exchange rates
+// are summed in the program currency.
+export function sumCountedExpenses(expenses: Expense[]): number {
+  return expenses
+    .filter((expense) => expense.status !== ExpenseStatus.REJECTED)
+    .reduce((sum, expense) => sum + expenseBaseAmount(expense), 0);
 }
 
 export async function getProgramParticipantFinancials(
@@ -24,6 +86,11 @@ export async function getProgramParticipantFinancials(
 
   if (enrollmentError) throw enrollmentError;
 
+  const [currency, rates] = await Promise.all([
+    getProgramCurrency(programId),
+    getExchangeRates()
+  ]);
+
   // Single query for every cycle (with embedded expenses) in the program, then
   // group by participant client-side. This replaces the previous N+1 pattern that
   // ran one balance_cycles+expenses query per participant.
@@ -31,7 +98,8 @@ export async function getProgramParticipantFinancials(
     .from('balance_cycles')
     .select(`
       *,
-      expenses (*)
+      expenses (*),
+      milestone_rewards (*)
     `)
     .eq('program_id', programId)
     .order('created_at', { ascending: false });
@@ -59,20 +127,26 @@ export async function getProgramParticipantFinancials(
     const appCycles = participantCycles.map((cycle: any) =>
       dbCycleToBalanceSheetCycle(
         cycle,
-        (cycle.expenses || []).map(dbExpenseToExpense)
+        applyExchangeRates((cycle.expenses || []).map(dbExpenseToExpense), currency, rates)
       )
     );
 
-    const totalSpent = appCycles.reduce((sum, cycle) =>
-      sum + cycle.expenses.reduce((expenseSum, expense) => expenseSum + expense.amount, 0), 0);
+    const totalSpent = appCycles.reduce((sum, cycle) => sum + sumCountedExpenses(cycle.expenses), 0);
     const totalBudget = appCycles.reduce((sum, cycle) => sum + cycle.budget, 0);
+    const pendingReviewCount = appCycles.reduce((count, cycle) =>
+      count + cycle.expenses.filter((expense) => expense.status === ExpenseStatus.SUBMITTED).length, 0);
+    const missingRateCount = appCycles.reduce((count, cycle) =>
+      count + cycle.expenses.filter((expense) => hasMissingRate(expense, currency)).length, 0);
 
     return {
       participant: dbProfileToUser(enrollment.profiles),
       cycles: appCycles,
       activeCycle: appCycles.find((cycle) => cycle.isActive) || null,
       totalSpent,
-      totalBudget
+      totalBudget,
+      pendingReviewCount,
+      currency,
+      missingRateCount
     };
   });
 
@@ -83,11 +157,17 @@ export async function getParticipantCycles(
   programId: string,
   participantId: string
 ): Promise<BalanceSheetCycle[]> {
+  const [currency, rates] = await Promise.all([
+    getProgramCurrency(programId),
+    getExchangeRates()
+  ]);
+
   const { data, error } = await supabase
     .from('balance_cycles')
     .select(`
       *,
-      expenses (*)
+      expenses (*),
+      milestone_rewards (*)
     `)
     .eq('program_id', programId)
     .eq('participant_id', participantId)
@@ -96,6 +176,9 @@ export async function getParticipantCycles(
   if (error) throw error;
 
   return (data || []).map((cycle: any) =>
-    dbCycleToBalanceSheetCycle(cycle, (cycle.expenses || []).map(dbExpenseToExpense))
+    dbCycleToBalanceSheetCycle(
+      cycle,
+      applyExchangeRates((cycle.expenses || []).map(dbExpenseToExpense), currency, rates)
+    )
   );
 }
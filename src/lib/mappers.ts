@@ -2,10 +2,20 @@ import {
   AssignmentInfo,
   AssignmentType,
   BalanceSheetCycle,
+  CarryForwardMode,
+  CommentRevision,
+  CycleFrequency,
+  CycleSchedule,
+  ExchangeRate,
   Expense,
+  ExpenseCategory,
+  ExpenseStatus,
   Milestone,
   MilestoneCategory,
+  MilestoneComment,
+  MilestoneReward,
   MilestoneStatus,
+  MilestoneTemplate,
   Program,
   ProgressReport,
   User,
@@ -20,6 +30,7 @@ export interface DbProgram {
   start_date: string
   end_date: string
   total_budget?: number | string | null
+  currency?: string | null
   status?: string | null
   created_at?: string | null
   program_participants?: Array<{
@@ -44,10 +55,38 @@ export interface DbExpense {
   date: string
   description: string
   amount: number | string
+  currency?: string | null
   category?: string | null
+  category_id?: string | null
   contact?: string | null
   remarks?: string | null
   receipt_url?: string | null
+  receipt_hash?: string | null
+  merchant?: string | null
+  payment_method?: string | null
+  receipt_subtotal?: number | string | null
+  receipt_tax?: number | string | null
+  receipt_tip?: number | string | null
+  receipt_total?: number | string | null
+  status?: string | null
+  review_reason?: string | null
+  reviewed_at?: string | null
+}
+
+export interface DbExpenseCategory {
+  id: string
+  program_id: string
+  name: string
+  color?: string | null
+  cycle_cap?: number | string | null
+}
+
+export interface DbExchangeRate {
+  id: string
+  from_currency: string
+  to_currency: string
+  rate: number | string
+  effective_date: string
 }
 
 export interface DbBalanceCycle {
@@ -56,6 +95,30 @@ export interface DbBalanceCycle {
   end_date: string
   budget: number | string
   is_active?: boolean | null
+  carried_forward?: number | string | null
+  schedule_id?: string | null
+  milestone_rewards?: DbMilestoneReward[] | null
+}
+
+export interface DbMilestoneReward {
+  id: string
+  assignment_id?: string | null
+  cycle_id?: string | null
+  milestone_name: string
+  amount: number | string
+  credited_at?: string | null
+  created_at: string
+}
+
+export interface DbCycleSchedule {
+  id: string
+  program_id: string
+  participant_id?: string | null
+  frequency?: string | null
+  interval_days?: number | null
+  budget: number | string
+  carry_forward?: string | null
+  is_active?: boolean | null
 }
 
 export interface DbMilestone {
@@ -66,9 +129,32 @@ export interface DbMilestone {
   category?: string | null
   start_date?: string | null
   deadline: string
+  completion_reward?: number | string | null
   created_at?: string | null
 }
 
+// A milestones row with no participant linked yet, e.g. one copied into a new
+// cohort by cloneProgram.
+export interface UnassignedMilestone {
+  id: string
+  title: string
+  description?: string
+  category: MilestoneCategory
+  startDate: string
+  endDate: string
+}
+
+export interface DbMilestoneTemplate {
+  id: string
+  program_id: string
+  title: string
+  description?: string | null
+  category?: string | null
+  suggested_duration_days?: number | null
+  is_required?: boolean | null
+  created_by?: string | null
+}
+
 export interface DbMilestoneAssignment {
   id: string
   milestone_id: string
@@ -81,6 +167,12 @@ export interface DbMilestoneAssignment {
   can_decline?: boolean | null
   decline_reason?: string | null
   declined_at?: string | null
+  proof_url?: string | null
+  proof_file_name?: string | null
+  proof_uploaded_at?: string | null
+  review_decision?: string | null
+  review_note?: string | null
+  reviewed_at?: string | null
   manager_response?: {
     accepted?: boolean
     comment?: string
@@ -100,6 +192,28 @@ export interface DbProgressReport {
   manager_feedback?: any
 }
 
+export interface DbComment {
+  id: string
+  assignment_id: string
+  progress_report_id?: string | null
+  parent_id?: string | null
+  author_id: string
+  body: string
+  mentions?: string[] | null
+  created_at: string
+  edited_at?: string | null
+  deleted_at?: string | null
+}
+
+export interface DbCommentRevision {
+  id: string
+  comment_id: string
+  action: string
+  body: string
+  revised_by?: string | null
+  created_at: string
+}
+
 export function dbProgramToProgram(program: DbProgram): Program {
   const participantIds = (program.program_participants || [])
     .filter((participant) => participant.status !== 'inactive')
@@ -114,6 +228,8 @@ export function dbProgramToProgram(program: DbProgram): Program {
     startDate: program.start_date,
     endDate: program.end_date,
     status: normalizeProgramStatus(program.status),
+    totalBudget: program.total_budget == null ? undefined : Number(program.total_budget),
+    currency: program.currency || undefined,
     createdBy: program.manager_id || '',
     createdAt: program.created_at || ''
   }
@@ -134,10 +250,22 @@ export function dbExpenseToExpense(expense: DbExpense): Expense {
     date: expense.date,
     item: expense.description,
     amount: Number(expense.amount),
+    currency: expense.currency || undefined,
     category: expense.category || undefined,
+    categoryId: expense.category_id || undefined,
     receiptUrl: expense.receipt_url || undefined,
+    receiptHash: expense.receipt_hash || undefined,
+    merchant: expense.merchant || undefined,
+    paymentMethod: expense.payment_method || undefined,
+    receiptSubtotal: expense.receipt_subtotal == null ? undefined : Number(expense.receipt_subtotal),
+    receiptTax: expense.receipt_tax == null ? undefined : Number(expense.receipt_tax),
+    receiptTip: expense.receipt_tip == null ? undefined : Number(expense.receipt_tip),
+    receiptTotal: expense.receipt_total == null ? undefined : Number(expense.receipt_total),
     contact: expense.contact || undefined,
-    remarks: expense.remarks || undefined
+    remarks: expense.remarks || undefined,
+    status: normalizeExpenseStatus(expense.status),
+    reviewReason: expense.review_reason || undefined,
+    reviewedAt: expense.reviewed_at || undefined
   }
 }
 
@@ -146,11 +274,14 @@ export function expenseToDbInsert(cycleId: string, expense: Omit<Expense, 'id'>)
     cycle_id: cycleId,
     description: expense.item,
     amount: expense.amount,
+    currency: expense.currency,
     date: expense.date,
     category: expense.category,
+    category_id: expense.categoryId,
     contact: expense.contact,
     remarks: expense.remarks,
-    receipt_url: expense.receiptUrl
+    receipt_url: expense.receiptUrl,
+    ...receiptDetailsToDb(expense)
   }
 }
 
@@ -158,11 +289,76 @@ export function expenseToDbUpdate(expense: Expense) {
   return {
     description: expense.item,
     amount: expense.amount,
+    currency: expense.currency,
     date: expense.date,
-    category: expense.category,
+    // Explicit nulls so clearing the category on edit is persisted.
+    category: expense.category ?? null,
+    category_id: expense.categoryId ?? null,
     contact: expense.contact,
     remarks: expense.remarks,
-    receipt_url: expense.receiptUrl
+    receipt_url: expense.receiptUrl,
+    ...receiptDetailsToDb(expense)
+  }
+}
+
+// Left undefined (not null) when absent so an update that did not re-read the
+// receipt keeps the stored figures.
+function receiptDetailsToDb(expense: Omit<Expense, 'id'>) {
+  return {
+    receipt_hash: expense.receiptHash,
+    merchant: expense.merchant,
+    payment_method: expense.paymentMethod,
+    receipt_subtotal: expense.receiptSubtotal,
+    receipt_tax: expense.receiptTax,
+    receipt_tip: expense.receiptTip,
+    receipt_total: expense.receiptTotal
+  }
+}
+
+export function dbExpenseCategoryToExpenseCategory(category: DbExpenseCategory): ExpenseCategory {
+  return {
+    id: category.id,
+    programId: category.program_id,
+    name: category.name,
+    color: category.color || '#6366f1',
+    cycleCap: category.cycle_cap == null ? undefined : Number(category.cycle_cap)
+  }
+}
+
+export function expenseCategoryToDbInsert(
+  programId: string,
+  category: Omit<ExpenseCategory, 'id' | 'programId'>
+) {
+  return {
+    program_id: programId,
+    ...expenseCategoryToDbUpdate(category)
+  }
+}
+
+export function expenseCategoryToDbUpdate(category: Omit<ExpenseCategory, 'id' | 'programId'>) {
+  return {
+    name: category.name.trim(),
+    color: category.color,
+    cycle_cap: category.cycleCap ?? null
+  }
+}
+
+export function dbExchangeRateToExchangeRate(rate: DbExchangeRate): ExchangeRate {
+  return {
+    id: rate.id,
+    fromCurrency: rate.from_currency,
+    toCurrency: rate.to_currency,
+    rate: Number(rate.rate),
+    effectiveDate: rate.effective_date
+  }
+}
+
+export function exchangeRateToDbInsert(rate: Omit<ExchangeRate, 'id'>) {
+  return {
+    from_currency: rate.fromCurrency.toUpperCase(),
+    to_currency: rate.toCurrency.toUpperCase(),
+    rate: rate.rate,
+    effective_date: rate.effectiveDate
   }
 }
 
@@ -176,7 +372,50 @@ export function dbCycleToBalanceSheetCycle(
     endDate: cycle.end_date,
     budget: Number(cycle.budget),
     isActive: !!cycle.is_active,
-    expenses
+    expenses,
+    carriedForward: cycle.carried_forward ? Number(cycle.carried_forward) : undefined,
+    scheduleId: cycle.schedule_id || undefined,
+    rewards: (cycle.milestone_rewards || [])
+      .map(dbMilestoneRewardToMilestoneReward)
+      .sort((a, b) => (a.creditedAt || a.createdAt).localeCompare(b.creditedAt || b.createdAt))
+  }
+}
+
+export function dbMilestoneRewardToMilestoneReward(reward: DbMilestoneReward): MilestoneReward {
+  return {
+    id: reward.id,
+    assignmentId: reward.assignment_id || undefined,
+    cycleId: reward.cycle_id || undefined,
+    milestoneTitle: reward.milestone_name,
+    amount: Number(reward.amount),
+    creditedAt: reward.credited_at || undefined,
+    createdAt: reward.created_at
+  }
+}
+
+export function dbCycleScheduleToCycleSchedule(schedule: DbCycleSchedule): CycleSchedule {
+  const frequency = normalizeCycleFrequency(schedule.frequency)
+  return {
+    id: schedule.id,
+    programId: schedule.program_id,
+    participantId: schedule.participant_id || undefined,
+    frequency,
+    intervalDays: frequency === 'custom' ? schedule.interval_days || 30 : undefined,
+    budget: Number(schedule.budget),
+    carryForward: normalizeCarryForwardMode(schedule.carry_forward),
+    isActive: schedule.is_active ?? true
+  }
+}
+
+export function cycleScheduleToDbUpdate(
+  schedule: Omit<CycleSchedule, 'id' | 'programId' | 'participantId'>
+) {
+  return {
+    frequency: schedule.frequency,
+    interval_days: schedule.frequency === 'custom' ? schedule.intervalDays ?? null : null,
+    budget: schedule.budget,
+    carry_forward: schedule.carryForward,
+    is_active: schedule.isActive
   }
 }
 
@@ -199,7 +438,33 @@ export function dbMilestoneAssignmentToMilestone(
     status: normalizeMilestoneStatus(assignment.status),
     createdAt: assignment.assigned_at || '',
     progressReports,
-    assignmentInfo: dbAssignmentInfoToAssignmentInfo(assignment)
+    assignmentInfo: dbAssignmentInfoToAssignmentInfo(assignment),
+    completionReward: milestone?.completion_reward ? Number(milestone.completion_reward) : undefined,
+    proof: assignment.proof_url
+      ? {
+          fileName: assignment.proof_file_name || 'Proof of completion',
+          uploadedAt: assignment.proof_uploaded_at || ''
+        }
+      : undefined,
+    review: assignment.review_decision === 'verified' || assignment.review_decision === 'changes_requested'
+      ? {
+          decision: assignment.review_decision,
+          note: assignment.review_note || undefined,
+          reviewedAt: assignment.reviewed_at || undefined
+        }
+      : undefined,
+    isVerified: assignment.status === 'verified'
+  }
+}
+
+export function dbMilestoneToUnassignedMilestone(milestone: DbMilestone): UnassignedMilestone {
+  return {
+    id: milestone.id,
+    title: milestone.name || 'Untitled Milestone',
+    description: milestone.description || undefined,
+    category: normalizeMilestoneCategory(milestone.category),
+    startDate: milestone.start_date || milestone.created_at || new Date().toISOString(),
+    endDate: milestone.deadline
   }
 }
 
@@ -210,7 +475,9 @@ export function milestoneFormToDbInsert(programId: string, milestone: Partial<Mi
     description: milestone.description || null,
     category: milestone.category || MilestoneCategory.OTHER,
     start_date: milestone.startDate || new Date().toISOString().split('T')[0],
-    deadline: milestone.endDate || milestone.dueDate || new Date().toISOString().split('T')[0]
+    deadline: milestone.endDate || milestone.dueDate || new Date().toISOString().split('T')[0],
+    // Ignored by the database unless the caller manages the program
+    completion_reward: milestone.completionReward || null
   }
 }
 
@@ -224,6 +491,45 @@ export function milestoneFormToDbUpdate(milestone: Partial<Milestone>) {
   }
 }
 
+export function dbMilestoneTemplateToMilestoneTemplate(template: DbMilestoneTemplate): MilestoneTemplate {
+  return {
+    id: template.id,
+    programId: template.program_id,
+    title: template.title,
+    description: template.description || '',
+    category: normalizeMilestoneCategory(template.category),
+    suggestedDuration: template.suggested_duration_days || 7,
+    isRequired: template.is_required ?? true,
+    createdBy: template.created_by || ''
+  }
+}
+
+export function milestoneTemplateToDbInsert(
+  programId: string,
+  template: Omit<MilestoneTemplate, 'id' | 'programId' | 'createdBy'>
+) {
+  return {
+    program_id: programId,
+    title: template.title.trim() || 'Untitled Milestone',
+    description: template.description?.trim() || null,
+    category: template.category || MilestoneCategory.OTHER,
+    suggested_duration_days: Math.max(1, Math.round(template.suggestedDuration || 7)),
+    is_required: template.isRequired
+  }
+}
+
+export function milestoneTemplateToDbUpdate(
+  template: Omit<MilestoneTemplate, 'id' | 'programId' | 'createdBy'>
+) {
+  return {
+    title: template.title.trim() || 'Untitled Milestone',
+    description: template.description?.trim() || null,
+    category: template.category || MilestoneCategory.OTHER,
+    suggested_duration_days: Math.max(1, Math.round(template.suggestedDuration || 7)),
+    is_required: template.isRequired
+  }
+}
+
 export function dbProgressReportToProgressReport(report: DbProgressReport): ProgressReport {
   return {
     id: report.id,
@@ -236,6 +542,34 @@ export function dbProgressReportToProgressReport(report: DbProgressReport): Prog
   }
 }
 
+export function dbCommentToMilestoneComment(comment: DbComment, authorName: string): MilestoneComment {
+  return {
+    id: comment.id,
+    assignmentId: comment.assignment_id,
+    progressReportId: comment.progress_report_id || undefined,
+    parentId: comment.parent_id || undefined,
+    authorId: comment.author_id,
+    authorName,
+    body: comment.body,
+    mentions: comment.mentions || [],
+    createdAt: comment.created_at,
+    editedAt: comment.edited_at || undefined,
+    deletedAt: comment.deleted_at || undefined,
+    replies: []
+  }
+}
+
+export function dbCommentRevisionToCommentRevision(revision: DbCommentRevision): CommentRevision {
+  return {
+    id: revision.id,
+    commentId: revision.comment_id,
+    action: revision.action === 'delete' ? 'delete' : 'edit',
+    body: revision.body,
+    revisedBy: revision.revised_by || undefined,
+    createdAt: revision.created_at
+  }
+}
+
 function dbAssignmentInfoToAssignmentInfo(assignment: DbMilestoneAssignment): AssignmentInfo {
   return {
     assignedBy: assignment.assigned_by || '',
@@ -275,6 +609,23 @@ function normalizeMilestoneStatus(status?: string | null): MilestoneStatus {
   return MilestoneStatus.NOT_STARTED
 }
 
+function normalizeExpenseStatus(status?: string | null): ExpenseStatus {
+  if (status && Object.values(ExpenseStatus).includes(status as ExpenseStatus)) {
+    return status as ExpenseStatus
+  }
+  return ExpenseStatus.SUBMITTED
+}
+
+function normalizeCycleFrequency(frequency?: string | null): CycleFrequency {
+  if (frequency === 'weekly' || frequency === 'custom') return frequency
+  return 'monthly'
+}
+
+function normalizeCarryForwardMode(mode?: string | null): CarryForwardMode {
+  if (mode === 'unspent' || mode === 'overspend' || mode === 'both') return mode
+  return 'none'
+}
+
 function normalizeAssignmentType(type?: string | null): AssignmentType {
   if (type && Object.values(AssignmentType).includes(type as AssignmentType)) {
     return type as AssignmentType
@@ -0,0 +1,23 @@
+// Proof-of-completion file rules shared by the app and the milestone proof API
+// (api/milestone-proof.ts).
+
+export const MAX_PROOF_FILE_SIZE_BYTES = 10 * 1024 * 1024
+
+const ALLOWED_PROOF_MIME_TYPES = new Set([
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/gif',
+  'application/pdf',
+])
+
+// Value for the upload input's accept attribute.
+export const PROOF_FILE_ACCEPT = Array.from(ALLOWED_PROOF_MIME_TYPES).join(',')
+
+export function isSupportedProofFile(file: Pick<File, 'type' | 'size'>) {
+  return ALLOWED_PROOF_MIME_TYPES.has(file.type) && file.size <= MAX_PROOF_FILE_SIZE_BYTES
+}
+
+export function buildMilestoneProofUrl(assignmentId: string) {
+  return `/api/milestone-proof?assignmentId=${encodeURIComponent(assignmentId)}`
+}
@@ -0,0 +1,93 @@
+import { MilestoneProof } from '../../types'
+import { supabase } from './supabase'
+import {
+  buildMilestoneProofUrl,
+  isSupportedProofFile,
+  MAX_PROOF_FILE_SIZE_BYTES,
+  PROOF_FILE_ACCEPT,
+} from './milestoneProofShared'
+
+export { isSupportedProofFile, MAX_PROOF_FILE_SIZE_BYTES, PROOF_FILE_ACCEPT }
+
+// Uploads (or replaces) the proof of completion for one of the signed-in
+// participant's milestone assignments.
+export async function uploadMilestoneProof(assignmentId: string, file: File): Promise<MilestoneProof> {
+  if (!isSupportedProofFile(file)) {
+    throw new Error('Proof must be an image or PDF of at most 10 MB.')
+  }
+
+  const { data: { session } } = await supabase.auth.getSession()
+
+  if (!session?.access_token) {
+    throw new Error('You must be signed in to upload proof.')
+  }
+
+  const formData = new FormData()
+  formData.append('proof', file)
+  formData.append('assignmentId', assignmentId)
+
+  const response = await fetch('/api/milestone-proof', {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${session.access_token}`,
+    },
+    body: formData,
+  })
+
+  const payload = await safeJson(response)
+
+  if (!response.ok) {
+    throw new Error(payload?.error || 'Failed to upload proof.')
+  }
+
+  return {
+    fileName: typeof payload?.fileName === 'string' ? payload.fileName : file.name,
+    uploadedAt: typeof payload?.uploadedAt === 'string' ? payload.uploadedAt : new Date().toISOString(),
+  }
+}
+
+export async function openMilestoneProof(assignmentId: string) {
+  const popup = window.open('', '_blank')
+
+  if (!popup) {
+    throw new Error('Your browser blocked the proof preview popup.')
+  }
+
+  popup.opener = null
+  popup.document.write('<p style="font-family: sans-serif; padding: 16px;">Loading proof...</p>')
+
+  const { data: { session } } = await supabase.auth.getSession()
+
+  if (!session?.access_token) {
+    popup.close()
+    throw new Error('You must be signed in to view proof.')
+  }
+
+  const response = await fetch(buildMilestoneProofUrl(assignmentId), {
+    headers: {
+      Authorization: `Bearer ${session.access_token}`,
+    },
+  })
+
+  if (!response.ok) {
+    const payload = await safeJson(response)
+    popup.close()
+    throw new Error(payload?.error || 'Failed to open proof.')
+  }
+
+  // Keep the API's content type so PDFs render inline instead of downloading.
+  const blob = await response.blob()
+  const contentType = response.headers.get('Content-Type') || blob.type
+  const objectUrl = URL.createObjectURL(blob.type === contentType ? blob : new Blob([blob], { type: contentType }))
+  popup.location.href = objectUrl
+  popup.focus()
+  window.setTimeout(() => URL.revokeObjectURL(objectUrl), 60_000)
+}
+
+async function safeJson(response: Response) {
+  try {
+    return await response.json()
+  } catch {
+    return null
+  }
+}
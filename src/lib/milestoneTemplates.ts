@@ -0,0 +1,76 @@
+import { MilestoneTemplate } from '../../types';
+import {
+  dbMilestoneTemplateToMilestoneTemplate,
+  milestoneTemplateToDbInsert,
+  milestoneTemplateToDbUpdate
+} from './mappers';
+import { supabase } from './supabase';
+
+export type MilestoneTemplateInput = Omit<MilestoneTemplate, 'id' | 'programId' | 'createdBy'>;
+
+export async function getProgramMilestoneTemplates(programId: string): Promise<MilestoneTemplate[]> {
+  const { data, error } = await supabase
+    .from('milestone_templates')
+    .select('*')
+    .eq('program_id', programId)
+    .order('title', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(dbMilestoneTemplateToMilestoneTemplate);
+}
+
+export async function createMilestoneTemplate(
+  programId: string,
+  template: MilestoneTemplateInput
+): Promise<MilestoneTemplate> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  const { data, error } = await supabase
+    .from('milestone_templates')
+    .insert({
+      ...milestoneTemplateToDbInsert(programId, template),
+      created_by: user.id
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return dbMilestoneTemplateToMilestoneTemplate(data);
+}
+
+export async function updateMilestoneTemplate(
+  templateId: string,
+  template: MilestoneTemplateInput
+): Promise<MilestoneTemplate> {
+  // Same zero-row check as updateExpense: an RLS-blocked UPDATE returns no rows
+  // rather than an error.
+  const { data, error } = await supabase
+    .from('milestone_templates')
+    .update(milestoneTemplateToDbUpdate(template))
+    .eq('id', templateId)
+    .select();
+
+  if (error) throw error;
+  if (!data || data.length === 0) {
+    throw new Error(
+      'Template update affected no rows. You may not have permission to edit this template, or it no longer exists.'
+    );
+  }
+  return dbMilestoneTemplateToMilestoneTemplate(data[0]);
+}
+
+export async function deleteMilestoneTemplate(templateId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('milestone_templates')
+    .delete()
+    .eq('id', templateId)
+    .select('id');
+
+  if (error) throw error;
+  if (!data || data.length === 0) {
+    throw new Error(
+      'Template delete affected no rows. You may not have permission to delete this template, or it no longer exists.'
+    );
+  }
+}
@@ -1,10 +1,17 @@
 import {
   AssignmentType,
   Milestone,
+  MilestoneReviewDecision,
   MilestoneStatus,
   ProgressReport
 } from '../../types';
-import { dbMilestoneAssignmentToMilestone, milestoneFormToDbInsert, milestoneFormToDbUpdate } from './mappers';
+import {
+  dbMilestoneAssignmentToMilestone,
+  dbMilestoneToUnassignedMilestone,
+  milestoneFormToDbInsert,
+  milestoneFormToDbUpdate,
+  UnassignedMilestone
+} from './mappers';
 import { supabase } from './supabase';
 
 interface AssignmentInput {
@@ -135,6 +142,62 @@ export async function createMilestoneAssignments(
   );
 }
 
+export async function getUnassignedProgramMilestones(programId: string): Promise<UnassignedMilestone[]> {
+  const { data, error } = await supabase
+    .from('milestones')
+    .select(`
+      *,
+      milestone_assignments (id)
+    `)
+    .eq('program_id', programId)
+    .order('start_date', { ascending: true });
+
+  if (error) throw error;
+
+  return ((data || []) as any[])
+    .filter((milestone) => (milestone.milestone_assignments || []).length === 0)
+    .map((milestone) => dbMilestoneToUnassignedMilestone(milestone));
+}
+
+// Links an existing milestones row (rather than a newly created one, as
+// createMilestoneAssignments does) to each participant.
+export async function assignExistingMilestone(
+  milestoneId: string,
+  participantIds: string[],
+  options: { isRequired?: boolean; canDecline?: boolean } = {}
+): Promise<Milestone[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+  if (participantIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('milestone_assignments')
+    .insert(
+      participantIds.map((participantId) => ({
+        milestone_id: milestoneId,
+        participant_id: participantId,
+        status: 'pending',
+        assignment_type: participantIds.length > 1
+          ? AssignmentType.BULK_ASSIGNED
+          : AssignmentType.MANAGER_ASSIGNED,
+        is_required: options.isRequired ?? true,
+        can_decline: options.canDecline ?? false,
+        assigned_by: user.id
+      }))
+    )
+    .select(`
+      *,
+      milestone:milestone_id (*),
+      progress_reports (*)
+    `);
+
+  if (error) throw error;
+
+  return ((data || []) as any[]).map((dbAssignment) =>
+    dbMilestoneAssignmentToMilestone(dbAssignment as any)
+  );
+}
+
 export async function createSelfMilestone(
   programId: string | undefined,
   milestone: Omit<Milestone, 'id' | 'userId' | 'createdAt' | 'progressReports'>
@@ -178,6 +241,39 @@ export async function updateAssignmentStatus(
   if (error) throw error;
 }
 
+// Manager review of a completed milestone. Verifying moves it to 'verified';
+// requesting changes sends it back to in_progress with a note. The
+// enforce_milestone_verification trigger stamps the reviewer and rejects this
+// for anyone who cannot manage the program.
+export async function reviewMilestoneCompletion(
+  assignmentId: string,
+  decision: MilestoneReviewDecision,
+  note?: string
+): Promise<void> {
+  const reviewNote = note?.trim() || null;
+  if (decision === 'changes_requested' && !reviewNote) {
+    throw new Error('Describe the changes needed before sending the milestone back.');
+  }
+
+  const { data, error } = await supabase
+    .from('milestone_assignments')
+    .update(
+      decision === 'verified'
+        ? { status: 'verified', review_decision: decision, review_note: reviewNote }
+        : { status: 'in_progress', completion_date: null, review_decision: decision, review_note: reviewNote }
+    )
+    .eq('id', assignmentId)
+    .eq('status', 'completed')
+    .select('id');
+
+  if (error) throw error;
+  if (!data || data.length === 0) {
+    throw new Error(
+      'Milestone review affected no rows. You may not have permission to review this milestone, or it is no longer awaiting review.'
+    );
+  }
+}
+
 export async function updateMilestoneAssignment(
   assignmentId: string,
   milestone: Omit<Milestone, 'id' | 'userId' | 'createdAt' | 'progressReports'>
@@ -291,35 +387,3 @@ export async function createProgressReport(
 
   if (error) throw error;
 }
-
-export async function addManagerFeedback(
-  reportId: string,
-  managerId: string,
-  feedback: string
-): Promise<void> {
-  const { data: report, error: fetchError } = await supabase
-    .from('progress_reports')
-    .select('manager_feedback')
-    .eq('id', reportId)
-    .single();
-
-  if (fetchError) throw fetchError;
-
-  const existing = Array.isArray(report.manager_feedback) ? report.manager_feedback : [];
-
-  const { error } = await supabase
-    .from('progress_reports')
-    .update({
-      manager_feedback: [
-        ...existing,
-        {
-          managerId,
-          feedback,
-          feedbackDate: new Date().toISOString()
-        }
-      ]
-    })
-    .eq('id', reportId);
-
-  if (error) throw error;
-}
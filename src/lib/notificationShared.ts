@@ -0,0 +1,62 @@
+// Notification types and email preferences shared by the app and the
+// notification emailer (api/notification-emailer.ts), which cannot import the
+// browser Supabase client in notifications.ts.
+
+export type NotificationType =
+  | 'assignment'
+  | 'feedback'
+  | 'deadline'
+  | 'decline'
+  | 'progress_report'
+  | 'milestone_completed'
+  | 'milestone_review'
+  | 'budget_exceeded'
+  | 'comment'
+  | 'mention'
+  | 'general'
+
+// Participant activity that notifies the program's manager (database triggers
+// in the manager activity migration). Each can be turned off per manager.
+export type ManagerNotificationEvent = 'progress_report' | 'milestone_completed' | 'budget_exceeded'
+
+export const MANAGER_NOTIFICATION_EVENTS: ManagerNotificationEvent[] = [
+  'progress_report',
+  'milestone_completed',
+  'budget_exceeded',
+]
+
+// How a user wants notifications emailed. Users without a saved preference
+// get 'immediate'.
+export type NotificationEmailMode = 'immediate' | 'daily_digest' | 'off'
+
+export const DEFAULT_NOTIFICATION_EMAIL_MODE: NotificationEmailMode = 'immediate'
+
+// Digests go out on the first emailer run at or after this hour (UTC).
+export const NOTIFICATION_DIGEST_HOUR_UTC = 7
+
+export function normalizeNotificationEmailMode(value: unknown): NotificationEmailMode {
+  return value === 'daily_digest' || value === 'off' || value === 'immediate'
+    ? value
+    : DEFAULT_NOTIFICATION_EMAIL_MODE
+}
+
+export function normalizeManagerNotificationEvent(value: unknown): ManagerNotificationEvent | null {
+  return MANAGER_NOTIFICATION_EVENTS.includes(value as ManagerNotificationEvent)
+    ? (value as ManagerNotificationEvent)
+    : null
+}
+
+export function normalizeNotificationType(value: unknown): NotificationType {
+  if (
+    value === 'assignment' ||
+    value === 'feedback' ||
+    value === 'deadline' ||
+    value === 'decline' ||
+    value === 'milestone_review' ||
+    value === 'comment' ||
+    value === 'mention'
+  ) {
+    return value
+  }
+  return normalizeManagerNotificationEvent(value) ?? 'general'
+}
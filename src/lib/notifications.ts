@@ -1,6 +1,13 @@
 import { supabase } from './supabase';
+import {
+  normalizeManagerNotificationEvent,
+  normalizeNotificationEmailMode,
+  type ManagerNotificationEvent,
+  type NotificationEmailMode,
+  type NotificationType
+} from './notificationShared';
 
-export type NotificationType = 'assignment' | 'feedback' | 'deadline' | 'decline' | 'general';
+export type { ManagerNotificationEvent, NotificationEmailMode, NotificationType } from './notificationShared';
 
 export interface AppNotification {
   id: string;
@@ -10,9 +17,34 @@ export interface AppNotification {
   message: string;
   data?: any;
   read: boolean;
+  archivedAt?: string;
   createdAt: string;
 }
 
+// Inbox = not archived; unread is a subset of the inbox.
+export type NotificationFolder = 'inbox' | 'unread' | 'archived';
+
+export interface NotificationPageQuery {
+  folder: NotificationFolder;
+  types?: NotificationType[];
+  page: number; // zero-based
+  pageSize: number;
+}
+
+// Where clicking a notification takes the user.
+export interface NotificationTarget {
+  view: 'milestone' | 'expense' | 'program';
+  programId: string;
+  assignmentId?: string;
+  expenseId?: string;
+}
+
+export type NotificationChange =
+  | { type: 'INSERT' | 'UPDATE'; notification: AppNotification }
+  | { type: 'DELETE'; id: string };
+
+let notificationChannelCount = 0;
+
 function mapNotification(row: any): AppNotification {
   return {
     id: row.id,
@@ -22,6 +54,7 @@ function mapNotification(row: any): AppNotification {
     message: row.message,
     data: row.metadata || undefined,
     read: row.is_read ?? row.read ?? false,
+    archivedAt: row.archived_at || undefined,
     createdAt: row.created_at
   };
 }
@@ -30,6 +63,7 @@ export async function getMyNotifications(): Promise<AppNotification[]> {
   const { data, error } = await supabase
     .from('notifications')
     .select('*')
+    .is('archived_at', null)
     .order('created_at', { ascending: false })
     .limit(100);
 
@@ -41,7 +75,8 @@ export async function getUnreadNotificationCount(): Promise<number> {
   const { count, error } = await supabase
     .from('notifications')
     .select('id', { count: 'exact', head: true })
-    .eq('is_read', false);
+    .eq('is_read', false)
+    .is('archived_at', null);
 
   if (error) throw error;
   return count || 0;
@@ -68,6 +103,213 @@ export async function markAllNotificationsRead(): Promise<void> {
   if (error) throw error;
 }
 
+export async function getNotificationsPage(
+  query: NotificationPageQuery
+): Promise<{ notifications: AppNotification[]; total: number }> {
+  const from = query.page * query.pageSize;
+
+  let request = supabase
+    .from('notifications')
+    .select('*', { count: 'exact' })
+    .order('created_at', { ascending: false })
+    .range(from, from + query.pageSize - 1);
+
+  if (query.folder === 'archived') {
+    request = request.not('archived_at', 'is', null);
+  } else {
+    request = request.is('archived_at', null);
+  }
+  if (query.folder === 'unread') {
+    request = request.eq('is_read', false);
+  }
+  if (query.types && query.types.length > 0) {
+    request = request.in('type', query.types);
+  }
+
+  const { data, count, error } = await request;
+
+  if (error) throw error;
+  return { notifications: (data || []).map(mapNotification), total: count || 0 };
+}
+
+// Archiving also marks as read, so archived rows never count as unread.
+export async function archiveNotifications(notificationIds: string[]): Promise<void> {
+  if (notificationIds.length === 0) return;
+
+  const { data, error } = await supabase
+    .from('notifications')
+    .update({ archived_at: new Date().toISOString(), is_read: true, read: true })
+    .in('id', notificationIds)
+    .select('id');
+
+  if (error) throw error;
+  if (!data || data.length === 0) {
+    throw new Error('Notification archive affected no rows. The notifications may no longer exist.');
+  }
+}
+
+export async function unarchiveNotification(notificationId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('notifications')
+    .update({ archived_at: null })
+    .eq('id', notificationId)
+    .select('id');
+
+  if (error) throw error;
+  if (!data || data.length === 0) {
+    throw new Error('Notification restore affected no rows. The notification may no longer exist.');
+  }
+}
+
+export async function deleteNotification(notificationId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('notifications')
+    .delete()
+    .eq('id', notificationId)
+    .select('id');
+
+  if (error) throw error;
+  if (!data || data.length === 0) {
+    throw new Error('Notification delete affected no rows. The notification may no longer exist.');
+  }
+}
+
+/**
+ * Work out what a notification refers to from its metadata. Older
+ * notifications only carry an assignment or expense id, so the program is
+ * looked up from that. Returns null when there is nothing to open.
+ */
+export async function resolveNotificationTarget(notification: AppNotification): Promise<NotificationTarget | null> {
+  const data = notification.data || {};
+  const programId: string | undefined = typeof data.programId === 'string' ? data.programId : undefined;
+
+  if (typeof data.expenseId === 'string') {
+    if (programId) return { view: 'expense', programId, expenseId: data.expenseId };
+
+    const { data: expense, error } = await supabase
+      .from('expenses')
+      .select('id, balance_cycles(program_id)')
+      .eq('id', data.expenseId)
+      .maybeSingle();
+
+    if (error) throw error;
+    const expenseProgramId = (expense?.balance_cycles as { program_id: string } | null)?.program_id;
+    return expenseProgramId ? { view: 'expense', programId: expenseProgramId, expenseId: data.expenseId } : null;
+  }
+
+  if (typeof data.assignmentId === 'string') {
+    if (programId) return { view: 'milestone', programId, assignmentId: data.assignmentId };
+
+    const { data: assignment, error } = await supabase
+      .from('milestone_assignments')
+      .select('id, milestones(program_id)')
+      .eq('id', data.assignmentId)
+      .maybeSingle();
+
+    if (error) throw error;
+    const assignmentProgramId = (assignment?.milestones as { program_id: string | null } | null)?.program_id;
+    return assignmentProgramId
+      ? { view: 'milestone', programId: assignmentProgramId, assignmentId: data.assignmentId }
+      : null;
+  }
+
+  return programId ? { view: 'program', programId } : null;
+}
+
+/**
+ * Subscribe to realtime changes on the user's notifications. onStatus reports
+ * whether the subscription is live, so callers can fall back to polling while
+ * it is not. Returns an unsubscribe function.
+ */
+export function subscribeToNotifications(
+  userId: string,
+  onChange: (change: NotificationChange) => void,
+  onStatus?: (isLive: boolean) => void
+): () => void {
+  notificationChannelCount += 1;
+
+  const channel = supabase
+    .channel(`notifications:${userId}:${notificationChannelCount}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+      (payload) => {
+        if (payload.eventType === 'DELETE') {
+          // Not filtered by user_id: deletes carry only the primary key.
+          if (payload.old?.id) onChange({ type: 'DELETE', id: payload.old.id });
+          return;
+        }
+
+        onChange({ type: payload.eventType, notification: mapNotification(payload.new) });
+      }
+    )
+    .subscribe((status) => {
+      onStatus?.(status === 'SUBSCRIBED');
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+export async function getNotificationEmailMode(): Promise<NotificationEmailMode> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  const { data, error } = await supabase
+    .from('notification_email_preferences')
+    .select('mode')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return normalizeNotificationEmailMode(data?.mode);
+}
+
+export async function setNotificationEmailMode(mode: NotificationEmailMode): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  const { error } = await supabase
+    .from('notification_email_preferences')
+    .upsert({ user_id: user.id, mode }, { onConflict: 'user_id' });
+
+  if (error) throw error;
+}
+
+// Participant activity events the signed-in manager has turned off.
+export async function getManagerNotificationOptOuts(): Promise<ManagerNotificationEvent[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  const { data, error } = await supabase
+    .from('manager_notification_opt_outs')
+    .select('event_type')
+    .eq('user_id', user.id);
+
+  if (error) throw error;
+  return (data || [])
+    .map((row) => normalizeManagerNotificationEvent(row.event_type))
+    .filter((event): event is ManagerNotificationEvent => event !== null);
+}
+
+export async function setManagerNotificationOptOut(event: ManagerNotificationEvent, optedOut: boolean): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  const { error } = optedOut
+    ? await supabase
+        .from('manager_notification_opt_outs')
+        .upsert({ user_id: user.id, event_type: event }, { onConflict: 'user_id,event_type', ignoreDuplicates: true })
+    : await supabase
+        .from('manager_notification_opt_outs')
+        .delete()
+        .eq('user_id', user.id)
+        .eq('event_type', event);
+
+  if (error) throw error;
+}
+
 export async function createNotification(input: {
   userId: string;
   type: NotificationType;
@@ -124,30 +366,6 @@ export async function notifyAssignment(input: {
   });
 }
 
-export async function notifyFeedback(input: {
-  participantId: string;
-  managerName: string;
-  milestoneTitle: string;
-  feedback: string;
-  assignmentId: string;
-  reportId: string;
-}): Promise<void> {
-  const preview = input.feedback.length > 100
-    ? `${input.feedback.slice(0, 100)}...`
-    : input.feedback;
-
-  await createNotification({
-    userId: input.participantId,
-    type: 'feedback',
-    title: 'Manager Feedback Received',
-    message: `${input.managerName} provided feedback on "${input.milestoneTitle}": "${preview}"`,
-    data: {
-      assignmentId: input.assignmentId,
-      reportId: input.reportId
-    }
-  });
-}
-
 export async function notifyDecline(input: {
   managerId: string;
   participantName: string;
@@ -0,0 +1,45 @@
+import { supabase } from './supabase';
+
+export interface ProgramOcrQuota {
+  programId: string;
+  programName: string;
+  programStatus: string;
+  dailyLimit: number | null; // null = not capped
+  usedToday: number; // Receipt scans so far today (UTC)
+}
+
+// Admin only: every program with its receipt scan limit and today's usage.
+export async function getProgramOcrQuotas(): Promise<ProgramOcrQuota[]> {
+  const [programsResult, quotasResult, usageResult] = await Promise.all([
+    supabase.from('programs').select('id, name, status').order('name', { ascending: true }),
+    supabase.from('program_ocr_quotas').select('program_id, daily_limit'),
+    supabase.rpc('get_program_ocr_usage_today')
+  ]);
+
+  if (programsResult.error) throw programsResult.error;
+  if (quotasResult.error) throw quotasResult.error;
+  if (usageResult.error) throw usageResult.error;
+
+  const limits = new Map((quotasResult.data || []).map((quota) => [quota.program_id, quota.daily_limit]));
+  const usage = new Map((usageResult.data || []).map((row) => [row.program_id, row.used_today]));
+
+  return (programsResult.data || []).map((program) => ({
+    programId: program.id,
+    programName: program.name,
+    programStatus: program.status || 'active',
+    dailyLimit: limits.get(program.id) ?? null,
+    usedToday: usage.get(program.id) ?? 0
+  }));
+}
+
+// Pass null to remove the program's cap.
+export async function setProgramOcrQuota(programId: string, dailyLimit: number | null): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  const { error } = await supabase
+    .from('program_ocr_quotas')
+    .upsert({ program_id: programId, daily_limit: dailyLimit, updated_by: user.id }, { onConflict: 'program_id' });
+
+  if (error) throw error;
+}
@@ -0,0 +1,128 @@
+// Program report figures rendered as a PDF by /api/program-report and the
+// report scheduler. This is the ReportsAnalytics report without programInfo;
+// the server builds it from the database (api/_lib/programReportData.ts).
+
+export interface ProgramReportPerson {
+  name: string
+  email: string
+}
+
+export interface ProgramReportMetrics {
+  participants: number
+  milestones: {
+    total: number
+    completed: number
+    inProgress: number
+    notStarted: number
+    assigned: number
+    selfCreated: number
+  }
+  progress: {
+    overallCompletion: number
+    averageCompletion: number
+    topPerformers: { participant: ProgramReportPerson; completionRate: number }[]
+    needsAttention: { participant: ProgramReportPerson; lastActivity: string | null }[]
+  }
+  financial: {
+    totalBudget: number
+    totalSpent: number
+    averageUtilization: number
+    overBudget: number
+  }
+  engagement: {
+    totalReports: number
+    averageReportsPerParticipant: number
+    activeParticipants: number
+    inactiveParticipants: number
+  }
+  timeline: {
+    programProgress: number
+    daysRemaining: number
+    daysElapsed: number
+  }
+}
+
+// A generated PDF kept in the program-reports bucket.
+export interface StoredProgramReport {
+  id: string
+  programId: string
+  title: string
+  fileSize: number
+  createdBy: string | null
+  createdAt: string
+}
+
+// Keeps the PDF to a sensible size however many participants a program has.
+export const MAX_REPORT_LIST_ROWS = 50
+
+export type ReportScheduleFrequency = 'weekly' | 'monthly'
+
+/**
+ * The first run of a report schedule after `now`, stepping from its current
+ * next_run_at one period at a time. Monthly runs keep the day of month where
+ * it exists and fall back to the month's last day (Jan 31 -> Feb 28).
+ */
+export function advanceReportRun(frequency: ReportScheduleFrequency, nextRunAt: Date, now = new Date()) {
+  const dayOfMonth = nextRunAt.getUTCDate()
+  let next = new Date(nextRunAt.getTime())
+  let periods = 0
+
+  while (next.getTime() <= now.getTime()) {
+    periods += 1
+    if (frequency === 'weekly') {
+      next = new Date(nextRunAt.getTime() + periods * 7 * 24 * 60 * 60 * 1000)
+    } else {
+      const target = new Date(nextRunAt.getTime())
+      target.setUTCDate(1)
+      target.setUTCMonth(target.getUTCMonth() + periods)
+      const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate()
+      target.setUTCDate(Math.min(dayOfMonth, lastDay))
+      next = target
+    }
+  }
+
+  return next
+}
+
+export type ReportDeliveryStatus = 'sent' | 'failed'
+
+// One emailing of a program report, scheduled or sent by hand.
+export interface ReportDelivery {
+  id: string
+  programId: string
+  scheduleId: string | null
+  reportId: string | null
+  recipients: string[]
+  status: ReportDeliveryStatus
+  error: string | null
+  createdAt: string
+}
+
+export const MAX_REPORT_RECIPIENTS = 20
+
+/**
+ * Split a comma, semicolon or newline separated recipient list. Returns the
+ * de-duplicated, lower-cased addresses and any entries that are not emails.
+ */
+export function parseReportRecipients(value: string | string[]) {
+  const entries = (Array.isArray(value) ? value : value.split(/[,;\n]/))
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean)
+  const isEmail = (entry: string) => /^[^\s@<>"]+@[^\s@<>"]+\.[^\s@<>"]+$/.test(entry)
+
+  return {
+    recipients: [...new Set(entries.filter(isEmail))],
+    invalid: entries.filter((entry) => !isEmail(entry)),
+  }
+}
+
+// Emails the program report to `recipients` every week or month from nextRunAt.
+export interface ReportSchedule {
+  id: string
+  programId: string
+  frequency: ReportScheduleFrequency
+  recipients: string[]
+  nextRunAt: string
+  lastRunAt: string | null
+  isActive: boolean
+}
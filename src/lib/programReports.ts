@@ -0,0 +1,91 @@
+import { supabase } from './supabase'
+import type { ProgramReportMetrics, StoredProgramReport } from './programReportShared'
+
+export type { ProgramReportMetrics, StoredProgramReport }
+
+async function getAccessToken(action: string) {
+  const { data: { session } } = await supabase.auth.getSession()
+
+  if (!session?.access_token) {
+    throw new Error(`You must be signed in to ${action}.`)
+  }
+
+  return session.access_token
+}
+
+// Builds the report from the database, renders it as a PDF on the server and
+// stores it with the program.
+export async function generateProgramReportPdf(programId: string): Promise<StoredProgramReport> {
+  const accessToken = await getAccessToken('generate reports')
+
+  const response = await fetch('/api/program-report', {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ programId }),
+  })
+
+  const payload = await safeJson(response)
+
+  if (!response.ok || !payload) {
+    throw new Error(payload?.error || 'Failed to generate the PDF report.')
+  }
+
+  return payload as StoredProgramReport
+}
+
+export async function listProgramReports(programId: string): Promise<StoredProgramReport[]> {
+  const { data, error } = await supabase
+    .from('program_reports')
+    .select('id, program_id, title, file_size, created_by, created_at')
+    .eq('program_id', programId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw error
+  }
+
+  return (data || []).map((report) => ({
+    id: report.id,
+    programId: report.program_id,
+    title: report.title,
+    fileSize: report.file_size,
+    createdBy: report.created_by,
+    createdAt: report.created_at,
+  }))
+}
+
+export async function downloadProgramReport(reportId: string) {
+  const accessToken = await getAccessToken('download reports')
+
+  const response = await fetch(`/api/program-report?id=${encodeURIComponent(reportId)}`, {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+    },
+  })
+
+  if (!response.ok) {
+    const payload = await safeJson(response)
+    throw new Error(payload?.error || 'Failed to download the report.')
+  }
+
+  const fileName = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || 'program_report.pdf'
+  const objectUrl = URL.createObjectURL(await response.blob())
+  const link = document.createElement('a')
+  link.href = objectUrl
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  window.setTimeout(() => URL.revokeObjectURL(objectUrl), 60_000)
+}
+
+async function safeJson(response: Response) {
+  try {
+    return await response.json()
+  } catch {
+    return null
+  }
+}
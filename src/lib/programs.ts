@@ -10,6 +10,10 @@
 
 import { supabase } from './supabase'
 import { logAuditEvent } from './audit'
+import { assertProgramBudgetAvailable } from './cycles'
+import { getProgramBudgetAllocations } from './finance'
+import { DEFAULT_CURRENCY, findExchangeRate, getExchangeRates } from './currency'
+import type { DeadlineReminderSettings } from '../../types'
 
 /**
  * Get all programs for the current user
@@ -313,6 +317,55 @@ export async function createProgram(program: {
   return data
 }
 
+/**
+ * Clone a program for a new cohort
+ * Copies the program record, budget, milestones (dates shifted to the new
+ * start date), milestone templates, expense categories, the program-wide
+ * cycle schedule and reminder offsets in a single transaction via the
+ * clone_program RPC. Participants and their finances are not copied.
+ */
+export async function cloneProgram(
+  sourceProgramId: string,
+  options: {
+    name: string
+    start_date: string
+    end_date?: string
+    total_budget?: number
+    copy_manager?: boolean
+  }
+) {
+  const { data: newProgramId, error } = await supabase
+    .rpc('clone_program', {
+      p_source_program_id: sourceProgramId,
+      p_name: options.name,
+      p_start_date: options.start_date,
+      p_end_date: options.end_date,
+      p_total_budget: options.total_budget,
+      p_copy_manager: options.copy_manager ?? false
+    })
+
+  if (error) throw error
+  if (!newProgramId) throw new Error('Program was not cloned')
+
+  const { data, error: fetchError } = await supabase
+    .from('programs')
+    .select('*')
+    .eq('id', newProgramId)
+    .single()
+
+  if (fetchError) throw fetchError
+  await logAuditEvent({
+    action: 'CLONE_PROGRAM',
+    programId: data.id,
+    metadata: {
+      sourceProgramId,
+      programName: data.name,
+      copyManager: options.copy_manager ?? false
+    }
+  })
+  return data
+}
+
 /**
  * Update an existing program
  */
@@ -324,6 +377,7 @@ export async function updateProgram(
     start_date: string
     end_date: string
     total_budget: number
+    currency: string
     status: string
   }>
 ) {
@@ -344,6 +398,51 @@ export async function updateProgram(
   return data
 }
 
+/**
+ * Get a program's milestone deadline reminder offsets
+ */
+export async function getDeadlineReminderSettings(programId: string): Promise<DeadlineReminderSettings> {
+  const { data, error } = await supabase
+    .from('programs')
+    .select('deadline_reminder_days, overdue_reminder_days')
+    .eq('id', programId)
+    .single()
+
+  if (error) throw error
+  return {
+    daysBefore: data.deadline_reminder_days || [],
+    daysOverdue: data.overdue_reminder_days || []
+  }
+}
+
+/**
+ * Update a program's milestone deadline reminder offsets
+ */
+export async function updateDeadlineReminderSettings(programId: string, settings: DeadlineReminderSettings) {
+  const daysBefore = [...new Set(settings.daysBefore)].sort((a, b) => b - a)
+  const daysOverdue = [...new Set(settings.daysOverdue)].sort((a, b) => a - b)
+
+  const { data, error } = await supabase
+    .from('programs')
+    .update({ deadline_reminder_days: daysBefore, overdue_reminder_days: daysOverdue })
+    .eq('id', programId)
+    .select('id')
+
+  if (error) throw error
+  if (!data || data.length === 0) {
+    throw new Error(
+      'Deadline reminder update affected no rows. You may not have permission to change this program, or it no longer exists.'
+    )
+  }
+
+  await logAuditEvent({
+    action: 'UPDATE_DEADLINE_REMINDERS',
+    programId,
+    metadata: { daysBefore, daysOverdue }
+  })
+  return { daysBefore, daysOverdue }
+}
+
 /**
  * Delete a program (soft delete by setting status)
  */
@@ -397,6 +496,8 @@ export async function createBalanceCycle(cycle: {
   const { data: { user } } = await supabase.auth.getUser()
   if (!user) throw new Error('Not authenticated')
 
+  await assertProgramBudgetAvailable(cycle.program_id, cycle.budget)
+
   const { data, error } = await supabase
     .from('balance_cycles')
     .insert({
@@ -804,16 +905,42 @@ export async function getSystemStats() {
     invitesResult,
     participantsResult,
     managersResult,
-    adminsResult
+    adminsResult,
+    budgetAllocations,
+    exchangeRates
   ] = await Promise.all([
     supabase.from('profiles').select('id', { count: 'exact', head: true }),
     supabase.from('programs').select('id', { count: 'exact', head: true }).eq('status', 'active'),
     supabase.from('invites').select('id', { count: 'exact', head: true }).eq('status', 'pending'),
     supabase.from('profiles').select('id', { count: 'exact', head: true }).eq('role', 'participant'),
     supabase.from('profiles').select('id', { count: 'exact', head: true }).eq('role', 'program_manager'),
-    supabase.from('profiles').select('id', { count: 'exact', head: true }).eq('role', 'admin')
+    supabase.from('profiles').select('id', { count: 'exact', head: true }).eq('role', 'admin'),
+    getProgramBudgetAllocations(),
+    getExchangeRates()
   ])
 
+  // Budget rollup across active programs only; completed programs would
+  // otherwise inflate "unallocated" with money that can no longer be handed out.
+  // Programs without a total_budget (0) still count toward allocated/spent but
+  // are left out of unallocated, which only makes sense against a set budget.
+  // Programs in other currencies are converted at today's rate into
+  // DEFAULT_CURRENCY; one without a known rate is added at face value and
+  // counted in unconvertedPrograms so the admin knows the total is approximate.
+  const today = new Date().toISOString().split('T')[0]
+  const activeAllocations = budgetAllocations.filter((allocation) => allocation.programStatus === 'active')
+  const rateFor = (currency: string) => findExchangeRate(exchangeRates, currency, DEFAULT_CURRENCY, today)
+  const convert = (amount: number, currency: string) => amount * (rateFor(currency) ?? 1)
+  const budgetedAllocations = activeAllocations.filter((allocation) => allocation.totalBudget > 0)
+  const budgetRollup = {
+    currency: DEFAULT_CURRENCY,
+    totalBudget: budgetedAllocations.reduce((sum, allocation) => sum + convert(allocation.totalBudget, allocation.currency), 0),
+    allocated: activeAllocations.reduce((sum, allocation) => sum + convert(allocation.allocated, allocation.currency), 0),
+    unallocated: budgetedAllocations.reduce((sum, allocation) => sum + convert(allocation.unallocated, allocation.currency), 0),
+    spent: activeAllocations.reduce((sum, allocation) => sum + convert(allocation.spent, allocation.currency), 0),
+    overAllocatedPrograms: budgetedAllocations.filter((allocation) => allocation.unallocated < 0).length,
+    unconvertedPrograms: activeAllocations.filter((allocation) => rateFor(allocation.currency) === null).length
+  }
+
   return {
     totalUsers: usersResult.count || 0,
     totalPrograms: programsResult.count || 0,
@@ -821,6 +948,8 @@ export async function getSystemStats() {
     pendingInvites: invitesResult.count || 0,
     totalParticipants: participantsResult.count || 0,
     totalManagers: managersResult.count || 0,
-    totalAdmins: adminsResult.count || 0
+    totalAdmins: adminsResult.count || 0,
+    budgetRollup,
+    programBudgets: budgetAllocations
   }
 }
@@ -2,23 +2,38 @@ import { supabase } from './supabase'
 import {
   buildReceiptPrompt,
   buildReceiptUrl,
+  buildReceiptViewerPath,
   decodeReceiptPath,
   encodeReceiptPath,
+  hasReceiptDetails,
+  isPdfReceipt,
   isSupportedReceiptFile,
+  normalizeReceiptDetails,
+  normalizeReceiptDuplicate,
   normalizeReceiptItem,
   parseReceiptOcrResponse,
+  parseReceiptViewerPath,
+  RECEIPT_FILE_ACCEPT,
+  type OcrQuotaStatus,
+  type ReceiptDuplicateMatch,
+  type ReceiptOcrDetails,
   type ReceiptOcrResponse,
   type ReceiptOcrResult,
 } from './receiptOcrShared'
 
-export type { ReceiptOcrResponse, ReceiptOcrResult }
+export type { OcrQuotaStatus, ReceiptDuplicateMatch, ReceiptOcrDetails, ReceiptOcrResponse, ReceiptOcrResult }
 export {
   buildReceiptPrompt,
   buildReceiptUrl,
+  buildReceiptViewerPath,
   decodeReceiptPath,
   encodeReceiptPath,
+  hasReceiptDetails,
+  isPdfReceipt,
   isSupportedReceiptFile,
   parseReceiptOcrResponse,
+  parseReceiptViewerPath,
+  RECEIPT_FILE_ACCEPT,
 }
 
 export async function analyzeReceipt(file: File, cycleId?: string): Promise<ReceiptOcrResponse> {
@@ -48,16 +63,63 @@ export async function analyzeReceipt(file: File, cycleId?: string): Promise<Rece
     throw new Error(payload?.error || 'Failed to analyze receipt.')
   }
 
+  const receiptDetails = normalizeReceiptDetails(payload?.receiptDetails)
+
   return {
     receiptUrl: typeof payload?.receiptUrl === 'string' ? payload.receiptUrl : '',
     receiptPath: typeof payload?.receiptPath === 'string' ? payload.receiptPath : '',
+    receiptHash: typeof payload?.receiptHash === 'string' ? payload.receiptHash : undefined,
     ocrResults: Array.isArray(payload?.ocrResults)
       ? payload.ocrResults.map((entry: unknown) => normalizeReceiptItem(entry)).filter((entry): entry is ReceiptOcrResult => entry !== null)
       : [],
+    receiptDetails: hasReceiptDetails(receiptDetails) ? receiptDetails : undefined,
+    duplicateExpenses: Array.isArray(payload?.duplicateExpenses)
+      ? payload.duplicateExpenses.map((entry: unknown) => normalizeReceiptDuplicate(entry)).filter((entry): entry is ReceiptDuplicateMatch => entry !== null)
+      : [],
     analysisError: typeof payload?.analysisError === 'string' ? payload.analysisError : undefined,
   }
 }
 
+export async function getOcrQuotaStatus(cycleId?: string): Promise<OcrQuotaStatus> {
+  const { data: { session } } = await supabase.auth.getSession()
+
+  if (!session?.access_token) {
+    throw new Error('You must be signed in to check receipt scan limits.')
+  }
+
+  const query = cycleId ? `?cycleId=${encodeURIComponent(cycleId)}` : ''
+  const response = await fetch(`/api/ocr-quota${query}`, {
+    headers: {
+      Authorization: `Bearer ${session.access_token}`,
+    },
+  })
+
+  const payload = await safeJson(response)
+
+  if (!response.ok) {
+    throw new Error(payload?.error || 'Failed to load receipt scan limits.')
+  }
+
+  return {
+    userDailyLimit: typeof payload?.userDailyLimit === 'number' ? payload.userDailyLimit : null,
+    userUsedToday: Number(payload?.userUsedToday) || 0,
+    programDailyLimit: typeof payload?.programDailyLimit === 'number' ? payload.programDailyLimit : null,
+    programUsedToday: Number(payload?.programUsedToday) || 0,
+    resetsAt: typeof payload?.resetsAt === 'string' ? payload.resetsAt : '',
+  }
+}
+
+// Scans left today under whichever of the user and program quotas is tighter,
+// or null when neither is capped.
+export function remainingOcrScans(status: OcrQuotaStatus): number | null {
+  const remaining = [
+    status.userDailyLimit === null ? null : status.userDailyLimit - status.userUsedToday,
+    status.programDailyLimit === null ? null : status.programDailyLimit - status.programUsedToday,
+  ].filter((value): value is number => value !== null)
+
+  return remaining.length > 0 ? Math.max(0, Math.min(...remaining)) : null
+}
+
 export async function openProtectedReceipt(receiptUrl: string) {
   const popup = window.open('', '_blank')
 
@@ -87,8 +149,11 @@ export async function openProtectedReceipt(receiptUrl: string) {
     throw new Error(payload?.error || 'Failed to open receipt.')
   }
 
+  // The browser only renders a PDF inline (rather than downloading it) when the
+  // blob carries its content type, so keep the one the receipt API sent.
   const blob = await response.blob()
-  const objectUrl = URL.createObjectURL(blob)
+  const contentType = response.headers.get('Content-Type') || blob.type
+  const objectUrl = URL.createObjectURL(blob.type === contentType ? blob : new Blob([blob], { type: contentType }))
   popup.location.href = objectUrl
   popup.focus()
   window.setTimeout(() => URL.revokeObjectURL(objectUrl), 60_000)
@@ -4,41 +4,120 @@ export interface ReceiptOcrResult {
   date?: string
 }
 
+// Receipt-level fields, as opposed to the per-line ReceiptOcrResult items.
+export interface ReceiptOcrDetails {
+  merchant?: string
+  subtotal?: number
+  tax?: number
+  tip?: number
+  total?: number
+  currency?: string // ISO 4217 code
+  paymentMethod?: string
+}
+
+export interface ReceiptOcrAnalysis {
+  items: ReceiptOcrResult[]
+  details: ReceiptOcrDetails
+}
+
+// An earlier expense of the same participant whose receipt has the same
+// content hash as the one just uploaded.
+export interface ReceiptDuplicateMatch {
+  id: string
+  item: string
+  amount: number
+  currency?: string
+  date: string
+}
+
 export interface ReceiptOcrResponse {
   receiptUrl: string
   receiptPath: string
+  receiptHash?: string
   ocrResults: ReceiptOcrResult[]
+  receiptDetails?: ReceiptOcrDetails
+  duplicateExpenses?: ReceiptDuplicateMatch[]
   analysisError?: string
 }
 
+// Which limit refused a receipt OCR request (see api/_lib/ocrQuota.ts).
+export type OcrLimitType = 'burst' | 'user_daily' | 'program_daily'
+
+// Returned by /api/ocr-quota. A null limit means that quota is not enforced.
+export interface OcrQuotaStatus {
+  userDailyLimit: number | null
+  userUsedToday: number
+  programDailyLimit: number | null
+  programUsedToday: number
+  resetsAt: string
+}
+
 export const MAX_RECEIPT_FILE_SIZE_BYTES = 10 * 1024 * 1024
 
+// Invoices can run to many pages of terms and remittance slips. Longer PDFs
+// are refused before OCR (see countPdfPages), and the prompt asks the model to
+// read only the first pages, where the line items are.
+export const MAX_RECEIPT_PDF_PAGES = 3
+
+export const PDF_RECEIPT_MIME_TYPE = 'application/pdf'
+
 const ALLOWED_RECEIPT_MIME_TYPES = new Set([
   'image/jpeg',
   'image/png',
   'image/webp',
   'image/gif',
+  PDF_RECEIPT_MIME_TYPE,
 ])
 
+// Value for the upload input's accept attribute.
+export const RECEIPT_FILE_ACCEPT = Array.from(ALLOWED_RECEIPT_MIME_TYPES).join(',')
+
 export function isSupportedReceiptFile(file: Pick<File, 'type' | 'size'>) {
   return ALLOWED_RECEIPT_MIME_TYPES.has(file.type) && file.size <= MAX_RECEIPT_FILE_SIZE_BYTES
 }
 
-export function buildReceiptPrompt() {
+export function isPdfReceipt(mimeType: string) {
+  return mimeType === PDF_RECEIPT_MIME_TYPE
+}
+
+/**
+ * Count the page objects in a PDF. Returns null when none are visible, which
+ * happens when the page tree is packed into compressed object streams; such
+ * PDFs cannot be checked against MAX_RECEIPT_PDF_PAGES without a PDF parser.
+ */
+export function countPdfPages(data: ArrayBuffer): number | null {
+  const text = new TextDecoder('latin1').decode(data)
+  const pages = text.match(/\/Type\s*\/Page(?![A-Za-z])/g)?.length ?? 0
+  return pages > 0 ? pages : null
+}
+
+export function buildReceiptPrompt(mimeType?: string) {
   return [
-    'Analyze this receipt.',
+    isPdfReceipt(mimeType ?? '')
+      ? `Analyze this receipt or invoice PDF. Only read the first ${MAX_RECEIPT_PDF_PAGES} pages.`
+      : 'Analyze this receipt.',
     'Extract all distinct expense items.',
     'For each item, provide its description, total amount, and the date of the transaction.',
     "Use the receipt's main date if an individual item doesn't have a specific date.",
-    'Respond with a JSON array of objects in this shape: [{item: string, amount: number, date?: string}]',
+    'Also extract the merchant name, subtotal, tax, tip, grand total, the ISO 4217 currency code, and the payment method.',
+    'For card payments give only the card brand and at most the last four digits.',
+    'Leave out any field that is not printed on the receipt.',
+    'Respond with a JSON object in this shape:',
+    '{merchant?: string, subtotal?: number, tax?: number, tip?: number, total?: number, currency?: string, paymentMethod?: string, items: [{item: string, amount: number, date?: string}]}',
   ].join(' ')
 }
 
 export function parseReceiptOcrResponse(text: string): ReceiptOcrResult[] {
+  return parseReceiptOcrAnalysis(text).items
+}
+
+// Accepts the current object shape as well as a bare array of items, which
+// older prompts asked for and some models still return.
+export function parseReceiptOcrAnalysis(text: string): ReceiptOcrAnalysis {
   const jsonText = extractJsonPayload(text)
 
   if (!jsonText) {
-    return []
+    return { items: [], details: {} }
   }
 
   try {
@@ -49,14 +128,44 @@ export function parseReceiptOcrResponse(text: string): ReceiptOcrResult[] {
         ? parsed.items
         : []
 
-    return items
-      .map((entry) => normalizeReceiptItem(entry))
-      .filter((entry): entry is ReceiptOcrResult => entry !== null)
+    return {
+      items: items
+        .map((entry) => normalizeReceiptItem(entry))
+        .filter((entry): entry is ReceiptOcrResult => entry !== null),
+      details: Array.isArray(parsed) ? {} : normalizeReceiptDetails(parsed),
+    }
   } catch {
-    return []
+    return { items: [], details: {} }
   }
 }
 
+export function normalizeReceiptDuplicate(entry: unknown): ReceiptDuplicateMatch | null {
+  if (!entry || typeof entry !== 'object') {
+    return null
+  }
+
+  const candidate = entry as Record<string, unknown>
+  const amount = parseReceiptAmount(candidate.amount)
+  const id = readString(candidate.id)
+  const date = readString(candidate.date)
+
+  if (!id || !date || amount === undefined) {
+    return null
+  }
+
+  return {
+    id,
+    item: readString(candidate.item) ?? '',
+    amount,
+    currency: readString(candidate.currency),
+    date,
+  }
+}
+
+export function hasReceiptDetails(details: ReceiptOcrDetails | undefined | null) {
+  return !!details && Object.values(details).some((value) => value !== undefined)
+}
+
 export function encodeReceiptPath(path: string) {
   return base64UrlEncode(path)
 }
@@ -69,6 +178,17 @@ export function buildReceiptUrl(storagePath: string) {
   return `/api/receipts/${encodeReceiptPath(storagePath)}`
 }
 
+// Links that leave the app (spreadsheet exports) point at the in-app receipt
+// page instead of the API, which answers 401 without the user's bearer token.
+export function buildReceiptViewerPath(receiptUrl: string) {
+  return receiptUrl.replace(/^\/api\/receipts\//, '/receipts/')
+}
+
+export function parseReceiptViewerPath(pathname: string) {
+  const match = pathname.match(/^\/receipts\/([^/]+)\/?$/)
+  return match ? `/api/receipts/${match[1]}` : null
+}
+
 function extractJsonPayload(text: string) {
   const fencedMatch = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/i)
   const candidate = fencedMatch?.[1] ?? text
@@ -82,13 +202,15 @@ function extractJsonPayload(text: string) {
     return trimmed
   }
 
+  // Prefer the receipt object, whose items array would otherwise match first.
+  // A bare array of items is only taken when it opens before any object.
+  const objectMatch = trimmed.match(/\{[\s\S]*\}/)
   const arrayMatch = trimmed.match(/\[[\s\S]*\]/)
-  if (arrayMatch) {
-    return arrayMatch[0]
+  if (objectMatch && (!arrayMatch || (objectMatch.index ?? 0) < (arrayMatch.index ?? 0))) {
+    return objectMatch[0]
   }
 
-  const objectMatch = trimmed.match(/\{[\s\S]*\}/)
-  return objectMatch?.[0] ?? null
+  return arrayMatch?.[0] ?? null
 }
 
 export function normalizeReceiptItem(entry: unknown): ReceiptOcrResult | null {
@@ -102,11 +224,7 @@ export function normalizeReceiptItem(entry: unknown): ReceiptOcrResult | null {
     : typeof candidate.description === 'string'
       ? candidate.description.trim()
       : ''
-  const amount = typeof candidate.amount === 'number'
-    ? candidate.amount
-    : typeof candidate.amount === 'string'
-      ? Number(candidate.amount)
-      : Number.NaN
+  const amount = parseReceiptAmount(candidate.amount) ?? Number.NaN
 
   if (!item || !Number.isFinite(amount)) {
     return null
@@ -123,6 +241,49 @@ export function normalizeReceiptItem(entry: unknown): ReceiptOcrResult | null {
   }
 }
 
+export function normalizeReceiptDetails(entry: unknown): ReceiptOcrDetails {
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    return {}
+  }
+
+  const candidate = entry as Record<string, unknown>
+  const currency = readString(candidate.currency)?.toUpperCase()
+
+  return {
+    merchant: readString(candidate.merchant) ?? readString(candidate.merchantName),
+    subtotal: parseReceiptAmount(candidate.subtotal),
+    tax: parseReceiptAmount(candidate.tax),
+    tip: parseReceiptAmount(candidate.tip),
+    total: parseReceiptAmount(candidate.total),
+    currency: currency && /^[A-Z]{3}$/.test(currency) ? currency : undefined,
+    paymentMethod: readString(candidate.paymentMethod) ?? readString(candidate.payment_method),
+  }
+}
+
+function readString(value: unknown) {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined
+}
+
+// Models sometimes echo amounts as printed ("$1,234.50"), so strip everything
+// but digits, sign and decimal point before parsing.
+function parseReceiptAmount(value: unknown) {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : undefined
+  }
+
+  if (typeof value !== 'string') {
+    return undefined
+  }
+
+  const cleaned = value.replace(/[^0-9.-]/g, '')
+  if (!cleaned) {
+    return undefined
+  }
+
+  const amount = Number(cleaned)
+  return Number.isFinite(amount) ? amount : undefined
+}
+
 function base64UrlEncode(value: string) {
   const bytes = new TextEncoder().encode(value)
   let binary = ''
@@ -0,0 +1,151 @@
+import { supabase } from './supabase'
+import type { Database } from './database.types'
+import type {
+  ReportDelivery,
+  ReportDeliveryStatus,
+  ReportSchedule,
+  ReportScheduleFrequency,
+} from './programReportShared'
+
+export type { ReportDelivery, ReportSchedule, ReportScheduleFrequency }
+export type ReportScheduleInput = Pick<ReportSchedule, 'frequency' | 'recipients' | 'nextRunAt' | 'isActive'>
+
+type DbReportSchedule = Database['public']['Tables']['report_schedules']['Row']
+type DbReportDelivery = Database['public']['Tables']['report_deliveries']['Row']
+
+function dbReportScheduleToReportSchedule(schedule: DbReportSchedule): ReportSchedule {
+  return {
+    id: schedule.id,
+    programId: schedule.program_id,
+    frequency: schedule.frequency === 'weekly' ? 'weekly' : 'monthly',
+    recipients: schedule.recipients,
+    nextRunAt: schedule.next_run_at,
+    lastRunAt: schedule.last_run_at,
+    isActive: schedule.is_active,
+  }
+}
+
+function dbReportDeliveryToReportDelivery(delivery: DbReportDelivery): ReportDelivery {
+  return {
+    id: delivery.id,
+    programId: delivery.program_id,
+    scheduleId: delivery.schedule_id,
+    reportId: delivery.report_id,
+    recipients: delivery.recipients,
+    status: delivery.status as ReportDeliveryStatus,
+    error: delivery.error,
+    createdAt: delivery.created_at,
+  }
+}
+
+export async function getReportSchedules(programId: string): Promise<ReportSchedule[]> {
+  const { data, error } = await supabase
+    .from('report_schedules')
+    .select('*')
+    .eq('program_id', programId)
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+  return (data || []).map(dbReportScheduleToReportSchedule)
+}
+
+export async function createReportSchedule(programId: string, schedule: ReportScheduleInput): Promise<ReportSchedule> {
+  const { data, error } = await supabase
+    .from('report_schedules')
+    .insert({
+      program_id: programId,
+      frequency: schedule.frequency,
+      recipients: schedule.recipients,
+      next_run_at: schedule.nextRunAt,
+      is_active: schedule.isActive,
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+  return dbReportScheduleToReportSchedule(data)
+}
+
+export async function updateReportSchedule(
+  scheduleId: string,
+  updates: Partial<ReportScheduleInput>
+): Promise<ReportSchedule> {
+  const { data, error } = await supabase
+    .from('report_schedules')
+    .update({
+      ...(updates.frequency !== undefined && { frequency: updates.frequency }),
+      ...(updates.recipients !== undefined && { recipients: updates.recipients }),
+      ...(updates.nextRunAt !== undefined && { next_run_at: updates.nextRunAt }),
+      ...(updates.isActive !== undefined && { is_active: updates.isActive }),
+    })
+    .eq('id', scheduleId)
+    .select()
+
+  if (error) throw error
+  if (!data || data.length === 0) {
+    throw new Error(
+      'Report schedule update affected no rows. You may not have permission to change this schedule, or it no longer exists.'
+    )
+  }
+  return dbReportScheduleToReportSchedule(data[0])
+}
+
+/**
+ * Remove a schedule. Its past deliveries stay in the history with the
+ * schedule link cleared.
+ */
+export async function deleteReportSchedule(scheduleId: string) {
+  const { data, error } = await supabase
+    .from('report_schedules')
+    .delete()
+    .eq('id', scheduleId)
+    .select('id')
+
+  if (error) throw error
+  if (!data || data.length === 0) {
+    throw new Error(
+      'Report schedule delete affected no rows. You may not have permission to remove this schedule, or it no longer exists.'
+    )
+  }
+}
+
+export async function getReportDeliveries(programId: string, limit = 25): Promise<ReportDelivery[]> {
+  const { data, error } = await supabase
+    .from('report_deliveries')
+    .select('*')
+    .eq('program_id', programId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw error
+  return (data || []).map(dbReportDeliveryToReportDelivery)
+}
+
+// Builds and emails the schedule's report right away; next_run_at is unchanged.
+export async function sendReportScheduleNow(scheduleId: string) {
+  const { data: { session } } = await supabase.auth.getSession()
+
+  if (!session?.access_token) {
+    throw new Error('You must be signed in to send reports.')
+  }
+
+  const response = await fetch('/api/report-scheduler', {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${session.access_token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ scheduleId }),
+  })
+
+  let payload: { status?: string; error?: string } | null = null
+  try {
+    payload = await response.json()
+  } catch {
+    payload = null
+  }
+
+  if (!response.ok || payload?.status !== 'sent') {
+    throw new Error(payload?.error || 'Failed to send the report.')
+  }
+}
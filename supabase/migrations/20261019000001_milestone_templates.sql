@@ -0,0 +1,55 @@
+-- ============================================================================
+-- Migration: Milestone templates library
+-- Date: 2026-10-19
+-- Purpose:
+--   types.ts has carried a MilestoneTemplate model since the localStorage era,
+--   but there was never a table behind it, so managers retype the same
+--   curriculum (title, category, duration) for every cohort. This adds a
+--   per-program milestone_templates table that AssignMilestoneModal reads to
+--   stamp out assignments.
+--
+--   Templates are definitions only: applying one still goes through
+--   createMilestoneAssignments, which creates a normal milestones row. Editing
+--   or deleting a template never touches milestones already assigned from it.
+--
+-- Idempotent: safe to re-run.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS milestone_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  program_id UUID NOT NULL REFERENCES programs(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  category TEXT NOT NULL DEFAULT 'other',
+  suggested_duration_days INTEGER NOT NULL DEFAULT 7 CHECK (suggested_duration_days >= 1),
+  is_required BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES profiles(id) DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE milestone_templates IS
+'Reusable milestone definitions per program. Applied through AssignMilestoneModal; assigned milestones are independent copies.';
+COMMENT ON COLUMN milestone_templates.suggested_duration_days IS
+'Default number of days between start date and deadline when the template is applied.';
+
+CREATE INDEX IF NOT EXISTS idx_milestone_templates_program
+  ON milestone_templates(program_id, title);
+
+ALTER TABLE milestone_templates ENABLE ROW LEVEL SECURITY;
+
+-- Templates are a manager tool. can_manage_program is the recursion-safe
+-- SECURITY DEFINER helper (20260620_04) and already covers admins.
+DROP POLICY IF EXISTS "Managers can manage program milestone templates" ON milestone_templates;
+CREATE POLICY "Managers can manage program milestone templates" ON milestone_templates
+  FOR ALL
+  USING (public.can_manage_program(program_id))
+  WITH CHECK (public.can_manage_program(program_id));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON milestone_templates TO authenticated;
+
+DROP TRIGGER IF EXISTS update_milestone_templates_updated_at ON milestone_templates;
+CREATE TRIGGER update_milestone_templates_updated_at
+  BEFORE UPDATE ON milestone_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,121 @@
+-- ============================================================================
+-- Migration: Clone a program for a new cohort
+-- Date: 2026-10-19
+-- Purpose:
+--   Running a new cohort meant re-creating the program with createProgram and
+--   re-assigning every milestone by hand. clone_program copies a program, its
+--   milestones (with start dates and deadlines shifted by the same number of
+--   days the new start_date moved) and its milestone templates in ONE
+--   transaction, so a failure part-way never leaves a half-cloned program.
+--
+--   Participants, balance cycles, expenses, milestone assignments and
+--   participants' self-created milestones are NOT copied: a clone is a fresh
+--   cohort. Cloned milestones land unassigned; the Milestone Management tab
+--   lists them so the manager can hand each one to the enrolled cohort.
+--
+--   SECURITY DEFINER because admins have no write policy on milestones and the
+--   copy must not depend on per-table RLS lining up. Authorization is done
+--   explicitly below with the same can_manage_program() helper the policies
+--   use, so a caller can only clone programs they could already manage.
+--
+-- Idempotent: safe to re-run.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.clone_program(
+  p_source_program_id UUID,
+  p_name TEXT,
+  p_start_date DATE,
+  p_end_date DATE DEFAULT NULL,
+  p_total_budget DECIMAL DEFAULT NULL,
+  p_copy_manager BOOLEAN DEFAULT false
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_source programs%ROWTYPE;
+  v_new_id UUID;
+  v_offset INTEGER;
+  v_end_date DATE;
+  v_manager_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.can_manage_program(p_source_program_id) THEN
+    RAISE EXCEPTION 'Not authorized to clone program %', p_source_program_id;
+  END IF;
+
+  IF COALESCE(btrim(p_name), '') = '' THEN
+    RAISE EXCEPTION 'Program name is required';
+  END IF;
+
+  SELECT * INTO v_source FROM programs WHERE id = p_source_program_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Program % not found', p_source_program_id;
+  END IF;
+
+  v_offset := p_start_date - v_source.start_date;
+  v_end_date := COALESCE(p_end_date, v_source.end_date + v_offset);
+
+  -- can_manage_program() above means the caller is either the source manager
+  -- (so copying the manager is a no-op) or an admin, who may keep the original
+  -- manager on the new cohort instead of taking it over themselves.
+  v_manager_id := CASE WHEN p_copy_manager THEN v_source.manager_id ELSE auth.uid() END;
+
+  INSERT INTO programs (name, description, manager_id, start_date, end_date, total_budget, status)
+  VALUES (
+    btrim(p_name),
+    v_source.description,
+    v_manager_id,
+    p_start_date,
+    v_end_date,
+    COALESCE(p_total_budget, v_source.total_budget),
+    'active'
+  )
+  RETURNING id INTO v_new_id;
+
+  INSERT INTO milestones (program_id, name, description, category, start_date, deadline, completion_reward, created_by)
+  SELECT
+    v_new_id,
+    m.name,
+    m.description,
+    m.category,
+    m.start_date + v_offset,
+    m.deadline + v_offset,
+    m.completion_reward,
+    v_manager_id
+  FROM milestones m
+  WHERE m.program_id = p_source_program_id
+    -- Participants' own self-created milestones belong to that cohort only.
+    AND NOT EXISTS (
+      SELECT 1
+      FROM milestone_assignments ma
+      WHERE ma.milestone_id = m.id
+        AND ma.assignment_type = 'self_created'
+    );
+
+  INSERT INTO milestone_templates (program_id, title, description, category, suggested_duration_days, is_required, created_by)
+  SELECT
+    v_new_id,
+    t.title,
+    t.description,
+    t.category,
+    t.suggested_duration_days,
+    t.is_required,
+    auth.uid()
+  FROM milestone_templates t
+  WHERE t.program_id = p_source_program_id;
+
+  RETURN v_new_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.clone_program(UUID, TEXT, DATE, DATE, DECIMAL, BOOLEAN) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.clone_program(UUID, TEXT, DATE, DATE, DECIMAL, BOOLEAN) TO authenticated;
+
+COMMENT ON FUNCTION public.clone_program(UUID, TEXT, DATE, DATE, DECIMAL, BOOLEAN) IS
+'Atomically copies a program, its milestones (dates shifted to the new start_date) and milestone templates for a new cohort. Caller must be able to manage the source program.';
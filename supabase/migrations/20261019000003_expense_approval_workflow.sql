@@ -0,0 +1,115 @@
+-- ============================================================================
+-- Migration: Expense approval workflow
+-- Date: 2026-10-19
+-- Purpose:
+--   Expenses used to land on the balance sheet with no review state. Every
+--   expense now carries a status:
+--
+--     submitted  -> waiting for the program manager
+--     approved   -> signed off
+--     rejected   -> not reimbursable; review_reason tells the participant why
+--     needs_info -> manager asked a question; review_reason holds it
+--
+--   Participants keep their "Participants can manage own expenses" FOR ALL
+--   policy (they still add/edit/delete their own rows), so RLS alone cannot
+--   stop them from writing status = 'approved'. A BEFORE trigger closes that
+--   gap: unless the caller can_manage_program() the expense's program,
+--     * INSERT is forced to status 'submitted' with no review fields, and
+--     * UPDATE may not touch status/review fields directly; editing an
+--       expense that was already reviewed re-submits it for review.
+--   Managers/admins get reviewed_by/reviewed_at stamped on every transition.
+--
+--   Existing rows are backfilled as 'approved' so balances recorded before the
+--   workflow existed do not suddenly need re-review.
+--
+-- Idempotent: safe to re-run.
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'expenses' AND column_name = 'status'
+  ) THEN
+    -- Add with an 'approved' default so pre-existing rows are backfilled, then
+    -- switch the default so new expenses start out 'submitted'.
+    ALTER TABLE expenses ADD COLUMN status TEXT NOT NULL DEFAULT 'approved';
+    ALTER TABLE expenses ALTER COLUMN status SET DEFAULT 'submitted';
+  END IF;
+END $$;
+
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS review_reason TEXT;
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ;
+
+ALTER TABLE expenses DROP CONSTRAINT IF EXISTS expenses_status_check;
+ALTER TABLE expenses ADD CONSTRAINT expenses_status_check
+  CHECK (status IN ('submitted', 'approved', 'rejected', 'needs_info'));
+
+CREATE INDEX IF NOT EXISTS idx_expenses_status ON expenses(status);
+
+CREATE OR REPLACE FUNCTION public.enforce_expense_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_program_id UUID;
+BEGIN
+  -- Service-role / migration writes have no auth.uid(); leave them untouched.
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT program_id INTO v_program_id FROM balance_cycles WHERE id = NEW.cycle_id;
+
+  IF v_program_id IS NOT NULL AND public.can_manage_program(v_program_id) THEN
+    IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+      IF NEW.status = 'submitted' THEN
+        NEW.review_reason := NULL;
+        NEW.reviewed_by := NULL;
+        NEW.reviewed_at := NULL;
+      ELSE
+        NEW.reviewed_by := auth.uid();
+        NEW.reviewed_at := now();
+      END IF;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := 'submitted';
+    NEW.review_reason := NULL;
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.review_reason IS DISTINCT FROM OLD.review_reason
+    OR NEW.reviewed_by IS DISTINCT FROM OLD.reviewed_by
+    OR NEW.reviewed_at IS DISTINCT FROM OLD.reviewed_at THEN
+    RAISE EXCEPTION 'Only a program manager can review expenses';
+  END IF;
+
+  -- A participant editing an expense that was already reviewed re-submits it.
+  -- The previous review_reason is kept so the manager can see what was asked.
+  IF OLD.status <> 'submitted' THEN
+    NEW.status := 'submitted';
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_expense_review ON expenses;
+CREATE TRIGGER enforce_expense_review
+  BEFORE INSERT OR UPDATE ON expenses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_expense_review();
+
+COMMENT ON FUNCTION public.enforce_expense_review() IS
+'Prevents participants from self-approving expenses: non-managers always insert as submitted, cannot change review fields, and re-submit reviewed expenses on edit.';
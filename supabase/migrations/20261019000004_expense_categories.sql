@@ -0,0 +1,60 @@
+-- ============================================================================
+-- Migration: Per-program expense category taxonomy
+-- Date: 2026-10-19
+-- Purpose:
+--   expenses.category was free text that nothing collected. Programs now
+--   define their own categories (name, display color, optional spending cap
+--   per balance cycle) and expenses reference one through category_id.
+--
+--   expenses.category is kept and written with the category name alongside
+--   category_id, so CSV exports and older rows keep a readable label even if
+--   the category is later deleted (category_id is SET NULL on delete).
+--
+--   Managers/admins manage categories through can_manage_program(); active
+--   participants may read their program's categories to pick one.
+--
+-- Idempotent: safe to re-run.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS expense_categories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  program_id UUID NOT NULL REFERENCES programs(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  color TEXT NOT NULL DEFAULT '#6366f1' CHECK (color ~ '^#[0-9A-Fa-f]{6}$'),
+  cycle_cap DECIMAL(10,2) CHECK (cycle_cap IS NULL OR cycle_cap >= 0),
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_expense_categories_program_name
+  ON expense_categories(program_id, lower(name));
+
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS category_id UUID
+  REFERENCES expense_categories(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_expenses_category_id ON expenses(category_id);
+
+ALTER TABLE expense_categories ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Program members can view expense categories" ON expense_categories;
+CREATE POLICY "Program members can view expense categories" ON expense_categories
+  FOR SELECT
+  USING (
+    public.can_manage_program(program_id)
+    OR public.is_active_program_participant(program_id)
+  );
+
+DROP POLICY IF EXISTS "Managers can manage expense categories" ON expense_categories;
+CREATE POLICY "Managers can manage expense categories" ON expense_categories
+  FOR ALL
+  USING (public.can_manage_program(program_id))
+  WITH CHECK (public.can_manage_program(program_id));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON expense_categories TO authenticated;
+
+DROP TRIGGER IF EXISTS update_expense_categories_updated_at ON expense_categories;
+CREATE TRIGGER update_expense_categories_updated_at
+  BEFORE UPDATE ON expense_categories
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,129 @@
+-- ============================================================================
+-- Migration: Program budget allocation and rollup
+-- Date: 2026-10-19
+-- Purpose:
+--   programs.total_budget was stored but never reconciled with the budgets
+--   handed out through balance_cycles. This migration adds:
+--
+--   * get_program_budget_allocations(p_program_id) - one row per program with
+--     total_budget, allocated (sum of every cycle budget in the program) and
+--     spent (sum of non-rejected expenses). Pass NULL for every program the
+--     caller can see; admins use that for the system-wide rollup.
+--     SECURITY DEFINER because a participant cannot read other participants'
+--     cycles through RLS, yet still needs the program totals to know whether a
+--     new cycle fits. Rows are filtered with the same can_manage_program() /
+--     is_active_program_participant() helpers the policies use.
+--
+--   * enforce_program_budget_allocation trigger - rejects a cycle INSERT or
+--     budget/program change that would push allocated above total_budget. The
+--     program row is locked FOR UPDATE so two participants opening cycles at
+--     once cannot both squeeze under the limit.
+--
+--   A total_budget of 0 means no program-level budget has been set (programs
+--   are created with 0) and is not enforced.
+--
+-- Idempotent: safe to re-run.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_program_budget_allocations(p_program_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  program_id UUID,
+  program_name TEXT,
+  program_status TEXT,
+  total_budget DECIMAL,
+  allocated DECIMAL,
+  spent DECIMAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.name,
+    p.status,
+    p.total_budget,
+    COALESCE((
+      SELECT SUM(bc.budget) FROM balance_cycles bc WHERE bc.program_id = p.id
+    ), 0)::DECIMAL,
+    COALESCE((
+      SELECT SUM(e.amount)
+      FROM expenses e
+      JOIN balance_cycles bc ON bc.id = e.cycle_id
+      WHERE bc.program_id = p.id
+        AND e.status <> 'rejected'
+    ), 0)::DECIMAL
+  FROM programs p
+  WHERE (p_program_id IS NULL OR p.id = p_program_id)
+    AND (
+      public.can_manage_program(p.id)
+      OR public.is_active_program_participant(p.id)
+    )
+  ORDER BY p.name;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_program_budget_allocations(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_program_budget_allocations(UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.get_program_budget_allocations(UUID) IS
+'Per-program total_budget vs allocated (sum of cycle budgets) vs spent (non-rejected expenses). NULL returns every program the caller manages or participates in.';
+
+CREATE OR REPLACE FUNCTION public.enforce_program_budget_allocation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_total_budget DECIMAL;
+  v_allocated DECIMAL;
+BEGIN
+  IF NEW.program_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.budget = OLD.budget
+    AND NEW.program_id IS NOT DISTINCT FROM OLD.program_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT total_budget INTO v_total_budget
+  FROM programs
+  WHERE id = NEW.program_id
+  FOR UPDATE;
+
+  IF v_total_budget IS NULL OR v_total_budget = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(SUM(budget), 0) INTO v_allocated
+  FROM balance_cycles
+  WHERE program_id = NEW.program_id
+    AND id <> NEW.id;
+
+  IF v_allocated + NEW.budget > v_total_budget THEN
+    RAISE EXCEPTION 'Cycle budget of % would over-allocate the program budget: % of % is already allocated (% remaining)',
+      NEW.budget, v_allocated, v_total_budget, GREATEST(v_total_budget - v_allocated, 0);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_program_budget_allocation ON balance_cycles;
+CREATE TRIGGER enforce_program_budget_allocation
+  BEFORE INSERT OR UPDATE OF budget, program_id ON balance_cycles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_program_budget_allocation();
+
+COMMENT ON FUNCTION public.enforce_program_budget_allocation() IS
+'Blocks balance cycle budgets that would push a program''s allocated total above programs.total_budget (0 = not enforced).';
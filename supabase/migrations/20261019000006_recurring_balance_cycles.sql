@@ -0,0 +1,325 @@
+-- ============================================================================
+-- Migration: Recurring balance cycles with automatic rollover
+-- Date: 2026-10-19
+-- Purpose:
+--   Participants had to open every cycle by hand. cycle_schedules describes how
+--   cycles repeat, either for one participant or (participant_id NULL) as the
+--   program-wide default:
+--
+--     frequency     weekly | monthly | custom (every interval_days days)
+--     budget        base budget of each new cycle
+--     carry_forward none | unspent | overspend | both
+--                   unspent   -> leftover budget is added to the next cycle
+--                   overspend -> overspending is deducted from the next cycle
+--                   both      -> the signed remainder is applied either way
+--
+--   roll_over_balance_cycles() closes every active cycle whose end_date has
+--   passed and opens the next one from the participant's schedule (falling
+--   back to the program default). When the app was not opened for several
+--   periods the new cycle is the one that contains today, so no empty cycles
+--   pile up; the carry is taken from the cycle that actually ended.
+--   balance_cycles.carried_forward records the amount applied, and
+--   schedule_id which schedule produced the cycle.
+--
+--   Carried money was already allocated to the cycle it came from, so program
+--   allocation (user-facing "allocated to cycles") now counts
+--   budget - carried_forward. get_program_budget_allocations and
+--   enforce_program_budget_allocation are redefined below accordingly.
+--
+--   The function runs in three ways:
+--     * pg_cron, daily, when the extension is available (scheduled below);
+--     * from the participant dashboard on load, scoped to the caller's own
+--       cycles, so rollover still happens on projects without pg_cron;
+--     * by a manager, scoped to the programs they manage.
+--   A cycle that would over-allocate the program budget (see
+--   enforce_program_budget_allocation) is skipped with a WARNING rather than
+--   aborting the whole run.
+--
+-- Idempotent: safe to re-run.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS cycle_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  program_id UUID NOT NULL REFERENCES programs(id) ON DELETE CASCADE,
+  participant_id UUID REFERENCES profiles(id) ON DELETE CASCADE,
+  frequency TEXT NOT NULL DEFAULT 'monthly' CHECK (frequency IN ('weekly', 'monthly', 'custom')),
+  interval_days INTEGER CHECK (interval_days IS NULL OR interval_days >= 1),
+  budget DECIMAL(10,2) NOT NULL CHECK (budget >= 0),
+  carry_forward TEXT NOT NULL DEFAULT 'none' CHECK (carry_forward IN ('none', 'unspent', 'overspend', 'both')),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+
+  CONSTRAINT custom_schedule_has_interval CHECK (frequency <> 'custom' OR interval_days IS NOT NULL)
+);
+
+-- One participant schedule per participant per program, one program default.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cycle_schedules_participant
+  ON cycle_schedules(program_id, participant_id) WHERE participant_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cycle_schedules_program_default
+  ON cycle_schedules(program_id) WHERE participant_id IS NULL;
+
+ALTER TABLE balance_cycles ADD COLUMN IF NOT EXISTS schedule_id UUID
+  REFERENCES cycle_schedules(id) ON DELETE SET NULL;
+ALTER TABLE balance_cycles ADD COLUMN IF NOT EXISTS carried_forward DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE cycle_schedules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Managers can manage cycle schedules" ON cycle_schedules;
+CREATE POLICY "Managers can manage cycle schedules" ON cycle_schedules
+  FOR ALL
+  USING (public.can_manage_program(program_id))
+  WITH CHECK (public.can_manage_program(program_id));
+
+DROP POLICY IF EXISTS "Participants can view applicable cycle schedules" ON cycle_schedules;
+CREATE POLICY "Participants can view applicable cycle schedules" ON cycle_schedules
+  FOR SELECT
+  USING (
+    public.is_active_program_participant(program_id)
+    AND (participant_id IS NULL OR participant_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Participants can manage own cycle schedule" ON cycle_schedules;
+CREATE POLICY "Participants can manage own cycle schedule" ON cycle_schedules
+  FOR ALL
+  USING (participant_id = auth.uid() AND public.is_active_program_participant(program_id))
+  WITH CHECK (participant_id = auth.uid() AND public.is_active_program_participant(program_id));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON cycle_schedules TO authenticated;
+
+DROP TRIGGER IF EXISTS update_cycle_schedules_updated_at ON cycle_schedules;
+CREATE TRIGGER update_cycle_schedules_updated_at
+  BEFORE UPDATE ON cycle_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.get_program_budget_allocations(p_program_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  program_id UUID,
+  program_name TEXT,
+  program_status TEXT,
+  total_budget DECIMAL,
+  allocated DECIMAL,
+  spent DECIMAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.name,
+    p.status,
+    p.total_budget,
+    COALESCE((
+      SELECT SUM(bc.budget - bc.carried_forward) FROM balance_cycles bc WHERE bc.program_id = p.id
+    ), 0)::DECIMAL,
+    COALESCE((
+      SELECT SUM(e.amount)
+      FROM expenses e
+      JOIN balance_cycles bc ON bc.id = e.cycle_id
+      WHERE bc.program_id = p.id
+        AND e.status <> 'rejected'
+    ), 0)::DECIMAL
+  FROM programs p
+  WHERE (p_program_id IS NULL OR p.id = p_program_id)
+    AND (
+      public.can_manage_program(p.id)
+      OR public.is_active_program_participant(p.id)
+    )
+  ORDER BY p.name;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_program_budget_allocation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_total_budget DECIMAL;
+  v_allocated DECIMAL;
+BEGIN
+  IF NEW.program_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.budget = OLD.budget
+    AND NEW.carried_forward = OLD.carried_forward
+    AND NEW.program_id IS NOT DISTINCT FROM OLD.program_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT total_budget INTO v_total_budget
+  FROM programs
+  WHERE id = NEW.program_id
+  FOR UPDATE;
+
+  IF v_total_budget IS NULL OR v_total_budget = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(SUM(budget - carried_forward), 0) INTO v_allocated
+  FROM balance_cycles
+  WHERE program_id = NEW.program_id
+    AND id <> NEW.id;
+
+  IF v_allocated + (NEW.budget - NEW.carried_forward) > v_total_budget THEN
+    RAISE EXCEPTION 'Cycle budget of % would over-allocate the program budget: % of % is already allocated (% remaining)',
+      NEW.budget - NEW.carried_forward, v_allocated, v_total_budget, GREATEST(v_total_budget - v_allocated, 0);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_program_budget_allocation ON balance_cycles;
+CREATE TRIGGER enforce_program_budget_allocation
+  BEFORE INSERT OR UPDATE OF budget, carried_forward, program_id ON balance_cycles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_program_budget_allocation();
+
+-- Last day (inclusive) of a schedule period that starts on p_start.
+CREATE OR REPLACE FUNCTION public.cycle_schedule_period_end(
+  p_start DATE,
+  p_frequency TEXT,
+  p_interval_days INTEGER
+)
+RETURNS DATE
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT CASE p_frequency
+    WHEN 'weekly' THEN p_start + 6
+    WHEN 'monthly' THEN (p_start + INTERVAL '1 month')::DATE - 1
+    ELSE p_start + COALESCE(p_interval_days, 30) - 1
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.roll_over_balance_cycles(p_program_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid UUID := auth.uid();
+  v_cycle RECORD;
+  v_schedule cycle_schedules%ROWTYPE;
+  v_spent DECIMAL;
+  v_remaining DECIMAL;
+  v_carry DECIMAL;
+  v_start DATE;
+  v_end DATE;
+  v_created INTEGER := 0;
+BEGIN
+  FOR v_cycle IN
+    SELECT bc.*
+    FROM balance_cycles bc
+    JOIN programs p ON p.id = bc.program_id
+    JOIN program_participants pp
+      ON pp.program_id = bc.program_id
+     AND pp.participant_id = bc.participant_id
+     AND pp.status = 'active'
+    WHERE bc.is_active = true
+      AND bc.end_date < current_date
+      AND p.status = 'active'
+      AND (p_program_id IS NULL OR bc.program_id = p_program_id)
+      -- No auth.uid() means pg_cron / service role: process everything.
+      -- Otherwise participants only roll their own cycles and managers the
+      -- programs they manage.
+      AND (
+        v_uid IS NULL
+        OR bc.participant_id = v_uid
+        OR public.can_manage_program(bc.program_id)
+      )
+  LOOP
+    SELECT * INTO v_schedule
+    FROM cycle_schedules cs
+    WHERE cs.program_id = v_cycle.program_id
+      AND cs.is_active = true
+      AND (cs.participant_id = v_cycle.participant_id OR cs.participant_id IS NULL)
+    ORDER BY cs.participant_id NULLS LAST
+    LIMIT 1;
+
+    CONTINUE WHEN NOT FOUND;
+
+    SELECT COALESCE(SUM(e.amount), 0) INTO v_spent
+    FROM expenses e
+    WHERE e.cycle_id = v_cycle.id
+      AND e.status <> 'rejected';
+
+    v_remaining := v_cycle.budget - v_spent;
+    v_carry := CASE v_schedule.carry_forward
+      WHEN 'unspent' THEN GREATEST(v_remaining, 0)
+      WHEN 'overspend' THEN LEAST(v_remaining, 0)
+      WHEN 'both' THEN v_remaining
+      ELSE 0
+    END;
+    -- A cycle budget cannot go negative; record only the carry actually applied.
+    v_carry := GREATEST(v_schedule.budget + v_carry, 0) - v_schedule.budget;
+
+    -- Skip straight to the period containing today.
+    v_start := v_cycle.end_date + 1;
+    v_end := public.cycle_schedule_period_end(v_start, v_schedule.frequency, v_schedule.interval_days);
+    WHILE v_end < current_date LOOP
+      v_start := v_end + 1;
+      v_end := public.cycle_schedule_period_end(v_start, v_schedule.frequency, v_schedule.interval_days);
+    END LOOP;
+
+    BEGIN
+      -- enforce_single_active_cycle deactivates the cycle that just ended.
+      INSERT INTO balance_cycles (
+        program_id, participant_id, start_date, end_date, budget,
+        is_active, schedule_id, carried_forward
+      )
+      VALUES (
+        v_cycle.program_id,
+        v_cycle.participant_id,
+        v_start,
+        v_end,
+        v_schedule.budget + v_carry,
+        true,
+        v_schedule.id,
+        v_carry
+      );
+      v_created := v_created + 1;
+    EXCEPTION WHEN others THEN
+      RAISE WARNING 'roll_over_balance_cycles: skipped cycle % (%)', v_cycle.id, SQLERRM;
+    END;
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.roll_over_balance_cycles(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.roll_over_balance_cycles(UUID) FROM anon;
+GRANT EXECUTE ON FUNCTION public.roll_over_balance_cycles(UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.roll_over_balance_cycles(UUID) IS
+'Opens the next balance cycle for every ended active cycle that has a cycle schedule, applying the schedule''s carry-forward rule. Scoped to the caller''s own/managed cycles; unscoped when run without a user (pg_cron). Returns the number of cycles created.';
+
+-- Daily rollover when pg_cron is installed. Projects without it still roll
+-- over when participants open the dashboard.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname = 'roll-over-balance-cycles';
+    PERFORM cron.schedule(
+      'roll-over-balance-cycles',
+      '15 0 * * *',
+      'SELECT public.roll_over_balance_cycles()'
+    );
+  END IF;
+END $$;
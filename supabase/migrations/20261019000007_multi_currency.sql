@@ -0,0 +1,426 @@
+-- ============================================================================
+-- Migration: Multi-currency expenses
+-- Date: 2026-10-19
+-- Purpose:
+--   Every amount was assumed to be dollars. Participants spending abroad need
+--   to record what they actually paid, and managers need totals in one
+--   currency. This migration adds:
+--
+--   * programs.currency - the program's base currency (ISO 4217 code). Cycle
+--     budgets and the program total_budget are in this currency.
+--   * expenses.currency - the currency the expense was paid in. When an insert
+--     leaves it out, set_expense_currency() fills in the program currency, so
+--     existing clients keep working unchanged.
+--   * exchange_rates - a locally maintained rate table: 1 from_currency =
+--     rate to_currency, effective from effective_date. Everyone signed in can
+--     read it; only admins maintain it, since a rate changes the converted
+--     totals of every program.
+--   * convert_currency(amount, from, to, on_date) - converts with the latest
+--     rate effective on or before the date (falling back to the earliest later
+--     rate), trying the inverse pair when only that exists. Returns NULL when
+--     no rate is known.
+--   * clone_program copies the source program's currency to the new cohort.
+--   * get_program_budget_allocations now reports spent in the program
+--     currency and returns the currency alongside the totals. Expenses without
+--     a known rate are counted at face value, matching the client.
+--   * roll_over_balance_cycles converts spent the same way, so the amount
+--     carried forward is in the program currency.
+--
+-- Idempotent: safe to re-run.
+-- ============================================================================
+
+ALTER TABLE programs ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD';
+
+ALTER TABLE programs DROP CONSTRAINT IF EXISTS programs_currency_check;
+ALTER TABLE programs ADD CONSTRAINT programs_currency_check CHECK (currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS currency TEXT;
+
+-- Existing expenses were recorded in their program's currency.
+UPDATE expenses e
+SET currency = COALESCE(p.currency, 'USD')
+FROM balance_cycles bc
+LEFT JOIN programs p ON p.id = bc.program_id
+WHERE bc.id = e.cycle_id
+  AND e.currency IS NULL;
+
+UPDATE expenses SET currency = 'USD' WHERE currency IS NULL;
+
+ALTER TABLE expenses ALTER COLUMN currency SET NOT NULL;
+
+ALTER TABLE expenses DROP CONSTRAINT IF EXISTS expenses_currency_check;
+ALTER TABLE expenses ADD CONSTRAINT expenses_currency_check CHECK (currency ~ '^[A-Z]{3}$');
+
+CREATE OR REPLACE FUNCTION public.set_expense_currency()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.currency IS NULL THEN
+    SELECT p.currency INTO NEW.currency
+    FROM balance_cycles bc
+    JOIN programs p ON p.id = bc.program_id
+    WHERE bc.id = NEW.cycle_id;
+
+    NEW.currency := COALESCE(NEW.currency, 'USD');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_expense_currency ON expenses;
+CREATE TRIGGER set_expense_currency
+  BEFORE INSERT ON expenses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_expense_currency();
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  from_currency TEXT NOT NULL CHECK (from_currency ~ '^[A-Z]{3}$'),
+  to_currency TEXT NOT NULL CHECK (to_currency ~ '^[A-Z]{3}$'),
+  rate DECIMAL(18,8) NOT NULL CHECK (rate > 0),
+  effective_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+
+  CONSTRAINT exchange_rates_distinct_currencies CHECK (from_currency <> to_currency),
+  CONSTRAINT exchange_rates_pair_date_key UNIQUE (from_currency, to_currency, effective_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_pair
+  ON exchange_rates(from_currency, to_currency, effective_date DESC);
+
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view exchange rates" ON exchange_rates;
+CREATE POLICY "Authenticated users can view exchange rates" ON exchange_rates
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Managers can manage exchange rates" ON exchange_rates;
+DROP POLICY IF EXISTS "Admins can manage exchange rates" ON exchange_rates;
+CREATE POLICY "Admins can manage exchange rates" ON exchange_rates
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+DROP TRIGGER IF EXISTS update_exchange_rates_updated_at ON exchange_rates;
+CREATE TRIGGER update_exchange_rates_updated_at
+  BEFORE UPDATE ON exchange_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.convert_currency(
+  p_amount DECIMAL,
+  p_from TEXT,
+  p_to TEXT,
+  p_on DATE DEFAULT CURRENT_DATE
+)
+RETURNS DECIMAL
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_rate DECIMAL;
+BEGIN
+  IF p_amount IS NULL OR p_from IS NULL OR p_to IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_from = p_to THEN
+    RETURN p_amount;
+  END IF;
+
+  SELECT er.rate INTO v_rate
+  FROM exchange_rates er
+  WHERE er.from_currency = p_from AND er.to_currency = p_to
+  ORDER BY (er.effective_date <= p_on) DESC,
+    CASE WHEN er.effective_date <= p_on THEN er.effective_date END DESC,
+    er.effective_date ASC
+  LIMIT 1;
+
+  IF v_rate IS NOT NULL THEN
+    RETURN p_amount * v_rate;
+  END IF;
+
+  SELECT er.rate INTO v_rate
+  FROM exchange_rates er
+  WHERE er.from_currency = p_to AND er.to_currency = p_from
+  ORDER BY (er.effective_date <= p_on) DESC,
+    CASE WHEN er.effective_date <= p_on THEN er.effective_date END DESC,
+    er.effective_date ASC
+  LIMIT 1;
+
+  IF v_rate IS NOT NULL THEN
+    RETURN p_amount / v_rate;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+COMMENT ON FUNCTION public.convert_currency(DECIMAL, TEXT, TEXT, DATE) IS
+'Converts an amount between currencies using exchange_rates (latest rate on or before the date, inverse pair as fallback). NULL when no rate is known.';
+
+-- The return type gains program_currency, which CREATE OR REPLACE cannot do.
+DROP FUNCTION IF EXISTS public.get_program_budget_allocations(UUID);
+
+CREATE FUNCTION public.get_program_budget_allocations(p_program_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  program_id UUID,
+  program_name TEXT,
+  program_status TEXT,
+  program_currency TEXT,
+  total_budget DECIMAL,
+  allocated DECIMAL,
+  spent DECIMAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.name,
+    p.status,
+    p.currency,
+    p.total_budget,
+    COALESCE((
+      SELECT SUM(bc.budget - bc.carried_forward) FROM balance_cycles bc WHERE bc.program_id = p.id
+    ), 0)::DECIMAL,
+    COALESCE((
+      SELECT SUM(COALESCE(public.convert_currency(e.amount, e.currency, p.currency, e.date), e.amount))
+      FROM expenses e
+      JOIN balance_cycles bc ON bc.id = e.cycle_id
+      WHERE bc.program_id = p.id
+        AND e.status <> 'rejected'
+    ), 0)::DECIMAL
+  FROM programs p
+  WHERE (p_program_id IS NULL OR p.id = p_program_id)
+    AND (
+      public.can_manage_program(p.id)
+      OR public.is_active_program_participant(p.id)
+    )
+  ORDER BY p.name;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_program_budget_allocations(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_program_budget_allocations(UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.get_program_budget_allocations(UUID) IS
+'Per-program total_budget vs allocated (cycle budgets net of carried-forward amounts) vs spent (non-rejected expenses converted to the program currency). NULL returns every program the caller manages or participates in.';
+
+-- Unchanged from 20261019000002 apart from copying currency.
+CREATE OR REPLACE FUNCTION public.clone_program(
+  p_source_program_id UUID,
+  p_name TEXT,
+  p_start_date DATE,
+  p_end_date DATE DEFAULT NULL,
+  p_total_budget DECIMAL DEFAULT NULL,
+  p_copy_manager BOOLEAN DEFAULT false
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_source programs%ROWTYPE;
+  v_new_id UUID;
+  v_offset INTEGER;
+  v_end_date DATE;
+  v_manager_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.can_manage_program(p_source_program_id) THEN
+    RAISE EXCEPTION 'Not authorized to clone program %', p_source_program_id;
+  END IF;
+
+  IF COALESCE(btrim(p_name), '') = '' THEN
+    RAISE EXCEPTION 'Program name is required';
+  END IF;
+
+  SELECT * INTO v_source FROM programs WHERE id = p_source_program_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Program % not found', p_source_program_id;
+  END IF;
+
+  v_offset := p_start_date - v_source.start_date;
+  v_end_date := COALESCE(p_end_date, v_source.end_date + v_offset);
+
+  -- can_manage_program() above means the caller is either the source manager
+  -- (so copying the manager is a no-op) or an admin, who may keep the original
+  -- manager on the new cohort instead of taking it over themselves.
+  v_manager_id := CASE WHEN p_copy_manager THEN v_source.manager_id ELSE auth.uid() END;
+
+  INSERT INTO programs (name, description, manager_id, start_date, end_date, total_budget, currency, status)
+  VALUES (
+    btrim(p_name),
+    v_source.description,
+    v_manager_id,
+    p_start_date,
+    v_end_date,
+    COALESCE(p_total_budget, v_source.total_budget),
+    v_source.currency,
+    'active'
+  )
+  RETURNING id INTO v_new_id;
+
+  INSERT INTO milestones (program_id, name, description, category, start_date, deadline, completion_reward, created_by)
+  SELECT
+    v_new_id,
+    m.name,
+    m.description,
+    m.category,
+    m.start_date + v_offset,
+    m.deadline + v_offset,
+    m.completion_reward,
+    v_manager_id
+  FROM milestones m
+  WHERE m.program_id = p_source_program_id
+    -- Participants' own self-created milestones belong to that cohort only.
+    AND NOT EXISTS (
+      SELECT 1
+      FROM milestone_assignments ma
+      WHERE ma.milestone_id = m.id
+        AND ma.assignment_type = 'self_created'
+    );
+
+  INSERT INTO milestone_templates (program_id, title, description, category, suggested_duration_days, is_required, created_by)
+  SELECT
+    v_new_id,
+    t.title,
+    t.description,
+    t.category,
+    t.suggested_duration_days,
+    t.is_required,
+    auth.uid()
+  FROM milestone_templates t
+  WHERE t.program_id = p_source_program_id;
+
+  RETURN v_new_id;
+END;
+$$;
+
+-- Unchanged from 20261019000006 apart from converting spent to the program
+-- currency before working out the carry-forward.
+CREATE OR REPLACE FUNCTION public.roll_over_balance_cycles(p_program_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid UUID := auth.uid();
+  v_cycle RECORD;
+  v_schedule cycle_schedules%ROWTYPE;
+  v_spent DECIMAL;
+  v_remaining DECIMAL;
+  v_carry DECIMAL;
+  v_start DATE;
+  v_end DATE;
+  v_created INTEGER := 0;
+BEGIN
+  FOR v_cycle IN
+    SELECT bc.*, p.currency AS program_currency
+    FROM balance_cycles bc
+    JOIN programs p ON p.id = bc.program_id
+    JOIN program_participants pp
+      ON pp.program_id = bc.program_id
+     AND pp.participant_id = bc.participant_id
+     AND pp.status = 'active'
+    WHERE bc.is_active = true
+      AND bc.end_date < current_date
+      AND p.status = 'active'
+      AND (p_program_id IS NULL OR bc.program_id = p_program_id)
+      -- No auth.uid() means pg_cron / service role: process everything.
+      -- Otherwise participants only roll their own cycles and managers the
+      -- programs they manage.
+      AND (
+        v_uid IS NULL
+        OR bc.participant_id = v_uid
+        OR public.can_manage_program(bc.program_id)
+      )
+  LOOP
+    SELECT * INTO v_schedule
+    FROM cycle_schedules cs
+    WHERE cs.program_id = v_cycle.program_id
+      AND cs.is_active = true
+      AND (cs.participant_id = v_cycle.participant_id OR cs.participant_id IS NULL)
+    ORDER BY cs.participant_id NULLS LAST
+    LIMIT 1;
+
+    CONTINUE WHEN NOT FOUND;
+
+    SELECT COALESCE(SUM(COALESCE(public.convert_currency(e.amount, e.currency, v_cycle.program_currency, e.date), e.amount)), 0)
+    INTO v_spent
+    FROM expenses e
+    WHERE e.cycle_id = v_cycle.id
+      AND e.status <> 'rejected';
+
+    v_remaining := v_cycle.budget - v_spent;
+    v_carry := CASE v_schedule.carry_forward
+      WHEN 'unspent' THEN GREATEST(v_remaining, 0)
+      WHEN 'overspend' THEN LEAST(v_remaining, 0)
+      WHEN 'both' THEN v_remaining
+      ELSE 0
+    END;
+    -- A cycle budget cannot go negative; record only the carry actually applied.
+    v_carry := GREATEST(v_schedule.budget + v_carry, 0) - v_schedule.budget;
+
+    -- Skip straight to the period containing today.
+    v_start := v_cycle.end_date + 1;
+    v_end := public.cycle_schedule_period_end(v_start, v_schedule.frequency, v_schedule.interval_days);
+    WHILE v_end < current_date LOOP
+      v_start := v_end + 1;
+      v_end := public.cycle_schedule_period_end(v_start, v_schedule.frequency, v_schedule.interval_days);
+    END LOOP;
+
+    BEGIN
+      -- enforce_single_active_cycle deactivates the cycle that just ended.
+      INSERT INTO balance_cycles (
+        program_id, participant_id, start_date, end_date, budget,
+        is_active, schedule_id, carried_forward
+      )
+      VALUES (
+        v_cycle.program_id,
+        v_cycle.participant_id,
+        v_start,
+        v_end,
+        v_schedule.budget + v_carry,
+        true,
+        v_schedule.id,
+        v_carry
+      );
+      v_created := v_created + 1;
+    EXCEPTION WHEN others THEN
+      RAISE WARNING 'roll_over_balance_cycles: skipped cycle % (%)', v_cycle.id, SQLERRM;
+    END;
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.roll_over_balance_cycles(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.roll_over_balance_cycles(UUID) FROM anon;
+GRANT EXECUTE ON FUNCTION public.roll_over_balance_cycles(UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.roll_over_balance_cycles(UUID) IS
+'Opens the next balance cycle for every ended active cycle that has a cycle schedule, applying the schedule''s carry-forward rule. Scoped to the caller''s own/managed cycles; unscoped when run without a user (pg_cron). Returns the number of cycles created.';
@@ -0,0 +1,26 @@
+-- ============================================================================
+-- Migration: PDF receipts
+-- Date: 2026-10-19
+-- Purpose:
+--   Most invoices arrive as PDFs. The receipt API (api/receipt-ocr.ts) now
+--   accepts application/pdf alongside images, so the private receipts bucket
+--   must allow it too. Everything else about the bucket is unchanged from
+--   20260620000009: still private, still 10 MB.
+--
+-- Idempotent: safe to re-run.
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'receipts',
+  'receipts',
+  false,
+  10485760, -- 10 MB, matches MAX_RECEIPT_FILE_SIZE_BYTES in src/lib/receiptOcrShared.ts
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'application/pdf']
+)
+ON CONFLICT (id) DO UPDATE
+SET
+  name = EXCLUDED.name,
+  public = false,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
@@ -0,0 +1,34 @@
+-- ============================================================================
+-- Migration: Receipt details on expenses
+-- Date: 2026-10-19
+-- Purpose:
+--   Receipt OCR now reads receipt-level fields as well as line items. The
+--   ones a participant accepts are stored on the expense so managers can see
+--   where the money went and reconcile against card statements:
+--
+--   * merchant, payment_method - as printed (cards as brand + last four only)
+--   * receipt_subtotal, receipt_tax, receipt_tip, receipt_total - the
+--     receipt's own figures, in the expense currency. These describe the whole
+--     receipt and can differ from expenses.amount when only some line items
+--     were claimed.
+--
+-- Idempotent: safe to re-run.
+-- ============================================================================
+
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS merchant TEXT;
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS payment_method TEXT;
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS receipt_subtotal DECIMAL(10,2);
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS receipt_tax DECIMAL(10,2);
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS receipt_tip DECIMAL(10,2);
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS receipt_total DECIMAL(10,2);
+
+ALTER TABLE expenses DROP CONSTRAINT IF EXISTS expenses_receipt_figures_check;
+ALTER TABLE expenses ADD CONSTRAINT expenses_receipt_figures_check CHECK (
+  COALESCE(receipt_subtotal, 0) >= 0
+  AND COALESCE(receipt_tax, 0) >= 0
+  AND COALESCE(receipt_tip, 0) >= 0
+  AND COALESCE(receipt_total, 0) >= 0
+);
+
+COMMENT ON COLUMN expenses.merchant IS 'Merchant name read from the receipt (or entered by the participant).';
+COMMENT ON COLUMN expenses.receipt_total IS 'Grand total printed on the receipt, in the expense currency. May exceed amount when only part of the receipt was claimed.';
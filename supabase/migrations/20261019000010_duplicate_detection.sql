@@ -0,0 +1,22 @@
+-- ============================================================================
+-- Migration: Duplicate receipt detection
+-- Date: 2026-10-19
+-- Purpose:
+--   Participants regularly upload the same receipt twice. api/receipt-ocr.ts
+--   now computes a SHA-256 of every uploaded file; the client stores it on the
+--   expense as receipt_hash so a later upload of the same file can be matched
+--   against the participant's earlier expenses.
+--
+--   Expenses split from one receipt share both receipt_url and receipt_hash;
+--   only a matching hash under a different receipt_url is a duplicate upload.
+--
+-- Idempotent: safe to re-run.
+-- ============================================================================
+
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS receipt_hash TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_expenses_receipt_hash
+  ON expenses(receipt_hash)
+  WHERE receipt_hash IS NOT NULL;
+
+COMMENT ON COLUMN expenses.receipt_hash IS 'Hex SHA-256 of the uploaded receipt file, used to flag the same receipt being claimed twice.';
@@ -0,0 +1,241 @@
+-- ============================================================================
+-- Migration: Persistent OCR rate limits and quotas
+-- Date: 2026-10-19
+-- Purpose:
+--   api/receipt-ocr.ts rate limited with an in-memory Map, which reset on every
+--   edge cold start and was not shared between instances. Limits now live in
+--   Postgres:
+--
+--   * ocr_usage - one row per receipt analysis request that was let through.
+--   * program_ocr_quotas - optional daily OCR limit per program, set by admins.
+--     No row (or a NULL limit) means the program is not capped.
+--   * consume_ocr_quota(...) - checks the short burst window, the per-user
+--     daily quota and the program's daily quota, and records the request only
+--     when all of them pass. Advisory locks serialise concurrent requests for
+--     the same user and program, so two instances cannot both take the last
+--     slot. The burst and per-user limits come from the caller (server env).
+--   * get_ocr_quota_usage(user, program) - today's counts for the quota
+--     status endpoint.
+--   * get_program_ocr_usage_today() - per-program counts for the admin view.
+--
+--   Days are UTC days. The first two functions are only callable by the
+--   service role; the edge functions authenticate the user themselves.
+--
+-- Idempotent: safe to re-run.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS ocr_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  program_id UUID REFERENCES programs(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ocr_usage_user_created
+  ON ocr_usage(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_ocr_usage_program_created
+  ON ocr_usage(program_id, created_at DESC);
+
+ALTER TABLE ocr_usage ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by consume_ocr_quota only; there is no insert policy.
+DROP POLICY IF EXISTS "Users can view own OCR usage" ON ocr_usage;
+CREATE POLICY "Users can view own OCR usage" ON ocr_usage
+  FOR SELECT
+  USING (user_id = auth.uid() OR public.is_admin());
+
+CREATE TABLE IF NOT EXISTS program_ocr_quotas (
+  program_id UUID PRIMARY KEY REFERENCES programs(id) ON DELETE CASCADE,
+  daily_limit INTEGER CHECK (daily_limit IS NULL OR daily_limit >= 0),
+  updated_by UUID REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE program_ocr_quotas ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Program members can view OCR quotas" ON program_ocr_quotas;
+CREATE POLICY "Program members can view OCR quotas" ON program_ocr_quotas
+  FOR SELECT
+  USING (
+    public.can_manage_program(program_id)
+    OR public.is_active_program_participant(program_id)
+  );
+
+DROP POLICY IF EXISTS "Admins can manage OCR quotas" ON program_ocr_quotas;
+CREATE POLICY "Admins can manage OCR quotas" ON program_ocr_quotas
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+DROP TRIGGER IF EXISTS update_program_ocr_quotas_updated_at ON program_ocr_quotas;
+CREATE TRIGGER update_program_ocr_quotas_updated_at
+  BEFORE UPDATE ON program_ocr_quotas
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.consume_ocr_quota(
+  p_user_id UUID,
+  p_window_seconds INTEGER,
+  p_window_limit INTEGER,
+  p_program_id UUID DEFAULT NULL,
+  p_user_daily_limit INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+  allowed BOOLEAN,
+  limit_type TEXT,
+  retry_after_seconds INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_day_start TIMESTAMPTZ := date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+  v_seconds_to_reset INTEGER;
+  v_count INTEGER;
+  v_oldest TIMESTAMPTZ;
+  v_program_limit INTEGER;
+BEGIN
+  v_seconds_to_reset := GREATEST(1, CEIL(EXTRACT(EPOCH FROM (v_day_start + INTERVAL '1 day' - now())))::INTEGER);
+
+  -- Always user first, then program, so concurrent callers cannot deadlock.
+  PERFORM pg_advisory_xact_lock(hashtext('ocr_quota:user:' || p_user_id::TEXT));
+  IF p_program_id IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext('ocr_quota:program:' || p_program_id::TEXT));
+  END IF;
+
+  SELECT COUNT(*), MIN(u.created_at) INTO v_count, v_oldest
+  FROM ocr_usage u
+  WHERE u.user_id = p_user_id
+    AND u.created_at > now() - make_interval(secs => p_window_seconds);
+
+  IF p_window_limit IS NOT NULL AND v_count >= p_window_limit THEN
+    RETURN QUERY SELECT
+      false,
+      'burst'::TEXT,
+      GREATEST(1, CEIL(EXTRACT(EPOCH FROM (v_oldest + make_interval(secs => p_window_seconds) - now())))::INTEGER);
+    RETURN;
+  END IF;
+
+  IF p_user_daily_limit IS NOT NULL THEN
+    SELECT COUNT(*) INTO v_count
+    FROM ocr_usage u
+    WHERE u.user_id = p_user_id
+      AND u.created_at >= v_day_start;
+
+    IF v_count >= p_user_daily_limit THEN
+      RETURN QUERY SELECT false, 'user_daily'::TEXT, v_seconds_to_reset;
+      RETURN;
+    END IF;
+  END IF;
+
+  IF p_program_id IS NOT NULL THEN
+    SELECT q.daily_limit INTO v_program_limit
+    FROM program_ocr_quotas q
+    WHERE q.program_id = p_program_id;
+
+    IF v_program_limit IS NOT NULL THEN
+      SELECT COUNT(*) INTO v_count
+      FROM ocr_usage u
+      WHERE u.program_id = p_program_id
+        AND u.created_at >= v_day_start;
+
+      IF v_count >= v_program_limit THEN
+        RETURN QUERY SELECT false, 'program_daily'::TEXT, v_seconds_to_reset;
+        RETURN;
+      END IF;
+    END IF;
+  END IF;
+
+  INSERT INTO ocr_usage (user_id, program_id) VALUES (p_user_id, p_program_id);
+
+  -- Limits only look at today; prune this user's old rows to keep the table small.
+  DELETE FROM ocr_usage u
+  WHERE u.user_id = p_user_id
+    AND u.created_at < now() - INTERVAL '30 days';
+
+  RETURN QUERY SELECT true, NULL::TEXT, 0;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.consume_ocr_quota(UUID, INTEGER, INTEGER, UUID, INTEGER) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.consume_ocr_quota(UUID, INTEGER, INTEGER, UUID, INTEGER) FROM anon;
+REVOKE ALL ON FUNCTION public.consume_ocr_quota(UUID, INTEGER, INTEGER, UUID, INTEGER) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_ocr_quota(UUID, INTEGER, INTEGER, UUID, INTEGER) TO service_role;
+
+COMMENT ON FUNCTION public.consume_ocr_quota(UUID, INTEGER, INTEGER, UUID, INTEGER) IS
+'Checks the OCR burst window, per-user daily quota and program daily quota, recording the request when all pass. Service role only.';
+
+CREATE OR REPLACE FUNCTION public.get_ocr_quota_usage(
+  p_user_id UUID,
+  p_program_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  user_used_today INTEGER,
+  program_used_today INTEGER,
+  program_daily_limit INTEGER,
+  resets_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_day_start TIMESTAMPTZ := date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+BEGIN
+  RETURN QUERY
+  SELECT
+    (SELECT COUNT(*)::INTEGER FROM ocr_usage u WHERE u.user_id = p_user_id AND u.created_at >= v_day_start),
+    CASE WHEN p_program_id IS NULL THEN 0 ELSE (
+      SELECT COUNT(*)::INTEGER FROM ocr_usage u WHERE u.program_id = p_program_id AND u.created_at >= v_day_start
+    ) END,
+    (SELECT q.daily_limit FROM program_ocr_quotas q WHERE q.program_id = p_program_id),
+    v_day_start + INTERVAL '1 day';
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_ocr_quota_usage(UUID, UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.get_ocr_quota_usage(UUID, UUID) FROM anon;
+REVOKE ALL ON FUNCTION public.get_ocr_quota_usage(UUID, UUID) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.get_ocr_quota_usage(UUID, UUID) TO service_role;
+
+COMMENT ON FUNCTION public.get_ocr_quota_usage(UUID, UUID) IS
+'Today''s (UTC) OCR request counts for a user and program, plus the program limit. Service role only.';
+
+CREATE OR REPLACE FUNCTION public.get_program_ocr_usage_today()
+RETURNS TABLE (
+  program_id UUID,
+  used_today INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view OCR usage';
+  END IF;
+
+  RETURN QUERY
+  SELECT u.program_id, COUNT(*)::INTEGER
+  FROM ocr_usage u
+  WHERE u.program_id IS NOT NULL
+    AND u.created_at >= date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'
+  GROUP BY u.program_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_program_ocr_usage_today() FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.get_program_ocr_usage_today() FROM anon;
+GRANT EXECUTE ON FUNCTION public.get_program_ocr_usage_today() TO authenticated;
+
+COMMENT ON FUNCTION public.get_program_ocr_usage_today() IS
+'Admin only: receipt OCR requests per program so far today (UTC).';
@@ -0,0 +1,91 @@
+-- ============================================================================
+-- Migration: Stored PDF program reports
+-- Date: 2026-10-19
+-- Purpose:
+--   api/program-report.ts renders the ReportsAnalytics program report as a
+--   branded PDF for funders and keeps it for later download:
+--
+--   * program-reports bucket - PRIVATE, PDFs only. Files are written and read
+--     by the service-role edge function, which authorizes every request (same
+--     model as the receipts bucket, see 20260620000009).
+--   * program_reports - one row per generated PDF, pointing at its storage
+--     path. Rows are inserted by the edge function only; admins and the
+--     program's manager can list them.
+--   * get_program_report_spending(program) - budget and non-rejected spend of
+--     each participant's active cycle in the program currency (same
+--     conversion fallback as get_program_budget_allocations), so the report
+--     figures are built server-side rather than taken from the client.
+--     Service role only.
+--
+-- Idempotent: safe to re-run.
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'program-reports',
+  'program-reports',
+  false,
+  20971520, -- 20 MB
+  ARRAY['application/pdf']
+)
+ON CONFLICT (id) DO UPDATE
+SET
+  name = EXCLUDED.name,
+  public = false,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+CREATE TABLE IF NOT EXISTS program_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  program_id UUID NOT NULL REFERENCES programs(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  storage_path TEXT NOT NULL UNIQUE,
+  file_size INTEGER NOT NULL CHECK (file_size >= 0),
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_program_reports_program_created
+  ON program_reports(program_id, created_at DESC);
+
+ALTER TABLE program_reports ENABLE ROW LEVEL SECURITY;
+
+-- No insert/update policy: the edge function writes with the service role.
+DROP POLICY IF EXISTS "Program managers can view program reports" ON program_reports;
+CREATE POLICY "Program managers can view program reports" ON program_reports
+  FOR SELECT
+  USING (public.can_manage_program(program_id));
+
+CREATE OR REPLACE FUNCTION public.get_program_report_spending(p_program_id UUID)
+RETURNS TABLE (
+  participant_id UUID,
+  budget DECIMAL,
+  spent DECIMAL
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    bc.participant_id,
+    bc.budget,
+    COALESCE((
+      SELECT SUM(COALESCE(public.convert_currency(e.amount, e.currency, p.currency, e.date), e.amount))
+      FROM expenses e
+      WHERE e.cycle_id = bc.id
+        AND e.status <> 'rejected'
+    ), 0)::DECIMAL
+  FROM balance_cycles bc
+  JOIN programs p ON p.id = bc.program_id
+  WHERE bc.program_id = p_program_id
+    AND bc.is_active;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_program_report_spending(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.get_program_report_spending(UUID) FROM anon;
+REVOKE ALL ON FUNCTION public.get_program_report_spending(UUID) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.get_program_report_spending(UUID) TO service_role;
+
+COMMENT ON FUNCTION public.get_program_report_spending(UUID) IS
+  'Active-cycle budget and non-rejected spend (program currency) per participant, for server-built program reports.';
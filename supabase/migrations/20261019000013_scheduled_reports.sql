@@ -0,0 +1,77 @@
+-- ============================================================================
+-- Migration: Scheduled program report delivery
+-- Date: 2026-10-19
+-- Purpose:
+--   Managers can have the program analytics report emailed as a PDF to
+--   themselves and funders on a schedule:
+--
+--   * report_schedules - weekly or monthly delivery of one program's report to
+--     a list of email recipients. next_run_at is when the next report is due;
+--     api/report-scheduler.ts (Vercel cron) sends every active schedule that
+--     is due and moves next_run_at on by one period (skipping periods that
+--     were missed entirely, so a long outage does not send a burst).
+--   * report_deliveries - history of every send attempt, successful or not,
+--     linked to the stored PDF in program_reports.
+--
+--   Admins and the program's manager manage schedules and read the history.
+--   Deliveries are written by the scheduler with the service role.
+--
+-- Idempotent: safe to re-run.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS report_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  program_id UUID NOT NULL REFERENCES programs(id) ON DELETE CASCADE,
+  frequency TEXT NOT NULL DEFAULT 'monthly' CHECK (frequency IN ('weekly', 'monthly')),
+  recipients TEXT[] NOT NULL CHECK (cardinality(recipients) BETWEEN 1 AND 20),
+  next_run_at TIMESTAMPTZ NOT NULL,
+  last_run_at TIMESTAMPTZ,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_schedules_due
+  ON report_schedules(next_run_at) WHERE is_active;
+
+CREATE INDEX IF NOT EXISTS idx_report_schedules_program
+  ON report_schedules(program_id);
+
+ALTER TABLE report_schedules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Program managers can manage report schedules" ON report_schedules;
+CREATE POLICY "Program managers can manage report schedules" ON report_schedules
+  FOR ALL
+  USING (public.can_manage_program(program_id))
+  WITH CHECK (public.can_manage_program(program_id));
+
+DROP TRIGGER IF EXISTS update_report_schedules_updated_at ON report_schedules;
+CREATE TRIGGER update_report_schedules_updated_at
+  BEFORE UPDATE ON report_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS report_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  program_id UUID NOT NULL REFERENCES programs(id) ON DELETE CASCADE,
+  schedule_id UUID REFERENCES report_schedules(id) ON DELETE SET NULL,
+  report_id UUID REFERENCES program_reports(id) ON DELETE SET NULL,
+  recipients TEXT[] NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('sent', 'failed')),
+  error TEXT,
+  transport TEXT,
+  triggered_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_deliveries_program_created
+  ON report_deliveries(program_id, created_at DESC);
+
+ALTER TABLE report_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- No insert policy: rows are written by the scheduler with the service role.
+DROP POLICY IF EXISTS "Program managers can view report deliveries" ON report_deliveries;
+CREATE POLICY "Program managers can view report deliveries" ON report_deliveries
+  FOR SELECT
+  USING (public.can_manage_program(program_id));
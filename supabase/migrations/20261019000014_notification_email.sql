@@ -0,0 +1,151 @@
+-- ============================================================================
+-- Migration: Email delivery for notifications
+-- Date: 2026-10-19
+-- Purpose:
+--   Notifications were only visible in the app. api/notification-emailer.ts
+--   (Vercel cron) now emails them, honouring a per-user preference:
+--
+--   * notification_email_preferences - one row per user: 'immediate' (the
+--     default when there is no row), 'daily_digest' or 'off'. last_digest_at
+--     is when the user's last digest went out, so each user gets at most one
+--     digest per day.
+--   * notifications.email_status - where each notification is in the email
+--     pipeline:
+--       pending    waiting for the next immediate send
+--       digest     waiting for the user's next daily digest
+--       sending    claimed by a worker run (email_processed_at is the claim
+--                  time; stale claims are failed by the next run)
+--       sent / failed / skipped
+--     A BEFORE INSERT trigger sets it from the recipient's preference, so
+--     neither create_notification() nor a direct insert can choose it.
+--     Changing the preference moves the user's still-queued notifications
+--     to the new mode. Notifications that existed before this migration are
+--     marked 'skipped' so the first worker run does not email the backlog.
+--
+--   Users read and change their own preference. The worker uses the service
+--   role for everything else.
+--
+-- Idempotent: safe to re-run.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS notification_email_preferences (
+  user_id UUID PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  mode TEXT NOT NULL DEFAULT 'immediate' CHECK (mode IN ('immediate', 'daily_digest', 'off')),
+  last_digest_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_email_preferences_digest
+  ON notification_email_preferences(last_digest_at) WHERE mode = 'daily_digest';
+
+ALTER TABLE notification_email_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own email preference" ON notification_email_preferences;
+CREATE POLICY "Users can view own email preference" ON notification_email_preferences
+  FOR SELECT
+  USING (user_id = auth.uid() OR public.is_admin());
+
+DROP POLICY IF EXISTS "Users can create own email preference" ON notification_email_preferences;
+CREATE POLICY "Users can create own email preference" ON notification_email_preferences
+  FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can update own email preference" ON notification_email_preferences;
+CREATE POLICY "Users can update own email preference" ON notification_email_preferences
+  FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP TRIGGER IF EXISTS update_notification_email_preferences_updated_at ON notification_email_preferences;
+CREATE TRIGGER update_notification_email_preferences_updated_at
+  BEFORE UPDATE ON notification_email_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Existing notifications get NULL here and are then marked skipped; the
+-- default only applies to rows inserted from now on.
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS email_status TEXT;
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS email_processed_at TIMESTAMPTZ;
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS email_error TEXT;
+
+UPDATE notifications SET email_status = 'skipped' WHERE email_status IS NULL;
+
+ALTER TABLE notifications ALTER COLUMN email_status SET DEFAULT 'pending';
+ALTER TABLE notifications ALTER COLUMN email_status SET NOT NULL;
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_email_status_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_email_status_check
+  CHECK (email_status IN ('pending', 'digest', 'sending', 'sent', 'failed', 'skipped'));
+
+CREATE INDEX IF NOT EXISTS idx_notifications_email_queue
+  ON notifications(email_status, created_at)
+  WHERE email_status IN ('pending', 'digest', 'sending');
+
+CREATE OR REPLACE FUNCTION public.set_notification_email_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.email_status := COALESCE(
+    (
+      SELECT CASE p.mode
+        WHEN 'daily_digest' THEN 'digest'
+        WHEN 'off' THEN 'skipped'
+        ELSE 'pending'
+      END
+      FROM notification_email_preferences p
+      WHERE p.user_id = NEW.user_id
+    ),
+    'pending'
+  );
+  NEW.email_processed_at := NULL;
+  NEW.email_error := NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_notification_email_status ON notifications;
+CREATE TRIGGER set_notification_email_status
+  BEFORE INSERT ON notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_notification_email_status();
+
+COMMENT ON FUNCTION public.set_notification_email_status() IS
+'Queues a new notification for email according to the recipient''s notification_email_preferences.mode (immediate when unset). Consumed by api/notification-emailer.ts.';
+
+CREATE OR REPLACE FUNCTION public.requeue_notification_emails()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.mode = OLD.mode THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE notifications
+  SET email_status = CASE NEW.mode
+    WHEN 'daily_digest' THEN 'digest'
+    WHEN 'off' THEN 'skipped'
+    ELSE 'pending'
+  END
+  WHERE user_id = NEW.user_id
+    AND email_status IN ('pending', 'digest');
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS requeue_notification_emails ON notification_email_preferences;
+CREATE TRIGGER requeue_notification_emails
+  AFTER INSERT OR UPDATE OF mode ON notification_email_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION public.requeue_notification_emails();
+
+COMMENT ON FUNCTION public.requeue_notification_emails() IS
+'Moves a user''s queued (pending/digest) notifications to their new email preference mode.';
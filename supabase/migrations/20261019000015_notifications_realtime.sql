@@ -0,0 +1,31 @@
+-- ============================================================================
+-- Migration: Realtime notifications
+-- Date: 2026-10-19
+-- Purpose:
+--   The app subscribed to nothing and polled notifications every 30 seconds.
+--   Publish the notifications table to Supabase Realtime so clients receive
+--   inserts and updates for their own rows as they happen
+--   (subscribeToNotifications in src/lib/notifications.ts). Realtime applies
+--   the existing "Users can view own notifications" RLS policy to inserts and
+--   updates, so a user only receives their own. Deletes are the exception:
+--   realtime cannot check RLS or the user_id filter for them and sends every
+--   delete with only its id, so clients ignore ids they have not loaded.
+--
+-- Idempotent: safe to re-run.
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1
+      FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = 'notifications'
+    )
+  THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+  END IF;
+END;
+$$;
@@ -0,0 +1,201 @@
+-- ============================================================================
+-- Migration: Server-side milestone deadline reminders
+-- Date: 2026-10-19
+-- Purpose:
+--   Deadline reminders only existed in utils/notificationManager.ts, which
+--   checked localStorage milestones in the browser, so the 'deadline'
+--   notification type was never created in Supabase. This moves the check to
+--   the database:
+--
+--   * programs.deadline_reminder_days - remind this many days before a
+--     milestone deadline (0 = on the day). Default {7,3,1}.
+--   * programs.overdue_reminder_days - remind this many days after a missed
+--     deadline. Default {1,7}.
+--   * deadline_reminders_sent - one row per (assignment, deadline, offset)
+--     already notified. Offsets before the deadline are stored as positive
+--     days, overdue offsets as negative days. The deadline is part of the key
+--     so moving a deadline re-arms its reminders.
+--   * generate_deadline_notifications() - creates 'deadline'
+--     notifications for open (pending / in_progress) assignments of active
+--     participants in active programs. Each run sends the most recent offset
+--     that has been reached and not yet sent, so a missed run catches up
+--     with one reminder rather than several. It always works from
+--     current_date: a caller-chosen date could send reminders early and mark
+--     the real ones as already sent. Returns the number created.
+--
+--   The function runs daily from pg_cron when the extension is available,
+--   and from api/deadline-reminders.ts (Vercel cron) otherwise; the sent log
+--   makes running both harmless.
+--
+-- Idempotent: safe to re-run.
+-- ============================================================================
+
+ALTER TABLE programs
+  ADD COLUMN IF NOT EXISTS deadline_reminder_days INTEGER[] NOT NULL DEFAULT '{7,3,1}';
+
+ALTER TABLE programs
+  ADD COLUMN IF NOT EXISTS overdue_reminder_days INTEGER[] NOT NULL DEFAULT '{1,7}';
+
+ALTER TABLE programs DROP CONSTRAINT IF EXISTS programs_deadline_reminder_days_check;
+ALTER TABLE programs ADD CONSTRAINT programs_deadline_reminder_days_check
+  CHECK (
+    cardinality(deadline_reminder_days) <= 10
+    AND 0 <= ALL(deadline_reminder_days)
+    AND 365 >= ALL(deadline_reminder_days)
+  );
+
+ALTER TABLE programs DROP CONSTRAINT IF EXISTS programs_overdue_reminder_days_check;
+ALTER TABLE programs ADD CONSTRAINT programs_overdue_reminder_days_check
+  CHECK (
+    cardinality(overdue_reminder_days) <= 10
+    AND 1 <= ALL(overdue_reminder_days)
+    AND 365 >= ALL(overdue_reminder_days)
+  );
+
+CREATE TABLE IF NOT EXISTS deadline_reminders_sent (
+  assignment_id UUID NOT NULL REFERENCES milestone_assignments(id) ON DELETE CASCADE,
+  deadline DATE NOT NULL,
+  offset_days INTEGER NOT NULL,
+  notification_id UUID REFERENCES notifications(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (assignment_id, deadline, offset_days)
+);
+
+-- No policies: only generate_deadline_notifications (SECURITY DEFINER) and
+-- the service role touch this table.
+ALTER TABLE deadline_reminders_sent ENABLE ROW LEVEL SECURITY;
+
+-- An earlier version took the date as a parameter.
+DROP FUNCTION IF EXISTS public.generate_deadline_notifications(DATE);
+
+CREATE OR REPLACE FUNCTION public.generate_deadline_notifications()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row RECORD;
+  v_days_until INTEGER;
+  v_offset INTEGER;
+  v_title TEXT;
+  v_message TEXT;
+  v_notification_id UUID;
+  v_created INTEGER := 0;
+BEGIN
+  FOR v_row IN
+    SELECT
+      ma.id AS assignment_id,
+      ma.participant_id,
+      m.id AS milestone_id,
+      m.name AS milestone_name,
+      m.deadline,
+      p.id AS program_id,
+      p.name AS program_name,
+      p.deadline_reminder_days,
+      p.overdue_reminder_days
+    FROM milestone_assignments ma
+    JOIN milestones m ON m.id = ma.milestone_id
+    JOIN programs p ON p.id = m.program_id
+    JOIN program_participants pp
+      ON pp.program_id = p.id
+     AND pp.participant_id = ma.participant_id
+     AND pp.status = 'active'
+    WHERE ma.status IN ('pending', 'in_progress')
+      AND ma.declined_at IS NULL
+      AND ma.participant_id IS NOT NULL
+      AND p.status = 'active'
+  LOOP
+    v_days_until := v_row.deadline - current_date;
+
+    -- The most recent offset reached: the smallest "days before" still at
+    -- or above the days left, or the largest "days overdue" already passed.
+    IF v_days_until >= 0 THEN
+      SELECT min(d) INTO v_offset
+      FROM unnest(v_row.deadline_reminder_days) AS d
+      WHERE d >= v_days_until;
+    ELSE
+      SELECT -max(d) INTO v_offset
+      FROM unnest(v_row.overdue_reminder_days) AS d
+      WHERE d <= -v_days_until;
+    END IF;
+
+    CONTINUE WHEN v_offset IS NULL;
+
+    INSERT INTO deadline_reminders_sent (assignment_id, deadline, offset_days)
+    VALUES (v_row.assignment_id, v_row.deadline, v_offset)
+    ON CONFLICT DO NOTHING;
+
+    CONTINUE WHEN NOT FOUND;
+
+    IF v_days_until > 0 THEN
+      v_title := 'Milestone Deadline Approaching';
+      v_message := format(
+        '"%s" in %s is due in %s day%s. Please ensure you complete it on time.',
+        v_row.milestone_name, v_row.program_name, v_days_until,
+        CASE WHEN v_days_until = 1 THEN '' ELSE 's' END
+      );
+    ELSIF v_days_until = 0 THEN
+      v_title := 'Milestone Due Today';
+      v_message := format('"%s" in %s is due today.', v_row.milestone_name, v_row.program_name);
+    ELSE
+      v_title := 'Milestone Overdue';
+      v_message := format(
+        '"%s" in %s was due %s day%s ago and is not complete yet.',
+        v_row.milestone_name, v_row.program_name, -v_days_until,
+        CASE WHEN v_days_until = -1 THEN '' ELSE 's' END
+      );
+    END IF;
+
+    INSERT INTO notifications (user_id, type, title, message, is_read, read, metadata)
+    VALUES (
+      v_row.participant_id,
+      'deadline',
+      v_title,
+      v_message,
+      false,
+      false,
+      jsonb_build_object(
+        'assignmentId', v_row.assignment_id,
+        'milestoneId', v_row.milestone_id,
+        'programId', v_row.program_id,
+        'deadline', v_row.deadline,
+        'daysRemaining', v_days_until
+      )
+    )
+    RETURNING id INTO v_notification_id;
+
+    UPDATE deadline_reminders_sent
+    SET notification_id = v_notification_id
+    WHERE assignment_id = v_row.assignment_id
+      AND deadline = v_row.deadline
+      AND offset_days = v_offset;
+
+    v_created := v_created + 1;
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.generate_deadline_notifications() FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.generate_deadline_notifications() FROM anon;
+REVOKE ALL ON FUNCTION public.generate_deadline_notifications() FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.generate_deadline_notifications() TO service_role;
+
+COMMENT ON FUNCTION public.generate_deadline_notifications() IS
+'Creates de-duplicated ''deadline'' notifications for open milestone assignments at each program''s deadline_reminder_days / overdue_reminder_days offsets. Service role / pg_cron only. Returns the number of notifications created.';
+
+-- Daily reminders when pg_cron is installed. Projects without it rely on the
+-- /api/deadline-reminders Vercel cron.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname = 'generate-deadline-notifications';
+    PERFORM cron.schedule(
+      'generate-deadline-notifications',
+      '30 6 * * *',
+      'SELECT public.generate_deadline_notifications()'
+    );
+  END IF;
+END $$;
@@ -0,0 +1,26 @@
+-- ============================================================================
+-- Migration: Notification center (archive and delete)
+-- Date: 2026-10-19
+-- Purpose:
+--   The notification center lets every user archive notifications out of
+--   their inbox and delete them outright.
+--
+--   * notifications.archived_at - set when the user archives a notification;
+--     the inbox shows rows where it is NULL.
+--   * A DELETE policy so users can remove their own notifications. Until now
+--     only SELECT / UPDATE / INSERT policies existed, so deletes matched
+--     nothing.
+--   * An index for the center's paged queries (newest first per user).
+--
+-- Idempotent: safe to re-run.
+-- ============================================================================
+
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created
+  ON notifications(user_id, created_at DESC);
+
+DROP POLICY IF EXISTS "Users can delete own notifications" ON notifications;
+CREATE POLICY "Users can delete own notifications" ON notifications
+  FOR DELETE
+  USING (user_id = auth.uid());
@@ -0,0 +1,311 @@
+-- ============================================================================
+-- Migration: Notify program managers about participant activity
+-- Date: 2026-10-19
+-- Purpose:
+--   Managers heard nothing when participants worked in their programs. Three
+--   database triggers now notify the program's manager:
+--
+--   * progress_report     - a participant submits a progress report
+--   * milestone_completed - an assignment moves to 'completed'
+--   * budget_exceeded     - non-rejected spend in a balance cycle (converted
+--                           to the program currency, same fallback as
+--                           get_program_budget_allocations) goes over the
+--                           cycle budget. balance_cycles.over_budget_notified_at
+--                           makes this fire once per crossing; it is cleared
+--                           when spend drops back within budget (an expense
+--                           rejected or removed), so a later overspend
+--                           notifies again.
+--
+--   The event name is the notification type. Triggers insert through
+--   notify_program_manager rather than create_notification: that RPC needs a
+--   signed-in caller and keeps its type allowlist, so participants still
+--   cannot create these types themselves. Being triggers, they fire however
+--   the row is written (app, import, service role).
+--
+--   manager_notification_opt_outs holds one row per manager and event type
+--   they turned off. Managers are never notified about their own actions.
+--
+-- Idempotent: safe to re-run.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS manager_notification_opt_outs (
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN ('progress_report', 'milestone_completed', 'budget_exceeded')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, event_type)
+);
+
+ALTER TABLE manager_notification_opt_outs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own notification opt-outs" ON manager_notification_opt_outs;
+CREATE POLICY "Users can view own notification opt-outs" ON manager_notification_opt_outs
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can create own notification opt-outs" ON manager_notification_opt_outs;
+CREATE POLICY "Users can create own notification opt-outs" ON manager_notification_opt_outs
+  FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can delete own notification opt-outs" ON manager_notification_opt_outs;
+CREATE POLICY "Users can delete own notification opt-outs" ON manager_notification_opt_outs
+  FOR DELETE
+  USING (user_id = auth.uid());
+
+ALTER TABLE balance_cycles ADD COLUMN IF NOT EXISTS over_budget_notified_at TIMESTAMPTZ;
+
+CREATE OR REPLACE FUNCTION public.notify_program_manager(
+  p_program_id UUID,
+  p_event TEXT,
+  p_title TEXT,
+  p_message TEXT,
+  p_metadata JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_manager_id UUID;
+  v_id UUID;
+BEGIN
+  IF p_event NOT IN ('progress_report', 'milestone_completed', 'budget_exceeded') THEN
+    RAISE EXCEPTION 'Unknown manager notification event: %', p_event;
+  END IF;
+
+  SELECT manager_id INTO v_manager_id FROM programs WHERE id = p_program_id;
+
+  IF v_manager_id IS NULL
+    OR v_manager_id = auth.uid()
+    OR EXISTS (
+      SELECT 1
+      FROM manager_notification_opt_outs o
+      WHERE o.user_id = v_manager_id
+        AND o.event_type = p_event
+    )
+  THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, message, is_read, read, metadata)
+  VALUES (
+    v_manager_id,
+    p_event,
+    p_title,
+    p_message,
+    false,
+    false,
+    COALESCE(p_metadata, '{}'::jsonb) || jsonb_build_object('programId', p_program_id)
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.notify_program_manager(UUID, TEXT, TEXT, TEXT, JSONB) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.notify_program_manager(UUID, TEXT, TEXT, TEXT, JSONB) FROM anon;
+REVOKE ALL ON FUNCTION public.notify_program_manager(UUID, TEXT, TEXT, TEXT, JSONB) FROM authenticated;
+
+COMMENT ON FUNCTION public.notify_program_manager(UUID, TEXT, TEXT, TEXT, JSONB) IS
+'Notifies a program''s manager about participant activity unless they opted out of p_event or caused it. Internal: called by the activity triggers only.';
+
+-- Progress reports ------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.notify_progress_report_submitted()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_program_id UUID;
+  v_milestone_name TEXT;
+  v_participant_name TEXT;
+BEGIN
+  SELECT m.program_id, m.name INTO v_program_id, v_milestone_name
+  FROM milestone_assignments ma
+  JOIN milestones m ON m.id = ma.milestone_id
+  WHERE ma.id = NEW.assignment_id;
+
+  IF v_program_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name INTO v_participant_name FROM profiles WHERE id = NEW.participant_id;
+
+  PERFORM public.notify_program_manager(
+    v_program_id,
+    'progress_report',
+    'Progress Report Submitted',
+    format(
+      '%s submitted a week %s progress report on "%s"%s.',
+      COALESCE(v_participant_name, 'A participant'),
+      NEW.week_number,
+      v_milestone_name,
+      CASE WHEN NEW.completion_percentage IS NULL THEN '' ELSE format(' (%s%% complete)', NEW.completion_percentage) END
+    ),
+    jsonb_build_object(
+      'assignmentId', NEW.assignment_id,
+      'reportId', NEW.id,
+      'participantId', NEW.participant_id
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_progress_report_submitted ON progress_reports;
+CREATE TRIGGER notify_progress_report_submitted
+  AFTER INSERT ON progress_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_progress_report_submitted();
+
+-- Milestone completion --------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.notify_milestone_completed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_program_id UUID;
+  v_milestone_name TEXT;
+  v_participant_name TEXT;
+BEGIN
+  SELECT program_id, name INTO v_program_id, v_milestone_name
+  FROM milestones
+  WHERE id = NEW.milestone_id;
+
+  IF v_program_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name INTO v_participant_name FROM profiles WHERE id = NEW.participant_id;
+
+  PERFORM public.notify_program_manager(
+    v_program_id,
+    'milestone_completed',
+    'Milestone Completed',
+    format(
+      '%s marked "%s" as completed. It is ready for your review.',
+      COALESCE(v_participant_name, 'A participant'),
+      v_milestone_name
+    ),
+    jsonb_build_object(
+      'assignmentId', NEW.id,
+      'participantId', NEW.participant_id
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_milestone_completed ON milestone_assignments;
+CREATE TRIGGER notify_milestone_completed
+  AFTER UPDATE OF status ON milestone_assignments
+  FOR EACH ROW
+  WHEN (NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed')
+  EXECUTE FUNCTION public.notify_milestone_completed();
+
+-- Budget overspend ------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.check_cycle_budget_alert(p_cycle_id UUID, p_expense_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_cycle RECORD;
+  v_spent DECIMAL;
+  v_participant_name TEXT;
+BEGIN
+  SELECT bc.id, bc.budget, bc.participant_id, bc.program_id, bc.over_budget_notified_at, p.currency
+  INTO v_cycle
+  FROM balance_cycles bc
+  JOIN programs p ON p.id = bc.program_id
+  WHERE bc.id = p_cycle_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(COALESCE(public.convert_currency(e.amount, e.currency, v_cycle.currency, e.date), e.amount)), 0)
+  INTO v_spent
+  FROM expenses e
+  WHERE e.cycle_id = p_cycle_id
+    AND e.status <> 'rejected';
+
+  IF v_spent <= v_cycle.budget THEN
+    IF v_cycle.over_budget_notified_at IS NOT NULL THEN
+      UPDATE balance_cycles SET over_budget_notified_at = NULL WHERE id = p_cycle_id;
+    END IF;
+    RETURN;
+  END IF;
+
+  IF v_cycle.over_budget_notified_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE balance_cycles SET over_budget_notified_at = now() WHERE id = p_cycle_id;
+
+  SELECT name INTO v_participant_name FROM profiles WHERE id = v_cycle.participant_id;
+
+  PERFORM public.notify_program_manager(
+    v_cycle.program_id,
+    'budget_exceeded',
+    'Cycle Budget Exceeded',
+    format(
+      '%s has spent %s %s against a cycle budget of %s %s.',
+      COALESCE(v_participant_name, 'A participant'),
+      to_char(v_spent, 'FM999G999G990D00'),
+      v_cycle.currency,
+      to_char(v_cycle.budget, 'FM999G999G990D00'),
+      v_cycle.currency
+    ),
+    jsonb_build_object(
+      'cycleId', p_cycle_id,
+      'expenseId', p_expense_id,
+      'participantId', v_cycle.participant_id,
+      'spent', v_spent,
+      'budget', v_cycle.budget
+    )
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.check_cycle_budget_alert(UUID, UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.check_cycle_budget_alert(UUID, UUID) FROM anon;
+REVOKE ALL ON FUNCTION public.check_cycle_budget_alert(UUID, UUID) FROM authenticated;
+
+CREATE OR REPLACE FUNCTION public.notify_cycle_budget_exceeded()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' AND OLD.cycle_id IS NOT NULL
+    AND (TG_OP = 'DELETE' OR OLD.cycle_id IS DISTINCT FROM NEW.cycle_id)
+  THEN
+    PERFORM public.check_cycle_budget_alert(OLD.cycle_id, NULL);
+  END IF;
+
+  IF TG_OP <> 'DELETE' AND NEW.cycle_id IS NOT NULL THEN
+    PERFORM public.check_cycle_budget_alert(NEW.cycle_id, NEW.id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_cycle_budget_exceeded ON expenses;
+CREATE TRIGGER notify_cycle_budget_exceeded
+  AFTER INSERT OR DELETE OR UPDATE OF amount, currency, status, cycle_id, date ON expenses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_cycle_budget_exceeded();
@@ -0,0 +1,471 @@
+-- ============================================================================
+-- Migration: Threaded comments on milestone assignments and progress reports
+-- Date: 2026-10-19
+-- Purpose:
+--   Feedback was an append-only JSONB array on progress_reports.manager_feedback
+--   with no way to reply. Comments replace it:
+--
+--   * comments - a thread attaches to a milestone assignment, optionally to
+--     one of its progress reports. Top-level comments have parent_id NULL;
+--     replies point at the top-level comment (replies to replies are
+--     flattened onto the same thread). The assignment's participant, the
+--     program manager and admins can read and write.
+--   * Edits and deletes keep history in comment_revisions. Deleting is a soft
+--     delete (deleted_at) so replies keep their thread; the body is cleared and
+--     its last text kept as a 'delete' revision. Authors edit their own
+--     comments; authors and program managers can delete.
+--   * mentions - user ids @mentioned in the body, resolved by the app. Ids
+--     without access to the assignment are dropped.
+--   * Notifications: mentioned users get a 'mention' notification (also when
+--     an edit adds them); the participant, the program manager and everyone
+--     else in the thread get a 'comment' notification.
+--
+--   Existing manager_feedback entries are copied into comments once. The
+--   column is no longer written by the app.
+--
+-- Idempotent: safe to re-run.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.can_access_assignment(p_assignment_id UUID, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    EXISTS (
+      SELECT 1
+      FROM public.milestone_assignments ma
+      JOIN public.milestones m ON m.id = ma.milestone_id
+      JOIN public.programs p ON p.id = m.program_id
+      WHERE ma.id = p_assignment_id
+      AND (ma.participant_id = p_user_id OR p.manager_id = p_user_id)
+    )
+    OR EXISTS (
+      SELECT 1
+      FROM public.profiles
+      WHERE id = p_user_id
+      AND role = 'admin'
+    ),
+    false
+  );
+$$;
+
+COMMENT ON FUNCTION public.can_access_assignment(UUID, UUID) IS
+'True when the user is the assignment''s participant, the manager of its program, or an admin.';
+
+CREATE TABLE IF NOT EXISTS comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  assignment_id UUID NOT NULL REFERENCES milestone_assignments(id) ON DELETE CASCADE,
+  progress_report_id UUID REFERENCES progress_reports(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES comments(id) ON DELETE CASCADE,
+  author_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  body TEXT NOT NULL DEFAULT '',
+  mentions UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  edited_at TIMESTAMPTZ,
+  deleted_at TIMESTAMPTZ,
+  deleted_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  CONSTRAINT comments_body_length CHECK (
+    deleted_at IS NOT NULL OR char_length(btrim(body)) BETWEEN 1 AND 5000
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_comments_assignment
+  ON comments(assignment_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_comments_progress_report
+  ON comments(progress_report_id, created_at)
+  WHERE progress_report_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_comments_parent
+  ON comments(parent_id)
+  WHERE parent_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS comment_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  comment_id UUID NOT NULL REFERENCES comments(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('edit', 'delete')),
+  body TEXT NOT NULL,
+  mentions UUID[] NOT NULL DEFAULT '{}',
+  revised_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_comment_revisions_comment
+  ON comment_revisions(comment_id, created_at);
+
+ALTER TABLE comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE comment_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Assignment members can view comments" ON comments;
+CREATE POLICY "Assignment members can view comments" ON comments
+  FOR SELECT
+  USING (public.can_access_assignment(assignment_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Assignment members can create comments" ON comments;
+CREATE POLICY "Assignment members can create comments" ON comments
+  FOR INSERT
+  WITH CHECK (
+    author_id = auth.uid()
+    AND public.can_access_assignment(assignment_id, auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Authors and managers can update comments" ON comments;
+CREATE POLICY "Authors and managers can update comments" ON comments
+  FOR UPDATE
+  USING (
+    deleted_at IS NULL
+    AND (
+      author_id = auth.uid()
+      OR EXISTS (
+        SELECT 1
+        FROM milestone_assignments ma
+        JOIN milestones m ON m.id = ma.milestone_id
+        WHERE ma.id = comments.assignment_id
+        AND public.can_manage_program(m.program_id)
+      )
+    )
+  )
+  WITH CHECK (public.can_access_assignment(assignment_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Assignment members can view comment revisions" ON comment_revisions;
+CREATE POLICY "Assignment members can view comment revisions" ON comment_revisions
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM comments c
+      WHERE c.id = comment_revisions.comment_id
+      AND public.can_access_assignment(c.assignment_id, auth.uid())
+    )
+  );
+
+-- Legacy feedback --------------------------------------------------------------
+-- Copied before the notification trigger exists; re-runs find every entry
+-- already present and insert nothing.
+
+INSERT INTO comments (assignment_id, progress_report_id, author_id, body, created_at, updated_at)
+SELECT
+  pr.assignment_id,
+  pr.id,
+  (fb->>'managerId')::uuid,
+  btrim(fb->>'feedback'),
+  COALESCE((fb->>'feedbackDate')::timestamptz, pr.updated_at, now()),
+  COALESCE((fb->>'feedbackDate')::timestamptz, pr.updated_at, now())
+FROM progress_reports pr
+CROSS JOIN LATERAL jsonb_array_elements(
+  CASE WHEN jsonb_typeof(pr.manager_feedback) = 'array' THEN pr.manager_feedback ELSE '[]'::jsonb END
+) AS fb
+WHERE fb->>'managerId' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+  AND EXISTS (SELECT 1 FROM profiles WHERE id = (fb->>'managerId')::uuid)
+  AND char_length(btrim(COALESCE(fb->>'feedback', ''))) BETWEEN 1 AND 5000
+  AND NOT EXISTS (
+    SELECT 1
+    FROM comments c
+    WHERE c.progress_report_id = pr.id
+    AND c.author_id = (fb->>'managerId')::uuid
+    AND c.body = btrim(fb->>'feedback')
+  );
+
+COMMENT ON COLUMN progress_reports.manager_feedback IS
+'Legacy feedback entries, copied into comments. No longer written.';
+
+-- Integrity -----------------------------------------------------------------
+
+-- Mentions are kept to distinct users who can see the assignment, other than
+-- the author.
+CREATE OR REPLACE FUNCTION public.filter_comment_mentions(
+  p_assignment_id UUID,
+  p_author_id UUID,
+  p_mentions UUID[]
+)
+RETURNS UUID[]
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT mentioned), '{}')
+  FROM unnest(COALESCE(p_mentions, '{}')) AS mentioned
+  WHERE mentioned <> p_author_id
+    AND public.can_access_assignment(p_assignment_id, mentioned);
+$$;
+
+CREATE OR REPLACE FUNCTION public.prepare_comment_insert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_parent RECORD;
+  v_report_assignment_id UUID;
+BEGIN
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT id, parent_id, assignment_id, progress_report_id
+    INTO v_parent
+    FROM comments
+    WHERE id = NEW.parent_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Comment % not found', NEW.parent_id;
+    END IF;
+
+    NEW.parent_id := COALESCE(v_parent.parent_id, v_parent.id);
+    NEW.assignment_id := v_parent.assignment_id;
+    NEW.progress_report_id := v_parent.progress_report_id;
+  ELSIF NEW.progress_report_id IS NOT NULL THEN
+    SELECT assignment_id INTO v_report_assignment_id
+    FROM progress_reports
+    WHERE id = NEW.progress_report_id;
+
+    IF v_report_assignment_id IS NULL THEN
+      RAISE EXCEPTION 'Progress report % not found', NEW.progress_report_id;
+    END IF;
+
+    NEW.assignment_id := v_report_assignment_id;
+  END IF;
+
+  NEW.body := btrim(NEW.body);
+  NEW.mentions := public.filter_comment_mentions(NEW.assignment_id, NEW.author_id, NEW.mentions);
+  NEW.edited_at := NULL;
+  NEW.deleted_at := NULL;
+  NEW.deleted_by := NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prepare_comment_insert ON comments;
+CREATE TRIGGER prepare_comment_insert
+  BEFORE INSERT ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_comment_insert();
+
+-- Only the body, mentions and deleted_at change. Edits by anyone but the
+-- author are rejected (managers may delete, not rewrite). The previous text
+-- goes to comment_revisions.
+CREATE OR REPLACE FUNCTION public.record_comment_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted comments cannot be changed';
+  END IF;
+
+  NEW.assignment_id := OLD.assignment_id;
+  NEW.progress_report_id := OLD.progress_report_id;
+  NEW.parent_id := OLD.parent_id;
+  NEW.author_id := OLD.author_id;
+  NEW.created_at := OLD.created_at;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    INSERT INTO comment_revisions (comment_id, action, body, mentions, revised_by)
+    VALUES (OLD.id, 'delete', OLD.body, OLD.mentions, auth.uid());
+
+    NEW.deleted_at := now();
+    NEW.deleted_by := auth.uid();
+    NEW.body := '';
+    NEW.mentions := '{}';
+    NEW.edited_at := OLD.edited_at;
+    RETURN NEW;
+  END IF;
+
+  NEW.deleted_by := NULL;
+  NEW.body := btrim(NEW.body);
+  NEW.mentions := public.filter_comment_mentions(OLD.assignment_id, OLD.author_id, NEW.mentions);
+
+  IF NEW.body IS DISTINCT FROM OLD.body OR NEW.mentions IS DISTINCT FROM OLD.mentions THEN
+    IF auth.uid() IS NOT NULL AND auth.uid() <> OLD.author_id THEN
+      RAISE EXCEPTION 'Only the author can edit a comment';
+    END IF;
+
+    INSERT INTO comment_revisions (comment_id, action, body, mentions, revised_by)
+    VALUES (OLD.id, 'edit', OLD.body, OLD.mentions, auth.uid());
+
+    NEW.edited_at := now();
+  ELSE
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_comment_revision ON comments;
+CREATE TRIGGER record_comment_revision
+  BEFORE UPDATE ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_comment_revision();
+
+DROP TRIGGER IF EXISTS update_comments_updated_at ON comments;
+CREATE TRIGGER update_comments_updated_at
+  BEFORE UPDATE ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Notifications ---------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.notify_comment_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_program_id UUID;
+  v_milestone_name TEXT;
+  v_participant_id UUID;
+  v_manager_id UUID;
+  v_author_name TEXT;
+  v_preview TEXT;
+  v_metadata JSONB;
+  v_new_mentions UUID[];
+BEGIN
+  SELECT m.program_id, m.name, ma.participant_id, p.manager_id
+  INTO v_program_id, v_milestone_name, v_participant_id, v_manager_id
+  FROM milestone_assignments ma
+  JOIN milestones m ON m.id = ma.milestone_id
+  JOIN programs p ON p.id = m.program_id
+  WHERE ma.id = NEW.assignment_id;
+
+  IF v_program_id IS NULL OR NEW.deleted_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT COALESCE(array_agg(mentioned), '{}') INTO v_new_mentions
+    FROM unnest(NEW.mentions) AS mentioned
+    WHERE NOT mentioned = ANY (OLD.mentions);
+  ELSE
+    v_new_mentions := NEW.mentions;
+  END IF;
+
+  SELECT name INTO v_author_name FROM profiles WHERE id = NEW.author_id;
+  v_author_name := COALESCE(v_author_name, 'Someone');
+  v_preview := CASE WHEN char_length(NEW.body) > 100 THEN left(NEW.body, 100) || '...' ELSE NEW.body END;
+  v_metadata := jsonb_build_object(
+    'assignmentId', NEW.assignment_id,
+    'programId', v_program_id,
+    'commentId', COALESCE(NEW.parent_id, NEW.id),
+    'reportId', NEW.progress_report_id
+  );
+
+  INSERT INTO notifications (user_id, type, title, message, is_read, read, metadata)
+  SELECT
+    mentioned,
+    'mention',
+    'You Were Mentioned',
+    format('%s mentioned you on "%s": "%s"', v_author_name, v_milestone_name, v_preview),
+    false,
+    false,
+    v_metadata
+  FROM unnest(v_new_mentions) AS mentioned;
+
+  IF TG_OP = 'UPDATE' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, message, is_read, read, metadata)
+  SELECT
+    recipient,
+    'comment',
+    CASE WHEN NEW.parent_id IS NULL THEN 'New Comment' ELSE 'New Reply' END,
+    format(
+      '%s %s on "%s": "%s"',
+      v_author_name,
+      CASE WHEN NEW.parent_id IS NULL THEN 'commented' ELSE 'replied' END,
+      v_milestone_name,
+      v_preview
+    ),
+    false,
+    false,
+    v_metadata
+  FROM (
+    SELECT v_participant_id AS recipient
+    UNION
+    SELECT v_manager_id
+    UNION
+    SELECT c.author_id
+    FROM comments c
+    WHERE NEW.parent_id IS NOT NULL
+    AND (c.id = NEW.parent_id OR c.parent_id = NEW.parent_id)
+    AND c.deleted_at IS NULL
+  ) AS recipients
+  WHERE recipient IS NOT NULL
+    AND recipient <> NEW.author_id
+    AND NOT recipient = ANY (NEW.mentions)
+    AND public.can_access_assignment(NEW.assignment_id, recipient);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_comment_created ON comments;
+CREATE TRIGGER notify_comment_created
+  AFTER INSERT ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_comment_activity();
+
+DROP TRIGGER IF EXISTS notify_comment_mentions_added ON comments;
+CREATE TRIGGER notify_comment_mentions_added
+  AFTER UPDATE OF mentions ON comments
+  FOR EACH ROW
+  WHEN (NEW.deleted_at IS NULL AND NEW.mentions IS DISTINCT FROM OLD.mentions)
+  EXECUTE FUNCTION public.notify_comment_activity();
+
+REVOKE ALL ON FUNCTION public.filter_comment_mentions(UUID, UUID, UUID[]) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.filter_comment_mentions(UUID, UUID, UUID[]) FROM anon;
+REVOKE ALL ON FUNCTION public.filter_comment_mentions(UUID, UUID, UUID[]) FROM authenticated;
+
+-- People in a discussion ------------------------------------------------------
+-- Participants cannot read their manager's profile, so comment author names
+-- and @mention candidates come from here: the participant, the program
+-- manager and anyone who has commented on the assignment.
+
+CREATE OR REPLACE FUNCTION public.get_assignment_comment_people(p_assignment_id UUID)
+RETURNS TABLE (id UUID, name TEXT, role TEXT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_access_assignment(p_assignment_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not authorized to view this discussion';
+  END IF;
+
+  RETURN QUERY
+  SELECT pr.id, pr.name, pr.role
+  FROM profiles pr
+  WHERE pr.id IN (
+    SELECT ma.participant_id
+    FROM milestone_assignments ma
+    WHERE ma.id = p_assignment_id
+    UNION
+    SELECT p.manager_id
+    FROM milestone_assignments ma
+    JOIN milestones m ON m.id = ma.milestone_id
+    JOIN programs p ON p.id = m.program_id
+    WHERE ma.id = p_assignment_id
+    UNION
+    SELECT c.author_id
+    FROM comments c
+    WHERE c.assignment_id = p_assignment_id
+  )
+  ORDER BY pr.name;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.can_access_assignment(UUID, UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.can_access_assignment(UUID, UUID) FROM anon;
+REVOKE ALL ON FUNCTION public.get_assignment_comment_people(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.get_assignment_comment_people(UUID) FROM anon;
+GRANT EXECUTE ON FUNCTION public.can_access_assignment(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_assignment_comment_people(UUID) TO authenticated;
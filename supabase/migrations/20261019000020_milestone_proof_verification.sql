@@ -0,0 +1,208 @@
+-- ============================================================================
+-- Migration: Milestone proof of completion and manager verification
+-- Date: 2026-10-19
+-- Purpose:
+--   milestone_assignments.proof_url and the 'verified' status existed but
+--   nothing used them. Participants now attach a proof file to a milestone and
+--   program managers review completed milestones:
+--
+--     completed -> verified                      (review_decision 'verified')
+--     completed -> in_progress + review_note     (review_decision 'changes_requested')
+--
+--   * milestone-proofs bucket - PRIVATE, images and PDFs. Files are written
+--     and read by api/milestone-proof.ts with the service role, which
+--     authorizes every request (same model as the receipts bucket, see
+--     20260620000009). proof_url now holds the storage path, not a URL.
+--   * Participants keep their FOR ALL policy on their own assignments, so a
+--     BEFORE trigger (as enforce_expense_review does for expenses) stops them
+--     from verifying their own milestones, writing review fields, or
+--     reopening a verified milestone. Nobody but the service role may write
+--     the proof columns.
+--   * Re-saving a verified milestone as 'completed' (the app shows verified
+--     milestones as completed, so editing one does this) keeps it verified.
+--   * The participant is notified ('milestone_review') of every decision.
+--
+-- Idempotent: safe to re-run.
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'milestone-proofs',
+  'milestone-proofs',
+  false,
+  10485760, -- 10 MB
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'application/pdf']
+)
+ON CONFLICT (id) DO UPDATE
+SET
+  name = EXCLUDED.name,
+  public = false,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+ALTER TABLE milestone_assignments ADD COLUMN IF NOT EXISTS proof_file_name TEXT;
+ALTER TABLE milestone_assignments ADD COLUMN IF NOT EXISTS proof_uploaded_at TIMESTAMPTZ;
+ALTER TABLE milestone_assignments ADD COLUMN IF NOT EXISTS review_decision TEXT;
+ALTER TABLE milestone_assignments ADD COLUMN IF NOT EXISTS review_note TEXT;
+ALTER TABLE milestone_assignments ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
+ALTER TABLE milestone_assignments ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ;
+
+ALTER TABLE milestone_assignments DROP CONSTRAINT IF EXISTS milestone_assignments_review_decision_check;
+ALTER TABLE milestone_assignments ADD CONSTRAINT milestone_assignments_review_decision_check
+  CHECK (review_decision IN ('verified', 'changes_requested'));
+
+-- A change request must say what to change.
+ALTER TABLE milestone_assignments DROP CONSTRAINT IF EXISTS milestone_assignments_review_note_check;
+ALTER TABLE milestone_assignments ADD CONSTRAINT milestone_assignments_review_note_check
+  CHECK (review_decision IS DISTINCT FROM 'changes_requested' OR length(btrim(review_note)) > 0);
+
+CREATE INDEX IF NOT EXISTS idx_milestone_assignments_status ON milestone_assignments(status);
+
+COMMENT ON COLUMN milestone_assignments.proof_url IS
+'Storage path of the proof of completion in the private milestone-proofs bucket. Served by api/milestone-proof.';
+
+CREATE OR REPLACE FUNCTION public.enforce_milestone_verification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_program_id UUID;
+BEGIN
+  -- Service-role / migration writes have no auth.uid(); leave them untouched.
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.proof_url := NULL;
+    NEW.proof_file_name := NULL;
+    NEW.proof_uploaded_at := NULL;
+  ELSIF NEW.proof_url IS DISTINCT FROM OLD.proof_url
+    OR NEW.proof_file_name IS DISTINCT FROM OLD.proof_file_name
+    OR NEW.proof_uploaded_at IS DISTINCT FROM OLD.proof_uploaded_at THEN
+    RAISE EXCEPTION 'Milestone proof files are uploaded through /api/milestone-proof';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status = 'verified' AND NEW.status = 'completed' THEN
+    NEW.status := 'verified';
+    NEW.completion_date := OLD.completion_date;
+  END IF;
+
+  SELECT program_id INTO v_program_id FROM milestones WHERE id = NEW.milestone_id;
+
+  IF v_program_id IS NOT NULL AND public.can_manage_program(v_program_id) THEN
+    IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+      IF NEW.status = 'verified' THEN
+        IF TG_OP = 'INSERT' OR OLD.status <> 'completed' THEN
+          RAISE EXCEPTION 'Only completed milestones can be verified';
+        END IF;
+        NEW.review_decision := 'verified';
+      ELSIF TG_OP = 'UPDATE' AND OLD.status = 'verified' THEN
+        -- Reopening a verified milestone withdraws the verification.
+        NEW.review_decision := NULLIF(NEW.review_decision, 'verified');
+      END IF;
+    END IF;
+
+    IF TG_OP = 'INSERT' OR NEW.review_decision IS DISTINCT FROM OLD.review_decision
+      OR NEW.review_note IS DISTINCT FROM OLD.review_note THEN
+      IF NEW.review_decision IS NULL THEN
+        NEW.review_note := NULL;
+        NEW.reviewed_by := NULL;
+        NEW.reviewed_at := NULL;
+      ELSE
+        NEW.reviewed_by := auth.uid();
+        NEW.reviewed_at := now();
+      END IF;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status = 'verified' THEN
+      NEW.status := 'completed';
+    END IF;
+    NEW.review_decision := NULL;
+    NEW.review_note := NULL;
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.review_decision IS DISTINCT FROM OLD.review_decision
+    OR NEW.review_note IS DISTINCT FROM OLD.review_note
+    OR NEW.reviewed_by IS DISTINCT FROM OLD.reviewed_by
+    OR NEW.reviewed_at IS DISTINCT FROM OLD.reviewed_at THEN
+    RAISE EXCEPTION 'Only a program manager can review milestones';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status AND (NEW.status = 'verified' OR OLD.status = 'verified') THEN
+    RAISE EXCEPTION 'Only a program manager can verify or reopen a verified milestone';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_milestone_verification ON milestone_assignments;
+CREATE TRIGGER enforce_milestone_verification
+  BEFORE INSERT OR UPDATE ON milestone_assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_milestone_verification();
+
+COMMENT ON FUNCTION public.enforce_milestone_verification() IS
+'Prevents participants from verifying their own milestones or writing review fields, keeps proof columns service-role only, and stamps reviewed_by/reviewed_at on manager decisions.';
+
+CREATE OR REPLACE FUNCTION public.notify_milestone_reviewed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_program_id UUID;
+  v_milestone_name TEXT;
+BEGIN
+  IF NEW.participant_id IS NULL OR NEW.participant_id = auth.uid() THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT program_id, name INTO v_program_id, v_milestone_name
+  FROM milestones
+  WHERE id = NEW.milestone_id;
+
+  INSERT INTO notifications (user_id, type, title, message, is_read, read, metadata)
+  VALUES (
+    NEW.participant_id,
+    'milestone_review',
+    CASE WHEN NEW.review_decision = 'verified' THEN 'Milestone Verified' ELSE 'Changes Requested' END,
+    CASE
+      WHEN NEW.review_decision = 'verified' THEN
+        format('Your program manager verified "%s".', v_milestone_name)
+      ELSE
+        format('Your program manager asked for changes to "%s": %s', v_milestone_name, NEW.review_note)
+    END,
+    false,
+    false,
+    jsonb_build_object(
+      'assignmentId', NEW.id,
+      'programId', v_program_id,
+      'decision', NEW.review_decision
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_milestone_reviewed ON milestone_assignments;
+CREATE TRIGGER notify_milestone_reviewed
+  AFTER UPDATE OF review_decision, review_note ON milestone_assignments
+  FOR EACH ROW
+  WHEN (
+    NEW.review_decision IS NOT NULL
+    AND (NEW.review_decision IS DISTINCT FROM OLD.review_decision
+      OR NEW.review_note IS DISTINCT FROM OLD.review_note)
+  )
+  EXECUTE FUNCTION public.notify_milestone_reviewed();
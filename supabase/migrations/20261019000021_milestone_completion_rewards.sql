@@ -0,0 +1,218 @@
+-- ============================================================================
+-- Migration: Milestone completion rewards
+-- Date: 2026-10-19
+-- Purpose:
+--   milestones.completion_reward (initial schema) was never paid out. When a
+--   program manager verifies a completed milestone (status -> 'verified', see
+--   20261019000020), its reward is now credited to the participant:
+--
+--   * milestone_rewards - one ledger row per rewarded assignment (UNIQUE, so
+--     re-verifying a reopened milestone never pays twice). The milestone name
+--     and amount are copied so the ledger survives later edits or deletes.
+--   * The amount (in the program currency, like every cycle budget) is added
+--     to the budget of the participant's active balance cycle. The ledger row
+--     records which cycle was topped up, so budgets stay explainable. Spend,
+--     carry-forward, budget alerts and allocation totals all follow from the
+--     higher budget.
+--   * A participant with no active cycle gets a pending row (cycle_id NULL);
+--     it is credited to the next active cycle opened for them in the program.
+--     Closed cycles are never topped up: their carry-forward is already done.
+--   * Rewards are paid out of the program budget. A top-up that would
+--     over-allocate programs.total_budget fails like any other budget change
+--     (enforce_program_budget_allocation), so the manager's verification is
+--     refused with that error; a pending reward that does not fit stays
+--     pending rather than blocking the new cycle.
+--   * Rewards are not clawed back if a verified milestone is later reopened.
+--
+--   Only a program manager can set completion_reward; participants creating
+--   or editing their own milestones cannot give themselves a reward.
+--
+-- Idempotent: safe to re-run.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS milestone_rewards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  assignment_id UUID UNIQUE REFERENCES milestone_assignments(id) ON DELETE SET NULL,
+  participant_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  program_id UUID NOT NULL REFERENCES programs(id) ON DELETE CASCADE,
+  cycle_id UUID REFERENCES balance_cycles(id) ON DELETE SET NULL,
+  milestone_name TEXT NOT NULL,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  awarded_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  credited_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_milestone_rewards_cycle ON milestone_rewards(cycle_id);
+CREATE INDEX IF NOT EXISTS idx_milestone_rewards_participant_program
+  ON milestone_rewards(participant_id, program_id);
+
+ALTER TABLE milestone_rewards ENABLE ROW LEVEL SECURITY;
+
+-- No insert/update policy: rows are written by the triggers below.
+DROP POLICY IF EXISTS "Participants can view own milestone rewards" ON milestone_rewards;
+CREATE POLICY "Participants can view own milestone rewards" ON milestone_rewards
+  FOR SELECT
+  USING (participant_id = auth.uid());
+
+DROP POLICY IF EXISTS "Program managers can view milestone rewards" ON milestone_rewards;
+CREATE POLICY "Program managers can view milestone rewards" ON milestone_rewards
+  FOR SELECT
+  USING (public.can_manage_program(program_id));
+
+-- Reward amounts -------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.enforce_milestone_reward()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Service-role / migration writes have no auth.uid(); leave them untouched.
+  IF auth.uid() IS NULL OR (NEW.program_id IS NOT NULL AND public.can_manage_program(NEW.program_id)) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.completion_reward := NULL;
+  ELSIF NEW.completion_reward IS DISTINCT FROM OLD.completion_reward THEN
+    RAISE EXCEPTION 'Only a program manager can set a milestone reward';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_milestone_reward ON milestones;
+CREATE TRIGGER enforce_milestone_reward
+  BEFORE INSERT OR UPDATE ON milestones
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_milestone_reward();
+
+-- Crediting -------------------------------------------------------------------
+
+-- Adds a reward to a cycle's budget and marks it credited. The cycle must be
+-- an active cycle of the reward's participant in the reward's program.
+CREATE OR REPLACE FUNCTION public.credit_milestone_reward(p_reward_id UUID, p_cycle_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_amount DECIMAL;
+BEGIN
+  UPDATE milestone_rewards r
+  SET cycle_id = p_cycle_id,
+      credited_at = now()
+  FROM balance_cycles bc
+  WHERE r.id = p_reward_id
+    AND r.credited_at IS NULL
+    AND bc.id = p_cycle_id
+    AND bc.participant_id = r.participant_id
+    AND bc.program_id = r.program_id
+    AND bc.is_active
+  RETURNING r.amount INTO v_amount;
+
+  IF v_amount IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE balance_cycles SET budget = budget + v_amount WHERE id = p_cycle_id;
+
+  -- A top-up can bring an overspent cycle back within budget.
+  PERFORM public.check_cycle_budget_alert(p_cycle_id, NULL);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.credit_milestone_reward(UUID, UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.credit_milestone_reward(UUID, UUID) FROM anon;
+REVOKE ALL ON FUNCTION public.credit_milestone_reward(UUID, UUID) FROM authenticated;
+
+CREATE OR REPLACE FUNCTION public.reward_verified_milestone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_milestone RECORD;
+  v_reward_id UUID;
+  v_cycle_id UUID;
+BEGIN
+  SELECT program_id, name, completion_reward INTO v_milestone
+  FROM milestones
+  WHERE id = NEW.milestone_id;
+
+  IF v_milestone.program_id IS NULL OR COALESCE(v_milestone.completion_reward, 0) <= 0
+    OR NEW.participant_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO milestone_rewards (assignment_id, participant_id, program_id, milestone_name, amount, awarded_by)
+  VALUES (NEW.id, NEW.participant_id, v_milestone.program_id, v_milestone.name, v_milestone.completion_reward, auth.uid())
+  ON CONFLICT (assignment_id) DO NOTHING
+  RETURNING id INTO v_reward_id;
+
+  IF v_reward_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id INTO v_cycle_id
+  FROM balance_cycles
+  WHERE participant_id = NEW.participant_id
+    AND program_id = v_milestone.program_id
+    AND is_active
+  ORDER BY start_date DESC
+  LIMIT 1;
+
+  IF v_cycle_id IS NOT NULL THEN
+    PERFORM public.credit_milestone_reward(v_reward_id, v_cycle_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reward_verified_milestone ON milestone_assignments;
+CREATE TRIGGER reward_verified_milestone
+  AFTER UPDATE OF status ON milestone_assignments
+  FOR EACH ROW
+  WHEN (NEW.status = 'verified' AND OLD.status IS DISTINCT FROM 'verified')
+  EXECUTE FUNCTION public.reward_verified_milestone();
+
+CREATE OR REPLACE FUNCTION public.credit_pending_milestone_rewards()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reward_id UUID;
+BEGIN
+  FOR v_reward_id IN
+    SELECT id
+    FROM milestone_rewards
+    WHERE participant_id = NEW.participant_id
+      AND program_id = NEW.program_id
+      AND credited_at IS NULL
+    ORDER BY created_at
+  LOOP
+    BEGIN
+      PERFORM public.credit_milestone_reward(v_reward_id, NEW.id);
+    EXCEPTION WHEN others THEN
+      RAISE WARNING 'credit_pending_milestone_rewards: left reward % pending (%)', v_reward_id, SQLERRM;
+    END;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS credit_pending_milestone_rewards ON balance_cycles;
+CREATE TRIGGER credit_pending_milestone_rewards
+  AFTER INSERT ON balance_cycles
+  FOR EACH ROW
+  WHEN (NEW.is_active AND NEW.participant_id IS NOT NULL AND NEW.program_id IS NOT NULL)
+  EXECUTE FUNCTION public.credit_pending_milestone_rewards();
@@ -0,0 +1,149 @@
+-- ============================================================================
+-- Migration: Copy program settings when cloning a cohort
+-- Date: 2026-10-19
+-- Purpose:
+--   clone_program (20261019000002, currency added in 20261019000007) copied
+--   the program row, milestones and milestone templates only, so every new
+--   cohort had to be set up again by hand. It now also copies the program's
+--   configuration:
+--
+--   * expense categories, with their colors and per-cycle caps
+--     (20261019000004);
+--   * the program-wide cycle schedule (20261019000006). Per-participant
+--     schedules belong to the old cohort and are not copied;
+--   * deadline_reminder_days and overdue_reminder_days (20261019000016).
+--
+--   The signature is unchanged. Everything else is as in 20261019000007.
+--
+-- Idempotent: safe to re-run.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.clone_program(
+  p_source_program_id UUID,
+  p_name TEXT,
+  p_start_date DATE,
+  p_end_date DATE DEFAULT NULL,
+  p_total_budget DECIMAL DEFAULT NULL,
+  p_copy_manager BOOLEAN DEFAULT false
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_source programs%ROWTYPE;
+  v_new_id UUID;
+  v_offset INTEGER;
+  v_end_date DATE;
+  v_manager_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.can_manage_program(p_source_program_id) THEN
+    RAISE EXCEPTION 'Not authorized to clone program %', p_source_program_id;
+  END IF;
+
+  IF COALESCE(btrim(p_name), '') = '' THEN
+    RAISE EXCEPTION 'Program name is required';
+  END IF;
+
+  SELECT * INTO v_source FROM programs WHERE id = p_source_program_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Program % not found', p_source_program_id;
+  END IF;
+
+  v_offset := p_start_date - v_source.start_date;
+  v_end_date := COALESCE(p_end_date, v_source.end_date + v_offset);
+
+  -- can_manage_program() above means the caller is either the source manager
+  -- (so copying the manager is a no-op) or an admin, who may keep the original
+  -- manager on the new cohort instead of taking it over themselves.
+  v_manager_id := CASE WHEN p_copy_manager THEN v_source.manager_id ELSE auth.uid() END;
+
+  INSERT INTO programs (
+    name, description, manager_id, start_date, end_date, total_budget, currency,
+    deadline_reminder_days, overdue_reminder_days, status
+  )
+  VALUES (
+    btrim(p_name),
+    v_source.description,
+    v_manager_id,
+    p_start_date,
+    v_end_date,
+    COALESCE(p_total_budget, v_source.total_budget),
+    v_source.currency,
+    v_source.deadline_reminder_days,
+    v_source.overdue_reminder_days,
+    'active'
+  )
+  RETURNING id INTO v_new_id;
+
+  INSERT INTO milestones (program_id, name, description, category, start_date, deadline, completion_reward, created_by)
+  SELECT
+    v_new_id,
+    m.name,
+    m.description,
+    m.category,
+    m.start_date + v_offset,
+    m.deadline + v_offset,
+    m.completion_reward,
+    v_manager_id
+  FROM milestones m
+  WHERE m.program_id = p_source_program_id
+    -- Participants' own self-created milestones belong to that cohort only.
+    AND NOT EXISTS (
+      SELECT 1
+      FROM milestone_assignments ma
+      WHERE ma.milestone_id = m.id
+        AND ma.assignment_type = 'self_created'
+    );
+
+  INSERT INTO milestone_templates (program_id, title, description, category, suggested_duration_days, is_required, created_by)
+  SELECT
+    v_new_id,
+    t.title,
+    t.description,
+    t.category,
+    t.suggested_duration_days,
+    t.is_required,
+    auth.uid()
+  FROM milestone_templates t
+  WHERE t.program_id = p_source_program_id;
+
+  INSERT INTO expense_categories (program_id, name, color, cycle_cap, created_by)
+  SELECT
+    v_new_id,
+    c.name,
+    c.color,
+    c.cycle_cap,
+    auth.uid()
+  FROM expense_categories c
+  WHERE c.program_id = p_source_program_id;
+
+  INSERT INTO cycle_schedules (program_id, participant_id, frequency, interval_days, budget, carry_forward, is_active, created_by)
+  SELECT
+    v_new_id,
+    NULL,
+    s.frequency,
+    s.interval_days,
+    s.budget,
+    s.carry_forward,
+    s.is_active,
+    auth.uid()
+  FROM cycle_schedules s
+  WHERE s.program_id = p_source_program_id
+    AND s.participant_id IS NULL;
+
+  RETURN v_new_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.clone_program(UUID, TEXT, DATE, DATE, DECIMAL, BOOLEAN) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.clone_program(UUID, TEXT, DATE, DATE, DECIMAL, BOOLEAN) FROM anon;
+GRANT EXECUTE ON FUNCTION public.clone_program(UUID, TEXT, DATE, DATE, DECIMAL, BOOLEAN) TO authenticated;
+
+COMMENT ON FUNCTION public.clone_program(UUID, TEXT, DATE, DATE, DECIMAL, BOOLEAN) IS
+'Atomically copies a program, its milestones (dates shifted to the new start_date), milestone templates, expense categories, program-wide cycle schedule and reminder offsets for a new cohort. Caller must be able to manage the source program.';
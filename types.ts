@@ -25,11 +25,50 @@ export interface Expense {
   id: string;
   date: string;
   item: string;
-  amount: number;
-  category?: string;
+  amount: number; // In `currency`
+  currency?: string; // ISO 4217 code; defaults to the program currency
+  convertedAmount?: number; // Amount in the program currency, set when loaded with exchange rates
+  category?: string; // Category name, kept for exports even if the category is deleted
+  categoryId?: string;
   receiptUrl?: string; // Data URL for the image
+  receiptHash?: string; // SHA-256 of the uploaded receipt file, for duplicate detection
+  // Receipt-level figures read by OCR, in `currency`. They describe the whole
+  // receipt, which may include items not claimed in `amount`.
+  merchant?: string;
+  paymentMethod?: string;
+  receiptSubtotal?: number;
+  receiptTax?: number;
+  receiptTip?: number;
+  receiptTotal?: number;
   contact?: string;
   remarks?: string;
+  status?: ExpenseStatus;
+  reviewReason?: string; // Manager's rejection reason or question
+  reviewedAt?: string;
+}
+
+export enum ExpenseStatus {
+  SUBMITTED = 'submitted',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+  NEEDS_INFO = 'needs_info'
+}
+
+// 1 fromCurrency = rate toCurrency, from effectiveDate until the next rate for the pair.
+export interface ExchangeRate {
+  id: string;
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+  effectiveDate: string;
+}
+
+export interface ExpenseCategory {
+  id: string;
+  programId: string;
+  name: string;
+  color: string; // Hex color, e.g. #6366f1
+  cycleCap?: number; // Optional spending cap per balance cycle
 }
 
 export interface BalanceSheetCycle {
@@ -39,6 +78,41 @@ export interface BalanceSheetCycle {
   budget: number;
   expenses: Expense[];
   isActive: boolean;
+  carriedForward?: number; // Signed amount carried in from the previous cycle
+  scheduleId?: string; // Set when the cycle was opened by a cycle schedule
+  rewards?: MilestoneReward[]; // Already included in `budget`
+}
+
+// A verified milestone's completion reward, credited as a top-up to a
+// balance cycle's budget (in the program currency).
+export interface MilestoneReward {
+  id: string;
+  assignmentId?: string;
+  cycleId?: string; // Unset until a cycle is open to credit it to
+  milestoneTitle: string;
+  amount: number;
+  creditedAt?: string;
+  createdAt: string;
+}
+
+export type CycleFrequency = 'weekly' | 'monthly' | 'custom';
+export type CarryForwardMode = 'none' | 'unspent' | 'overspend' | 'both';
+
+export interface CycleSchedule {
+  id: string;
+  programId: string;
+  participantId?: string; // Undefined = program-wide default
+  frequency: CycleFrequency;
+  intervalDays?: number; // Only for 'custom'
+  budget: number;
+  carryForward: CarryForwardMode;
+  isActive: boolean;
+}
+
+// When participants get 'deadline' notifications for open milestones
+export interface DeadlineReminderSettings {
+  daysBefore: number[]; // 0 = on the deadline
+  daysOverdue: number[];
 }
 
 // Program Model
@@ -51,6 +125,8 @@ export interface Program {
   startDate: string;
   endDate: string;
   status: 'active' | 'completed' | 'upcoming';
+  totalBudget?: number;
+  currency?: string; // ISO 4217 base currency for budgets and totals
   createdBy: string;
   createdAt: string;
 }
@@ -94,6 +170,55 @@ export interface ProgressReport {
   managerFeedback?: ManagerFeedback[];
 }
 
+// A comment on a milestone assignment, or on one of its progress reports.
+// Top-level comments carry their replies; replies have parentId set.
+export interface MilestoneComment {
+  id: string;
+  assignmentId: string;
+  progressReportId?: string;
+  parentId?: string;
+  authorId: string;
+  authorName: string;
+  body: string;
+  mentions: string[];
+  createdAt: string;
+  editedAt?: string;
+  deletedAt?: string;
+  replies: MilestoneComment[];
+}
+
+export interface CommentRevision {
+  id: string;
+  commentId: string;
+  action: 'edit' | 'delete';
+  body: string;
+  revisedBy?: string;
+  createdAt: string;
+}
+
+// Someone who can take part in (and be @mentioned in) an assignment's comments.
+export interface CommentPerson {
+  id: string;
+  name: string;
+  role: UserRole;
+}
+
+// Proof of completion uploaded by the participant (private storage, opened
+// through api/milestone-proof).
+export interface MilestoneProof {
+  fileName: string;
+  uploadedAt: string;
+}
+
+export type MilestoneReviewDecision = 'verified' | 'changes_requested';
+
+// The program manager's latest review of a completed milestone.
+export interface MilestoneReview {
+  decision: MilestoneReviewDecision;
+  note?: string; // Required when changes were requested
+  reviewedAt?: string;
+}
+
 export interface Milestone {
   id: string;
   userId: string;
@@ -110,6 +235,10 @@ export interface Milestone {
   progressReports: ProgressReport[];
   assignmentInfo?: AssignmentInfo; // Assignment details
   managerFeedback?: ManagerFeedback[];
+  completionReward?: number; // Paid into the participant's balance cycle once verified
+  proof?: MilestoneProof;
+  review?: MilestoneReview;
+  isVerified?: boolean; // Completed and verified by a program manager; status stays COMPLETED
 }
 
 export interface MilestoneTemplate {
@@ -1,4 +1,8 @@
-import { Program, User, Milestone, Expense, BalanceSheetCycle, MilestoneStatus } from '../types';
+import { Program, User, Milestone, Expense, BalanceSheetCycle, ExpenseCategory, ExpenseStatus, MilestoneReward, MilestoneStatus } from '../types';
+import { DEFAULT_CURRENCY, expenseBaseAmount, formatMoney } from '../src/lib/currency';
+import { ParticipantFinancials, sumCountedExpenses } from '../src/lib/finance';
+import { buildReceiptViewerPath } from '../src/lib/receiptOcrShared';
+import { buildXlsx, XLSX_MIME_TYPE, XlsxCell, XlsxSheet } from './xlsxWriter';
 
 export interface ProgramReportData {
   program: Program;
@@ -52,13 +56,34 @@ class ExportManager {
   }
 
   /**
-   * Export expenses as CSV
+   * Export expenses as CSV, with each amount in its original currency and
+   * converted to the program currency, followed by any milestone rewards
    */
-  static exportExpensesCSV(expenses: Expense[], userName: string = 'export'): void {
-    const csvData = this.generateExpensesCSV(expenses);
+  static exportExpensesCSV(
+    expenses: Expense[],
+    userName: string = 'export',
+    baseCurrency: string = DEFAULT_CURRENCY,
+    rewards: MilestoneReward[] = []
+  ): void {
+    const csvData = this.generateExpensesCSV(expenses, baseCurrency, rewards);
     this.downloadFile(csvData, `expenses_${userName}_${Date.now()}.csv`, 'text/csv');
   }
 
+  /**
+   * Export a whole program's financial ledger as a multi-sheet XLSX workbook:
+   * summary, participant cycles, every expense with its receipt link, and
+   * category totals. Amounts are in the program currency unless labelled.
+   */
+  static exportProgramLedgerXLSX(
+    programName: string,
+    financials: ParticipantFinancials[],
+    categories: ExpenseCategory[] = [],
+    baseCurrency: string = DEFAULT_CURRENCY
+  ): void {
+    const workbook = buildXlsx(this.generateProgramLedgerSheets(programName, financials, categories, baseCurrency));
+    this.downloadFile(workbook, `ledger_${programName.replace(/\s+/g, '_')}_${Date.now()}.xlsx`, XLSX_MIME_TYPE);
+  }
+
   /**
    * Export milestones as CSV
    */
@@ -74,8 +99,8 @@ class ExportManager {
     participant: User;
     milestones: Milestone[];
     expenses: BalanceSheetCycle[];
-  }>): void {
-    const csvData = this.generateParticipantProgressCSV(participants);
+  }>, baseCurrency: string = DEFAULT_CURRENCY): void {
+    const csvData = this.generateParticipantProgressCSV(participants, baseCurrency);
     this.downloadFile(csvData, `participant_progress_${Date.now()}.csv`, 'text/csv');
   }
 
@@ -84,6 +109,7 @@ class ExportManager {
    */
   private static generateProgramReportCSV(data: any): string {
     const lines: string[] = [];
+    const currency = data.programInfo.currency || DEFAULT_CURRENCY;
 
     // Header information
     lines.push(`Program Report: ${data.programInfo.name}`);
@@ -97,8 +123,8 @@ class ExportManager {
     lines.push(`Total Participants,${data.participants}`);
     lines.push(`Average Completion,${data.progress.averageCompletion}%`);
     lines.push(`Overall Completion,${data.progress.overallCompletion}%`);
-    lines.push(`Total Budget,$${data.financial.totalBudget.toFixed(2)}`);
-    lines.push(`Total Spent,$${data.financial.totalSpent.toFixed(2)}`);
+    lines.push(`Total Budget,${this.formatCSVAmount(data.financial.totalBudget, currency)}`);
+    lines.push(`Total Spent,${this.formatCSVAmount(data.financial.totalSpent, currency)}`);
     lines.push(`Budget Utilization,${data.financial.averageUtilization}%`);
     lines.push(`Milestones Completed,${data.milestones.completed}/${data.milestones.total}`);
     lines.push(`Program Progress,${data.timeline.programProgress}%`);
@@ -155,9 +181,9 @@ class ExportManager {
     // Financial Summary
     lines.push('FINANCIAL SUMMARY');
     lines.push('Metric,Value');
-    lines.push(`Total Budget,$${data.financial.totalBudget.toFixed(2)}`);
-    lines.push(`Total Spent,$${data.financial.totalSpent.toFixed(2)}`);
-    lines.push(`Remaining Budget,$${(data.financial.totalBudget - data.financial.totalSpent).toFixed(2)}`);
+    lines.push(`Total Budget,${this.formatCSVAmount(data.financial.totalBudget, currency)}`);
+    lines.push(`Total Spent,${this.formatCSVAmount(data.financial.totalSpent, currency)}`);
+    lines.push(`Remaining Budget,${this.formatCSVAmount(data.financial.totalBudget - data.financial.totalSpent, currency)}`);
     lines.push(`Participants Over Budget,${data.financial.overBudget}`);
 
     return lines.join('\n');
@@ -166,27 +192,44 @@ class ExportManager {
   /**
    * Generate CSV for expenses
    */
-  private static generateExpensesCSV(expenses: Expense[]): string {
+  private static generateExpensesCSV(expenses: Expense[], baseCurrency: string, rewards: MilestoneReward[]): string {
     const lines: string[] = [];
 
     // Header
-    lines.push('Date,Category,Item,Amount,Contact,Remarks,Has Receipt');
+    lines.push(`Date,Category,Item,Amount,Currency,Amount (${baseCurrency}),Contact,Remarks,Has Receipt`);
 
     // Data rows
     expenses.forEach(expense => {
       const hasReceipt = expense.receiptUrl ? 'Yes' : 'No';
       const contact = expense.contact || '';
       const remarks = expense.remarks || '';
+      const currency = expense.currency || baseCurrency;
+      // Left blank when no exchange rate was available for the conversion.
+      const converted = currency === baseCurrency
+        ? expense.amount.toFixed(2)
+        : expense.convertedAmount?.toFixed(2) ?? '';
 
       lines.push(
-        `${expense.date},${expense.category},"${expense.item}",$${expense.amount.toFixed(2)},"${contact}","${remarks}",${hasReceipt}`
+        `${expense.date},${expense.category || ''},"${expense.item}",${expense.amount.toFixed(2)},${currency},${converted},` +
+        `"${contact}","${remarks}",${hasReceipt}`
       );
     });
 
     // Summary
-    const total = expenses.reduce((sum, exp) => sum + exp.amount, 0);
+    const total = expenses.reduce((sum, exp) => sum + expenseBaseAmount(exp), 0);
     lines.push('');
-    lines.push(`Total,,,${total.toFixed(2)},,,`);
+    lines.push(`Total,,,,,${total.toFixed(2)},,,`);
+
+    // Rewards are budget top-ups, not spending, so they get their own section
+    if (rewards.length > 0) {
+      lines.push('');
+      lines.push('MILESTONE REWARDS');
+      lines.push(`Credited,Milestone,Amount (${baseCurrency})`);
+      rewards.forEach(reward => {
+        lines.push(`${(reward.creditedAt || reward.createdAt).split('T')[0]},"${reward.milestoneTitle}",${reward.amount.toFixed(2)}`);
+      });
+      lines.push(`Total,,${rewards.reduce((sum, reward) => sum + reward.amount, 0).toFixed(2)}`);
+    }
 
     return lines.join('\n');
   }
@@ -226,14 +269,14 @@ class ExportManager {
     participant: User;
     milestones: Milestone[];
     expenses: BalanceSheetCycle[];
-  }>): string {
+  }>, baseCurrency: string): string {
     const lines: string[] = [];
 
     // Header
     lines.push('Participant Progress Report');
     lines.push(`Generated: ${new Date().toLocaleString()}`);
     lines.push('');
-    lines.push('Name,Email,Total Milestones,Completed,In Progress,Not Started,Completion %,Total Budget,Total Spent,Budget Used %');
+    lines.push(`Name,Email,Total Milestones,Completed,In Progress,Not Started,Completion %,Total Budget (${baseCurrency}),Total Spent (${baseCurrency}),Budget Used %`);
 
     participants.forEach(({ participant, milestones, expenses }) => {
       const completed = milestones.filter(m => m.status === MilestoneStatus.COMPLETED).length;
@@ -243,23 +286,174 @@ class ExportManager {
 
       const totalBudget = expenses.reduce((sum, cycle) => sum + cycle.budget, 0);
       const totalSpent = expenses.reduce((sum, cycle) =>
-        sum + cycle.expenses.reduce((expSum, exp) => expSum + exp.amount, 0), 0
+        sum + cycle.expenses.reduce((expSum, exp) => expSum + expenseBaseAmount(exp), 0), 0
       );
       const budgetUsed = totalBudget > 0 ? (totalSpent / totalBudget) * 100 : 0;
 
       lines.push(
         `${participant.name},${participant.email},${milestones.length},${completed},${inProgress},` +
-        `${notStarted},${completionRate.toFixed(1)}%,$${totalBudget.toFixed(2)},$${totalSpent.toFixed(2)},${budgetUsed.toFixed(1)}%`
+        `${notStarted},${completionRate.toFixed(1)}%,${totalBudget.toFixed(2)},${totalSpent.toFixed(2)},${budgetUsed.toFixed(1)}%`
       );
     });
 
     return lines.join('\n');
   }
 
+  /**
+   * Build the sheets for the program ledger workbook
+   */
+  private static generateProgramLedgerSheets(
+    programName: string,
+    financials: ParticipantFinancials[],
+    categories: ExpenseCategory[],
+    baseCurrency: string
+  ): XlsxSheet[] {
+    const money = (amount: number) => ({ money: amount });
+    const allExpenses = financials.flatMap(({ cycles }) => cycles.flatMap((cycle) => cycle.expenses));
+    const totalBudget = financials.reduce((sum, pf) => sum + pf.totalBudget, 0);
+    const totalSpent = financials.reduce((sum, pf) => sum + pf.totalSpent, 0);
+    const cycleRewards = (cycle: BalanceSheetCycle) => (cycle.rewards || []).reduce((sum, reward) => sum + reward.amount, 0);
+    const totalRewards = financials.reduce((sum, pf) => sum + pf.cycles.reduce((cycleSum, cycle) => cycleSum + cycleRewards(cycle), 0), 0);
+    const countByStatus = (status: ExpenseStatus) =>
+      allExpenses.filter((expense) => (expense.status || ExpenseStatus.SUBMITTED) === status).length;
+    const receiptOrigin = typeof window !== 'undefined' ? window.location.origin : '';
+
+    const summary: XlsxCell[][] = [
+      ['Program Ledger', programName],
+      ['Generated', new Date().toLocaleString()],
+      ['Currency', baseCurrency],
+      [],
+      ['Participants', financials.length],
+      ['Cycles', financials.reduce((count, pf) => count + pf.cycles.length, 0)],
+      ['Expenses', allExpenses.length],
+      ['Approved', countByStatus(ExpenseStatus.APPROVED)],
+      ['Awaiting review', countByStatus(ExpenseStatus.SUBMITTED)],
+      ['Needs info', countByStatus(ExpenseStatus.NEEDS_INFO)],
+      ['Rejected (not counted)', countByStatus(ExpenseStatus.REJECTED)],
+      [`Total budget (${baseCurrency})`, money(totalBudget)],
+      [`  of which milestone rewards (${baseCurrency})`, money(totalRewards)],
+      [`Total spent (${baseCurrency})`, money(totalSpent)],
+      [`Remaining (${baseCurrency})`, money(totalBudget - totalSpent)],
+      [],
+      ['Participant', 'Email', 'Cycles', 'Expenses', `Budget (${baseCurrency})`, `Spent (${baseCurrency})`, `Remaining (${baseCurrency})`, 'Awaiting Review'],
+      ...financials.map((pf) => [
+        pf.participant.name,
+        pf.participant.email,
+        pf.cycles.length,
+        pf.cycles.reduce((count, cycle) => count + cycle.expenses.length, 0),
+        money(pf.totalBudget),
+        money(pf.totalSpent),
+        money(pf.totalBudget - pf.totalSpent),
+        pf.pendingReviewCount
+      ])
+    ];
+    const missingRateCount = financials.reduce((count, pf) => count + pf.missingRateCount, 0);
+    if (missingRateCount > 0) {
+      summary.push([], [`${missingRateCount} expense(s) had no exchange rate to ${baseCurrency} and are counted at face value.`]);
+    }
+    summary.push([], ['Receipt links open in the app after you sign in.']);
+
+    const cycles: XlsxCell[][] = [
+      ['Participant', 'Start', 'End', 'Status', `Budget (${baseCurrency})`, `Carried Forward (${baseCurrency})`, `Rewards (${baseCurrency})`, `Spent (${baseCurrency})`, `Remaining (${baseCurrency})`, 'Expenses'],
+      ...financials.flatMap((pf) => pf.cycles.map((cycle) => {
+        const spent = sumCountedExpenses(cycle.expenses);
+        return [
+          pf.participant.name,
+          { date: cycle.startDate },
+          { date: cycle.endDate },
+          cycle.isActive ? 'Active' : 'Closed',
+          money(cycle.budget),
+          cycle.carriedForward === undefined ? null : money(cycle.carriedForward),
+          money(cycleRewards(cycle)),
+          money(spent),
+          money(cycle.budget - spent),
+          cycle.expenses.length
+        ];
+      }))
+    ];
+
+    const rewards: XlsxCell[][] = [
+      ['Participant', 'Cycle Start', 'Credited', 'Milestone', `Amount (${baseCurrency})`],
+      ...financials.flatMap((pf) => pf.cycles.flatMap((cycle) => (cycle.rewards || []).map((reward) => [
+        pf.participant.name,
+        { date: cycle.startDate },
+        { date: (reward.creditedAt || reward.createdAt).split('T')[0] },
+        reward.milestoneTitle,
+        money(reward.amount)
+      ])))
+    ];
+
+    const categoryName = (expense: Expense) =>
+      categories.find((category) => category.id === expense.categoryId)?.name || expense.category || 'Uncategorized';
+
+    const expenses: XlsxCell[][] = [
+      ['Participant', 'Cycle Start', 'Date', 'Item', 'Category', 'Amount', 'Currency', `Amount (${baseCurrency})`, 'Status', 'Merchant', 'Payment Method', 'Contact', 'Remarks', 'Review Note', 'Receipt'],
+      ...financials.flatMap((pf) => pf.cycles.flatMap((cycle) => cycle.expenses.map((expense) => {
+        const currency = expense.currency || baseCurrency;
+        // Left blank when no exchange rate was available for the conversion.
+        const converted = currency === baseCurrency ? expense.amount : expense.convertedAmount;
+        return [
+          pf.participant.name,
+          { date: cycle.startDate },
+          { date: expense.date },
+          expense.item,
+          categoryName(expense),
+          money(expense.amount),
+          currency,
+          converted === undefined ? null : money(converted),
+          expense.status || ExpenseStatus.SUBMITTED,
+          expense.merchant,
+          expense.paymentMethod,
+          expense.contact,
+          expense.remarks,
+          expense.reviewReason,
+          expense.receiptUrl ? { link: `${receiptOrigin}${buildReceiptViewerPath(expense.receiptUrl)}`, text: 'Open receipt' } : null
+        ];
+      })))
+    ];
+
+    const totalsByCategory = new Map<string, { count: number; total: number }>();
+    for (const expense of allExpenses) {
+      if (expense.status === ExpenseStatus.REJECTED) continue;
+      const name = categoryName(expense);
+      const entry = totalsByCategory.get(name) || { count: 0, total: 0 };
+      entry.count += 1;
+      entry.total += expenseBaseAmount(expense);
+      totalsByCategory.set(name, entry);
+    }
+    const categoryRows: XlsxCell[][] = [
+      ['Category', 'Expenses', `Total (${baseCurrency})`, 'Share of Spending'],
+      ...Array.from(totalsByCategory.entries())
+        .sort((a, b) => b[1].total - a[1].total)
+        .map(([name, { count, total }]) => [
+          name,
+          count,
+          money(total),
+          totalSpent > 0 ? `${((total / totalSpent) * 100).toFixed(1)}%` : '-'
+        ])
+    ];
+
+    return [
+      { name: 'Summary', rows: summary, columnWidths: [28, 28, 10, 10, 16, 16, 18, 16] },
+      { name: 'Cycles', rows: cycles, columnWidths: [24, 12, 12, 10, 16, 22, 16, 16, 18, 10] },
+      { name: 'Expenses', rows: expenses, columnWidths: [24, 12, 12, 32, 18, 12, 10, 16, 12, 20, 16, 20, 32, 32, 14] },
+      { name: 'Rewards', rows: rewards, columnWidths: [24, 12, 12, 32, 16] },
+      { name: 'Categories', rows: categoryRows, columnWidths: [24, 10, 16, 18] }
+    ];
+  }
+
+  /**
+   * Amount with its currency code, without the thousands separators that
+   * would split a CSV cell
+   */
+  private static formatCSVAmount(amount: number, currency: string): string {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+
   /**
    * Download file utility
    */
-  private static downloadFile(content: string, filename: string, mimeType: string): void {
+  private static downloadFile(content: string | Uint8Array<ArrayBuffer>, filename: string, mimeType: string): void {
     const blob = new Blob([content], { type: mimeType });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
@@ -307,6 +501,7 @@ class ExportManager {
    * Generate printable HTML report
    */
   static generatePrintableReport(data: any): void {
+    const currency = data.programInfo.currency || DEFAULT_CURRENCY;
     const html = `
       <!DOCTYPE html>
       <html>
@@ -351,11 +546,11 @@ class ExportManager {
             </div>
             <div class="metric">
               <div class="metric-label">Total Budget</div>
-              <div class="metric-value">$${data.financial.totalBudget.toFixed(2)}</div>
+              <div class="metric-value">${formatMoney(data.financial.totalBudget, currency)}</div>
             </div>
             <div class="metric">
               <div class="metric-label">Total Spent</div>
-              <div class="metric-value">$${data.financial.totalSpent.toFixed(2)}</div>
+              <div class="metric-value">${formatMoney(data.financial.totalSpent, currency)}</div>
             </div>
             <div class="metric">
               <div class="metric-label">Milestones Completed</div>
@@ -432,15 +627,15 @@ class ExportManager {
             <tbody>
               <tr>
                 <td>Total Budget</td>
-                <td>$${data.financial.totalBudget.toFixed(2)}</td>
+                <td>${formatMoney(data.financial.totalBudget, currency)}</td>
               </tr>
               <tr>
                 <td>Total Spent</td>
-                <td>$${data.financial.totalSpent.toFixed(2)}</td>
+                <td>${formatMoney(data.financial.totalSpent, currency)}</td>
               </tr>
               <tr>
                 <td>Remaining Budget</td>
-                <td>$${(data.financial.totalBudget - data.financial.totalSpent).toFixed(2)}</td>
+                <td>${formatMoney(data.financial.totalBudget - data.financial.totalSpent, currency)}</td>
               </tr>
               <tr>
                 <td>Budget Utilization</td>
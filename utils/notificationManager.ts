@@ -137,22 +137,6 @@ export class NotificationManager {
     });
   }
 
-  // Create deadline notification
-  static notifyDeadline(
-    participantId: string,
-    milestoneTitle: string,
-    daysRemaining: number,
-    milestoneId: string
-  ): void {
-    const title = 'Milestone Deadline Approaching';
-    const message = `"${milestoneTitle}" is due in ${daysRemaining} day${daysRemaining !== 1 ? 's' : ''}. Please ensure you complete it on time.`;
-
-    this.createNotification(participantId, 'deadline', title, message, {
-      milestoneId,
-      daysRemaining
-    });
-  }
-
   // Create decline notification for manager
   static notifyDecline(
     managerId: string,
@@ -171,41 +155,6 @@ export class NotificationManager {
       reason
     });
   }
-
-  // Check for approaching deadlines and create notifications
-  static checkDeadlines(userId: string): void {
-    const milestoneKey = `gbw_milestones_${userId}`;
-    const milestonesData = localStorage.getItem(milestoneKey);
-
-    if (!milestonesData) return;
-
-    const milestones = JSON.parse(milestonesData);
-    const now = new Date();
-    const notifiedKey = `gbw_notified_deadlines_${userId}`;
-    const notifiedData = localStorage.getItem(notifiedKey);
-    const notified = notifiedData ? JSON.parse(notifiedData) : {};
-
-    milestones.forEach((milestone: any) => {
-      if (milestone.status === 'completed') return;
-
-      const endDate = new Date(milestone.endDate);
-      const daysRemaining = Math.ceil((endDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-
-      // Notify at 7 days, 3 days, and 1 day before deadline
-      const notificationDays = [7, 3, 1];
-
-      if (notificationDays.includes(daysRemaining)) {
-        const notificationKey = `${milestone.id}_${daysRemaining}`;
-
-        if (!notified[notificationKey]) {
-          this.notifyDeadline(userId, milestone.title, daysRemaining, milestone.id);
-          notified[notificationKey] = true;
-        }
-      }
-    });
-
-    localStorage.setItem(notifiedKey, JSON.stringify(notified));
-  }
 }
 
 export default NotificationManager;
\ No newline at end of file
@@ -6,7 +6,7 @@ import { receiptApiProxy } from './vite.plugins/receiptApiProxy';
 export default defineConfig(({ command, mode }) => {
   // Dev-only: the receipt API proxy (vite.plugins/receiptApiProxy.ts) runs the
   // server-side handlers in api/ during `npm run dev`. Those handlers read
-  // secrets from process.env (Gemini key, Supabase service role key, URL, anon
+  // secrets from process.env (OCR provider keys, Supabase service role key, URL, anon
   // key). Vite does NOT load .env.local into process.env, so without this the
   // dev handlers see undefined and receipt uploads 500.
   //
@@ -19,7 +19,29 @@ export default defineConfig(({ command, mode }) => {
     const env = loadEnv(mode, process.cwd(), '');
 
     const serverEnvKeys = [
+      'RECEIPT_OCR_PROVIDER',
       'GEMINI_API_KEY',
+      'GEMINI_MODEL',
+      'OPENAI_API_KEY',
+      'OPENAI_BASE_URL',
+      'OPENAI_OCR_MODEL',
+      'OCR_STUB_RESPONSE',
+      'OCR_RATE_LIMIT_STORE',
+      'OCR_RATE_LIMIT_WINDOW_SECONDS',
+      'OCR_RATE_LIMIT_MAX_REQUESTS',
+      'OCR_DAILY_USER_QUOTA',
+      'EMAIL_TRANSPORT',
+      'EMAIL_FROM',
+      'EMAIL_SINK_DIR',
+      'SENDGRID_FROM_EMAIL',
+      'SMTP_HOST',
+      'SMTP_PORT',
+      'SMTP_SECURE',
+      'SMTP_USER',
+      'SMTP_PASSWORD',
+      'CRON_SECRET',
+      'APP_URL',
+      'NEXT_PUBLIC_APP_URL',
       'SUPABASE_URL',
       'SUPABASE_ANON_KEY',
       'SUPABASE_SERVICE_ROLE_KEY',
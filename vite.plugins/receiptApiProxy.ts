@@ -1,6 +1,12 @@
 import type { IncomingHttpHeaders, IncomingMessage, ServerResponse } from 'node:http'
+import deadlineRemindersHandler from '../api/deadline-reminders'
+import milestoneProofHandler from '../api/milestone-proof'
+import * as notificationEmailer from '../api/notification-emailer'
+import ocrQuotaHandler from '../api/ocr-quota'
+import programReportHandler from '../api/program-report'
 import receiptOcrHandler from '../api/receipt-ocr'
 import receiptViewHandler from '../api/receipts/[token]'
+import * as reportScheduler from '../api/report-scheduler'
 
 type NodeHeaders = IncomingHttpHeaders
 
@@ -16,6 +22,36 @@ export function receiptApiProxy() {
           return
         }
 
+        if (requestUrl.pathname === '/api/ocr-quota' && req.method === 'GET') {
+          await handleNodeRequest(req, res, ocrQuotaHandler)
+          return
+        }
+
+        if (requestUrl.pathname === '/api/program-report' && (req.method === 'POST' || req.method === 'GET')) {
+          await handleNodeRequest(req, res, programReportHandler)
+          return
+        }
+
+        if (requestUrl.pathname === '/api/report-scheduler' && (req.method === 'POST' || req.method === 'GET')) {
+          await handleNodeRequest(req, res, req.method === 'GET' ? reportScheduler.GET : reportScheduler.POST)
+          return
+        }
+
+        if (requestUrl.pathname === '/api/deadline-reminders' && (req.method === 'POST' || req.method === 'GET')) {
+          await handleNodeRequest(req, res, deadlineRemindersHandler)
+          return
+        }
+
+        if (requestUrl.pathname === '/api/notification-emailer' && (req.method === 'POST' || req.method === 'GET')) {
+          await handleNodeRequest(req, res, req.method === 'GET' ? notificationEmailer.GET : notificationEmailer.POST)
+          return
+        }
+
+        if (requestUrl.pathname === '/api/milestone-proof' && (req.method === 'POST' || req.method === 'GET')) {
+          await handleNodeRequest(req, res, milestoneProofHandler)
+          return
+        }
+
         if (requestUrl.pathname.startsWith('/api/receipts/') && req.method === 'GET') {
           await handleNodeRequest(req, res, receiptViewHandler)
           return